@@ -0,0 +1,85 @@
+"use client";
+
+import { useRef } from "react";
+import Image from "next/image";
+
+type Props = {
+  previewUrl: string | null;
+  onUpload: (file: File, dataUrl: string) => void;
+  onClear: () => void;
+  disabled?: boolean;
+};
+
+// Optional second logo for dark browser tabs; shown on a dark tile so the
+// user can check it actually reads there
+export default function DarkSourceUpload({
+  previewUrl,
+  onUpload,
+  onClear,
+  disabled,
+}: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const readFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === "string") onUpload(file, reader.result);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="mt-3 flex items-center gap-3 rounded-lg border border-white/10 bg-white/5 p-2">
+      <div className="relative flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-[#202124]">
+        {previewUrl ? (
+          <Image
+            src={previewUrl}
+            alt="Dark mode source"
+            fill
+            sizes="40px"
+            className="object-contain p-1.5"
+            unoptimized
+          />
+        ) : (
+          <span className="text-[10px] text-white/40">dark</span>
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-xs text-white/80">Dark mode logo (optional)</p>
+        <p className="text-[10px] text-white/50">
+          Used for favicons on dark browser tabs. Without it, an SVG source gets
+          a plate or inverted colors in dark mode.
+        </p>
+      </div>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[11px] text-white/80 hover:bg-white/20 disabled:opacity-50"
+      >
+        {previewUrl ? "Replace" : "Upload"}
+      </button>
+      {previewUrl ? (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={onClear}
+          className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[11px] text-white/60 hover:text-red-300 disabled:opacity-50"
+        >
+          Remove
+        </button>
+      ) : null}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/svg+xml"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) readFile(file);
+        }}
+      />
+    </div>
+  );
+}
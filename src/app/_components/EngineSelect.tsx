@@ -0,0 +1,76 @@
+"use client";
+
+import { api } from "@/trpc/react";
+
+export type EngineChoice = "auto" | "magick" | "jimp";
+
+type Props = {
+  value: EngineChoice;
+  onChange: (next: EngineChoice) => void;
+};
+
+// Per-run engine override for power users, with what this server has installed
+export default function EngineSelect({ value, onChange }: Props) {
+  const { data: info, isError } = api.system.engineInfo.useQuery(undefined, {
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+  const magick = info?.magick;
+
+  return (
+    <div>
+      <label className="block">
+        <span className="mb-1 block text-[11px] text-white/60">
+          Image engine
+        </span>
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value as EngineChoice)}
+          className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none focus:border-emerald-400/40"
+        >
+          <option value="auto" className="bg-[#0b0b13]">
+            Auto (ImageMagick when installed)
+          </option>
+          <option
+            value="magick"
+            disabled={magick ? !magick.available : false}
+            className="bg-[#0b0b13]"
+          >
+            ImageMagick
+          </option>
+          <option value="jimp" className="bg-[#0b0b13]">
+            Jimp
+          </option>
+        </select>
+      </label>
+
+      <p className="mt-1 text-[10px] text-white/50">
+        {isError
+          ? "Engine details unavailable."
+          : !info
+            ? "Checking engines..."
+            : magick?.available
+              ? `${magick.version} (${magick.formats.write.length} writable formats)`
+              : "ImageMagick is not installed; Auto uses Jimp."}
+      </p>
+      {info && value === "jimp" ? (
+        <p className="mt-1 text-[10px] text-amber-200/80">
+          Jimp writes {info.jimp.formats.write.join(", ").toUpperCase()} only;
+          JPEG sources above {info.jimp.limits.maxResolutionInMP} MP are
+          refused.
+        </p>
+      ) : null}
+      {magick?.available && magick.formats.write.length ? (
+        <details className="mt-1 text-[10px] text-white/50">
+          <summary className="cursor-pointer">ImageMagick formats</summary>
+          <p className="mt-1 break-words">
+            Read: {magick.formats.read.join(", ")}
+          </p>
+          <p className="mt-1 break-words">
+            Write: {magick.formats.write.join(", ")}
+          </p>
+        </details>
+      ) : null}
+    </div>
+  );
+}
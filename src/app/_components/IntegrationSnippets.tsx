@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+
+export type FilePlacement = {
+  fileName: string;
+  category: string;
+  html: string;
+  nextjs: string;
+  astro: string;
+  vue: string;
+};
+
+export type Integrations = {
+  html: string;
+  nextjs: string;
+  astro: string;
+  vue: string;
+  placement: FilePlacement[];
+};
+
+type Props = {
+  integrations: Integrations;
+  metaFileUrl?: string | null;
+};
+
+type Tab = "html" | "nextjs" | "astro" | "vue" | "placement";
+
+const TABS: Array<{ id: Tab; label: string; hint: string }> = [
+  { id: "html", label: "HTML", hint: "Paste into <head>" },
+  { id: "nextjs", label: "Next.js", hint: "app/layout.tsx" },
+  { id: "astro", label: "Astro", hint: "src/components/SiteHead.astro" },
+  { id: "vue", label: "Vue", hint: "App.vue or a layout component" },
+  { id: "placement", label: "Files", hint: "Where each file goes" },
+];
+
+const PLACEMENT_COLUMNS = ["html", "nextjs", "astro", "vue"] as const;
+
+function placementText(rows: FilePlacement[]): string {
+  return rows
+    .map(
+      (r) => `${r.fileName}\t${PLACEMENT_COLUMNS.map((c) => r[c]).join("\t")}`,
+    )
+    .join("\n");
+}
+
+export default function IntegrationSnippets({
+  integrations,
+  metaFileUrl,
+}: Props) {
+  const [tab, setTab] = useState<Tab>("html");
+  const [copied, setCopied] = useState<Tab | null>(null);
+
+  const current = TABS.find((t) => t.id === tab)!;
+  const text =
+    tab === "placement"
+      ? placementText(integrations.placement)
+      : integrations[tab];
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(tab);
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      // clipboard unavailable (insecure context); the code stays selectable
+    }
+  };
+
+  return (
+    <section className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white/90">Integration</h3>
+        <div className="flex items-center gap-2">
+          {tab === "html" && metaFileUrl ? (
+            <a
+              href={metaFileUrl}
+              download="meta-tags.html"
+              className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[10px] text-white/85 hover:bg-white/20"
+            >
+              Download HTML
+            </a>
+          ) : null}
+          <button
+            type="button"
+            onClick={onCopy}
+            className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[10px] text-white/85 hover:bg-white/20"
+          >
+            {copied === tab ? "Copied" : "Copy"}
+          </button>
+        </div>
+      </div>
+
+      <div role="tablist" className="mb-2 flex flex-wrap items-center gap-1">
+        {TABS.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            role="tab"
+            aria-selected={tab === t.id}
+            onClick={() => setTab(t.id)}
+            className={`rounded-md px-2 py-1 text-[11px] ${
+              tab === t.id
+                ? "bg-white/20 text-white"
+                : "text-white/60 hover:bg-white/10 hover:text-white/85"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <span className="ml-auto text-[10px] text-white/50">
+          {current.hint}
+        </span>
+      </div>
+
+      {tab === "placement" ? (
+        <div className="max-h-72 overflow-auto rounded-md bg-black/30 p-3">
+          <table className="w-full text-left text-[11px] leading-5 text-white/80">
+            <thead className="text-white/50">
+              <tr>
+                <th className="pr-3 font-medium">File</th>
+                <th className="pr-3 font-medium">HTML (URL)</th>
+                <th className="pr-3 font-medium">Next.js</th>
+                <th className="pr-3 font-medium">Astro</th>
+                <th className="font-medium">Vue</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {integrations.placement.map((r) => (
+                <tr key={r.fileName}>
+                  <td className="pr-3 text-emerald-100">{r.fileName}</td>
+                  {PLACEMENT_COLUMNS.map((c) => (
+                    <td key={c} className="pr-3">
+                      {r[c]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <pre className="max-h-72 overflow-auto rounded-md bg-black/30 p-3 text-[11px] leading-5 text-emerald-100">
+          <code>{text}</code>
+        </pre>
+      )}
+    </section>
+  );
+}
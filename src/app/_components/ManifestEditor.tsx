@@ -0,0 +1,458 @@
+"use client";
+
+import { useState } from "react";
+
+export type ManifestDisplay =
+  | "fullscreen"
+  | "standalone"
+  | "minimal-ui"
+  | "browser";
+
+export type ManifestDraft = {
+  name?: string;
+  short_name?: string;
+  start_url?: string;
+  scope?: string;
+  display?: ManifestDisplay;
+  display_override?: Array<
+    ManifestDisplay | "window-controls-overlay" | "tabbed"
+  >;
+  orientation?:
+    | "any"
+    | "natural"
+    | "landscape"
+    | "landscape-primary"
+    | "landscape-secondary"
+    | "portrait"
+    | "portrait-primary"
+    | "portrait-secondary";
+  categories?: string[];
+  shortcuts?: Array<{
+    name: string;
+    short_name?: string;
+    description?: string;
+    url: string;
+  }>;
+  screenshots?: Array<{
+    src: string;
+    sizes?: string;
+    form_factor?: "narrow" | "wide";
+    label?: string;
+  }>;
+};
+
+export type ManifestIssue = {
+  severity: "error" | "warning";
+  kind: "spec" | "installability";
+  path: string;
+  message: string;
+};
+
+type Props = {
+  value: ManifestDraft;
+  onChange: (next: ManifestDraft) => void;
+  issues?: ManifestIssue[] | null;
+  onValidate?: () => void;
+  validating?: boolean;
+};
+
+const DISPLAY_OPTIONS: ManifestDisplay[] = [
+  "standalone",
+  "fullscreen",
+  "minimal-ui",
+  "browser",
+];
+const OVERRIDE_OPTIONS: NonNullable<ManifestDraft["display_override"]> = [
+  "window-controls-overlay",
+  "tabbed",
+  "standalone",
+  "minimal-ui",
+];
+const ORIENTATION_OPTIONS: NonNullable<ManifestDraft["orientation"]>[] = [
+  "any",
+  "natural",
+  "portrait",
+  "portrait-primary",
+  "portrait-secondary",
+  "landscape",
+  "landscape-primary",
+  "landscape-secondary",
+];
+
+export default function ManifestEditor({
+  value,
+  onChange,
+  issues,
+  onValidate,
+  validating,
+}: Props) {
+  // Free text while typing; parsed into the list on every change. Falls back
+  // to the list when it is replaced from outside (reset, recipe import).
+  const [categoriesText, setCategoriesText] = useState("");
+  const categories = value.categories ?? [];
+  const categoriesShown =
+    parseCategories(categoriesText).join() === categories.join()
+      ? categoriesText
+      : categories.join(", ");
+
+  const set = <K extends keyof ManifestDraft>(key: K, v: ManifestDraft[K]) =>
+    onChange({ ...value, [key]: v });
+
+  const shortcuts = value.shortcuts ?? [];
+  const screenshots = value.screenshots ?? [];
+  const overrides = value.display_override ?? [];
+
+  return (
+    <aside className="w-full rounded-2xl border border-white/10 bg-white/5 p-4 shadow-[0_0_0_1px_rgba(255,255,255,0.05)] backdrop-blur-md">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-sm font-semibold tracking-wider text-white/70 uppercase">
+          Web App Manifest
+        </h2>
+        {onValidate ? (
+          <button
+            type="button"
+            onClick={onValidate}
+            disabled={validating}
+            className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[11px] text-white/70 hover:bg-white/10 disabled:opacity-50"
+          >
+            {validating ? "Checking..." : "Validate"}
+          </button>
+        ) : null}
+      </div>
+      <p className="mb-3 text-[10px] text-white/50">
+        Blank fields keep the generated defaults (brand name, colors).
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Field
+          label="name"
+          value={value.name ?? ""}
+          onChange={(v) => set("name", v)}
+        />
+        <Field
+          label="short_name"
+          value={value.short_name ?? ""}
+          onChange={(v) => set("short_name", v)}
+        />
+        <Field
+          label="start_url"
+          placeholder="/"
+          value={value.start_url ?? ""}
+          onChange={(v) => set("start_url", v)}
+        />
+        <Field
+          label="scope"
+          placeholder="/"
+          value={value.scope ?? ""}
+          onChange={(v) => set("scope", v)}
+        />
+        <Choice
+          label="display"
+          value={value.display ?? ""}
+          options={DISPLAY_OPTIONS}
+          onChange={(v) => set("display", (v || undefined) as ManifestDisplay)}
+        />
+        <Choice
+          label="orientation"
+          value={value.orientation ?? ""}
+          options={ORIENTATION_OPTIONS}
+          onChange={(v) =>
+            set("orientation", (v || undefined) as ManifestDraft["orientation"])
+          }
+        />
+      </div>
+
+      <div className="mt-2">
+        <span className="mb-1 block text-[11px] text-white/60">
+          display_override (in order of preference)
+        </span>
+        <div className="flex flex-wrap gap-1.5">
+          {OVERRIDE_OPTIONS.map((mode) => {
+            const on = overrides.includes(mode);
+            return (
+              <button
+                key={mode}
+                type="button"
+                aria-pressed={on}
+                onClick={() =>
+                  set(
+                    "display_override",
+                    on
+                      ? overrides.filter((m) => m !== mode)
+                      : [...overrides, mode],
+                  )
+                }
+                className={[
+                  "rounded-md border px-2 py-1 text-[11px] transition",
+                  on
+                    ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-200"
+                    : "border-white/10 bg-white/5 text-white/70 hover:bg-white/10",
+                ].join(" ")}
+              >
+                {mode}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mt-2">
+        <Field
+          label="categories (comma separated)"
+          placeholder="productivity, utilities"
+          value={categoriesShown}
+          onChange={(v) => {
+            setCategoriesText(v);
+            set("categories", parseCategories(v));
+          }}
+        />
+      </div>
+
+      <ListHeader
+        title="Shortcuts"
+        hint="Icons are generated from the source image"
+        onAdd={() => set("shortcuts", [...shortcuts, { name: "", url: "" }])}
+        disabled={shortcuts.length >= 10}
+      />
+      {shortcuts.map((s, i) => (
+        <Row
+          key={i}
+          onRemove={() =>
+            set(
+              "shortcuts",
+              shortcuts.filter((_, j) => j !== i),
+            )
+          }
+        >
+          <Field
+            label="name"
+            value={s.name}
+            onChange={(v) =>
+              set(
+                "shortcuts",
+                shortcuts.map((x, j) => (j === i ? { ...x, name: v } : x)),
+              )
+            }
+          />
+          <Field
+            label="url"
+            placeholder="/new"
+            value={s.url}
+            onChange={(v) =>
+              set(
+                "shortcuts",
+                shortcuts.map((x, j) => (j === i ? { ...x, url: v } : x)),
+              )
+            }
+          />
+          <Field
+            label="description"
+            value={s.description ?? ""}
+            onChange={(v) =>
+              set(
+                "shortcuts",
+                shortcuts.map((x, j) =>
+                  j === i ? { ...x, description: v } : x,
+                ),
+              )
+            }
+          />
+        </Row>
+      ))}
+
+      <ListHeader
+        title="Screenshots"
+        hint="URLs on your site, e.g. /screenshots/home.png"
+        onAdd={() =>
+          set("screenshots", [...screenshots, { src: "", sizes: "" }])
+        }
+        disabled={screenshots.length >= 10}
+      />
+      {screenshots.map((s, i) => (
+        <Row
+          key={i}
+          onRemove={() =>
+            set(
+              "screenshots",
+              screenshots.filter((_, j) => j !== i),
+            )
+          }
+        >
+          <Field
+            label="src"
+            value={s.src}
+            onChange={(v) =>
+              set(
+                "screenshots",
+                screenshots.map((x, j) => (j === i ? { ...x, src: v } : x)),
+              )
+            }
+          />
+          <Field
+            label="sizes"
+            placeholder="1280x720"
+            value={s.sizes ?? ""}
+            onChange={(v) =>
+              set(
+                "screenshots",
+                screenshots.map((x, j) => (j === i ? { ...x, sizes: v } : x)),
+              )
+            }
+          />
+          <Choice
+            label="form_factor"
+            value={s.form_factor ?? ""}
+            options={["narrow", "wide"]}
+            onChange={(v) =>
+              set(
+                "screenshots",
+                screenshots.map((x, j) =>
+                  j === i
+                    ? {
+                        ...x,
+                        form_factor: (v || undefined) as "narrow" | "wide",
+                      }
+                    : x,
+                ),
+              )
+            }
+          />
+          <Field
+            label="label"
+            value={s.label ?? ""}
+            onChange={(v) =>
+              set(
+                "screenshots",
+                screenshots.map((x, j) => (j === i ? { ...x, label: v } : x)),
+              )
+            }
+          />
+        </Row>
+      ))}
+
+      {issues ? (
+        <div className="mt-4">
+          <h3 className="mb-1 text-xs font-medium tracking-wide text-white/60">
+            {issues.length ? `${issues.length} issue(s)` : "No issues found"}
+          </h3>
+          <ul className="space-y-1">
+            {issues.map((issue, i) => (
+              <li
+                key={`${issue.path}-${i}`}
+                className={[
+                  "rounded-md border px-2 py-1 text-[11px]",
+                  issue.severity === "error"
+                    ? "border-red-400/30 bg-red-500/10 text-red-200"
+                    : "border-amber-400/30 bg-amber-500/10 text-amber-200",
+                ].join(" ")}
+              >
+                <span className="font-mono">{issue.path}</span>
+                {issue.kind === "installability" ? " (install)" : ""}:{" "}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </aside>
+  );
+}
+
+function parseCategories(text: string): string[] {
+  return text
+    .split(",")
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function Field(props: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-[11px] text-white/60">
+        {props.label}
+      </span>
+      <input
+        type="text"
+        value={props.value}
+        placeholder={props.placeholder}
+        onChange={(e) => props.onChange(e.target.value)}
+        className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none placeholder:text-white/40 focus:border-emerald-400/40"
+      />
+    </label>
+  );
+}
+
+function Choice(props: {
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (v: string) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-[11px] text-white/60">
+        {props.label}
+      </span>
+      <select
+        value={props.value}
+        onChange={(e) => props.onChange(e.target.value)}
+        className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none focus:border-emerald-400/40"
+      >
+        <option value="" className="bg-[#0b0b13]">
+          (default)
+        </option>
+        {props.options.map((opt) => (
+          <option key={opt} value={opt} className="bg-[#0b0b13]">
+            {opt}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function ListHeader(props: {
+  title: string;
+  hint: string;
+  onAdd: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="mt-4 mb-2 flex items-center justify-between">
+      <div>
+        <h3 className="text-xs font-medium tracking-wide text-white/60">
+          {props.title}
+        </h3>
+        <p className="text-[10px] text-white/40">{props.hint}</p>
+      </div>
+      <button
+        type="button"
+        onClick={props.onAdd}
+        disabled={props.disabled}
+        className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[11px] text-white/70 hover:bg-white/10 disabled:opacity-50"
+      >
+        Add
+      </button>
+    </div>
+  );
+}
+
+function Row(props: { children: React.ReactNode; onRemove: () => void }) {
+  return (
+    <div className="mb-2 rounded-lg border border-white/10 bg-white/5 p-2">
+      <div className="grid grid-cols-2 gap-2">{props.children}</div>
+      <button
+        type="button"
+        onClick={props.onRemove}
+        className="mt-2 text-[11px] text-white/50 hover:text-red-300"
+      >
+        Remove
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import Image from "next/image";
+import type { VariantItem } from "@/app/_components/ResultGrid";
+
+type Props = {
+  variants: VariantItem[];
+};
+
+// Launcher mask shapes used by Android adaptive icons
+const MASKS: Array<{ id: string; label: string; style: CSSProperties }> = [
+  { id: "circle", label: "Circle", style: { borderRadius: "50%" } },
+  {
+    id: "squircle",
+    label: "Squircle",
+    style: { clipPath: "url(#pf-mask-squircle)" },
+  },
+  { id: "rounded", label: "Rounded", style: { borderRadius: "18%" } },
+  {
+    id: "teardrop",
+    label: "Teardrop",
+    style: { borderRadius: "50% 50% 18% 50%" },
+  },
+];
+
+// pwa-192x192.png, pwa-maskable-512x512.png, ... (not splash screens)
+const PWA_ICON_RE = /^pwa-(?:maskable-)?\d+x\d+\.(png|webp|jpe?g)$/i;
+
+export default function MaskPreviews({ variants }: Props) {
+  const icons = variants.filter((v) => PWA_ICON_RE.test(v.filename));
+  if (!icons.length) return null;
+
+  return (
+    <section className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+      {/* Superellipse clip shared by every squircle preview */}
+      <svg width="0" height="0" className="absolute" aria-hidden="true">
+        <clipPath id="pf-mask-squircle" clipPathUnits="objectBoundingBox">
+          <path d="M0.5,0 C0.9,0 1,0.1 1,0.5 C1,0.9 0.9,1 0.5,1 C0.1,1 0,0.9 0,0.5 C0,0.1 0.1,0 0.5,0 Z" />
+        </clipPath>
+      </svg>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white/90">
+          Android Mask Previews
+        </h3>
+        <span className="text-[10px] text-white/50">
+          Dashed circle: 80% safe zone
+        </span>
+      </div>
+      <div className="space-y-3">
+        {icons.map((icon) => (
+          <div key={icon.id} className="flex flex-wrap items-center gap-3">
+            <span className="w-48 truncate text-[11px] text-white/70">
+              {icon.filename}
+            </span>
+            {MASKS.map((mask) => (
+              <figure key={mask.id} className="flex flex-col items-center">
+                <div className="relative h-16 w-16">
+                  <Image
+                    src={icon.url}
+                    alt={`${icon.filename} with ${mask.label.toLowerCase()} mask`}
+                    fill
+                    sizes="64px"
+                    className="object-cover"
+                    style={mask.style}
+                    unoptimized
+                  />
+                  <span className="pointer-events-none absolute inset-[10%] rounded-full border border-dashed border-white/40" />
+                </div>
+                <figcaption className="mt-1 text-[10px] text-white/50">
+                  {mask.label}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,16 +1,46 @@
 "use client";
 
 import React, { useCallback, useMemo, useState, useEffect } from "react";
+import EngineSelect, { type EngineChoice } from "@/app/_components/EngineSelect";
 
 export type PicturePressSelections = {
-  outputFormat: "jpeg" | "png" | "webp" | "gif" | "tiff" | "bmp";
+  outputFormat: "jpeg" | "png" | "webp" | "gif" | "tiff" | "bmp" | "avif" | "heif" | "ico";
   quality?: number; // 1-100, only for lossy formats
+  target?: PicturePressTarget; // replaces the fixed quality with a per-image search
+  avifSpeed?: number; // 0-10, only for AVIF
+  icoSizes?: number[]; // only for ICO
+  resize?: PicturePressResize; // omitted keeps the source size
+  responsive?: PicturePressResponsive; // widths x formats; outputFormat is the fallback
+  metadata?: PicturePressMetadata; // defaults to "icc"
   namingConvention: "keep-original" | "custom-pattern";
   customPattern?: string;
   prefix?: string;
   suffix?: string;
+  engine?: EngineChoice; // per-run override; "auto" prefers ImageMagick
+  concurrency?: number; // files converted at once, defaults to 1
 };
 
+export type PicturePressResize = {
+  width?: number;
+  height?: number;
+  fit?: "inside" | "contain" | "cover" | "fill"; // defaults to "inside"
+  neverUpscale?: boolean; // defaults to true
+};
+
+export type PicturePressResponsive = {
+  widths: number[];
+  formats: Array<PicturePressSelections["outputFormat"]>; // <source> formats, best first
+  sizes?: string;
+};
+
+// Byte budget or SSIM floor the quality is tuned to
+export type PicturePressTarget = {
+  maxBytes?: number;
+  minSsim?: number; // 0-1
+};
+
+export type PicturePressMetadata = "strip" | "icc" | "copyright" | "keep";
+
 type Props = {
   value: PicturePressSelections;
   onChange: (next: PicturePressSelections) => void;
@@ -28,8 +58,100 @@ const FORMAT_OPTIONS: Array<{
   { value: "gif", label: "GIF", isLossy: false },
   { value: "tiff", label: "TIFF", isLossy: false },
   { value: "bmp", label: "BMP", isLossy: false },
+  { value: "avif", label: "AVIF", isLossy: true },
+  { value: "heif", label: "HEIF", isLossy: true },
+  { value: "ico", label: "ICO", isLossy: false },
+];
+
+const FIT_OPTIONS: Array<{
+  value: NonNullable<PicturePressResize["fit"]>;
+  label: string;
+  help: string;
+}> = [
+  { value: "inside", label: "Max size", help: "Fit within the width and/or height, keeping the aspect ratio" },
+  { value: "contain", label: "Contain", help: "Fit within the box and pad the rest to its exact size" },
+  { value: "cover", label: "Cover", help: "Fill the box exactly, cropping the overflow from the centre" },
+  { value: "fill", label: "Stretch", help: "Stretch to exactly the width and height" },
+];
+
+const MAX_RESIZE_DIMENSION = 10000;
+
+const RESPONSIVE_WIDTH_OPTIONS = [320, 480, 640, 768, 960, 1280, 1600, 1920, 2560];
+const RESPONSIVE_FORMAT_OPTIONS: Array<PicturePressSelections["outputFormat"]> = ["avif", "webp", "jpeg", "png"];
+const MAX_RESPONSIVE_WIDTHS = 8;
+const DEFAULT_RESPONSIVE: PicturePressResponsive = {
+  widths: [320, 640, 960, 1280, 1920],
+  formats: ["avif", "webp"],
+  sizes: "100vw",
+};
+
+const METADATA_OPTIONS: Array<{
+  value: PicturePressMetadata;
+  label: string;
+  help: string;
+}> = [
+  { value: "strip", label: "Strip all", help: "Remove EXIF, GPS, ICC, XMP, IPTC and comments" },
+  { value: "icc", label: "ICC only", help: "Keep the colour profile so colours render as intended; drop everything else" },
+  { value: "copyright", label: "Copyright", help: "Keep only the creator and copyright, written as XMP" },
+  { value: "keep", label: "Keep all", help: "Keep everything, including GPS location" },
 ];
 
+type TargetMode = "fixed" | "size" | "ssim";
+
+const TARGET_MODE_OPTIONS: Array<{
+  value: TargetMode;
+  label: string;
+  help: string;
+}> = [
+  { value: "fixed", label: "Fixed", help: "Use the quality above for every image" },
+  { value: "size", label: "Max size", help: "Highest quality per image that stays under the file size" },
+  { value: "ssim", label: "Min SSIM", help: "Lowest quality per image that still looks this close to the original (1 = identical)" },
+];
+
+const DEFAULT_TARGET_KB = 150;
+const MAX_TARGET_KB = 50 * 1024;
+const DEFAULT_TARGET_SSIM = 0.98;
+
+const ICO_SIZE_OPTIONS = [16, 24, 32, 48, 64, 128, 256];
+const DEFAULT_ICO_SIZES = [16, 32, 48];
+const DEFAULT_AVIF_SPEED = 6;
+
+// Capped by the server's cores
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+
+// Formats the quality setting applies to
+export function isLossyFormat(format: PicturePressSelections["outputFormat"]): boolean {
+  return FORMAT_OPTIONS.some((f) => f.value === format && f.isLossy);
+}
+
+// Format-specific settings to send with a conversion
+export function formatSettings(selections: PicturePressSelections) {
+  const formats = outputFormats(selections);
+  return {
+    quality: formats.some(isLossyFormat) && !selections.target ? selections.quality : undefined,
+    target: formats.some(isLossyFormat) ? selections.target : undefined,
+    avifSpeed: formats.includes("avif") ? (selections.avifSpeed ?? DEFAULT_AVIF_SPEED) : undefined,
+    icoSizes: selections.outputFormat === "ico" ? (selections.icoSizes ?? DEFAULT_ICO_SIZES) : undefined,
+  };
+}
+
+// Every format a run writes: the output format plus any responsive <source> formats
+function outputFormats(selections: PicturePressSelections) {
+  return [selections.outputFormat, ...(selections.responsive?.formats ?? [])];
+}
+
+// Responsive set to send with a conversion; the fallback is never its own <source>
+export function responsiveSettings(selections: PicturePressSelections) {
+  const responsive = selections.responsive;
+  if (!responsive) return undefined;
+  const sizes = responsive.sizes?.trim();
+  return {
+    widths: responsive.widths,
+    formats: responsive.formats.filter((f) => f !== selections.outputFormat),
+    sizes: sizes?.length ? sizes : undefined,
+  };
+}
+
 export default function PicturePressOptions({
   value,
   onChange,
@@ -41,12 +163,53 @@ export default function PicturePressOptions({
     const errors: string[] = [];
 
     // Validate quality for lossy formats only
-    if (options.quality !== undefined && ["jpeg", "webp"].includes(options.outputFormat)) {
+    if (options.quality !== undefined && isLossyFormat(options.outputFormat)) {
       if (options.quality < 1 || options.quality > 100) {
         errors.push("Quality must be between 1 and 100");
       }
     }
 
+    if (options.target) {
+      const { maxBytes, minSsim } = options.target;
+      if (minSsim === undefined && (maxBytes === undefined || maxBytes < 1024 || maxBytes > MAX_TARGET_KB * 1024)) {
+        errors.push(`Enter a maximum file size between 1 and ${MAX_TARGET_KB} KB`);
+      }
+    }
+
+    if (options.outputFormat === "ico" && options.icoSizes?.length === 0) {
+      errors.push("Choose at least one icon size");
+    }
+
+    if (options.responsive) {
+      if (options.responsive.widths.length === 0) {
+        errors.push("Choose at least one responsive width");
+      } else if (options.responsive.widths.length > MAX_RESPONSIVE_WIDTHS) {
+        errors.push(`Choose at most ${MAX_RESPONSIVE_WIDTHS} responsive widths`);
+      }
+      if (options.outputFormat === "ico") {
+        errors.push("Choose a fallback format other than ICO for a responsive set");
+      }
+    }
+
+    if (options.resize) {
+      const { width, height, fit = "inside" } = options.resize;
+      if ([width, height].some((d) => d !== undefined && (d < 1 || d > MAX_RESIZE_DIMENSION))) {
+        errors.push(`Resize width and height must be between 1 and ${MAX_RESIZE_DIMENSION}`);
+      }
+      if (fit === "inside" && width === undefined && height === undefined) {
+        errors.push("Enter a maximum width, height or both");
+      } else if (fit !== "inside" && (width === undefined || height === undefined)) {
+        errors.push("Contain, cover and stretch need both a width and a height");
+      }
+    }
+
+    // Jimp has no WebP, AVIF or HEIF encoder
+    const jimpUnwritable = [options.outputFormat, ...(options.responsive?.formats ?? [])]
+      .filter((format) => ["webp", "avif", "heif"].includes(format));
+    if (options.engine === "jimp" && jimpUnwritable.length > 0) {
+      errors.push(`The Jimp engine cannot write ${jimpUnwritable.map((f) => f.toUpperCase()).join(", ")}; choose Auto or ImageMagick`);
+    }
+
     // Validate custom naming options
     if (options.namingConvention === "custom-pattern") {
       const hasPattern = options.customPattern && options.customPattern.trim().length > 0;
@@ -133,14 +296,62 @@ export default function PicturePressOptions({
       customPattern: "",
       prefix: "",
       suffix: "",
+      engine: "auto",
+      avifSpeed: DEFAULT_AVIF_SPEED,
+      icoSizes: DEFAULT_ICO_SIZES,
+      metadata: "icc",
     });
   };
 
-  const selectedFormat = FORMAT_OPTIONS.find(
-    (f) => f.value === value.outputFormat,
-  );
-  const isLossyFormat = selectedFormat?.isLossy ?? false;
+  const isLossy = outputFormats(value).some(isLossyFormat);
   const quality = clampNumber(value.quality ?? 90, 1, 100);
+  const target = value.target;
+  const targetMode: TargetMode = !target ? "fixed" : target.minSsim !== undefined ? "ssim" : "size";
+  const setTargetMode = (mode: TargetMode) => {
+    onChange({
+      ...value,
+      target:
+        mode === "size" ? { maxBytes: DEFAULT_TARGET_KB * 1024 }
+        : mode === "ssim" ? { minSsim: DEFAULT_TARGET_SSIM }
+        : undefined,
+    });
+  };
+  const avifSpeed = clampNumber(value.avifSpeed ?? DEFAULT_AVIF_SPEED, 0, 10);
+  const icoSizes = value.icoSizes ?? DEFAULT_ICO_SIZES;
+
+  const resize = value.resize;
+  const resizeFit = resize?.fit ?? "inside";
+
+  const setResize = (patch: Partial<PicturePressResize> | null) => {
+    // A responsive set already resizes to each of its widths
+    onChange({
+      ...value,
+      resize: patch ? { ...resize, ...patch } : undefined,
+      responsive: patch ? undefined : value.responsive,
+    });
+  };
+
+  const responsive = value.responsive;
+
+  const setResponsive = (next: PicturePressResponsive | null) => {
+    onChange({
+      ...value,
+      responsive: next ?? undefined,
+      resize: next ? undefined : value.resize,
+    });
+  };
+
+  const toggleIn = <T,>(list: T[], item: T, order: T[]) =>
+    list.includes(item)
+      ? list.filter((x) => x !== item)
+      : order.filter((x) => x === item || list.includes(x));
+
+  const toggleIcoSize = (size: number) => {
+    const next = icoSizes.includes(size)
+      ? icoSizes.filter((s) => s !== size)
+      : [...icoSizes, size].sort((a, b) => a - b);
+    onChange({ ...value, icoSizes: next });
+  };
 
   // Generate preview of naming convention
   const namingPreview = useMemo(() => {
@@ -219,7 +430,7 @@ export default function PicturePressOptions({
         <div className="mt-3">
           {/* Reserve space for tooltip to prevent content shift */}
           <div className="h-4 mb-1">
-            {!isLossyFormat && (
+            {!isLossy && (
               <div className="text-[10px] text-white/50 italic">
                 Quality setting not available for lossless formats
               </div>
@@ -227,9 +438,9 @@ export default function PicturePressOptions({
           </div>
           <label className={[
             "mb-1 block text-[11px]",
-            isLossyFormat ? "text-white/60" : "text-white/30"
+            isLossy ? "text-white/60" : "text-white/30"
           ].join(" ")}>
-            Quality: {quality}%
+            Quality: {target ? "auto" : `${quality}%`}
           </label>
           <input
             type="range"
@@ -237,15 +448,245 @@ export default function PicturePressOptions({
             max={100}
             value={quality}
             onChange={(e) => setField("quality", Number(e.target.value))}
-            disabled={!isLossyFormat}
+            disabled={!isLossy || !!target}
             className={[
               "w-full",
-              isLossyFormat 
+              isLossy && !target
                 ? "accent-emerald-400" 
                 : "accent-white/20 opacity-40 cursor-not-allowed"
             ].join(" ")}
           />
         </div>
+
+        {isLossy && (
+          <div className="mt-3">
+            <div className="mb-1 text-[11px] text-white/60">Quality mode</div>
+            <div className="grid grid-cols-3 gap-2">
+              {TARGET_MODE_OPTIONS.map((mode) => (
+                <FormatPill
+                  key={mode.value}
+                  label={mode.label}
+                  isLossy={false}
+                  selected={targetMode === mode.value}
+                  onChange={() => setTargetMode(mode.value)}
+                />
+              ))}
+            </div>
+            {targetMode === "size" && (
+              <label className="mt-2 block">
+                <span className="mb-1 block text-[11px] text-white/60">Max file size (KB)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_TARGET_KB}
+                  value={target?.maxBytes ? Math.round(target.maxBytes / 1024) : ""}
+                  onChange={(e) => {
+                    const kb = parseInt(e.target.value, 10);
+                    onChange({ ...value, target: { maxBytes: Number.isNaN(kb) ? undefined : kb * 1024 } });
+                  }}
+                  className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none placeholder:text-white/40 focus:border-emerald-400/40"
+                />
+              </label>
+            )}
+            {targetMode === "ssim" && (
+              <div className="mt-2">
+                <label className="mb-1 block text-[11px] text-white/60">
+                  Min SSIM: {(target?.minSsim ?? DEFAULT_TARGET_SSIM).toFixed(3)}
+                </label>
+                <input
+                  type="range"
+                  min={0.9}
+                  max={0.999}
+                  step={0.001}
+                  value={target?.minSsim ?? DEFAULT_TARGET_SSIM}
+                  onChange={(e) => onChange({ ...value, target: { minSsim: Number(e.target.value) } })}
+                  className="w-full accent-emerald-400"
+                />
+              </div>
+            )}
+            <p className="mt-1 text-[10px] text-white/50">
+              {TARGET_MODE_OPTIONS.find((m) => m.value === targetMode)?.help}
+              {targetMode !== "fixed" && "; slower, as each image is encoded several times"}
+            </p>
+          </div>
+        )}
+
+        {outputFormats(value).includes("avif") && (
+          <div className="mt-3">
+            <label className="mb-1 block text-[11px] text-white/60">
+              Encoder speed: {avifSpeed} (0 = smallest files, 10 = fastest)
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              value={avifSpeed}
+              onChange={(e) => setField("avifSpeed", Number(e.target.value))}
+              className="w-full accent-emerald-400"
+            />
+          </div>
+        )}
+
+        {value.outputFormat === "ico" && (
+          <div className="mt-3">
+            <div className="mb-1 text-[11px] text-white/60">Icon sizes</div>
+            <div className="grid grid-cols-4 gap-2">
+              {ICO_SIZE_OPTIONS.map((size) => (
+                <FormatPill
+                  key={size}
+                  label={`${size}`}
+                  isLossy={false}
+                  selected={icoSizes.includes(size)}
+                  onChange={() => toggleIcoSize(size)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </Section>
+
+      <Section title="Resize">
+        <div className="space-y-3">
+          <Toggle
+            label="Resize images"
+            checked={resize !== undefined}
+            onChange={() => setResize(resize ? null : { fit: "inside", neverUpscale: true })}
+          />
+
+          {resize && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                {FIT_OPTIONS.map((fit) => (
+                  <FormatPill
+                    key={fit.value}
+                    label={fit.label}
+                    isLossy={false}
+                    selected={resizeFit === fit.value}
+                    onChange={() => setResize({ fit: fit.value })}
+                  />
+                ))}
+              </div>
+              <p className="text-[10px] text-white/50">
+                {FIT_OPTIONS.find((f) => f.value === resizeFit)?.help}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <InputDimension
+                  label={resizeFit === "inside" ? "Max width" : "Width"}
+                  value={resize.width}
+                  onChange={(width) => setResize({ width })}
+                />
+                <InputDimension
+                  label={resizeFit === "inside" ? "Max height" : "Height"}
+                  value={resize.height}
+                  onChange={(height) => setResize({ height })}
+                />
+              </div>
+              <Toggle
+                label="Never upscale"
+                checked={resize.neverUpscale ?? true}
+                onChange={() => setResize({ neverUpscale: !(resize.neverUpscale ?? true) })}
+              />
+            </>
+          )}
+        </div>
+      </Section>
+
+      <Section title="Responsive Set">
+        <div className="space-y-3">
+          <Toggle
+            label="Generate widths × formats"
+            checked={responsive !== undefined}
+            onChange={() => setResponsive(responsive ? null : DEFAULT_RESPONSIVE)}
+          />
+
+          {responsive && (
+            <>
+              <div>
+                <div className="mb-1 text-[11px] text-white/60">Widths (px)</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {RESPONSIVE_WIDTH_OPTIONS.map((width) => (
+                    <FormatPill
+                      key={width}
+                      label={`${width}`}
+                      isLossy={false}
+                      selected={responsive.widths.includes(width)}
+                      onChange={() =>
+                        setResponsive({ ...responsive, widths: toggleIn(responsive.widths, width, RESPONSIVE_WIDTH_OPTIONS) })
+                      }
+                    />
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="mb-1 text-[11px] text-white/60">
+                  Formats before the {value.outputFormat.toUpperCase()} fallback
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {RESPONSIVE_FORMAT_OPTIONS.filter((f) => f !== value.outputFormat).map((format) => (
+                    <FormatPill
+                      key={format}
+                      label={format.toUpperCase()}
+                      isLossy={isLossyFormat(format)}
+                      selected={responsive.formats.includes(format)}
+                      onChange={() =>
+                        setResponsive({ ...responsive, formats: toggleIn(responsive.formats, format, RESPONSIVE_FORMAT_OPTIONS) })
+                      }
+                    />
+                  ))}
+                </div>
+              </div>
+              <InputText
+                label="sizes attribute"
+                placeholder="100vw"
+                value={responsive.sizes ?? ""}
+                onChange={(sizes) => setResponsive({ ...responsive, sizes })}
+                helpText="e.g. (min-width: 1024px) 50vw, 100vw"
+              />
+            </>
+          )}
+        </div>
+      </Section>
+
+      <Section title="Metadata">
+        <div className="grid grid-cols-2 gap-2">
+          {METADATA_OPTIONS.map((option) => (
+            <FormatPill
+              key={option.value}
+              label={option.label}
+              isLossy={false}
+              selected={(value.metadata ?? "icc") === option.value}
+              onChange={() => onChange({ ...value, metadata: option.value })}
+            />
+          ))}
+        </div>
+        <p className="mt-2 text-[10px] text-white/50">
+          {METADATA_OPTIONS.find((o) => o.value === (value.metadata ?? "icc"))?.help}.
+          Photos are rotated upright first. Metadata is only written to JPEG, PNG and WebP.
+        </p>
+      </Section>
+
+      <Section title="Engine">
+        <EngineSelect
+          value={value.engine ?? "auto"}
+          onChange={(engine) => onChange({ ...value, engine })}
+        />
+        <label className="mt-3 block">
+          <span className="mb-1 block text-[11px] text-white/60">Parallel conversions</span>
+          <select
+            value={value.concurrency ?? 1}
+            onChange={(e) => onChange({ ...value, concurrency: Number(e.target.value) })}
+            className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none focus:border-emerald-400/40"
+          >
+            {CONCURRENCY_OPTIONS.map((n) => (
+              <option key={n} value={n} className="bg-[#0b0b13]">
+                {n === 1 ? "1 (one file at a time)" : `Up to ${n} files at once`}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-[10px] text-white/50">
+            Speeds up ImageMagick on multi-core servers; Jimp gains little. Limited by the server&apos;s cores and free memory.
+          </span>
+        </label>
       </Section>
 
       <Section title="Naming Convention">
@@ -393,6 +834,32 @@ function InputText(props: {
   );
 }
 
+function InputDimension(props: {
+  label: string;
+  value: number | undefined;
+  onChange: (v: number | undefined) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-[11px] text-white/60">
+        {props.label}
+      </span>
+      <input
+        type="number"
+        min={1}
+        max={MAX_RESIZE_DIMENSION}
+        placeholder="px"
+        value={props.value ?? ""}
+        onChange={(e) => {
+          const n = parseInt(e.target.value, 10);
+          props.onChange(Number.isNaN(n) ? undefined : n);
+        }}
+        className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white/90 outline-none placeholder:text-white/40 focus:border-emerald-400/40"
+      />
+    </label>
+  );
+}
+
 function clampNumber(n: number, min: number, max: number): number {
   if (Number.isNaN(n)) return min;
   return Math.min(max, Math.max(min, Math.round(n)));
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import Image from "next/image";
 
 export type ConvertedImageItem = {
@@ -12,14 +12,40 @@ export type ConvertedImageItem = {
   originalSize: number;
   convertedSize: number;
   format: string;
-  width?: number;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  width?: number; // output size
   height?: number;
+  metadata?: { found: string[]; removed: string[]; dropped?: string[] };
+  seo?: SeoMetadata; // fields embedded in the file
+  seoBlocks?: string[]; // blocks holding them; IPTC only in JPEGs
+  seoEdited?: boolean; // edits not yet written into the file
+  quality?: number; // picked by a quality target
+  target?: { met: boolean };
+  ssim?: number; // similarity to the source at the output size
+  psnr?: number; // dB
+};
+
+// Title, alt text, creator and copyright embedded as XMP/IPTC
+export type SeoMetadata = {
+  title?: string;
+  description?: string;
+  creator?: string;
+  copyright?: string;
+};
+
+// Ready-to-paste <picture> markup for the variants of one source image
+export type ResponsiveSet = {
+  originalName: string;
+  markup: string;
 };
 
 type Props = {
   convertedImages: ConvertedImageItem[];
+  responsiveSets?: ResponsiveSet[];
   onDownloadOne: (item: ConvertedImageItem) => void;
   onDownloadAll: () => void;
+  onSeoChange?: (item: ConvertedImageItem, seo: SeoMetadata) => void;
   onClearResults?: () => void;
 };
 
@@ -45,13 +71,224 @@ function calculateSavings(originalSize: number, convertedSize: number): {
   };
 }
 
+// Output size, prefixed with the source size when the image was resized
+function formatResolution(item: ConvertedImageItem): string {
+  if (!item.width || !item.height) return "";
+  const output = `${item.width}×${item.height}`;
+  if (
+    item.sourceWidth &&
+    item.sourceHeight &&
+    (item.sourceWidth !== item.width || item.sourceHeight !== item.height)
+  ) {
+    return `${item.sourceWidth}×${item.sourceHeight} → ${output}`;
+  }
+  return output;
+}
+
+// "Quality 72 (auto)"
+function formatTuning(item: ConvertedImageItem): string {
+  return item.quality === undefined ? "" : `Quality ${item.quality} (auto)`;
+}
+
+// "SSIM 0.981 · PSNR 38.2 dB"; identical pixels report the 100 dB cap
+function formatMetrics(item: ConvertedImageItem): string {
+  const parts: string[] = [];
+  if (item.ssim !== undefined) parts.push(`SSIM ${item.ssim.toFixed(3)}`);
+  if (item.psnr !== undefined) parts.push(item.psnr >= 100 ? "PSNR ∞" : `PSNR ${item.psnr.toFixed(1)} dB`);
+  return parts.join(" · ");
+}
+
+// "exif", "gps" -> "EXIF, GPS"
+function formatBlocks(blocks: string[]): string {
+  return blocks.map((b) => (b === "comment" ? "comments" : b.toUpperCase())).join(", ");
+}
+
+// Formats that can carry the SEO fields
+const SEO_FORMATS = ["jpeg", "png", "webp"];
+
+const SEO_FIELDS: Array<{ key: keyof SeoMetadata; label: string; maxLength: number; multiline?: boolean }> = [
+  { key: "title", label: "Title", maxLength: 200 },
+  { key: "description", label: "Description / alt text", maxLength: 2000, multiline: true },
+  { key: "creator", label: "Creator", maxLength: 200 },
+  { key: "copyright", label: "Copyright", maxLength: 200 },
+];
+
+function SeoEditor({
+  item,
+  onChange,
+}: {
+  item: ConvertedImageItem;
+  onChange: (seo: SeoMetadata) => void;
+}) {
+  const inputClass =
+    "w-full rounded-md border border-white/10 bg-black/30 px-2 py-1 text-[11px] text-white/90 placeholder-white/30 focus:border-emerald-400/40 focus:outline-none";
+
+  return (
+    <div className="mb-3 space-y-2">
+      {SEO_FIELDS.map((field) => {
+        const id = `${item.id}-seo-${field.key}`;
+        const value = item.seo?.[field.key] ?? "";
+        const update = (next: string) => onChange({ ...item.seo, [field.key]: next });
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="mb-0.5 block text-[10px] text-white/60">
+              {field.label}
+            </label>
+            {field.multiline ? (
+              <textarea
+                id={id}
+                rows={2}
+                maxLength={field.maxLength}
+                value={value}
+                onChange={(e) => update(e.target.value)}
+                className={inputClass}
+              />
+            ) : (
+              <input
+                id={id}
+                type="text"
+                maxLength={field.maxLength}
+                value={value}
+                onChange={(e) => update(e.target.value)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+      {item.seoBlocks && !item.seoBlocks.includes("iptc") && (
+        <p className="text-[10px] text-white/50">
+          Stored as XMP only; {item.format.toUpperCase()} has no IPTC record
+        </p>
+      )}
+      {item.seoEdited && (
+        <p className="text-[10px] text-amber-300/80">Written into the file on download</p>
+      )}
+    </div>
+  );
+}
+
+// Original and converted stacked at the output's pixel size, the converted one
+// revealed right of a draggable divider
+function CompareSlider({ item, width, height }: { item: ConvertedImageItem; width: number; height: number }) {
+  const [position, setPosition] = useState(50);
+  const dragging = useRef(false);
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-[70vh] overflow-auto rounded-lg border border-white/10 bg-black/40">
+        <div
+          className="relative cursor-ew-resize touch-none select-none"
+          style={{ width, height }}
+          onPointerDown={(e) => {
+            dragging.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            moveTo(e);
+          }}
+          onPointerMove={(e) => dragging.current && moveTo(e)}
+          onPointerUp={() => (dragging.current = false)}
+          onPointerCancel={() => (dragging.current = false)}
+        >
+          {/* Cropped like a centered cover resize; other fits may not line up exactly */}
+          <Image
+            src={item.originalUrl}
+            alt={`Original: ${item.originalName}`}
+            width={width}
+            height={height}
+            className="absolute inset-0 h-full w-full max-w-none object-cover"
+            draggable={false}
+            unoptimized
+          />
+          <Image
+            src={item.convertedUrl}
+            alt={`Converted: ${item.convertedName}`}
+            width={width}
+            height={height}
+            className="absolute inset-0 h-full w-full max-w-none"
+            style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+            draggable={false}
+            unoptimized
+          />
+          <div
+            className="pointer-events-none absolute inset-y-0 w-px bg-white shadow-[0_0_0_1px_rgba(0,0,0,0.4)]"
+            style={{ left: `${position}%` }}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-3 text-xs text-white/60">
+        <span>Original</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={0.5}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          aria-label="Divider position"
+          className="flex-1 accent-emerald-400"
+        />
+        <span>Converted ({item.format.toUpperCase()})</span>
+      </div>
+    </div>
+  );
+}
+
+function ResponsiveSetMarkup({ set, variantCount }: { set: ResponsiveSet; variantCount: number }) {
+  const [copied, setCopied] = useState(false);
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(set.markup);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard unavailable (insecure context); the markup stays selectable
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="truncate text-xs font-medium text-white/90">{set.originalName}</p>
+          <p className="text-[10px] text-white/60">{variantCount} variants</p>
+        </div>
+        <button
+          type="button"
+          onClick={onCopy}
+          className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[10px] text-white/85 hover:bg-white/20"
+        >
+          {copied ? "Copied" : "Copy <picture>"}
+        </button>
+      </div>
+      <pre className="max-h-48 overflow-auto rounded-md bg-black/30 p-3 text-[11px] leading-5 text-emerald-100">
+        <code>{set.markup}</code>
+      </pre>
+    </div>
+  );
+}
+
 export default function PicturePressResultGrid({
   convertedImages,
+  responsiveSets,
   onDownloadOne,
   onDownloadAll,
+  onSeoChange,
   onClearResults,
 }: Props) {
   const [activeImage, setActiveImage] = useState<ConvertedImageItem | null>(null);
+  const [editingSeo, setEditingSeo] = useState<string | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const openImage = (item: ConvertedImageItem | null) => {
+    setActiveImage(item);
+    setComparing(false);
+  };
 
   if (!convertedImages?.length) {
     return (
@@ -61,11 +298,162 @@ export default function PicturePressResultGrid({
     );
   }
 
-  // Calculate total statistics
-  const totalOriginalSize = convertedImages.reduce((sum, img) => sum + img.originalSize, 0);
+  // Calculate total statistics; variants of one source count its size once
+  const sourceSizes = new Map(convertedImages.map((img) => [img.originalName, img.originalSize]));
+  const totalOriginalSize = [...sourceSizes.values()].reduce((sum, size) => sum + size, 0);
   const totalConvertedSize = convertedImages.reduce((sum, img) => sum + img.convertedSize, 0);
   const totalSavings = calculateSavings(totalOriginalSize, totalConvertedSize);
 
+  // Variants grouped under the source image they were made from
+  const groups = responsiveSets?.length
+    ? responsiveSets.map((set) => ({
+        set,
+        items: convertedImages.filter((img) => img.originalName === set.originalName),
+      }))
+    : null;
+
+  const renderGrid = (items: ConvertedImageItem[]) => (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+      {items.map((item) => {
+        const savings = calculateSavings(item.originalSize, item.convertedSize);
+        const resolution = formatResolution(item);
+        
+        return (
+          <div
+            key={item.id}
+            className="group relative overflow-hidden rounded-lg border border-white/10 bg-white/5"
+          >
+            {/* Before/After Comparison */}
+            <div className="relative h-48">
+              <div className="absolute inset-0 grid grid-cols-2 gap-px">
+                {/* Original Image */}
+                <div className="relative overflow-hidden">
+                  <button
+                    type="button"
+                    className="relative h-full w-full"
+                    onClick={() => openImage(item)}
+                  >
+                    <Image
+                      src={item.originalUrl}
+                      alt={`Original: ${item.originalName}`}
+                      fill
+                      sizes="(max-width: 768px) 50vw, (max-width: 1280px) 25vw, 16vw"
+                      className="object-cover transition will-change-transform group-hover:scale-[1.02]"
+                      unoptimized
+                    />
+                    <div className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white/90">
+                      Original
+                    </div>
+                  </button>
+                </div>
+                
+                {/* Converted Image */}
+                <div className="relative overflow-hidden">
+                  <button
+                    type="button"
+                    className="relative h-full w-full"
+                    onClick={() => openImage(item)}
+                  >
+                    <Image
+                      src={item.convertedUrl}
+                      alt={`Converted: ${item.convertedName}`}
+                      fill
+                      sizes="(max-width: 768px) 50vw, (max-width: 1280px) 25vw, 16vw"
+                      className="object-cover transition will-change-transform group-hover:scale-[1.02]"
+                      unoptimized
+                    />
+                    <div className="absolute bottom-1 right-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white/90">
+                      {item.format.toUpperCase()}
+                    </div>
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Image Information */}
+            <div className="border-t border-white/10 bg-gradient-to-b from-white/0 to-white/5 p-3">
+              <div className="mb-2">
+                <p className="truncate text-xs font-medium text-white/90">
+                  {item.convertedName}
+                </p>
+                {resolution && (
+                  <p className="text-[10px] text-white/60">{resolution}</p>
+                )}
+                {item.quality !== undefined && (
+                  <p className={["text-[10px]", item.target?.met === false ? "text-amber-400" : "text-white/60"].join(" ")}>
+                    {formatTuning(item)}
+                    {item.target?.met === false && " · misses the target"}
+                  </p>
+                )}
+                {formatMetrics(item) && (
+                  <p className="text-[10px] text-white/60">{formatMetrics(item)}</p>
+                )}
+                {item.metadata && item.metadata.found.length > 0 && (
+                  <p className="text-[10px] text-white/60">
+                    {item.metadata.removed.length > 0
+                      ? `Removed ${formatBlocks(item.metadata.removed)}`
+                      : `Kept ${formatBlocks(item.metadata.found)}`}
+                  </p>
+                )}
+                {item.metadata?.dropped && (
+                  <p className="text-[10px] text-amber-400">
+                    {formatBlocks(item.metadata.dropped)} left out: over the 64 KB a JPEG segment holds
+                  </p>
+                )}
+              </div>
+
+              {/* Size Comparison */}
+              <div className="mb-3 space-y-1">
+                <div className="flex items-center justify-between text-[10px]">
+                  <span className="text-white/60">Original:</span>
+                  <span className="text-white/80">{formatBytes(item.originalSize)}</span>
+                </div>
+                <div className="flex items-center justify-between text-[10px]">
+                  <span className="text-white/60">Converted:</span>
+                  <span className="text-white/80">{formatBytes(item.convertedSize)}</span>
+                </div>
+                <div className="flex items-center justify-between text-[10px] font-medium">
+                  <span className="text-white/60">
+                    {savings.isReduction ? "Saved:" : "Increased:"}
+                  </span>
+                  <span className={savings.isReduction ? "text-emerald-400" : "text-amber-400"}>
+                    {savings.isReduction ? "↓" : "↑"} {formatBytes(savings.savings)} 
+                    ({savings.percentage.toFixed(1)}%)
+                  </span>
+                </div>
+              </div>
+
+              {/* SEO metadata, editable before download */}
+              {onSeoChange && SEO_FORMATS.includes(item.format) && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setEditingSeo(editingSeo === item.id ? null : item.id)}
+                    className="mb-2 w-full rounded-md border border-white/10 bg-white/5 py-1 text-[10px] text-white/75 hover:bg-white/10"
+                  >
+                    {editingSeo === item.id ? "Hide SEO metadata" : "Edit SEO metadata"}
+                    {item.seoEdited ? " •" : ""}
+                  </button>
+                  {editingSeo === item.id && (
+                    <SeoEditor item={item} onChange={(seo) => onSeoChange(item, seo)} />
+                  )}
+                </>
+              )}
+
+              {/* Download Button */}
+              <button
+                onClick={() => onDownloadOne(item)}
+                className="w-full rounded-md border border-white/10 bg-white/10 py-1.5 text-xs font-medium text-white/85 hover:bg-white/20"
+              >
+                Download
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
   return (
     <section className="rounded-2xl border border-white/10 bg-white/5 p-4 shadow-[0_0_0_1px_rgba(255,255,255,0.05)]">
       <div className="mb-4 flex items-center justify-between">
@@ -74,7 +462,11 @@ export default function PicturePressResultGrid({
             Converted Images
           </h3>
           <div className="flex items-center gap-4 text-xs text-white/60">
-            <span>{convertedImages.length} images</span>
+            <span>
+              {sourceSizes.size < convertedImages.length
+                ? `${convertedImages.length} files from ${sourceSizes.size} images`
+                : `${convertedImages.length} images`}
+            </span>
             <span>
               {formatBytes(totalOriginalSize)} → {formatBytes(totalConvertedSize)}
             </span>
@@ -102,113 +494,24 @@ export default function PicturePressResultGrid({
         </div>
       </div>
 
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
-        {convertedImages.map((item) => {
-          const savings = calculateSavings(item.originalSize, item.convertedSize);
-          const resolution = item.width && item.height ? `${item.width}×${item.height}` : "";
-          
-          return (
-            <div
-              key={item.id}
-              className="group relative overflow-hidden rounded-lg border border-white/10 bg-white/5"
-            >
-              {/* Before/After Comparison */}
-              <div className="relative h-48">
-                <div className="absolute inset-0 grid grid-cols-2 gap-px">
-                  {/* Original Image */}
-                  <div className="relative overflow-hidden">
-                    <button
-                      type="button"
-                      className="relative h-full w-full"
-                      onClick={() => setActiveImage(item)}
-                    >
-                      <Image
-                        src={item.originalUrl}
-                        alt={`Original: ${item.originalName}`}
-                        fill
-                        sizes="(max-width: 768px) 50vw, (max-width: 1280px) 25vw, 16vw"
-                        className="object-cover transition will-change-transform group-hover:scale-[1.02]"
-                        unoptimized
-                      />
-                      <div className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white/90">
-                        Original
-                      </div>
-                    </button>
-                  </div>
-                  
-                  {/* Converted Image */}
-                  <div className="relative overflow-hidden">
-                    <button
-                      type="button"
-                      className="relative h-full w-full"
-                      onClick={() => setActiveImage(item)}
-                    >
-                      <Image
-                        src={item.convertedUrl}
-                        alt={`Converted: ${item.convertedName}`}
-                        fill
-                        sizes="(max-width: 768px) 50vw, (max-width: 1280px) 25vw, 16vw"
-                        className="object-cover transition will-change-transform group-hover:scale-[1.02]"
-                        unoptimized
-                      />
-                      <div className="absolute bottom-1 right-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white/90">
-                        {item.format.toUpperCase()}
-                      </div>
-                    </button>
-                  </div>
-                </div>
-              </div>
-
-              {/* Image Information */}
-              <div className="border-t border-white/10 bg-gradient-to-b from-white/0 to-white/5 p-3">
-                <div className="mb-2">
-                  <p className="truncate text-xs font-medium text-white/90">
-                    {item.convertedName}
-                  </p>
-                  {resolution && (
-                    <p className="text-[10px] text-white/60">{resolution}</p>
-                  )}
-                </div>
-
-                {/* Size Comparison */}
-                <div className="mb-3 space-y-1">
-                  <div className="flex items-center justify-between text-[10px]">
-                    <span className="text-white/60">Original:</span>
-                    <span className="text-white/80">{formatBytes(item.originalSize)}</span>
-                  </div>
-                  <div className="flex items-center justify-between text-[10px]">
-                    <span className="text-white/60">Converted:</span>
-                    <span className="text-white/80">{formatBytes(item.convertedSize)}</span>
-                  </div>
-                  <div className="flex items-center justify-between text-[10px] font-medium">
-                    <span className="text-white/60">
-                      {savings.isReduction ? "Saved:" : "Increased:"}
-                    </span>
-                    <span className={savings.isReduction ? "text-emerald-400" : "text-amber-400"}>
-                      {savings.isReduction ? "↓" : "↑"} {formatBytes(savings.savings)} 
-                      ({savings.percentage.toFixed(1)}%)
-                    </span>
-                  </div>
-                </div>
-
-                {/* Download Button */}
-                <button
-                  onClick={() => onDownloadOne(item)}
-                  className="w-full rounded-md border border-white/10 bg-white/10 py-1.5 text-xs font-medium text-white/85 hover:bg-white/20"
-                >
-                  Download
-                </button>
-              </div>
+      {groups ? (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <div key={group.set.originalName}>
+              <ResponsiveSetMarkup set={group.set} variantCount={group.items.length} />
+              {renderGrid(group.items)}
             </div>
-          );
-        })}
-      </div>
+          ))}
+        </div>
+      ) : (
+        renderGrid(convertedImages)
+      )}
 
       {/* Lightbox Modal */}
       {activeImage && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
-          onClick={() => setActiveImage(null)}
+          onClick={() => openImage(null)}
         >
           <div
             className="relative max-h-[90vh] w-full max-w-6xl rounded-xl border border-white/10 bg-[#0b0b13] p-4"
@@ -222,15 +525,25 @@ export default function PicturePressResultGrid({
                 </p>
                 <div className="flex items-center gap-4 text-xs text-white/60">
                   <span>{activeImage.format.toUpperCase()}</span>
-                  {activeImage.width && activeImage.height && (
-                    <span>{activeImage.width}×{activeImage.height}</span>
+                  {formatResolution(activeImage) && (
+                    <span>{formatResolution(activeImage)}</span>
                   )}
+                  {formatTuning(activeImage) && <span>{formatTuning(activeImage)}</span>}
+                  {formatMetrics(activeImage) && <span>{formatMetrics(activeImage)}</span>}
                   <span>
                     {formatBytes(activeImage.originalSize)} → {formatBytes(activeImage.convertedSize)}
                   </span>
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                {activeImage.width && activeImage.height && (
+                  <button
+                    onClick={() => setComparing(!comparing)}
+                    className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/75 hover:bg-white/10"
+                  >
+                    {comparing ? "Side by side" : "Compare 1:1"}
+                  </button>
+                )}
                 <button
                   onClick={() => onDownloadOne(activeImage)}
                   className="rounded-md border border-emerald-400/30 bg-emerald-400/10 px-3 py-1.5 text-xs font-medium text-emerald-100 hover:bg-emerald-400/15"
@@ -238,7 +551,7 @@ export default function PicturePressResultGrid({
                   Download
                 </button>
                 <button
-                  onClick={() => setActiveImage(null)}
+                  onClick={() => openImage(null)}
                   className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/75 hover:bg-white/10"
                 >
                   Close
@@ -247,58 +560,62 @@ export default function PicturePressResultGrid({
             </div>
 
             {/* Before/After Comparison in Modal */}
-            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-              {/* Original Image */}
-              <div className="space-y-2">
-                <h4 className="text-xs font-medium text-white/80">Original</h4>
-                <div className="relative aspect-[4/3] overflow-hidden rounded-lg border border-white/10">
-                  <Image
-                    src={activeImage.originalUrl}
-                    alt={`Original: ${activeImage.originalName}`}
-                    fill
-                    sizes="50vw"
-                    className="object-contain"
-                    unoptimized
-                    priority
-                  />
-                </div>
-                <div className="text-xs text-white/60">
-                  <p>{activeImage.originalName}</p>
-                  <p>{formatBytes(activeImage.originalSize)}</p>
+            {comparing && activeImage.width && activeImage.height ? (
+              <CompareSlider item={activeImage} width={activeImage.width} height={activeImage.height} />
+            ) : (
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                {/* Original Image */}
+                <div className="space-y-2">
+                  <h4 className="text-xs font-medium text-white/80">Original</h4>
+                  <div className="relative aspect-[4/3] overflow-hidden rounded-lg border border-white/10">
+                    <Image
+                      src={activeImage.originalUrl}
+                      alt={`Original: ${activeImage.originalName}`}
+                      fill
+                      sizes="50vw"
+                      className="object-contain"
+                      unoptimized
+                      priority
+                    />
+                  </div>
+                  <div className="text-xs text-white/60">
+                    <p>{activeImage.originalName}</p>
+                    <p>{formatBytes(activeImage.originalSize)}</p>
+                  </div>
                 </div>
-              </div>
 
-              {/* Converted Image */}
-              <div className="space-y-2">
-                <h4 className="text-xs font-medium text-white/80">
-                  Converted ({activeImage.format.toUpperCase()})
-                </h4>
-                <div className="relative aspect-[4/3] overflow-hidden rounded-lg border border-white/10">
-                  <Image
-                    src={activeImage.convertedUrl}
-                    alt={`Converted: ${activeImage.convertedName}`}
-                    fill
-                    sizes="50vw"
-                    className="object-contain"
-                    unoptimized
-                    priority
-                  />
-                </div>
-                <div className="text-xs text-white/60">
-                  <p>{activeImage.convertedName}</p>
-                  <p>{formatBytes(activeImage.convertedSize)}</p>
-                  {(() => {
-                    const savings = calculateSavings(activeImage.originalSize, activeImage.convertedSize);
-                    return (
-                      <p className={savings.isReduction ? "text-emerald-400" : "text-amber-400"}>
-                        {savings.isReduction ? "↓" : "↑"} {formatBytes(savings.savings)} 
-                        ({savings.percentage.toFixed(1)}%)
-                      </p>
-                    );
-                  })()}
+                {/* Converted Image */}
+                <div className="space-y-2">
+                  <h4 className="text-xs font-medium text-white/80">
+                    Converted ({activeImage.format.toUpperCase()})
+                  </h4>
+                  <div className="relative aspect-[4/3] overflow-hidden rounded-lg border border-white/10">
+                    <Image
+                      src={activeImage.convertedUrl}
+                      alt={`Converted: ${activeImage.convertedName}`}
+                      fill
+                      sizes="50vw"
+                      className="object-contain"
+                      unoptimized
+                      priority
+                    />
+                  </div>
+                  <div className="text-xs text-white/60">
+                    <p>{activeImage.convertedName}</p>
+                    <p>{formatBytes(activeImage.convertedSize)}</p>
+                    {(() => {
+                      const savings = calculateSavings(activeImage.originalSize, activeImage.convertedSize);
+                      return (
+                        <p className={savings.isReduction ? "text-emerald-400" : "text-amber-400"}>
+                          {savings.isReduction ? "↓" : "↑"} {formatBytes(savings.savings)} 
+                          ({savings.percentage.toFixed(1)}%)
+                        </p>
+                      );
+                    })()}
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       )}
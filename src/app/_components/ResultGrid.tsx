@@ -12,6 +12,8 @@ export type VariantItem = {
   width?: number;
   height?: number;
   bytes?: number;
+  // Platform spec deviations found after generation
+  warnings?: string[];
   // Back-compat meta summary used by older UI
   meta: {
     size: string;
@@ -33,6 +35,8 @@ const CATEGORY_ORDER = [
   "social",
   "web",
   "seo",
+  "splash",
+  "platform",
   "transparent",
   "other",
 ] as const;
@@ -42,6 +46,8 @@ const CATEGORY_LABEL: Record<string, string> = {
   social: "Social",
   web: "Web",
   seo: "SEO",
+  splash: "iOS Splash",
+  platform: "Safari & Windows",
   transparent: "Transparent",
   other: "Other",
 };
@@ -80,6 +86,8 @@ export default function ResultGrid({
     {} as Record<string, VariantItem[]>,
   );
 
+  const warned = variants.filter((v) => v.warnings?.length).length;
+
   const orderedGroups: Array<{
     key: string;
     label: string;
@@ -110,7 +118,15 @@ export default function ResultGrid({
           <h3 className="text-sm font-semibold text-white/90">
             Generated Variants
           </h3>
-          <p className="text-xs text-white/60">{variants.length} images</p>
+          <p className="text-xs text-white/60">
+            {variants.length} images
+            {warned ? (
+              <span className="text-amber-200/90">
+                {" "}
+                • {warned} with warnings
+              </span>
+            ) : null}
+          </p>
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -148,7 +164,11 @@ export default function ResultGrid({
                     ? `${v.width}x${v.height}`
                     : v.meta?.size || "";
                 const sizeStr = formatBytes(v.bytes);
-                const tooltip = `${v.filename}\n${group.label} • ${resolution} • ${sizeStr}`;
+                const tooltip = [
+                  v.filename,
+                  `${group.label} • ${resolution} • ${sizeStr}`,
+                  ...(v.warnings ?? []).map((w) => `⚠ ${w}`),
+                ].join("\n");
                 return (
                   <figure
                     key={v.id}
@@ -170,6 +190,11 @@ export default function ResultGrid({
                         priority={false}
                       />
                     </button>
+                    {v.warnings?.length ? (
+                      <span className="pointer-events-none absolute top-2 left-2 rounded-md border border-amber-400/30 bg-amber-500/20 px-1.5 py-0.5 text-[10px] font-medium text-amber-100">
+                        ⚠ {v.warnings.length}
+                      </span>
+                    ) : null}
                     <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(600px_circle_at_0%_0%,rgba(99,102,241,0.08),transparent_50%),radial-gradient(600px_circle_at_100%_100%,rgba(16,185,129,0.08),transparent_50%)]" />
                     <figcaption className="flex items-center justify-between gap-2 border-t border-white/10 bg-gradient-to-b from-white/0 to-white/5 px-3 py-2">
                       <div className="min-w-0">
@@ -189,6 +214,15 @@ export default function ResultGrid({
                         Download
                       </button>
                     </figcaption>
+                    {v.warnings?.length ? (
+                      <ul className="space-y-0.5 border-t border-amber-400/20 bg-amber-500/10 px-3 py-1.5">
+                        {v.warnings.map((w) => (
+                          <li key={w} className="text-[10px] text-amber-200">
+                            {w}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
                   </figure>
                 );
               })}
@@ -236,6 +270,15 @@ export default function ResultGrid({
                 </button>
               </div>
             </div>
+            {active.warnings?.length ? (
+              <ul className="mb-3 space-y-1 rounded-md border border-amber-400/30 bg-amber-500/10 px-3 py-2">
+                {active.warnings.map((w) => (
+                  <li key={w} className="text-xs text-amber-200">
+                    {w}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
             <div className="relative mx-auto aspect-[16/9] w-full max-w-4xl">
               <Image
                 src={active.url}
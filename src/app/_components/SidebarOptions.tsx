@@ -1,33 +1,89 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
+import type { ManifestDraft } from "@/app/_components/ManifestEditor";
+import EngineSelect, {
+  type EngineChoice,
+} from "@/app/_components/EngineSelect";
 
 export type PixelForgeSelections = {
-  generationTypes: ("favicon" | "pwa" | "social" | "seo" | "web" | "all")[];
+  generationTypes: (
+    | "favicon"
+    | "pwa"
+    | "social"
+    | "seo"
+    | "web"
+    | "splash"
+    | "platform"
+    | "all"
+  )[];
   transparent?: boolean;
 
-  // Advanced metadata (reserved for future use by server)
+  // Brand metadata written into manifest.json and meta tags
   appName?: string;
   description?: string;
   themeColor?: string;
   backgroundColor?: string;
+  brandProfileId?: string;
 
   // Output options
   format?: "png" | "jpeg" | "webp";
   quality?: number; // 1-100
-  urlPrefix?: string;
+  // Site path or URL the downloadable meta tags/manifest/ZIP point at
+  publishBaseUrl?: string;
+
+  // Safe zone for pwa-maskable-* icons
+  maskable?: {
+    padding?: number; // % per side, 0-40
+    scale?: number; // 0.5-1.5
+    background?: string; // hex; blank falls back to the brand background
+  };
+
+  // iOS startup images (the "splash" generation type)
+  splash?: {
+    scale?: number; // logo box vs. the screen's shorter side, 0.1-0.8
+  };
+
+  // Web App Manifest members; edited in ManifestEditor
+  manifest?: ManifestDraft;
+
+  // favicon.svg on dark tabs when no dark SVG logo is uploaded
+  darkFavicon?: "plate" | "invert";
+
+  // Image engine for this run; not saved in recipes
+  engine?: EngineChoice;
+};
+
+export type BrandProfileOption = {
+  id: string;
+  name: string;
+  appName?: string;
+  description?: string;
+  themeColor?: string;
+  backgroundColor?: string;
 };
 
 type Props = {
   value: PixelForgeSelections;
   onChange: (next: PixelForgeSelections) => void;
+  brandProfiles?: BrandProfileOption[];
+  onSaveBrandProfile?: (name: string) => void;
+  onDeleteBrandProfile?: (id: string) => void;
 };
 
 const GENERATION_OPTIONS: Array<
   PixelForgeSelections["generationTypes"][number]
-> = ["all", "favicon", "pwa", "social", "seo", "web"];
+> = ["all", "favicon", "pwa", "social", "seo", "web", "splash", "platform"];
+
+export default function SidebarOptions({
+  value,
+  onChange,
+  brandProfiles = [],
+  onSaveBrandProfile,
+  onDeleteBrandProfile,
+}: Props) {
+  const [profileName, setProfileName] = useState("");
 
-export default function SidebarOptions({ value, onChange }: Props) {
   const toggleType = useCallback(
     (item: PixelForgeSelections["generationTypes"][number]) => {
       const current = value.generationTypes ?? [];
@@ -55,6 +111,26 @@ export default function SidebarOptions({ value, onChange }: Props) {
     [value, onChange],
   );
 
+  const applyProfile = useCallback(
+    (id: string) => {
+      const profile = brandProfiles.find((p) => p.id === id);
+      if (!profile) {
+        onChange({ ...value, brandProfileId: undefined });
+        return;
+      }
+      onChange({
+        ...value,
+        brandProfileId: profile.id,
+        appName: profile.appName ?? "",
+        description: profile.description ?? "",
+        themeColor: profile.themeColor ?? "",
+        backgroundColor: profile.backgroundColor ?? "",
+      });
+      setProfileName(profile.name);
+    },
+    [brandProfiles, value, onChange],
+  );
+
   const reset = () => {
     onChange({
       generationTypes: ["all"],
@@ -63,13 +139,24 @@ export default function SidebarOptions({ value, onChange }: Props) {
       description: "",
       themeColor: "",
       backgroundColor: "",
+      brandProfileId: undefined,
       format: "png",
       quality: 90,
-      urlPrefix: "",
+      publishBaseUrl: "",
+      maskable: { padding: 20, scale: 1, background: "" },
+      splash: { scale: 0.3 },
+      darkFavicon: "plate",
+      engine: "auto",
     });
   };
 
+  const setMaskable = (patch: NonNullable<PixelForgeSelections["maskable"]>) =>
+    onChange({ ...value, maskable: { ...value.maskable, ...patch } });
+
   const quality = clampNumber(value.quality ?? 90, 1, 100);
+  const maskPadding = clampNumber(value.maskable?.padding ?? 20, 0, 40);
+  const maskScale = clampNumber((value.maskable?.scale ?? 1) * 100, 50, 150);
+  const splashScale = clampNumber((value.splash?.scale ?? 0.3) * 100, 10, 80);
 
   return (
     <aside className="h-full w-full overflow-hidden rounded-2xl border border-white/10 bg-white/5 p-4 shadow-[0_0_0_1px_rgba(255,255,255,0.05)] backdrop-blur-md">
@@ -109,6 +196,34 @@ export default function SidebarOptions({ value, onChange }: Props) {
 
       <Section title="Metadata">
         <div className="space-y-2">
+          {brandProfiles.length > 0 ? (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Select
+                  label="Brand Profile"
+                  value={value.brandProfileId ?? ""}
+                  options={[
+                    { value: "", label: "None" },
+                    ...brandProfiles.map((p) => ({
+                      value: p.id,
+                      label: p.name,
+                    })),
+                  ]}
+                  onChange={applyProfile}
+                />
+              </div>
+              {value.brandProfileId && onDeleteBrandProfile ? (
+                <button
+                  type="button"
+                  onClick={() => onDeleteBrandProfile(value.brandProfileId!)}
+                  className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-[11px] text-white/75 hover:bg-white/10"
+                  title="Delete this brand profile"
+                >
+                  Delete
+                </button>
+              ) : null}
+            </div>
+          ) : null}
           <InputText
             label="App Name"
             placeholder="My App"
@@ -135,9 +250,116 @@ export default function SidebarOptions({ value, onChange }: Props) {
               onChange={(v) => setField("backgroundColor", v)}
             />
           </div>
+          {onSaveBrandProfile ? (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <InputText
+                  label="Save as Profile"
+                  placeholder="Acme Corp"
+                  value={profileName}
+                  onChange={setProfileName}
+                />
+              </div>
+              <button
+                type="button"
+                disabled={!profileName.trim()}
+                onClick={() => onSaveBrandProfile(profileName.trim())}
+                className={[
+                  "rounded-md px-2 py-1.5 text-[11px] transition",
+                  profileName.trim()
+                    ? "border border-emerald-400/30 bg-emerald-400/10 text-emerald-100 hover:bg-emerald-400/15"
+                    : "cursor-not-allowed border border-white/10 bg-white/5 text-white/50",
+                ].join(" ")}
+              >
+                Save
+              </button>
+            </div>
+          ) : null}
         </div>
       </Section>
 
+      <Section title="Maskable Icons">
+        <div className="space-y-2">
+          <div>
+            <label className="mb-1 block text-[11px] text-white/60">
+              Safe-zone padding: {maskPadding}%
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={40}
+              value={maskPadding}
+              onChange={(e) => setMaskable({ padding: Number(e.target.value) })}
+              className="w-full accent-emerald-400"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-[11px] text-white/60">
+              Logo scale: {maskScale}%
+            </label>
+            <input
+              type="range"
+              min={50}
+              max={150}
+              step={5}
+              value={maskScale}
+              onChange={(e) =>
+                setMaskable({ scale: Number(e.target.value) / 100 })
+              }
+              className="w-full accent-emerald-400"
+            />
+          </div>
+          <InputText
+            label="Fill (blank = brand background)"
+            placeholder="#ffffff"
+            value={value.maskable?.background ?? ""}
+            onChange={(v) => setMaskable({ background: v })}
+          />
+        </div>
+      </Section>
+
+      <Section title="iOS Splash Screens">
+        <label className="mb-1 block text-[11px] text-white/60">
+          Logo size: {splashScale}% of the shorter side
+        </label>
+        <input
+          type="range"
+          min={10}
+          max={80}
+          step={5}
+          value={splashScale}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              splash: { scale: Number(e.target.value) / 100 },
+            })
+          }
+          className="w-full accent-emerald-400"
+        />
+        <p className="mt-1 text-[10px] text-white/50">
+          Select the iOS Splash type to render them; uses the brand background
+          color.
+        </p>
+      </Section>
+
+      <Section title="Dark Mode Favicon">
+        <Select
+          label="SVG favicon on dark tabs"
+          value={value.darkFavicon ?? "plate"}
+          options={[
+            { value: "plate", label: "Light plate behind logo" },
+            { value: "invert", label: "Invert logo colors" },
+          ]}
+          onChange={(v) =>
+            onChange({ ...value, darkFavicon: v as "plate" | "invert" })
+          }
+        />
+        <p className="mt-1 text-[10px] text-white/50">
+          Applies to SVG sources without a dark logo; the plate uses the brand
+          background color.
+        </p>
+      </Section>
+
       <Section title="Output">
         <div className="grid grid-cols-2 gap-2">
           <Select
@@ -168,10 +390,16 @@ export default function SidebarOptions({ value, onChange }: Props) {
         </div>
         <div className="mt-2">
           <InputText
-            label="URL Prefix"
-            placeholder="/api/pixel-forge/files/:session/generated/"
-            value={value.urlPrefix ?? ""}
-            onChange={(v) => setField("urlPrefix", v)}
+            label="Publish Base URL"
+            placeholder="/ or https://cdn.example.com/icons/"
+            value={value.publishBaseUrl ?? ""}
+            onChange={(v) => setField("publishBaseUrl", v)}
+          />
+        </div>
+        <div className="mt-2">
+          <EngineSelect
+            value={value.engine ?? "auto"}
+            onChange={(engine) => onChange({ ...value, engine })}
           />
         </div>
       </Section>
@@ -308,6 +536,10 @@ function labelFor(k: PixelForgeSelections["generationTypes"][number]): string {
       return "SEO";
     case "web":
       return "Web";
+    case "splash":
+      return "iOS Splash";
+    case "platform":
+      return "Safari & Windows";
     default:
       return k;
   }
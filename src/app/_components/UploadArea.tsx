@@ -13,6 +13,20 @@ export type UploadedFile = {
   error?: string;
 };
 
+// HEIC/AVIF are only converted by Picture Press (multi-file mode)
+const HEIF_MIME_EXTENSIONS: Record<string, string[]> = {
+  'image/heic': ['.heic', '.heif'],
+  'image/heif': ['.heif', '.heic'],
+  'image/avif': ['.avif'],
+};
+
+// Browsers that cannot display HEIC often leave File.type empty for it
+function fileMimeType(file: File): string {
+  if (file.type) return file.type.toLowerCase();
+  const extension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
+  return Object.keys(HEIF_MIME_EXTENSIONS).find(mime => HEIF_MIME_EXTENSIONS[mime]![0] === extension) ?? '';
+}
+
 type Props = {
   // Legacy single file props (for Pixel Forge compatibility)
   previewUrl?: string | null;
@@ -46,7 +60,7 @@ export default function UploadArea({
   // Determine if we're in multi-file mode
   const isMultiFileMode = !!onMultiUpload;
 
-  const validateFile = (file: File): string | null => {
+  const validateFile = useCallback((file: File): string | null => {
     // Check if file exists and has content
     if (!file || file.size === 0) {
       return `${file?.name ?? 'Unknown file'}: File is empty or corrupted.`;
@@ -77,28 +91,7 @@ export default function UploadArea({
     }
 
     // Check file type by MIME type and extension
-    const supportedMimeTypes = [
-      'image/jpeg',
-      'image/jpg', 
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'image/tiff',
-      'image/bmp'
-    ];
-    
-    const supportedExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.tiff', '.tif', '.bmp'];
-    const fileExtension = fileName.toLowerCase().substring(fileName.lastIndexOf('.'));
-    
-    // Validate MIME type
-    if (!supportedMimeTypes.includes(file.type.toLowerCase())) {
-      return `${fileName}: Unsupported file type "${file.type}". Please use JPEG, PNG, GIF, WebP, TIFF, or BMP images.`;
-    }
-
-    // Validate file extension matches MIME type
-    if (!supportedExtensions.includes(fileExtension)) {
-      return `${fileName}: Unsupported file extension "${fileExtension}". Please use .jpg, .png, .gif, .webp, .tiff, or .bmp files.`;
-    }
+    const fileType = isMultiFileMode ? fileMimeType(file) : file.type.toLowerCase();
 
     // Cross-validate MIME type and extension for security
     const mimeExtensionMap: Record<string, string[]> = {
@@ -108,10 +101,26 @@ export default function UploadArea({
       'image/gif': ['.gif'],
       'image/webp': ['.webp'],
       'image/tiff': ['.tiff', '.tif'],
-      'image/bmp': ['.bmp']
+      'image/bmp': ['.bmp'],
+      ...(isMultiFileMode ? HEIF_MIME_EXTENSIONS : {}),
     };
 
-    const expectedExtensions = mimeExtensionMap[file.type.toLowerCase()];
+    const supportedMimeTypes = Object.keys(mimeExtensionMap);
+    const supportedExtensions = [...new Set(Object.values(mimeExtensionMap).flat())];
+    const fileExtension = fileName.toLowerCase().substring(fileName.lastIndexOf('.'));
+    const formatList = isMultiFileMode ? 'JPEG, PNG, GIF, WebP, TIFF, BMP, HEIC, or AVIF' : 'JPEG, PNG, GIF, WebP, TIFF, or BMP';
+    
+    // Validate MIME type
+    if (!supportedMimeTypes.includes(fileType)) {
+      return `${fileName}: Unsupported file type "${file.type}". Please use ${formatList} images.`;
+    }
+
+    // Validate file extension matches MIME type
+    if (!supportedExtensions.includes(fileExtension)) {
+      return `${fileName}: Unsupported file extension "${fileExtension}". Please use ${supportedExtensions.join(', ')} files.`;
+    }
+
+    const expectedExtensions = mimeExtensionMap[fileType];
     if (expectedExtensions && !expectedExtensions.includes(fileExtension)) {
       return `${fileName}: File extension "${fileExtension}" doesn't match the file type "${file.type}". This may indicate a corrupted or mislabeled file.`;
     }
@@ -130,12 +139,12 @@ export default function UploadArea({
     }
 
     // Additional validation for suspicious files
-    if (file.type === '' || file.type === 'application/octet-stream') {
+    if (fileType === '' || fileType === 'application/octet-stream') {
       return `${fileName}: Unable to determine file type. Please ensure this is a valid image file.`;
     }
 
     return null;
-  };
+  }, [isMultiFileMode]);
 
   const handleFiles = useCallback(
     (files: FileList | null) => {
@@ -236,7 +245,7 @@ export default function UploadArea({
                 dataUrl: result,
                 name: file.name,
                 size: file.size,
-                type: file.type
+                type: fileMimeType(file)
               };
               
               newUploadedFiles.push(uploadedFile);
@@ -300,7 +309,7 @@ export default function UploadArea({
         }
       }
     },
-    [onUpload, onMultiUpload, isMultiFileMode, uploadedFiles.length, maxFiles],
+    [onUpload, onMultiUpload, isMultiFileMode, uploadedFiles.length, maxFiles, validateFile],
   );
 
   const onDrop = useCallback(
@@ -388,7 +397,7 @@ export default function UploadArea({
             <input
               ref={inputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.heic,.heif,.avif"
               multiple
               className="hidden"
               onChange={(e) => handleFiles(e.target.files)}
@@ -28,6 +28,12 @@ function contentTypeFor(ext: string): string {
       return "image/tiff";
     case ".bmp":
       return "image/bmp";
+    case ".avif":
+      return "image/avif";
+    case ".heic":
+      return "image/heic";
+    case ".heif":
+      return "image/heif";
     case ".ico":
       return "image/x-icon";
     case ".json":
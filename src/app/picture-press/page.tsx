@@ -1,12 +1,16 @@
 "use client";
 
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import PicturePressOptions, {
+  formatSettings,
+  responsiveSettings,
   type PicturePressSelections,
 } from "@/app/_components/PicturePressOptions";
 import UploadArea, { type UploadedFile } from "@/app/_components/UploadArea";
 import PicturePressResultGrid, {
   type ConvertedImageItem,
+  type ResponsiveSet,
+  type SeoMetadata,
 } from "@/app/_components/PicturePressResultGrid";
 import { api } from "@/trpc/react";
 
@@ -16,6 +20,20 @@ import type { AppRouter } from "@/server/api/root";
 type ConvertRes = inferRouterOutputs<AppRouter>["picturePress"]["convertImages"];
 type UploadRes = inferRouterOutputs<AppRouter>["picturePress"]["uploadImages"];
 
+// Last submitted job, so a reload can pick the result back up
+type StoredJob = {
+  sessionId: string;
+  jobId: string;
+  outputFormat: PicturePressSelections["outputFormat"];
+};
+
+const JOB_STORAGE_KEY = "picture-press:last-job";
+
+// Job polling interval, backing off while polls fail (e.g. rate limited); the
+// server allows 60 job reads a minute per session
+const JOB_POLL_MS = 2000;
+const JOB_POLL_MAX_MS = 15_000;
+
 const DEFAULT_SELECTIONS: PicturePressSelections = {
   outputFormat: "png",
   quality: 90,
@@ -23,6 +41,7 @@ const DEFAULT_SELECTIONS: PicturePressSelections = {
   customPattern: "",
   prefix: "",
   suffix: "",
+  engine: "auto",
 };
 
 export default function PicturePressPage() {
@@ -30,29 +49,39 @@ export default function PicturePressPage() {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [converting, setConverting] = useState(false);
   const [convertedImages, setConvertedImages] = useState<ConvertedImageItem[]>([]);
+  const [responsiveSets, setResponsiveSets] = useState<ResponsiveSet[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [, setUploadedFilesMeta] = useState<UploadRes["uploadedFiles"]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [infoMsg, setInfoMsg] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [job, setJob] = useState<StoredJob | null>(null);
+  const appliedJobRef = useRef<string | null>(null);
 
   // tRPC mutations
   const uploadImages = api.picturePress.uploadImages.useMutation();
   const cleanupSession = api.picturePress.cleanupSession.useMutation();
-  const convertImagesMutation = api.picturePress.convertImages.useMutation();
+  const submitConversion = api.picturePress.submitConversion.useMutation();
+  const cancelConversion = api.picturePress.cancelConversion.useMutation();
   const zipImagesMutation = api.picturePress.zipConvertedImages.useMutation();
+  const updateImageMetadata = api.picturePress.updateImageMetadata.useMutation();
 
-  // Progress polling for conversion
+  // Progress streamed over SSE; polling only while the stream is not connected
   const sid = sessionId ?? "00000000-0000-0000-0000-000000000000";
+  const progressStream = api.picturePress.onConversionProgress.useSubscription(
+    { sessionId: sid },
+    { enabled: converting && !!sessionId },
+  );
+  const streaming = progressStream.status === "pending";
   const progressQuery = api.picturePress.getConversionProgress.useQuery(
     { sessionId: sid },
     {
-      enabled: converting && !!sessionId,
-      refetchInterval: converting ? 600 : false,
+      enabled: converting && !!sessionId && !streaming,
+      refetchInterval: converting && !streaming ? 600 : false,
     },
   );
   
-  const progressData = progressQuery.data;
+  const progressData = progressStream.data ?? progressQuery.data;
   const progressTotal = progressData?.total ?? 100;
   const progressCurrent = progressData?.current ?? 0;
   const progressPct =
@@ -62,6 +91,25 @@ export default function PicturePressPage() {
   const progressOp = progressData?.currentOperation ?? "Working...";
   const currentFile = progressData?.currentFile;
 
+  // Poll the submitted job until it settles
+  const jobQuery = api.picturePress.getConversionJob.useQuery(
+    { sessionId: job?.sessionId ?? sid, jobId: job?.jobId ?? sid },
+    {
+      enabled: !!job,
+      // Transient errors are retried; only a missing job is given up on
+      retry: (failureCount, error) =>
+        error.data?.code !== "NOT_FOUND" && failureCount < 3,
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "succeeded" || status === "failed" || status === "cancelled"
+          ? false
+          : jobPollDelay(query.state.fetchFailureCount);
+      },
+    },
+  );
+  const jobData = jobQuery.data;
+  const jobError = jobQuery.error;
+
   const canConvert = useMemo(() => {
     return !!sessionId && uploadedFiles.length > 0;
   }, [sessionId, uploadedFiles.length]);
@@ -120,6 +168,9 @@ export default function PicturePressPage() {
         setUploadedFilesMeta(res.uploadedFiles);
         setUploadedFiles(prev => [...prev, ...files]);
         setConvertedImages([]); // Clear previous results
+        setResponsiveSets([]);
+        setJob(null);
+        clearStoredJob();
         
         // Clear progress after a short delay
         setTimeout(() => {
@@ -150,6 +201,7 @@ export default function PicturePressPage() {
       setSessionId(null);
       setUploadedFilesMeta([]);
       setConvertedImages([]);
+      setResponsiveSets([]);
     }
   }, [uploadedFiles.length]);
 
@@ -165,14 +217,66 @@ export default function PicturePressPage() {
       setSessionId(null);
       setUploadedFilesMeta([]);
       setConvertedImages([]);
+      setResponsiveSets([]);
       setErrorMsg(null);
       setInfoMsg(null);
       setUploadProgress({});
+      setJob(null);
+      clearStoredJob();
     }
   }, [sessionId, cleanupSession]);
 
   const onClearResults = useCallback(() => {
     setConvertedImages([]);
+    setResponsiveSets([]);
+  }, []);
+
+  const applyResult = useCallback((res: ConvertRes, outputFormat: StoredJob["outputFormat"]) => {
+    // Transform results to ConvertedImageItem format
+    const newConvertedImages: ConvertedImageItem[] = res.convertedImages.map(
+      (img) => ({
+        id: `${img.originalName}-${img.convertedName}`,
+        originalName: img.originalName,
+        convertedName: img.convertedName,
+        originalUrl: img.originalUrl,
+        convertedUrl: img.downloadUrl,
+        originalSize: img.originalSize,
+        convertedSize: img.convertedSize,
+        format: img.format ?? outputFormat,
+        metadata: img.metadata,
+        seo: img.seo,
+        seoBlocks: img.seoBlocks,
+        quality: img.quality,
+        target: img.target,
+        ssim: img.ssim,
+        psnr: img.psnr,
+        sourceWidth: img.sourceWidth,
+        sourceHeight: img.sourceHeight,
+        width: img.width,
+        height: img.height,
+      }),
+    );
+
+    setConvertedImages(newConvertedImages);
+    setResponsiveSets(res.responsiveSets ?? []);
+
+    // Show info about conversion results
+    if (res.cancelled) {
+      setInfoMsg(`Conversion cancelled. ${res.successCount} image${res.successCount === 1 ? '' : 's'} converted, ${res.skippedCount} skipped.`);
+    } else if (res.failureCount > 0) {
+      const failureMsg = `Conversion completed with ${res.failureCount} failure${res.failureCount === 1 ? '' : 's'}. ${res.successCount} image${res.successCount === 1 ? '' : 's'} converted successfully.`;
+      setInfoMsg(failureMsg);
+    } else {
+      const savingsMsg = res.totalSavings > 0 
+        ? ` Saved ${formatBytes(res.totalSavings)} (${Math.round((res.totalSavings / res.totalOriginalSize) * 100)}%)`
+        : res.totalSavings < 0 
+          ? ` Increased by ${formatBytes(-res.totalSavings)}`
+          : '';
+      const targetMsg = res.targetMissedCount > 0
+        ? ` ${res.targetMissedCount} could not meet the quality target.`
+        : '';
+      setInfoMsg(`Successfully converted ${res.successCount} image${res.successCount === 1 ? '' : 's'}.${savingsMsg}${targetMsg}`);
+    }
   }, []);
 
   const convert = useCallback(async () => {
@@ -183,71 +287,153 @@ export default function PicturePressPage() {
       setErrorMsg(null);
       setInfoMsg(null);
       
-      const res: ConvertRes = await convertImagesMutation.mutateAsync({
+      const res = await submitConversion.mutateAsync({
         sessionId,
         options: {
           outputFormat: selections.outputFormat,
-          quality: selections.quality,
+          ...formatSettings(selections),
+          resize: selections.resize,
+          responsive: responsiveSettings(selections),
+          metadata: selections.metadata,
           namingConvention: selections.namingConvention,
           customPattern: selections.customPattern ?? undefined,
           prefix: selections.prefix ?? undefined,
           suffix: selections.suffix ?? undefined,
+          engine: selections.engine,
+          concurrency: selections.concurrency,
         },
       });
 
-      // Transform results to ConvertedImageItem format
-      const newConvertedImages: ConvertedImageItem[] = res.convertedImages.map(
-        (img) => ({
-          id: `${img.originalName}-${img.convertedName}`,
-          originalName: img.originalName,
-          convertedName: img.convertedName,
-          originalUrl: img.previewUrl, // Use preview URL for original (we don't have separate original URLs)
-          convertedUrl: img.downloadUrl,
-          originalSize: img.originalSize,
-          convertedSize: img.convertedSize,
-          format: selections.outputFormat,
-          width: img.width,
-          height: img.height,
-        }),
-      );
-
-      setConvertedImages(newConvertedImages);
-
-      // Show info about conversion results
-      if (res.failureCount > 0) {
-        const failureMsg = `Conversion completed with ${res.failureCount} failure${res.failureCount === 1 ? '' : 's'}. ${res.successCount} image${res.successCount === 1 ? '' : 's'} converted successfully.`;
-        setInfoMsg(failureMsg);
-      } else {
-        const savingsMsg = res.totalSavings > 0 
-          ? ` Saved ${formatBytes(res.totalSavings)} (${Math.round((res.totalSavings / res.totalOriginalSize) * 100)}%)`
-          : res.totalSavings < 0 
-            ? ` Increased by ${formatBytes(-res.totalSavings)}`
-            : '';
-        setInfoMsg(`Successfully converted ${res.successCount} image${res.successCount === 1 ? '' : 's'}.${savingsMsg}`);
-      }
-
+      const submitted: StoredJob = {
+        sessionId,
+        jobId: res.jobId,
+        outputFormat: selections.outputFormat,
+      };
+      setJob(submitted);
+      writeStoredJob(submitted);
     } catch (err) {
       console.error("[picture-press] conversion failed", err);
       setErrorMsg(readableError(err, "Conversion failed. Please try again."));
-    } finally {
       setConverting(false);
     }
   }, [
     sessionId,
     uploadedFiles.length,
-    convertImagesMutation,
+    submitConversion,
     selections,
   ]);
 
-  const onDownloadOne = useCallback((item: ConvertedImageItem) => {
-    triggerDownload(item.convertedUrl, item.convertedName);
+  // Restore the last job after a reload; the job query refetches its result
+  useEffect(() => {
+    const saved = readStoredJob();
+    if (!saved) return;
+    setSessionId(saved.sessionId);
+    setJob(saved);
+    setConverting(true);
   }, []);
 
+  useEffect(() => {
+    if (!job || !jobData || appliedJobRef.current === jobData.id) return;
+    if (jobData.status === "succeeded" && jobData.result) {
+      appliedJobRef.current = jobData.id;
+      applyResult(jobData.result, job.outputFormat);
+      setConverting(false);
+    } else if (jobData.status === "cancelled") {
+      appliedJobRef.current = jobData.id;
+      // Cancelled before it started: there is nothing to show
+      if (jobData.result) applyResult(jobData.result, job.outputFormat);
+      else setInfoMsg("Conversion cancelled.");
+      setConverting(false);
+    } else if (jobData.status === "failed") {
+      appliedJobRef.current = jobData.id;
+      setErrorMsg(jobData.error?.message ?? "Conversion failed. Please try again.");
+      setConverting(false);
+    }
+  }, [job, jobData, applyResult]);
+
+  // The job keeps its converted files; the job query picks up the partial result
+  const onCancel = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      await cancelConversion.mutateAsync({ sessionId, jobId: job?.jobId });
+    } catch (err) {
+      setErrorMsg(readableError(err, "Could not cancel the conversion."));
+    }
+  }, [sessionId, job, cancelConversion]);
+
+  useEffect(() => {
+    // Session or job is gone (e.g. expired); forget it. Other errors (rate
+    // limits, network) are transient and polling carries on
+    if (jobError?.data?.code !== "NOT_FOUND") return;
+    clearStoredJob();
+    setJob(null);
+    setConverting(false);
+  }, [jobError]);
+
+  const onSeoChange = useCallback((item: ConvertedImageItem, seo: SeoMetadata) => {
+    setConvertedImages((prev) =>
+      prev.map((img) => (img.id === item.id ? { ...img, seo, seoEdited: true } : img)),
+    );
+  }, []);
+
+  // Write edited SEO fields into the converted files; returns the items with
+  // their new sizes and cache-busted URLs
+  const saveSeoEdits = useCallback(async (items: ConvertedImageItem[]) => {
+    const edited = items.filter((img) => img.seoEdited);
+    if (!sessionId || edited.length === 0) return items;
+
+    const res = await updateImageMetadata.mutateAsync({
+      sessionId,
+      // Empty strings clear fields removed in the editor
+      images: edited.map((img) => ({
+        convertedName: img.convertedName,
+        title: img.seo?.title ?? "",
+        description: img.seo?.description ?? "",
+        creator: img.seo?.creator ?? "",
+        copyright: img.seo?.copyright ?? "",
+      })),
+    });
+    const written = new Map(res.images.map((img) => [img.convertedName, img]));
+    const revision = Date.now();
+    const apply = (img: ConvertedImageItem): ConvertedImageItem => {
+      const update = written.get(img.convertedName);
+      if (!update) return img;
+      return {
+        ...img,
+        seo: update.seo,
+        seoEdited: false,
+        convertedSize: update.convertedSize,
+        convertedUrl: `${img.convertedUrl.split("?")[0]}?rev=${revision}`,
+      };
+    };
+    setConvertedImages((prev) => prev.map(apply));
+    return items.map(apply);
+  }, [sessionId, updateImageMetadata]);
+
+  const onDownloadOne = useCallback(async (item: ConvertedImageItem) => {
+    try {
+      setErrorMsg(null);
+      const [saved] = await saveSeoEdits([item]);
+      triggerDownload(saved?.convertedUrl ?? item.convertedUrl, item.convertedName);
+    } catch (err) {
+      console.error("[picture-press] metadata update failed", err);
+      setErrorMsg(readableError(err, "Could not write the SEO metadata. Please try again."));
+    }
+  }, [saveSeoEdits]);
+
   const onDownloadAll = useCallback(async () => {
     if (!sessionId) return;
     
+    setErrorMsg(null);
+    try {
+      await saveSeoEdits(convertedImages);
+    } catch (err) {
+      console.error("[picture-press] metadata update failed", err);
+      setErrorMsg(readableError(err, "Could not write the SEO metadata. Please try again."));
+      return;
+    }
+
     try {
-      setErrorMsg(null);
       const res = await zipImagesMutation.mutateAsync({ sessionId });
       if (res.downloadUrl) {
         triggerDownload(res.downloadUrl, res.fileName);
@@ -266,7 +452,7 @@ export default function PicturePressPage() {
         triggerDownload(img.convertedUrl, img.convertedName);
       }
     }
-  }, [sessionId, convertedImages, zipImagesMutation]);
+  }, [sessionId, convertedImages, zipImagesMutation, saveSeoEdits]);
 
   return (
     <main className="min-h-[calc(100vh-5rem)] text-white">
@@ -348,12 +534,24 @@ export default function PicturePressPage() {
                     {converting ? "Converting..." : "Convert Images"}
                   </button>
 
+                  {converting && (
+                    <button
+                      type="button"
+                      disabled={cancelConversion.isPending}
+                      onClick={onCancel}
+                      className="rounded-md border border-red-400/30 bg-red-500/10 px-3 py-2 text-xs text-red-200 hover:bg-red-500/20 disabled:opacity-50"
+                    >
+                      {cancelConversion.isPending ? "Cancelling..." : "Cancel"}
+                    </button>
+                  )}
+
                   <button
                     type="button"
                     disabled={
                       !convertedImages.length ||
                       converting ||
-                      zipImagesMutation.isPending
+                      zipImagesMutation.isPending ||
+                      updateImageMetadata.isPending
                     }
                     onClick={onDownloadAll}
                     className={[
@@ -363,7 +561,9 @@ export default function PicturePressPage() {
                         : "cursor-not-allowed border border-white/10 bg-white/5 text-white/50",
                     ].join(" ")}
                   >
-                    {zipImagesMutation.isPending
+                    {updateImageMetadata.isPending
+                      ? "Writing metadata..."
+                      : zipImagesMutation.isPending
                       ? "Preparing ZIP..."
                       : "Download All"}
                   </button>
@@ -414,8 +614,10 @@ export default function PicturePressPage() {
               <div className="mt-4">
                 <PicturePressResultGrid
                   convertedImages={convertedImages}
+                  responsiveSets={responsiveSets}
                   onDownloadOne={onDownloadOne}
                   onDownloadAll={onDownloadAll}
+                  onSeoChange={onSeoChange}
                   onClearResults={onClearResults}
                 />
               </div>
@@ -435,6 +637,36 @@ function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function readStoredJob(): StoredJob | null {
+  try {
+    const raw = window.localStorage.getItem(JOB_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredJob) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredJob(job: StoredJob) {
+  try {
+    window.localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify(job));
+  } catch {
+    // storage unavailable (private mode); reload recovery is best-effort
+  }
+}
+
+// Delay before the next poll of a running job; doubles per failed poll in a row
+function jobPollDelay(failures: number): number {
+  return Math.min(JOB_POLL_MAX_MS, JOB_POLL_MS * 2 ** failures);
+}
+
+function clearStoredJob() {
+  try {
+    window.localStorage.removeItem(JOB_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
 function triggerDownload(dataUrl: string, filename: string) {
   const a = document.createElement("a");
   a.href = dataUrl;
@@ -486,7 +718,7 @@ function readableError(err: unknown, fallback: string): string {
       }
       
       if (message.includes("MIME") || message.includes("format")) {
-        return "One or more files have unsupported formats. Please use JPEG, PNG, GIF, WebP, TIFF, or BMP images.";
+        return "One or more files have unsupported formats. Please use JPEG, PNG, GIF, WebP, TIFF, BMP, HEIC or AVIF images.";
       }
       
       // Return the original message if it's already user-friendly
@@ -1,21 +1,31 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import SidebarOptions, {
   type PixelForgeSelections,
 } from "@/app/_components/SidebarOptions";
 import UploadArea from "@/app/_components/UploadArea";
+import DarkSourceUpload from "@/app/_components/DarkSourceUpload";
 import ResultGrid from "@/app/_components/ResultGrid";
+import MaskPreviews from "@/app/_components/MaskPreviews";
+import ManifestEditor, {
+  type ManifestIssue,
+} from "@/app/_components/ManifestEditor";
+import IntegrationSnippets, {
+  type Integrations,
+} from "@/app/_components/IntegrationSnippets";
 import { api } from "@/trpc/react";
 
-import type { inferRouterOutputs } from "@trpc/server";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
 import type { AppRouter } from "@/server/api/root";
 type GenRes = inferRouterOutputs<AppRouter>["pixelForge"]["generateAssets"];
+type Recipe = inferRouterInputs<AppRouter>["pixelForge"]["runRecipe"]["recipe"];
 
 type VariantItem = {
   id: string;
   url: string;
   filename: string;
+  warnings?: string[];
   meta: {
     size: string;
     style: string;
@@ -28,8 +38,24 @@ type ServerAsset = {
   category: string;
   downloadUrl: string;
   previewUrl?: string;
+  warnings?: string[];
 };
 
+// Last submitted job, so a reload can pick the result back up
+type StoredJob = {
+  sessionId: string;
+  jobId: string;
+  storedPath: string;
+  sourceUrl: string | null;
+};
+
+const JOB_STORAGE_KEY = "pixel-forge:last-job";
+
+// Job polling interval, backing off while polls fail (e.g. rate limited); the
+// server allows 60 job reads a minute per session
+const JOB_POLL_MS = 2000;
+const JOB_POLL_MAX_MS = 15_000;
+
 const DEFAULT_SELECTIONS: PixelForgeSelections = {
   generationTypes: ["all"],
   transparent: false,
@@ -39,7 +65,11 @@ const DEFAULT_SELECTIONS: PixelForgeSelections = {
   backgroundColor: "",
   format: "png",
   quality: 90,
-  urlPrefix: "",
+  publishBaseUrl: "",
+  maskable: { padding: 20, scale: 1, background: "" },
+  splash: { scale: 0.3 },
+  darkFavicon: "plate",
+  engine: "auto",
 };
 
 export default function Page() {
@@ -50,26 +80,53 @@ export default function Page() {
   const [variants, setVariants] = useState<VariantItem[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [storedPath, setStoredPath] = useState<string | null>(null);
-  const [metaHtml, setMetaHtml] = useState<string | null>(null);
+  // Optional dark color-scheme source for paired favicons
+  const [darkStoredPath, setDarkStoredPath] = useState<string | null>(null);
+  const [darkSourceUrl, setDarkSourceUrl] = useState<string | null>(null);
+  const [integrations, setIntegrations] = useState<Integrations | null>(null);
   const [metaFileUrl, setMetaFileUrl] = useState<string | null>(null);
+  const [recipeUrl, setRecipeUrl] = useState<string | null>(null);
+  const [manifestIssues, setManifestIssues] = useState<ManifestIssue[] | null>(
+    null,
+  );
+  const [validatingManifest, setValidatingManifest] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [infoMsg, setInfoMsg] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const appliedJobRef = useRef<string | null>(null);
 
   const uploadImage = api.pixelForge.uploadImage.useMutation();
   const cleanupSession = api.pixelForge.cleanupSession.useMutation();
-  const generateAssetsMutation = api.pixelForge.generateAssets.useMutation();
+  const submitGeneration = api.pixelForge.submitGeneration.useMutation();
+  const cancelGeneration = api.pixelForge.cancelGeneration.useMutation();
+  const runRecipe = api.pixelForge.runRecipe.useMutation();
+  const recipeInputRef = useRef<HTMLInputElement>(null);
   const zipAssetsMutation = api.pixelForge.zipAssets.useMutation();
+  const utils = api.useUtils();
+  const brandProfilesQuery = api.pixelForge.listBrandProfiles.useQuery();
+  const saveBrandProfile = api.pixelForge.saveBrandProfile.useMutation({
+    onSuccess: () => utils.pixelForge.listBrandProfiles.invalidate(),
+  });
+  const deleteBrandProfile = api.pixelForge.deleteBrandProfile.useMutation({
+    onSuccess: () => utils.pixelForge.listBrandProfiles.invalidate(),
+  });
+  const brandProfiles = brandProfilesQuery.data?.profiles;
 
-  // Progress polling for generation
+  // Progress streamed over SSE; polling only while the stream is not connected
   const sid = sessionId ?? "00000000-0000-0000-0000-000000000000";
+  const progressStream = api.pixelForge.onGenerationProgress.useSubscription(
+    { sessionId: sid },
+    { enabled: generating && !!sessionId },
+  );
+  const streaming = progressStream.status === "pending";
   const progressQuery = api.pixelForge.getGenerationProgress.useQuery(
     { sessionId: sid },
     {
-      enabled: generating && !!sessionId,
-      refetchInterval: generating ? 600 : false,
+      enabled: generating && !!sessionId && !streaming,
+      refetchInterval: generating && !streaming ? 600 : false,
     },
   );
-  const progressData = progressQuery.data;
+  const progressData = progressStream.data ?? progressQuery.data;
   const progressTotal = progressData?.total ?? 100;
   const progressCurrent = progressData?.current ?? 0;
   const progressPct =
@@ -77,6 +134,36 @@ export default function Page() {
       ? Math.min(100, Math.round((progressCurrent / progressTotal) * 100))
       : 0;
   const progressOp = progressData?.currentOperation ?? "Working...";
+  // Fill the grid with assets as pixel-forge writes them
+  const liveAssets = progressData?.assets;
+  const liveVariants = useMemo(
+    () =>
+      generating && liveAssets
+        ? liveAssets.map((a) => toVariant({ ...a, downloadUrl: a.previewUrl }))
+        : null,
+    [generating, liveAssets],
+  );
+
+  // Poll the submitted job until it settles
+  const jobQuery = api.pixelForge.getGenerationJob.useQuery(
+    { sessionId: sid, jobId: jobId ?? sid },
+    {
+      enabled: !!sessionId && !!jobId,
+      // Transient errors are retried; only a missing job is given up on
+      retry: (failureCount, error) =>
+        error.data?.code !== "NOT_FOUND" && failureCount < 3,
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "succeeded" ||
+          status === "failed" ||
+          status === "cancelled"
+          ? false
+          : jobPollDelay(query.state.fetchFailureCount);
+      },
+    },
+  );
+  const job = jobQuery.data;
+  const jobError = jobQuery.error;
   const canGenerate = useMemo(() => {
     return !!sessionId && !!storedPath;
   }, [sessionId, storedPath]);
@@ -96,6 +183,8 @@ export default function Page() {
         setStoredPath(res.storedPath);
         setSourceUrl(res.previewUrl);
         setVariants([]);
+        setJobId(null);
+        clearStoredJob();
       } catch (err) {
         console.error("[pixel-forge] upload failed", err);
         setErrorMsg(
@@ -106,6 +195,30 @@ export default function Page() {
     [uploadImage, sessionId],
   );
 
+  const onUploadDark = useCallback(
+    async (file: File, dataUrl: string) => {
+      try {
+        setErrorMsg(null);
+        const res = await uploadImage.mutateAsync({
+          fileName: file.name,
+          fileData: dataUrl.split(",")[1] ?? "",
+          mimeType: file.type || "image/png",
+          sessionId: sessionId ?? undefined,
+          variant: "dark",
+        });
+        setSessionId(res.sessionId);
+        setDarkStoredPath(res.storedPath);
+        setDarkSourceUrl(res.previewUrl);
+      } catch (err) {
+        console.error("[pixel-forge] dark upload failed", err);
+        setErrorMsg(
+          readableError(err, "Upload failed. Please check file type and size."),
+        );
+      }
+    },
+    [uploadImage, sessionId],
+  );
+
   const onClearUpload = useCallback(async () => {
     try {
       if (sessionId) {
@@ -117,11 +230,17 @@ export default function Page() {
       setSourceUrl(null);
       setSessionId(null);
       setStoredPath(null);
+      setDarkStoredPath(null);
+      setDarkSourceUrl(null);
       setVariants([]);
-      setMetaHtml(null);
+      setIntegrations(null);
       setMetaFileUrl(null);
+      setRecipeUrl(null);
+      setManifestIssues(null);
       setErrorMsg(null);
       setInfoMsg(null);
+      setJobId(null);
+      clearStoredJob();
     }
   }, [sessionId, cleanupSession]);
 
@@ -129,15 +248,45 @@ export default function Page() {
     setVariants([]);
   }, []);
 
+  const applyResult = useCallback((res: GenRes) => {
+    const newVariants: VariantItem[] = (res.assets as ServerAsset[]).map(
+      toVariant,
+    );
+    setVariants(newVariants);
+    // Capture meta tags and framework snippets for the integration section
+    setIntegrations(res.integrations ?? null);
+    // Download the copy that points at the publish base, not the session
+    setMetaFileUrl(res.published?.metaTagsUrl ?? res.metaTags?.fileUrl ?? null);
+    setRecipeUrl(res.recipeUrl ?? null);
+    setManifestIssues(res.manifestIssues ?? null);
+    // Engine guidance (e.g., ImageMagick recommendation)
+    const engineInfo = res as unknown as {
+      engine?: string;
+      engineNote?: string;
+    };
+    if (engineInfo.engine && engineInfo.engine !== "magick") {
+      const note =
+        engineInfo.engineNote ??
+        "Install ImageMagick for best quality (brew install imagemagick).";
+      setInfoMsg(`Using ${engineInfo.engine}. ${note}`);
+    }
+    if (res.cancelled) {
+      setInfoMsg(
+        `Generation cancelled. Showing the ${newVariants.length} file(s) written before it stopped.`,
+      );
+    }
+  }, []);
+
   const generate = useCallback(async () => {
     if (!sessionId || !storedPath) return;
     setGenerating(true);
     try {
       setErrorMsg(null);
       setInfoMsg(null);
-      const res: GenRes = await generateAssetsMutation.mutateAsync({
+      const res = await submitGeneration.mutateAsync({
         sessionId,
         imagePath: storedPath,
+        darkImagePath: darkStoredPath ?? undefined,
         options: {
           generationTypes:
             (selections.generationTypes?.length ?? 0) > 0
@@ -150,53 +299,37 @@ export default function Page() {
           backgroundColor: selections.backgroundColor ?? undefined,
           format: selections.format,
           quality: selections.quality,
-          urlPrefix: selections.urlPrefix ?? undefined,
+          publishBaseUrl: selections.publishBaseUrl ?? undefined,
+          maskable: selections.maskable,
+          splash: selections.splash,
+          manifest: selections.manifest,
+          darkFavicon: selections.darkFavicon,
+          engine: selections.engine,
         },
       });
-
-      const newVariants: VariantItem[] = (res.assets as ServerAsset[]).map(
-        (a: ServerAsset) => {
-          const ext = a.fileName.split(".").pop()?.toUpperCase() ?? "PNG";
-          const re = /(\d{2,4})x(\d{2,4})/;
-          const dimsMatch = re.exec(a.fileName);
-          const dimStr = dimsMatch ? `${dimsMatch[1]}x${dimsMatch[2]}` : "";
-          return {
-            id: `${a.category}-${a.fileName}`,
-            url: a.previewUrl ?? a.downloadUrl,
-            filename: a.fileName,
-            meta: {
-              size: dimStr || a.category,
-              style: a.category,
-              format: ext,
-            },
-          };
-        },
-      );
-      setVariants(newVariants);
-      // Capture meta tags for display section
-      setMetaHtml(res.metaTags?.html ?? null);
-      setMetaFileUrl(res.metaTags?.fileUrl ?? null);
-      // Engine guidance (e.g., ImageMagick recommendation)
-      const engineInfo = res as unknown as {
-        engine?: string;
-        engineNote?: string;
-      };
-      if (engineInfo.engine && engineInfo.engine !== "magick") {
-        const note =
-          engineInfo.engineNote ??
-          "Install ImageMagick for best quality (brew install imagemagick).";
-        setInfoMsg(`Using ${engineInfo.engine}. ${note}`);
+      if (res.attached) {
+        setInfoMsg(
+          "A generation was already running for this upload; showing its result.",
+        );
       }
+      setJobId(res.jobId);
+      writeStoredJob({
+        sessionId,
+        jobId: res.jobId,
+        storedPath,
+        sourceUrl,
+      });
     } catch (err) {
       console.error("[pixel-forge] generation failed", err);
       setErrorMsg(readableError(err, "Generation failed. Please try again."));
-    } finally {
       setGenerating(false);
     }
   }, [
     sessionId,
     storedPath,
-    generateAssetsMutation,
+    darkStoredPath,
+    sourceUrl,
+    submitGeneration,
     selections.generationTypes,
     selections.transparent,
     selections.appName,
@@ -205,9 +338,182 @@ export default function Page() {
     selections.backgroundColor,
     selections.format,
     selections.quality,
-    selections.urlPrefix,
+    selections.publishBaseUrl,
+    selections.maskable,
+    selections.splash,
+    selections.manifest,
+    selections.darkFavicon,
+    selections.engine,
   ]);
 
+  // Spec and installability check of the editor fields (icons come with a run)
+  const onValidateManifest = useCallback(async () => {
+    setValidatingManifest(true);
+    try {
+      setErrorMsg(null);
+      const res = await utils.pixelForge.validateManifest.fetch({
+        manifest: selections.manifest ?? {},
+        publishBaseUrl: selections.publishBaseUrl ?? undefined,
+      });
+      setManifestIssues(res.issues);
+    } catch (err) {
+      setErrorMsg(readableError(err, "Manifest validation failed."));
+    } finally {
+      setValidatingManifest(false);
+    }
+  }, [utils, selections.manifest, selections.publishBaseUrl]);
+
+  // Replay a recipe.json from an earlier run against the current upload
+  const onImportRecipe = useCallback(
+    async (file: File) => {
+      if (!sessionId || !storedPath) return;
+      setGenerating(true);
+      try {
+        setErrorMsg(null);
+        setInfoMsg(null);
+        const recipe = JSON.parse(await file.text()) as Recipe;
+        const res = await runRecipe.mutateAsync({
+          sessionId,
+          imagePath: storedPath,
+          darkImagePath: darkStoredPath ?? undefined,
+          recipe,
+          engine: selections.engine,
+        });
+        // Reflect the replayed options in the sidebar
+        setSelections({
+          ...DEFAULT_SELECTIONS,
+          ...recipe.options,
+          brandProfileId: undefined,
+          engine: selections.engine,
+        });
+        setJobId(res.jobId);
+        writeStoredJob({
+          sessionId,
+          jobId: res.jobId,
+          storedPath,
+          sourceUrl,
+        });
+      } catch (err) {
+        console.error("[pixel-forge] recipe import failed", err);
+        setErrorMsg(
+          err instanceof SyntaxError
+            ? "Recipe file is not valid JSON."
+            : readableError(err, "Could not run recipe. Please try again."),
+        );
+        setGenerating(false);
+      }
+    },
+    [
+      sessionId,
+      storedPath,
+      darkStoredPath,
+      sourceUrl,
+      runRecipe,
+      selections.engine,
+    ],
+  );
+
+  // Restore the last job after a reload; the job query refetches its result
+  useEffect(() => {
+    const saved = readStoredJob();
+    if (!saved) return;
+    setSessionId(saved.sessionId);
+    setStoredPath(saved.storedPath);
+    setSourceUrl(saved.sourceUrl);
+    setJobId(saved.jobId);
+    setGenerating(true);
+  }, []);
+
+  useEffect(() => {
+    if (!job || appliedJobRef.current === job.id) return;
+    if (job.status === "succeeded" && job.result) {
+      appliedJobRef.current = job.id;
+      applyResult(job.result);
+      setGenerating(false);
+    } else if (job.status === "cancelled") {
+      appliedJobRef.current = job.id;
+      // Cancelled before it started: there is nothing to show
+      if (job.result) applyResult(job.result);
+      else setInfoMsg("Generation cancelled.");
+      setGenerating(false);
+    } else if (job.status === "failed") {
+      appliedJobRef.current = job.id;
+      setErrorMsg(job.error?.message ?? "Generation failed. Please try again.");
+      setGenerating(false);
+    }
+  }, [job, applyResult]);
+
+  // Generation stops after its current step; the job query then picks up
+  // the partial result
+  const onCancel = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      await cancelGeneration.mutateAsync({
+        sessionId,
+        jobId: jobId ?? undefined,
+      });
+    } catch (err) {
+      setErrorMsg(readableError(err, "Could not cancel the generation."));
+    }
+  }, [sessionId, jobId, cancelGeneration]);
+
+  useEffect(() => {
+    // Session or job is gone (e.g. expired); forget it. Other errors (rate
+    // limits, network) are transient and polling carries on
+    if (jobError?.data?.code !== "NOT_FOUND") return;
+    clearStoredJob();
+    setJobId(null);
+    setGenerating(false);
+  }, [jobError]);
+
+  const onSaveBrandProfile = useCallback(
+    async (name: string) => {
+      try {
+        setErrorMsg(null);
+        // Re-saving under the selected profile's name updates it in place
+        const current = brandProfiles?.find(
+          (p) => p.id === selections.brandProfileId,
+        );
+        const res = await saveBrandProfile.mutateAsync({
+          id: current?.name === name ? current.id : undefined,
+          name,
+          appName: selections.appName ?? undefined,
+          description: selections.description ?? undefined,
+          themeColor: selections.themeColor ?? undefined,
+          backgroundColor: selections.backgroundColor ?? undefined,
+        });
+        setSelections((prev) => ({ ...prev, brandProfileId: res.profile.id }));
+        setInfoMsg(`Saved brand profile "${res.profile.name}".`);
+      } catch (err) {
+        console.error("[pixel-forge] brand profile save failed", err);
+        setErrorMsg(readableError(err, "Saving the brand profile failed."));
+      }
+    },
+    [
+      brandProfiles,
+      saveBrandProfile,
+      selections.brandProfileId,
+      selections.appName,
+      selections.description,
+      selections.themeColor,
+      selections.backgroundColor,
+    ],
+  );
+
+  const onDeleteBrandProfile = useCallback(
+    async (id: string) => {
+      try {
+        setErrorMsg(null);
+        await deleteBrandProfile.mutateAsync({ id });
+        setSelections((prev) => ({ ...prev, brandProfileId: undefined }));
+      } catch (err) {
+        console.error("[pixel-forge] brand profile delete failed", err);
+        setErrorMsg(readableError(err, "Deleting the brand profile failed."));
+      }
+    },
+    [deleteBrandProfile],
+  );
+
   const onDownloadOne = useCallback((v: VariantItem) => {
     triggerDownload(v.url, v.filename);
   }, []);
@@ -268,7 +574,24 @@ export default function Page() {
         <div className="grid grid-cols-12 gap-5">
           {/* Sidebar */}
           <div className="col-span-12 md:col-span-4 lg:col-span-3">
-            <SidebarOptions value={selections} onChange={setSelections} />
+            <SidebarOptions
+              value={selections}
+              onChange={setSelections}
+              brandProfiles={brandProfiles}
+              onSaveBrandProfile={onSaveBrandProfile}
+              onDeleteBrandProfile={onDeleteBrandProfile}
+            />
+            <div className="mt-5">
+              <ManifestEditor
+                value={selections.manifest ?? {}}
+                onChange={(manifest) =>
+                  setSelections((prev) => ({ ...prev, manifest }))
+                }
+                issues={manifestIssues}
+                onValidate={onValidateManifest}
+                validating={validatingManifest}
+              />
+            </div>
           </div>
 
           {/* Canvas */}
@@ -291,6 +614,15 @@ export default function Page() {
                 onUpload={onUpload}
                 onClear={onClearUpload}
               />
+              <DarkSourceUpload
+                previewUrl={darkSourceUrl}
+                onUpload={onUploadDark}
+                onClear={() => {
+                  setDarkStoredPath(null);
+                  setDarkSourceUrl(null);
+                }}
+                disabled={generating || uploadImage.isPending}
+              />
 
               {/* Actions */}
               <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
@@ -309,6 +641,17 @@ export default function Page() {
                     {generating ? "Generating..." : "Generate"}
                   </button>
 
+                  {generating ? (
+                    <button
+                      type="button"
+                      disabled={cancelGeneration.isPending}
+                      onClick={onCancel}
+                      className="rounded-md border border-red-400/30 bg-red-500/10 px-3 py-2 text-xs text-red-200 hover:bg-red-500/20 disabled:opacity-50"
+                    >
+                      {cancelGeneration.isPending ? "Cancelling..." : "Cancel"}
+                    </button>
+                  ) : null}
+
                   <button
                     type="button"
                     disabled={
@@ -328,6 +671,40 @@ export default function Page() {
                       ? "Preparing ZIP..."
                       : "Download All"}
                   </button>
+
+                  <button
+                    type="button"
+                    disabled={!canGenerate || generating}
+                    onClick={() => recipeInputRef.current?.click()}
+                    className={[
+                      "rounded-md px-3 py-2 text-xs font-medium transition",
+                      canGenerate && !generating
+                        ? "border border-white/10 bg-white/10 text-white/85 hover:bg-white/20"
+                        : "cursor-not-allowed border border-white/10 bg-white/5 text-white/50",
+                    ].join(" ")}
+                  >
+                    Run Recipe...
+                  </button>
+                  <input
+                    ref={recipeInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) void onImportRecipe(file);
+                    }}
+                  />
+                  {recipeUrl && !generating ? (
+                    <a
+                      href={recipeUrl}
+                      download="recipe.json"
+                      className="rounded-md border border-white/10 bg-white/10 px-3 py-2 text-xs font-medium text-white/85 transition hover:bg-white/20"
+                    >
+                      Save Recipe
+                    </a>
+                  ) : null}
                 </div>
 
                 <div className="min-w-[220px] text-xs">
@@ -357,43 +734,22 @@ export default function Page() {
               {/* Results */}
               <div className="mt-4">
                 <ResultGrid
-                  variants={variants}
+                  variants={liveVariants ?? variants}
                   onDownloadOne={onDownloadOne}
                   onDownloadAll={onDownloadAll}
                   onClearResults={onClearResults}
                 />
               </div>
 
-              {/* Meta Tags */}
-              {metaHtml ? (
-                <section className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
-                  <div className="mb-2 flex items-center justify-between">
-                    <h3 className="text-sm font-semibold text-white/90">
-                      Meta Tags
-                    </h3>
-                    <div className="flex items-center gap-2">
-                      {metaFileUrl ? (
-                        <a
-                          href={metaFileUrl}
-                          download="meta-tags.html"
-                          className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[10px] text-white/85 hover:bg-white/20"
-                        >
-                          Download HTML
-                        </a>
-                      ) : null}
-                      <button
-                        type="button"
-                        onClick={() => navigator.clipboard.writeText(metaHtml)}
-                        className="rounded-md border border-white/10 bg-white/10 px-2 py-1 text-[10px] text-white/85 hover:bg-white/20"
-                      >
-                        Copy
-                      </button>
-                    </div>
-                  </div>
-                  <pre className="max-h-72 overflow-auto rounded-md bg-black/30 p-3 text-[11px] leading-5 text-emerald-100">
-                    <code>{metaHtml}</code>
-                  </pre>
-                </section>
+              {/* Maskable safe-zone check */}
+              {!generating ? <MaskPreviews variants={variants} /> : null}
+
+              {/* Integration snippets */}
+              {integrations ? (
+                <IntegrationSnippets
+                  integrations={integrations}
+                  metaFileUrl={metaFileUrl}
+                />
               ) : null}
             </section>
           </div>
@@ -407,10 +763,58 @@ export default function Page() {
  * Utilities
  */
 
+function toVariant(a: ServerAsset): VariantItem {
+  const ext = a.fileName.split(".").pop()?.toUpperCase() ?? "PNG";
+  const re = /(\d{2,4})x(\d{2,4})/;
+  const dimsMatch = re.exec(a.fileName);
+  const dimStr = dimsMatch ? `${dimsMatch[1]}x${dimsMatch[2]}` : "";
+  return {
+    id: `${a.category}-${a.fileName}`,
+    url: a.previewUrl ?? a.downloadUrl,
+    filename: a.fileName,
+    warnings: a.warnings,
+    meta: {
+      size: dimStr || a.category,
+      style: a.category,
+      format: ext,
+    },
+  };
+}
+
 function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function readStoredJob(): StoredJob | null {
+  try {
+    const raw = window.localStorage.getItem(JOB_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredJob) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredJob(job: StoredJob) {
+  try {
+    window.localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify(job));
+  } catch {
+    // storage unavailable (private mode); reload recovery is best-effort
+  }
+}
+
+// Delay before the next poll of a running job; doubles per failed poll in a row
+function jobPollDelay(failures: number): number {
+  return Math.min(JOB_POLL_MAX_MS, JOB_POLL_MS * 2 ** failures);
+}
+
+function clearStoredJob() {
+  try {
+    window.localStorage.removeItem(JOB_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
 function triggerDownload(dataUrl: string, filename: string) {
   const a = document.createElement("a");
   a.href = dataUrl;
@@ -11,6 +11,11 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    // Brand profile storage; defaults to .data/pixel-forge in the project root
+    PF_DATA_DIR: z
+      .string()
+      .regex(/^(?:\/|[A-Za-z]:[\\/])/, "PF_DATA_DIR must be an absolute path")
+      .optional(),
   },
 
   /**
@@ -29,6 +34,7 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    PF_DATA_DIR: process.env.PF_DATA_DIR,
     NEXT_PUBLIC_API_BASE_URL: process.env.NEXT_PUBLIC_API_BASE_URL,
   },
   /**
@@ -1,6 +1,7 @@
 import { postRouter } from "@/server/api/routers/post";
 import { pixelForgeRouter } from "@/server/api/routers/pixel-forge";
 import { picturePressRouter } from "@/server/api/routers/picture-press";
+import { systemRouter } from "@/server/api/routers/system";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 /**
@@ -12,6 +13,7 @@ export const appRouter = createTRPCRouter({
   post: postRouter,
   pixelForge: pixelForgeRouter,
   picturePress: picturePressRouter,
+  system: systemRouter,
 });
 
 // export type definition of API
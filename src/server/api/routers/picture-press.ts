@@ -5,25 +5,44 @@ import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import {
   convertImages,
+  updateSeoMetadata,
   validateConversionOptions,
   type ConversionOptions,
   type ConversionResult,
 } from "@/server/lib/picture-press/converter";
+import { MAX_RESIZE_DIMENSION } from "@/server/lib/picture-press/resize";
+import { SEO_FIELD_LIMITS } from "@/server/lib/picture-press/metadata";
+import { MAX_CONCURRENCY } from "@/server/lib/picture-press/pool";
+import {
+  MAX_TARGET_BYTES,
+  MAX_TARGET_SSIM,
+  MIN_TARGET_BYTES,
+  MIN_TARGET_SSIM,
+} from "@/server/lib/picture-press/target";
+import {
+  MAX_RESPONSIVE_FORMATS,
+  MAX_RESPONSIVE_WIDTHS,
+  buildPictureMarkup,
+} from "@/server/lib/picture-press/responsive";
 import {
   createPicturePressSession,
   ensurePicturePressSession,
   saveMultipleUploads,
   readConversionProgress,
+  subscribeToConversionProgress,
   writeConversionProgress,
   readConversionMeta,
   updateConversionMeta,
   cleanupPicturePressSession,
   cleanupExpiredPicturePressessions,
   maybeCleanupExpiredPicturePressessions,
-  isAllowedMime,
+  isPicturePressAllowedMime,
   type ConversionProgress,
+  type ConversionSessionMeta,
 } from "@/server/lib/picture-press/session";
 import { createDirectoryZip } from "@/server/lib/shared/zip-utils";
+import { createJobQueue } from "@/server/lib/shared/jobs";
+import { ensureImageEngine } from "@/server/lib/pixel-forge/deps";
 import {
   enforceFixedWindowLimit,
   limiterKey,
@@ -42,6 +61,464 @@ function toFileUrl(
   return `/api/picture-press/files/${encodeURIComponent(sessionId)}/${encodedParts}`;
 }
 
+const outputFormatSchema = z.enum(["jpeg", "png", "webp", "gif", "tiff", "bmp", "avif", "heif", "ico"]);
+
+// Title, description/alt text, creator and copyright written as XMP and IPTC
+const seoFieldsSchema = z.object({
+  title: z.string().max(SEO_FIELD_LIMITS.title).optional(),
+  description: z.string().max(SEO_FIELD_LIMITS.description).optional(),
+  creator: z.string().max(SEO_FIELD_LIMITS.creator).optional(),
+  copyright: z.string().max(SEO_FIELD_LIMITS.copyright).optional(),
+});
+
+const convertImagesInput = z.object({
+  sessionId: z.string().uuid(),
+  options: z.object({
+    outputFormat: outputFormatSchema,
+    quality: z.number().min(1).max(100).optional(),
+    // Tune quality per image to a byte budget and/or an SSIM floor instead
+    target: z.object({
+      maxBytes: z.number().int().min(MIN_TARGET_BYTES).max(MAX_TARGET_BYTES).optional(),
+      minSsim: z.number().min(MIN_TARGET_SSIM).max(MAX_TARGET_SSIM).optional(),
+    }).optional(),
+    avifSpeed: z.number().int().min(0).max(10).optional(),
+    icoSizes: z.array(z.number().int().min(1).max(256)).min(1).max(10).optional(),
+    resize: z.object({
+      width: z.number().int().min(1).max(MAX_RESIZE_DIMENSION).optional(),
+      height: z.number().int().min(1).max(MAX_RESIZE_DIMENSION).optional(),
+      fit: z.enum(["inside", "contain", "cover", "fill"]).optional(),
+      neverUpscale: z.boolean().optional(),
+    }).optional(),
+    // Widths x formats per image, plus <picture> markup in the result
+    responsive: z.object({
+      widths: z.array(z.number().int().min(1).max(MAX_RESIZE_DIMENSION)).min(1).max(MAX_RESPONSIVE_WIDTHS),
+      formats: z.array(outputFormatSchema).max(MAX_RESPONSIVE_FORMATS).optional(),
+      sizes: z.string().max(200).optional(),
+    }).optional(),
+    // What to keep of EXIF, ICC, XMP and IPTC; defaults to the ICC profile only
+    metadata: z.enum(["strip", "icc", "copyright", "keep"]).optional(),
+    // Per-image SEO fields, keyed by the name each file was uploaded under
+    seo: z.record(z.string().max(255), seoFieldsSchema).optional(),
+    namingConvention: z.enum(["keep-original", "custom-pattern"]),
+    customPattern: z.string().max(200).optional(),
+    prefix: z.string().max(50).optional(),
+    suffix: z.string().max(50).optional(),
+    // Image engine for this run; "auto" prefers ImageMagick (see system.engineInfo)
+    engine: z.enum(["auto", "magick", "jimp"]).optional(),
+    // Files converted at once; more than the server's cores run as many as it has
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional(),
+  }),
+});
+
+type ConvertImagesInput = z.infer<typeof convertImagesInput>;
+
+/**
+ * Re-key SEO fields from the names files were uploaded under to the session's
+ * stored copies, which are what the converter reads.
+ */
+function seoByInputFile(
+  uploadedFiles: NonNullable<ConversionSessionMeta["uploadedFiles"]>,
+  seo: ConvertImagesInput["options"]["seo"],
+): ConversionOptions["seo"] {
+  if (!seo) return undefined;
+  return Object.fromEntries(
+    uploadedFiles.flatMap(file => {
+      const fields = seo[file.originalName];
+      return fields ? [[path.basename(file.tempPath), fields]] : [];
+    }),
+  );
+}
+
+/**
+ * Convert every uploaded file in a session and build the response payload.
+ * Executed by the conversion job worker, outside of any request.
+ * A cancelled run (cancelConversion) returns the files converted so far.
+ */
+async function runConversion(
+  input: ConvertImagesInput,
+  sessPaths: Awaited<ReturnType<typeof ensurePicturePressSession>>,
+  uploadedFiles: NonNullable<ConversionSessionMeta["uploadedFiles"]>,
+  signal: AbortSignal,
+) {
+  // Update session status and options
+  try {
+    await updateConversionMeta(input.sessionId, {
+      status: "processing",
+      conversionOptions: input.options,
+    });
+  } catch (err) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update session status. Please try again.",
+      cause: err as Error,
+    });
+  }
+
+  // Initialize progress
+  const totalFiles = uploadedFiles.length;
+  await writeConversionProgress(input.sessionId, {
+    current: 0,
+    total: totalFiles,
+    currentOperation: "Preparing conversion...",
+    filesProcessed: 0,
+    totalFiles,
+  });
+
+  // Prepare input files list
+  const inputFiles = uploadedFiles.map(file => file.tempPath);
+  const seo = seoByInputFile(uploadedFiles, input.options.seo);
+
+  // Progress callback to update real-time progress
+  const progressCallback = (
+    current: number,
+    total: number,
+    operation: string,
+    currentFile?: string,
+  ) => {
+    const progress: ConversionProgress = {
+      current,
+      total,
+      currentOperation: operation,
+      filesProcessed: current,
+      totalFiles: total,
+      currentFile,
+    };
+    
+    // Fire and forget - don't await to avoid blocking conversion
+    void writeConversionProgress(input.sessionId, progress).catch((error) => {
+      // Only log critical errors, ignore common file system race conditions
+      if (error instanceof Error && !error.message.includes('ENOENT')) {
+        console.warn(`[picture-press] Progress update failed for ${input.sessionId}:`, error.message);
+      }
+    });
+  };
+
+  // Perform the conversion with enhanced error handling
+  let conversionResults: ConversionResult[];
+  
+  try {
+    conversionResults = await convertImages(
+      inputFiles,
+      sessPaths.convertedDir,
+      { ...input.options, seo } as ConversionOptions,
+      progressCallback,
+      signal,
+    );
+  } catch (err) {
+    // Update status to error
+    await updateConversionMeta(input.sessionId, {
+      status: "error",
+    }).catch(() => {
+      // Ignore meta update errors during error handling
+    });
+    
+    await writeConversionProgress(input.sessionId, {
+      current: 0,
+      total: totalFiles,
+      currentOperation: "Conversion failed",
+      filesProcessed: 0,
+      totalFiles,
+    }).catch(() => {
+      // Ignore progress update errors during error handling
+    });
+
+    // Provide specific error messages based on error type
+    let errorMessage = "Conversion failed due to an unexpected error.";
+    
+    if (err instanceof Error) {
+      if (err.message.includes("ImageMagick") || err.message.includes("magick")) {
+        errorMessage = "Image processing engine is not available. Please try again later or contact support.";
+      } else if (err.message.includes("ENOSPC")) {
+        errorMessage = "Server storage is full. Please try again later or contact support.";
+      } else if (err.message.includes("EMFILE") || err.message.includes("ENFILE")) {
+        errorMessage = "Server is busy processing files. Please try again in a moment.";
+      } else if (err.message.includes("timeout")) {
+        errorMessage = "Conversion timed out. Please try with smaller files or fewer images.";
+      } else if (err.message.includes("memory") || err.message.includes("Memory")) {
+        errorMessage = "Not enough memory to process these images. Please try with smaller files or fewer images.";
+      } else if (err.message.includes("format") || err.message.includes("corrupt")) {
+        errorMessage = "One or more images appear to be corrupted or in an unsupported format.";
+      } else {
+        errorMessage = `Conversion failed: ${err.message}`;
+      }
+    }
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: errorMessage,
+      cause: err as Error,
+    });
+  }
+
+  // Process results and build response
+  const successfulConversions = conversionResults.filter(r => r.success);
+  const failedConversions = conversionResults.filter(r => !r.success);
+  const cancelled = signal.aborted;
+
+  // If all conversions failed, provide helpful error message
+  if (successfulConversions.length === 0 && !cancelled) {
+    const commonErrors = failedConversions.map(f => f.error).filter(Boolean);
+    const errorSummary = commonErrors.length > 0 
+      ? `All conversions failed. Common issues: ${[...new Set(commonErrors)].join(', ')}`
+      : "All conversions failed due to unknown errors.";
+    
+    await updateConversionMeta(input.sessionId, {
+      status: "error",
+    }).catch(() => {
+      // Ignore meta update errors during error handling
+    });
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: errorSummary + " Please check your images and try again, or contact support if the problem persists.",
+    });
+  }
+
+  // Build file URLs for successful conversions
+  const convertedImages = successfulConversions.map((result) => ({
+    originalName: result.originalName,
+    convertedName: result.convertedName,
+    originalSize: result.originalSize,
+    convertedSize: result.convertedSize,
+    sourceWidth: result.sourceWidth,
+    sourceHeight: result.sourceHeight,
+    width: result.width,
+    height: result.height,
+    format: result.format ?? input.options.outputFormat,
+    engine: result.engine,
+    metadata: result.metadata,
+    seo: result.seo,
+    seoBlocks: result.seoBlocks,
+    quality: result.quality,
+    target: result.target,
+    ssim: result.ssim,
+    psnr: result.psnr,
+    compressionRatio: result.originalSize > 0 
+      ? Math.round(((result.originalSize - result.convertedSize) / result.originalSize) * 100)
+      : 0,
+    downloadUrl: toFileUrl(input.sessionId, sessPaths.root, result.convertedFile),
+    previewUrl: toFileUrl(input.sessionId, sessPaths.root, result.convertedFile),
+    originalUrl: toFileUrl(input.sessionId, sessPaths.root, result.originalFile),
+  }));
+
+  // One <picture> per source image of a responsive set
+  const responsive = input.options.responsive;
+  const responsiveSets = responsive
+    ? [...new Set(successfulConversions.map(r => r.originalFile))].map((originalFile) => {
+        const variants = successfulConversions.filter(r => r.originalFile === originalFile);
+        return {
+          originalName: variants[0]!.originalName,
+          markup: buildPictureMarkup(
+            variants.map(v => ({
+              fileName: v.convertedName,
+              format: v.format ?? input.options.outputFormat,
+              width: v.width ?? 0,
+              height: v.height ?? 0,
+            })),
+            {
+              fallbackFormat: input.options.outputFormat,
+              sizes: responsive.sizes,
+              alt: seo?.[path.basename(originalFile)]?.description,
+            },
+          ),
+        };
+      })
+    : undefined;
+
+  // Calculate totals; a responsive set has several results per source file
+  const processedFiles = new Map(conversionResults.map(r => [r.originalFile, r.originalSize]));
+  const totalOriginalSize = [...processedFiles.values()].reduce((sum, size) => sum + size, 0);
+  const totalConvertedSize = successfulConversions.reduce((sum, r) => sum + r.convertedSize, 0);
+  const totalSavings = totalOriginalSize - totalConvertedSize;
+
+  // Update final status; a cancelled session keeps its partial results downloadable
+  const finalStatus = cancelled ? "cancelled" : "completed";
+  
+  await updateConversionMeta(input.sessionId, {
+    status: finalStatus,
+  }).catch(() => {
+    // Ignore meta update errors at this point
+  });
+
+  // Update final progress; queued after any progress writes still in flight
+  await writeConversionProgress(input.sessionId, {
+    current: cancelled ? processedFiles.size : totalFiles,
+    total: totalFiles,
+    currentOperation: cancelled
+      ? `Conversion cancelled (${successfulConversions.length} of ${totalFiles} images converted)`
+      : failedConversions.length === 0 
+      ? "Conversion completed successfully" 
+      : `Conversion completed with ${failedConversions.length} failure${failedConversions.length === 1 ? '' : 's'}`,
+    filesProcessed: cancelled ? processedFiles.size : totalFiles,
+    totalFiles,
+  }).catch(() => {
+    // Ignore progress update errors at this point
+  });
+
+  // Return results with enhanced error information
+  const response = {
+    sessionId: input.sessionId,
+    convertedImages,
+    totalOriginalSize,
+    totalConvertedSize,
+    totalSavings,
+    responsiveSets,
+    successCount: successfulConversions.length,
+    failureCount: failedConversions.length,
+    // Converted, but above the byte budget or below the SSIM target
+    targetMissedCount: successfulConversions.filter(r => r.target && !r.target.met).length,
+    cancelled,
+    // Files never started because the run was cancelled
+    skippedCount: totalFiles - processedFiles.size,
+    failures: failedConversions.map(f => ({
+      originalName: f.originalName,
+      error: f.error ?? "Unknown error occurred during conversion",
+    })),
+  };
+
+  // Log partial failures for debugging
+  if (failedConversions.length > 0 && successfulConversions.length > 0) {
+    console.warn(`[picture-press] Partial conversion failure for session ${input.sessionId}:`, 
+      failedConversions.map(f => `${f.originalName}: ${f.error}`));
+  }
+
+  return response;
+}
+
+type ConversionJobResult = Awaited<ReturnType<typeof runConversion>>;
+
+const conversionJobs = createJobQueue<ConversionJobResult>("pp:convert");
+
+// Validate and queue a conversion; shared by convertImages and submitConversion.
+// The per-session lock is held until the job settles, not just for the request.
+async function enqueueConversion(headers: Headers, input: ConvertImagesInput) {
+  const rateKey = limiterKey(
+    "pp:convert",
+    headers,
+    input.sessionId,
+  );
+  if (!enforceFixedWindowLimit(rateKey, 10, 60_000)) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many conversion requests. Please wait a moment before trying again.",
+    });
+  }
+
+  // Acquire concurrency lock to prevent duplicate conversions
+  const lockKey = `pp:convert:${input.sessionId}`;
+  if (!acquireLock(lockKey)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A conversion is already in progress for this session. Please wait for it to complete.",
+    });
+  }
+
+  let queued = false;
+  try {
+    // Enhanced validation of conversion options
+    const validation = validateConversionOptions(input.options);
+    if (!validation.valid) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Invalid conversion settings:\n${validation.errors.join('\n')}`,
+      });
+    }
+
+    // A forced ImageMagick run fails here rather than once per file in the job
+    if (input.options.engine === "magick") {
+      const available = await ensureImageEngine("magick").then(() => true, () => false);
+      if (!available) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "ImageMagick was requested but is not available on this server. Choose Auto or Jimp.",
+        });
+      }
+    }
+
+    // Additional security validation for naming options
+    if (input.options.customPattern) {
+      const dangerousPatterns = [
+        /\.\./,  // Path traversal
+        /[<>:"|?*\x00-\x1f]/,  // Invalid filename characters
+        /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\.|$)/i,  // Windows reserved names
+      ];
+      
+      for (const pattern of dangerousPatterns) {
+        if (pattern.test(input.options.customPattern)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Custom pattern contains invalid characters. Please use only letters, numbers, underscores, and hyphens.",
+          });
+        }
+      }
+    }
+
+    // Get session paths and metadata with error handling
+    let sessPaths: Awaited<ReturnType<typeof ensurePicturePressSession>>;
+    let meta: Awaited<ReturnType<typeof readConversionMeta>>;
+    
+    try {
+      sessPaths = await ensurePicturePressSession(input.sessionId);
+      meta = await readConversionMeta(input.sessionId);
+    } catch (err) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Session not found or has expired. Please upload your images again.",
+        cause: err as Error,
+      });
+    }
+    
+    if (!meta?.uploadedFiles || meta.uploadedFiles.length === 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "No uploaded files found in this session. Please upload images first before converting.",
+      });
+    }
+
+    // Validate that uploaded files still exist
+    const missingFiles: string[] = [];
+    for (const file of meta.uploadedFiles) {
+      try {
+        await fs.access(file.tempPath);
+      } catch {
+        missingFiles.push(file.originalName);
+      }
+    }
+
+    if (missingFiles.length > 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Some uploaded files are no longer available: ${missingFiles.join(', ')}. Please re-upload your images.`,
+      });
+    }
+
+    // SEO fields are keyed by the name a file was uploaded under
+    const uploadedNames = new Set(meta.uploadedFiles.map(file => file.originalName));
+    const unknownSeoNames = Object.keys(input.options.seo ?? {}).filter(name => !uploadedNames.has(name));
+    if (unknownSeoNames.length > 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `SEO fields were given for files not uploaded to this session: ${unknownSeoNames.join(', ')}.`,
+      });
+    }
+
+    const paths = sessPaths;
+    const uploadedFiles = meta.uploadedFiles;
+    const result = await conversionJobs.submit({
+      sessionId: input.sessionId,
+      sessionRoot: paths.root,
+      run: (signal) => runConversion(input, paths, uploadedFiles, signal),
+    });
+    queued = true;
+    // Always release the lock, also for a job cancelled before it started
+    const release = () => releaseLock(lockKey);
+    result.done.then(release, release);
+    return result;
+  } finally {
+    if (!queued) releaseLock(lockKey);
+  }
+}
+
 export const picturePressRouter = createTRPCRouter({
   // Create a new session explicitly. The uploadImages procedure will also create one implicitly if omitted.
   newSession: publicProcedure.mutation(async ({ ctx }) => {
@@ -91,7 +568,7 @@ export const picturePressRouter = createTRPCRouter({
               mimeType: z
                 .string()
                 .min(1)
-                .refine((m) => isAllowedMime(m), "Unsupported MIME type"),
+                .refine((m) => isPicturePressAllowedMime(m), "Unsupported MIME type"),
             }),
           )
           .min(1, "At least one file is required")
@@ -134,8 +611,8 @@ export const picturePressRouter = createTRPCRouter({
         const filePrefix = `File ${index + 1} (${file.fileName})`;
         
         // Validate MIME type
-        if (!isAllowedMime(file.mimeType)) {
-          validationErrors.push(`${filePrefix}: Unsupported file type "${file.mimeType}". Please use JPEG, PNG, GIF, WebP, TIFF, or BMP images.`);
+        if (!isPicturePressAllowedMime(file.mimeType)) {
+          validationErrors.push(`${filePrefix}: Unsupported file type "${file.mimeType}". Please use JPEG, PNG, GIF, WebP, TIFF, BMP, HEIC or AVIF images.`);
           continue;
         }
 
@@ -148,7 +625,10 @@ export const picturePressRouter = createTRPCRouter({
           'image/gif': ['.gif'],
           'image/webp': ['.webp'],
           'image/tiff': ['.tiff', '.tif'],
-          'image/bmp': ['.bmp']
+          'image/bmp': ['.bmp'],
+          'image/heic': ['.heic', '.heif'],
+          'image/heif': ['.heif', '.heic'],
+          'image/avif': ['.avif']
         };
 
         const expectedExtensions = mimeExtensionMap[file.mimeType.toLowerCase()];
@@ -233,7 +713,7 @@ export const picturePressRouter = createTRPCRouter({
           } else if (err.message.includes("size") || err.message.includes("large")) {
             errorMessage = "One or more files are too large. Please ensure all files are under 10MB.";
           } else if (err.message.includes("MIME") || err.message.includes("type")) {
-            errorMessage = "One or more files have unsupported formats. Please use JPEG, PNG, GIF, WebP, TIFF, or BMP images.";
+            errorMessage = "One or more files have unsupported formats. Please use JPEG, PNG, GIF, WebP, TIFF, BMP, HEIC or AVIF images.";
           } else {
             errorMessage = `Upload failed: ${err.message}`;
           }
@@ -262,6 +742,23 @@ export const picturePressRouter = createTRPCRouter({
       return progress;
     }),
 
+  // Push progress over SSE as it is written; getConversionProgress remains the polling fallback
+  onConversionProgress: publicProcedure
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      const rateKey = limiterKey("pp:progress:stream", ctx.headers, input.sessionId);
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many progress streams, please slow down.",
+        });
+      }
+      // Subscribe before reading the snapshot so no update falls in between
+      const events = subscribeToConversionProgress(input.sessionId, signal);
+      yield await readConversionProgress(input.sessionId);
+      yield* events;
+    }),
+
   // Cleanup expired sessions (TTL-based)
   cleanupExpired: publicProcedure.mutation(async ({ ctx }) => {
     const rateKey = limiterKey("pp:cleanupExpired", ctx.headers);
@@ -275,308 +772,146 @@ export const picturePressRouter = createTRPCRouter({
     return res; // { removed: string[] }
   }),
 
-  // Convert uploaded images with format and naming options
+  // Convert uploaded images with format and naming options and wait for the result
   convertImages: publicProcedure
-    .input(
-      z.object({
-        sessionId: z.string().uuid(),
-        options: z.object({
-          outputFormat: z.enum(["jpeg", "png", "webp", "gif", "tiff", "bmp"]),
-          quality: z.number().min(1).max(100).optional(),
-          namingConvention: z.enum(["keep-original", "custom-pattern"]),
-          customPattern: z.string().max(200).optional(),
-          prefix: z.string().max(50).optional(),
-          suffix: z.string().max(50).optional(),
-        }),
-      }),
-    )
+    .input(convertImagesInput)
+    .mutation(async ({ ctx, input }) => {
+      const { done } = await enqueueConversion(ctx.headers, input);
+      return done;
+    }),
+
+  // Queue a conversion and return immediately; poll getConversionJob for the result
+  submitConversion: publicProcedure
+    .input(convertImagesInput)
+    .mutation(async ({ ctx, input }) => {
+      const { job } = await enqueueConversion(ctx.headers, input);
+      return { jobId: job.id, status: job.status };
+    }),
+
+  // Read a conversion job (status, result or error); works across page reloads
+  getConversionJob: publicProcedure
+    .input(z.object({ sessionId: z.string().uuid(), jobId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const rateKey = limiterKey("pp:job", ctx.headers, input.sessionId);
+      if (!enforceFixedWindowLimit(rateKey, 60, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Polling too fast, please reduce frequency.",
+        });
+      }
+      const sessPaths = await ensurePicturePressSession(input.sessionId).catch(() => null);
+      const job = sessPaths
+        ? await conversionJobs.getJob(sessPaths.root, input.jobId)
+        : null;
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conversion job not found.",
+        });
+      }
+      return job;
+    }),
+
+  // Stop a queued or running conversion once the files in progress finish; the job then
+  // settles as "cancelled" with the images converted so far
+  cancelConversion: publicProcedure
+    .input(z.object({ sessionId: z.string().uuid(), jobId: z.string().uuid().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const rateKey = limiterKey("pp:cancel", ctx.headers, input.sessionId);
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many cancel requests, please slow down.",
+        });
+      }
+      const res = await conversionJobs.cancel(input.sessionId, input.jobId);
+      // Nothing left to stop (already finished or never queued here)
+      return res ? { cancelled: true, jobId: res.job.id } : { cancelled: false };
+    }),
+
+  // Rewrite the SEO fields of converted images, e.g. edits made before the ZIP
+  updateImageMetadata: publicProcedure
+    .input(z.object({
+      sessionId: z.string().uuid(),
+      images: z.array(seoFieldsSchema.extend({ convertedName: z.string().min(1).max(255) })).min(1).max(500),
+    }))
     .mutation(async ({ ctx, input }) => {
       const rateKey = limiterKey(
-        "pp:convert",
+        "pp:metadata",
         ctx.headers,
         input.sessionId,
       );
-      if (!enforceFixedWindowLimit(rateKey, 10, 60_000)) {
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
         throw new TRPCError({
           code: "TOO_MANY_REQUESTS",
-          message: "Too many conversion requests. Please wait a moment before trying again.",
+          message: "Too many metadata updates, please slow down.",
         });
       }
 
-      // Acquire concurrency lock to prevent duplicate conversions
-      const lockKey = `pp:convert:${input.sessionId}`;
+      // Shares the ZIP lock so an archive never picks up a half-written file
+      const lockKey = `pp:zip:${input.sessionId}`;
       if (!acquireLock(lockKey)) {
         throw new TRPCError({
           code: "CONFLICT",
-          message: "A conversion is already in progress for this session. Please wait for it to complete.",
+          message: "ZIP creation or a metadata update is in progress for this session.",
         });
       }
 
       try {
-        // Enhanced validation of conversion options
-        const validation = validateConversionOptions(input.options);
-        if (!validation.valid) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Invalid conversion settings:\n${validation.errors.join('\n')}`,
-          });
-        }
-
-        // Additional security validation for naming options
-        if (input.options.customPattern) {
-          const dangerousPatterns = [
-            /\.\./,  // Path traversal
-            /[<>:"|?*\x00-\x1f]/,  // Invalid filename characters
-            /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\.|$)/i,  // Windows reserved names
-          ];
-          
-          for (const pattern of dangerousPatterns) {
-            if (pattern.test(input.options.customPattern)) {
-              throw new TRPCError({
-                code: "BAD_REQUEST",
-                message: "Custom pattern contains invalid characters. Please use only letters, numbers, underscores, and hyphens.",
-              });
-            }
-          }
-        }
+        const sessPaths = await ensurePicturePressSession(input.sessionId);
+        const meta = await readConversionMeta(input.sessionId);
 
-        // Get session paths and metadata with error handling
-        let sessPaths: Awaited<ReturnType<typeof ensurePicturePressSession>>;
-        let meta: Awaited<ReturnType<typeof readConversionMeta>>;
-        
-        try {
-          sessPaths = await ensurePicturePressSession(input.sessionId);
-          meta = await readConversionMeta(input.sessionId);
-        } catch (err) {
-          throw new TRPCError({
-            code: "NOT_FOUND",
-            message: "Session not found or has expired. Please upload your images again.",
-            cause: err as Error,
-          });
-        }
-        
-        if (!meta?.uploadedFiles || meta.uploadedFiles.length === 0) {
+        if (!meta || (meta.status !== "completed" && meta.status !== "cancelled")) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "No uploaded files found in this session. Please upload images first before converting.",
+            message: "No completed conversion found. Please convert images first.",
           });
         }
 
-        // Validate that uploaded files still exist
-        const missingFiles: string[] = [];
-        for (const file of meta.uploadedFiles) {
-          try {
-            await fs.access(file.tempPath);
-          } catch {
-            missingFiles.push(file.originalName);
-          }
-        }
-
-        if (missingFiles.length > 0) {
+        // Bare file names only; nothing outside the converted directory
+        const invalid = input.images.find(({ convertedName }) =>
+          path.basename(convertedName) !== convertedName || convertedName.startsWith("."));
+        if (invalid) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: `Some uploaded files are no longer available: ${missingFiles.join(', ')}. Please re-upload your images.`,
-          });
-        }
-
-        // Update session status and options
-        try {
-          await updateConversionMeta(input.sessionId, {
-            status: "processing",
-            conversionOptions: input.options,
-          });
-        } catch (err) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update session status. Please try again.",
-            cause: err as Error,
+            message: `Invalid file name: ${invalid.convertedName}`,
           });
         }
 
-        // Initialize progress
-        const totalFiles = meta.uploadedFiles.length;
-        await writeConversionProgress(input.sessionId, {
-          current: 0,
-          total: totalFiles,
-          currentOperation: "Preparing conversion...",
-          filesProcessed: 0,
-          totalFiles,
-        });
-
-        // Prepare input files list
-        const inputFiles = meta.uploadedFiles.map(file => file.tempPath);
-
-        // Progress callback to update real-time progress
-        const progressCallback = (
-          current: number,
-          total: number,
-          operation: string,
-          currentFile?: string,
-        ) => {
-          const progress: ConversionProgress = {
-            current,
-            total,
-            currentOperation: operation,
-            filesProcessed: current,
-            totalFiles: total,
-            currentFile,
-          };
-          
-          // Fire and forget - don't await to avoid blocking conversion
-          void writeConversionProgress(input.sessionId, progress).catch((error) => {
-            // Only log critical errors, ignore common file system race conditions
-            if (error instanceof Error && !error.message.includes('ENOENT')) {
-              console.warn(`[picture-press] Progress update failed for ${input.sessionId}:`, error.message);
+        const updated = [];
+        for (const { convertedName, ...seo } of input.images) {
+          const filePath = path.join(sessPaths.convertedDir, convertedName);
+          const result = await updateSeoMetadata(filePath, seo).catch((err: unknown) => {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+              throw new TRPCError({
+                code: "NOT_FOUND",
+                message: `Converted image not found: ${convertedName}`,
+                cause: err as Error,
+              });
             }
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to update the metadata of ${convertedName}. Please try again.`,
+              cause: err as Error,
+            });
           });
-        };
-
-        // Perform the conversion with enhanced error handling
-        let conversionResults: ConversionResult[];
-        
-        try {
-          conversionResults = await convertImages(
-            inputFiles,
-            sessPaths.convertedDir,
-            input.options as ConversionOptions,
-            progressCallback,
-          );
-        } catch (err) {
-          // Update status to error
-          await updateConversionMeta(input.sessionId, {
-            status: "error",
-          }).catch(() => {
-            // Ignore meta update errors during error handling
-          });
-          
-          await writeConversionProgress(input.sessionId, {
-            current: 0,
-            total: totalFiles,
-            currentOperation: "Conversion failed",
-            filesProcessed: 0,
-            totalFiles,
-          }).catch(() => {
-            // Ignore progress update errors during error handling
-          });
-
-          // Provide specific error messages based on error type
-          let errorMessage = "Conversion failed due to an unexpected error.";
-          
-          if (err instanceof Error) {
-            if (err.message.includes("ImageMagick") || err.message.includes("magick")) {
-              errorMessage = "Image processing engine is not available. Please try again later or contact support.";
-            } else if (err.message.includes("ENOSPC")) {
-              errorMessage = "Server storage is full. Please try again later or contact support.";
-            } else if (err.message.includes("EMFILE") || err.message.includes("ENFILE")) {
-              errorMessage = "Server is busy processing files. Please try again in a moment.";
-            } else if (err.message.includes("timeout")) {
-              errorMessage = "Conversion timed out. Please try with smaller files or fewer images.";
-            } else if (err.message.includes("memory") || err.message.includes("Memory")) {
-              errorMessage = "Not enough memory to process these images. Please try with smaller files or fewer images.";
-            } else if (err.message.includes("format") || err.message.includes("corrupt")) {
-              errorMessage = "One or more images appear to be corrupted or in an unsupported format.";
-            } else {
-              errorMessage = `Conversion failed: ${err.message}`;
-            }
+          if (!result) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `${convertedName} cannot carry metadata; only JPEG, PNG and WebP can.`,
+            });
           }
-
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: errorMessage,
-            cause: err as Error,
-          });
-        }
-
-        // Process results and build response
-        const successfulConversions = conversionResults.filter(r => r.success);
-        const failedConversions = conversionResults.filter(r => !r.success);
-
-        // If all conversions failed, provide helpful error message
-        if (successfulConversions.length === 0) {
-          const commonErrors = failedConversions.map(f => f.error).filter(Boolean);
-          const errorSummary = commonErrors.length > 0 
-            ? `All conversions failed. Common issues: ${[...new Set(commonErrors)].join(', ')}`
-            : "All conversions failed due to unknown errors.";
-          
-          await updateConversionMeta(input.sessionId, {
-            status: "error",
-          }).catch(() => {
-            // Ignore meta update errors during error handling
-          });
-
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: errorSummary + " Please check your images and try again, or contact support if the problem persists.",
-          });
-        }
-
-        // Build file URLs for successful conversions
-        const convertedImages = successfulConversions.map((result) => ({
-          originalName: result.originalName,
-          convertedName: result.convertedName,
-          originalSize: result.originalSize,
-          convertedSize: result.convertedSize,
-          width: result.width,
-          height: result.height,
-          compressionRatio: result.originalSize > 0 
-            ? Math.round(((result.originalSize - result.convertedSize) / result.originalSize) * 100)
-            : 0,
-          downloadUrl: toFileUrl(input.sessionId, sessPaths.root, result.convertedFile),
-          previewUrl: toFileUrl(input.sessionId, sessPaths.root, result.convertedFile),
-        }));
-
-        // Calculate totals
-        const totalOriginalSize = conversionResults.reduce((sum, r) => sum + r.originalSize, 0);
-        const totalConvertedSize = successfulConversions.reduce((sum, r) => sum + r.convertedSize, 0);
-        const totalSavings = totalOriginalSize - totalConvertedSize;
-
-        // Update final status
-        const finalStatus = failedConversions.length === 0 ? "completed" : "completed";
-        
-        await updateConversionMeta(input.sessionId, {
-          status: finalStatus,
-        }).catch(() => {
-          // Ignore meta update errors at this point
-        });
-
-        // Update final progress
-        await writeConversionProgress(input.sessionId, {
-          current: totalFiles,
-          total: totalFiles,
-          currentOperation: failedConversions.length === 0 
-            ? "Conversion completed successfully" 
-            : `Conversion completed with ${failedConversions.length} failure${failedConversions.length === 1 ? '' : 's'}`,
-          filesProcessed: totalFiles,
-          totalFiles,
-        }).catch(() => {
-          // Ignore progress update errors at this point
-        });
-
-        // Return results with enhanced error information
-        const response = {
-          sessionId: input.sessionId,
-          convertedImages,
-          totalOriginalSize,
-          totalConvertedSize,
-          totalSavings,
-          successCount: successfulConversions.length,
-          failureCount: failedConversions.length,
-          failures: failedConversions.map(f => ({
-            originalName: f.originalName,
-            error: f.error ?? "Unknown error occurred during conversion",
-          })),
-        };
-
-        // Log partial failures for debugging
-        if (failedConversions.length > 0 && successfulConversions.length > 0) {
-          console.warn(`[picture-press] Partial conversion failure for session ${input.sessionId}:`, 
-            failedConversions.map(f => `${f.originalName}: ${f.error}`));
+          if (result.dropped) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `The ${result.dropped.map(block => block.toUpperCase()).join(", ")} metadata of ${convertedName} would exceed the 64 KB a JPEG segment holds. Please shorten the fields.`,
+            });
+          }
+          updated.push({ convertedName, convertedSize: result.size, seo: result.seo });
         }
 
-        return response;
-
+        return { images: updated };
       } finally {
-        // Always release the lock
         releaseLock(lockKey);
       }
     }),
@@ -610,7 +945,7 @@ export const picturePressRouter = createTRPCRouter({
         const sessPaths = await ensurePicturePressSession(input.sessionId);
         const meta = await readConversionMeta(input.sessionId);
         
-        if (!meta || meta.status !== "completed") {
+        if (!meta || (meta.status !== "completed" && meta.status !== "cancelled")) {
           throw new TRPCError({
             code: "BAD_REQUEST",
             message: "No completed conversion found. Please convert images first.",
@@ -659,6 +994,9 @@ export const picturePressRouter = createTRPCRouter({
           message: "Too many cleanup requests, please slow down.",
         });
       }
+      // Let a running conversion stop before its directory is removed
+      const running = await conversionJobs.cancel(input.sessionId);
+      await running?.settled;
       await cleanupPicturePressSession(input.sessionId);
       return { ok: true };
     }),
@@ -7,16 +7,92 @@ import {
   ensureSession as ensurePFSess,
   saveBase64Upload,
   readProgress as readPFProgress,
+  subscribeToProgress as subscribePFProgress,
   cleanupSession as cleanupPFSess,
   writeProgress as writePFProgress,
   updateMeta as updatePFMeta,
+  readMeta as readPFMeta,
+  type GenerationProgress,
   isAllowedMime,
   cleanupExpiredSessions as cleanupExpiredPF,
   maybeCleanupExpiredSessions,
 } from "@/server/lib/pixel-forge/session";
-import { ensureImageEngine } from "@/server/lib/pixel-forge/deps";
+import {
+  JIMP_OUTPUT_FORMATS,
+  ensureImageEngine,
+  withImageEngine,
+} from "@/server/lib/pixel-forge/deps";
+import {
+  LOCAL_GENERATION_TYPES,
+  categorizeAsset,
+  estimateAssetCount,
+  watchGeneratedFiles,
+} from "@/server/lib/pixel-forge/progress";
+import {
+  HEX_COLOR_RE,
+  applyBrandToManifest,
+  appendHeadSection,
+  applyBrandToMetaHtml,
+  extractMetaTags,
+  mergeBrand,
+  normalizeBrand,
+  type BrandMetadata,
+} from "@/server/lib/pixel-forge/branding";
+import {
+  listBrandProfiles,
+  getBrandProfile,
+  saveBrandProfile,
+  deleteBrandProfile,
+} from "@/server/lib/pixel-forge/brand-profiles";
+import { buildIntegrationSnippets } from "@/server/lib/pixel-forge/integrations";
+import {
+  checkAssetConformance,
+  detectAlpha,
+} from "@/server/lib/pixel-forge/conformance";
+import {
+  appendPlatformIconTags,
+  BROWSERCONFIG_FILE,
+  buildBrowserConfig,
+  renderPlatformIcons,
+} from "@/server/lib/pixel-forge/platform-icons";
+import {
+  buildDarkAwareSvg,
+  pairFaviconTags,
+  renderDarkFavicons,
+} from "@/server/lib/pixel-forge/dark-mode";
+import {
+  applyMaskableToManifest,
+  renderMaskableIcons,
+} from "@/server/lib/pixel-forge/maskable";
+import {
+  appendStartupImageTags,
+  renderStartupImages,
+  type StartupImage,
+} from "@/server/lib/pixel-forge/startup-images";
+import {
+  DISPLAY_MODES,
+  DISPLAY_OVERRIDE_MODES,
+  ORIENTATIONS,
+  applyManifestEdits,
+  hasManifestEdits,
+  renderShortcutIcons,
+  validateManifest,
+  type ManifestIssue,
+} from "@/server/lib/pixel-forge/manifest";
+import {
+  RECIPE_FILE,
+  RECIPE_VERSION,
+  buildRecipe,
+  hashFile,
+} from "@/server/lib/pixel-forge/recipe";
+import {
+  isValidPublishBase,
+  normalizePublishBase,
+  rewriteAssetUrls,
+} from "@/server/lib/pixel-forge/publish";
 import { generateAssets as pfGenerateAssets } from "pixel-forge";
 import { createDirectoryZip } from "@/server/lib/shared/zip-utils";
+import { createJobQueue } from "@/server/lib/shared/jobs";
 import { promises as fsp } from "fs";
 import { imageSize } from "image-size";
 import {
@@ -24,6 +100,7 @@ import {
   limiterKey,
   acquireLock,
   releaseLock,
+  isLockHeld,
 } from "@/server/lib/security";
 
 // Minimal result type from pixel-forge programmatic API
@@ -45,6 +122,58 @@ type PixelForgeResult = {
   summary?: unknown;
 };
 
+// Brand colors accept hex values; empty strings (blank UI inputs) mean "not set"
+const brandColor = z
+  .string()
+  .trim()
+  .refine((v) => v === "" || HEX_COLOR_RE.test(v), "Expected a hex color");
+
+const brandFields = {
+  appName: z.string().max(100).optional(),
+  description: z.string().max(300).optional(),
+  themeColor: brandColor.optional(),
+  backgroundColor: brandColor.optional(),
+};
+
+// Web App Manifest members from the editor; validateManifest checks the semantics
+const manifestText = (max: number) => z.string().trim().max(max).optional();
+const manifestEdits = z.object({
+  name: manifestText(100),
+  short_name: manifestText(50),
+  start_url: manifestText(500),
+  scope: manifestText(500),
+  display: z.enum(DISPLAY_MODES).optional(),
+  display_override: z.array(z.enum(DISPLAY_OVERRIDE_MODES)).max(6).optional(),
+  orientation: z.enum(ORIENTATIONS).optional(),
+  categories: z
+    .array(z.string().trim().toLowerCase().max(50))
+    .max(20)
+    .optional(),
+  shortcuts: z
+    .array(
+      z.object({
+        name: z.string().trim().max(100),
+        short_name: manifestText(50),
+        description: manifestText(300),
+        url: z.string().trim().max(500),
+      }),
+    )
+    .max(10)
+    .optional(),
+  screenshots: z
+    .array(
+      z.object({
+        src: z.string().trim().max(500),
+        sizes: manifestText(50),
+        type: manifestText(50),
+        form_factor: z.enum(["narrow", "wide"]).optional(),
+        label: manifestText(200),
+      }),
+    )
+    .max(10)
+    .optional(),
+});
+
 // Helper to construct a stable file URL that a future route handler will serve
 function toFileUrl(
   sessionId: string,
@@ -56,6 +185,824 @@ function toFileUrl(
   return `/api/pixel-forge/files/${encodeURIComponent(sessionId)}/${encodedParts}`;
 }
 
+// Absolute path of an uploaded source image. Client paths are relative to the
+// session root and must stay inside its uploads directory.
+function resolveUploadPath(
+  sess: { root: string; uploadsDir: string },
+  relPath: string,
+): string {
+  const absPath = path.resolve(sess.root, relPath);
+  if (!absPath.startsWith(sess.uploadsDir + path.sep)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Image path must point to an upload in this session.",
+    });
+  }
+  return absPath;
+}
+
+// Image engine for one run; "auto" prefers ImageMagick (see system.engineInfo)
+const engineChoice = z.enum(["auto", "magick", "jimp"]);
+
+const generationOptions = z.object({
+  generationTypes: z
+    .array(
+      z.enum([
+        "favicon",
+        "pwa",
+        "social",
+        "seo",
+        "web",
+        "splash",
+        "platform",
+        "all",
+      ]),
+    )
+    .min(1),
+  transparent: z.boolean().optional(),
+  ...brandFields,
+  // Saved brand profile used as defaults for the brand fields above
+  brandProfileId: z.string().uuid().optional(),
+  format: z.enum(["png", "jpeg", "webp"]).optional(),
+  quality: z.number().min(1).max(100).optional(),
+  urlPrefix: z.string().optional(),
+  // Safe-zone rendering for pwa-maskable-* icons
+  maskable: z
+    .object({
+      padding: z.number().min(0).max(40).optional(),
+      scale: z.number().min(0.5).max(1.5).optional(),
+      background: brandColor.optional(),
+    })
+    .optional(),
+  // Logo size on the iOS startup images ("splash" type), vs. the shorter side
+  splash: z
+    .object({
+      scale: z.number().min(0.1).max(0.8).optional(),
+    })
+    .optional(),
+  manifest: manifestEdits.optional(),
+  // How favicon.svg stays visible on dark tabs when no dark SVG was uploaded
+  darkFavicon: z.enum(["plate", "invert"]).optional(),
+  engine: engineChoice.optional(),
+  // Where the files will live on the published site; used by the
+  // downloadable meta-tags.html, manifest.json and ZIP (previews keep session URLs)
+  publishBaseUrl: z
+    .string()
+    .trim()
+    .max(500)
+    .refine(isValidPublishBase, "Expected a site path like / or an http(s) URL")
+    .optional(),
+});
+
+const generateAssetsInput = z.object({
+  sessionId: z.string().uuid(),
+  // Path returned from uploadImage.storedPath (relative to session root)
+  imagePath: z.string().min(1),
+  // Optional dark color-scheme source (uploadImage with variant "dark")
+  darkImagePath: z.string().min(1).optional(),
+  options: generationOptions.optional(),
+});
+
+// recipe.json as written by runGeneration; brand fields are stored resolved
+const recipeSchema = z.object({
+  version: z.literal(RECIPE_VERSION, {
+    errorMap: () => ({
+      message: `Unsupported recipe version (expected ${RECIPE_VERSION})`,
+    }),
+  }),
+  createdAt: z.string().optional(),
+  source: z
+    .object({
+      fileName: z.string().max(255).optional(),
+      sha256: z.string().optional(),
+    })
+    .optional(),
+  // The engine depends on the host, so it is not part of a recipe
+  options: generationOptions.omit({
+    brandProfileId: true,
+    urlPrefix: true,
+    engine: true,
+  }),
+});
+
+type GenerateAssetsInput = z.infer<typeof generateAssetsInput>;
+type EngineDecision = Awaited<ReturnType<typeof ensureImageEngine>>;
+
+/**
+ * Run pixel-forge for a session and post-process its outputs.
+ * Executed by the generation job worker, outside of any request.
+ *
+ * When `signal` is aborted (cancelGeneration) the remaining render steps are
+ * skipped; pixel-forge's own run cannot be interrupted and finishes first.
+ * Whatever was written is still finalized so the partial set can be zipped.
+ */
+async function runGeneration(
+  input: GenerateAssetsInput,
+  brand: BrandMetadata,
+  engineInfo: EngineDecision,
+  signal: AbortSignal,
+) {
+  const { sessionId } = input;
+  const sess = await ensurePFSess(sessionId);
+
+  // Update meta and progress
+  await updatePFMeta(sessionId, { status: "processing" });
+  await writePFProgress(sessionId, {
+    current: 0,
+    total: 100,
+    currentOperation: "Preparing generation...",
+  });
+
+  // Engine was chosen at submit time; the job holds it for the whole run
+  await writePFProgress(sessionId, {
+    current: 5,
+    total: 100,
+    currentOperation: `Engine: ${engineInfo.engine}`,
+  });
+
+  const imageAbsPath = resolveUploadPath(sess, input.imagePath);
+  const darkAbsPath = input.darkImagePath
+    ? resolveUploadPath(sess, input.darkImagePath)
+    : undefined;
+  const outDir = sess.generatedDir;
+
+  // Map UI generationTypes to pixel-forge API options
+  const types = new Set(input.options?.generationTypes ?? []);
+  const pfOptions = {
+    outputDir: outDir,
+    urlPrefix: (() => {
+      const base = `/api/pixel-forge/files/${encodeURIComponent(sessionId)}/generated/`;
+      const req = input.options?.urlPrefix;
+      return typeof req === "string" && req.startsWith(base) ? req : base;
+    })(),
+    format: input.options?.format,
+    quality: input.options?.quality,
+    all: types.has("all") ? true : undefined,
+    favicon: types.has("favicon") ? true : undefined,
+    pwa: types.has("pwa") ? true : undefined,
+    social: types.has("social") ? true : undefined,
+    web: types.has("web") ? true : undefined,
+    seo: types.has("seo") ? true : undefined,
+    transparent: input.options?.transparent,
+    // verbose left undefined
+  } as const;
+
+  // Files map onto 10..90%; the estimate grows if pixel-forge writes more
+  // (dark favicons add one pair per PNG favicon size)
+  const expectedFiles =
+    estimateAssetCount(types, input.options?.transparent) +
+    (darkAbsPath && (types.has("favicon") || types.has("all")) ? 3 : 0);
+  const written: NonNullable<GenerationProgress["assets"]> = [];
+  let filesWritten = 0;
+  await writePFProgress(sessionId, {
+    current: 10,
+    total: 100,
+    currentOperation: "Generating assets...",
+    filesWritten,
+    expectedFiles,
+    assets: written,
+  });
+  const watcher = watchGeneratedFiles(outDir, async (fileName) => {
+    filesWritten += 1;
+    const total = Math.max(expectedFiles, filesWritten);
+    const category = categorizeAsset(fileName);
+    if (category) {
+      written.push({
+        fileName,
+        category,
+        previewUrl: toFileUrl(
+          sessionId,
+          sess.root,
+          path.join(outDir, fileName),
+        ),
+      });
+    }
+    await writePFProgress(sessionId, {
+      current: 10 + Math.floor((80 * filesWritten) / total),
+      total: 100,
+      currentOperation: `Generated ${fileName} (${filesWritten}/${total})`,
+      filesWritten,
+      expectedFiles: total,
+      currentFile: fileName,
+      assets: [...written],
+    });
+  });
+
+  // pixel-forge falls back to its social set when given no generator, so skip
+  // it for runs that only ask for types rendered here
+  const runPixelForge =
+    !signal.aborted &&
+    ([...types].some((t) => !LOCAL_GENERATION_TYPES.includes(t)) ||
+      Boolean(pfOptions.transparent));
+  let result: PixelForgeResult;
+  try {
+    result = runPixelForge
+      ? ((await pfGenerateAssets(imageAbsPath, pfOptions)) as PixelForgeResult)
+      : { files: {}, metaTags: { html: "", tags: [] } };
+  } catch (err) {
+    await watcher.stop();
+    await updatePFMeta(sessionId, { status: "error" });
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Pixel Forge generation failed. Engine: ${engineInfo.engine}. ${engineInfo.note ?? "If ImageMagick is not installed, install it (e.g., 'brew install imagemagick') for best quality."}`,
+      cause: err as Error,
+    });
+  }
+  const runFiles = Object.values(result.files)
+    .flat()
+    .map((f) => path.basename(f));
+
+  // Dark color-scheme favicons from the second source, paired by size
+  let darkFiles: string[] = [];
+  if (darkAbsPath && !signal.aborted) {
+    try {
+      darkFiles = await renderDarkFavicons({
+        darkSourcePath: darkAbsPath,
+        outDir,
+        lightFiles: runFiles,
+        transparent: pfOptions.transparent,
+      });
+    } catch (err) {
+      await watcher.stop();
+      await updatePFMeta(sessionId, { status: "error" });
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to generate dark mode favicons.",
+        cause: err as Error,
+      });
+    }
+  }
+
+  // iOS startup images, rendered while the watcher still reports progress
+  let startupImages: StartupImage[] = [];
+  if (types.has("splash") && !signal.aborted) {
+    try {
+      startupImages = await renderStartupImages({
+        sourcePath: imageAbsPath,
+        fallbackSources: ["pwa-512x512.png", "apple-touch-icon.png"]
+          .filter((f) => runFiles.includes(f))
+          .map((f) => path.join(outDir, f)),
+        outDir,
+        options: {
+          scale: input.options?.splash?.scale,
+          background: brand.backgroundColor,
+        },
+        signal,
+      });
+    } catch (err) {
+      await watcher.stop();
+      await updatePFMeta(sessionId, { status: "error" });
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to render iOS startup images.",
+        cause: err as Error,
+      });
+    }
+  }
+  // Monochrome Safari pinned-tab mask, Windows tiles and browserconfig.xml
+  let platformFiles: string[] = [];
+  if (types.has("platform") && !signal.aborted) {
+    try {
+      platformFiles = await renderPlatformIcons({
+        sourcePath: imageAbsPath,
+        fallbackSources: ["pwa-512x512.png", "apple-touch-icon.png"]
+          .filter((f) => runFiles.includes(f))
+          .map((f) => path.join(outDir, f)),
+        outDir,
+      });
+      await fsp.writeFile(
+        path.join(outDir, BROWSERCONFIG_FILE),
+        buildBrowserConfig(pfOptions.urlPrefix, brand.themeColor),
+        "utf8",
+      );
+    } catch (err) {
+      await watcher.stop();
+      await updatePFMeta(sessionId, { status: "error" });
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to render Safari and Windows icons.",
+        cause: err as Error,
+      });
+    }
+  }
+  await watcher.stop();
+
+  await writePFProgress(sessionId, {
+    current: 90,
+    total: 100,
+    currentOperation: "Finalizing assets...",
+    filesWritten,
+    expectedFiles: filesWritten,
+    assets: written,
+  });
+
+  // An SVG source keeps an SVG favicon; make it follow the color scheme
+  if (/\.svg$/i.test(imageAbsPath) && runFiles.includes("favicon.svg")) {
+    try {
+      const darkIsSvg = darkAbsPath && /\.svg$/i.test(darkAbsPath);
+      const darkPng = darkFiles.includes("favicon-48x48-dark.png")
+        ? await fsp.readFile(path.join(outDir, "favicon-48x48-dark.png"))
+        : undefined;
+      const svg = buildDarkAwareSvg({
+        lightSvg: await fsp.readFile(imageAbsPath, "utf8"),
+        darkSvg: darkIsSvg
+          ? await fsp.readFile(darkAbsPath, "utf8")
+          : undefined,
+        darkImage: darkPng
+          ? `data:image/png;base64,${darkPng.toString("base64")}`
+          : undefined,
+        style: input.options?.darkFavicon,
+        plateColor: brand.backgroundColor,
+      });
+      await fsp.writeFile(path.join(outDir, "favicon.svg"), svg, "utf8");
+    } catch (err) {
+      await updatePFMeta(sessionId, { status: "error" });
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to write the dark mode aware favicon.svg.",
+        cause: err as Error,
+      });
+    }
+  }
+
+  // Manifest editor input implies a manifest even without the PWA generator
+  const editedManifest = input.options?.manifest;
+  const createManifest = !result.manifest && hasManifestEdits(editedManifest);
+  if (createManifest) result.manifest = path.join(outDir, "manifest.json");
+
+  // pixel-forge always writes its placeholder brand; patch in the requested one
+  let html = appendStartupImageTags(
+    pairFaviconTags(result.metaTags.html, darkFiles, pfOptions.urlPrefix),
+    startupImages,
+    pfOptions.urlPrefix,
+  );
+  if (platformFiles.length) {
+    html = appendPlatformIconTags(html, pfOptions.urlPrefix, {
+      maskColor: brand.themeColor,
+      tileColor: brand.themeColor,
+    });
+  }
+  if (createManifest) {
+    html = appendHeadSection(html, "Web App Manifest", [
+      `<link rel="manifest" href="${pfOptions.urlPrefix}manifest.json">`,
+    ]);
+  }
+  const metaHtml = applyBrandToMetaHtml(html, brand);
+  const metaTagsPath = path.join(outDir, "meta-tags.html");
+  try {
+    if (metaHtml) await fsp.writeFile(metaTagsPath, metaHtml, "utf8");
+    if (createManifest) await fsp.writeFile(result.manifest!, "{}", "utf8");
+    if (result.manifest) await applyBrandToManifest(result.manifest, brand);
+  } catch (err) {
+    await updatePFMeta(sessionId, { status: "error" });
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to apply brand metadata to generated files.",
+      cause: err as Error,
+    });
+  }
+
+  // pixel-forge fits maskable icons edge to edge; redo them inside a safe zone
+  const maskableOpts = input.options?.maskable;
+  let maskableFiles: string[] = [];
+  try {
+    maskableFiles = signal.aborted
+      ? []
+      : await renderMaskableIcons({
+          sourcePath: imageAbsPath,
+          fallbackSource: path.join(outDir, "pwa-512x512.png"),
+          outDir,
+          files: runFiles,
+          options: {
+            padding: maskableOpts?.padding,
+            scale: maskableOpts?.scale,
+            background: maskableOpts?.background?.trim()
+              ? maskableOpts.background
+              : brand.backgroundColor,
+          },
+        });
+    if (result.manifest && maskableFiles.length) {
+      await applyMaskableToManifest(
+        result.manifest,
+        maskableFiles,
+        pfOptions.urlPrefix,
+      );
+    }
+  } catch (err) {
+    await updatePFMeta(sessionId, { status: "error" });
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to render maskable PWA icons.",
+      cause: err as Error,
+    });
+  }
+
+  // Editor members win over pixel-forge's defaults; the final manifest is
+  // validated before it is written so problems show up with the results
+  const publishBase = normalizePublishBase(input.options?.publishBaseUrl);
+  let manifestIssues: ManifestIssue[] = [];
+  let shortcutIcons: string[] = [];
+  if (result.manifest) {
+    try {
+      const manifest = JSON.parse(
+        await fsp.readFile(result.manifest, "utf8"),
+      ) as Record<string, unknown>;
+      if (editedManifest?.shortcuts?.length && !signal.aborted) {
+        shortcutIcons = await renderShortcutIcons({
+          sourcePath: imageAbsPath,
+          fallbackSources: ["pwa-512x512.png", "apple-touch-icon.png"]
+            .filter((f) => runFiles.includes(f))
+            .map((f) => path.join(outDir, f)),
+          outDir,
+        });
+      }
+      if (editedManifest) {
+        applyManifestEdits(
+          manifest,
+          editedManifest,
+          shortcutIcons,
+          pfOptions.urlPrefix,
+        );
+      }
+      manifestIssues = validateManifest(manifest, { baseUrl: publishBase });
+      await fsp.writeFile(
+        result.manifest,
+        JSON.stringify(manifest, null, 2),
+        "utf8",
+      );
+    } catch (err) {
+      await updatePFMeta(sessionId, { status: "error" });
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to write the web app manifest.",
+        cause: err as Error,
+      });
+    }
+  }
+
+  // Downloadable copies point at the publish base instead of the session route
+  const publishedMetaPath = path.join(sess.publishedDir, "meta-tags.html");
+  const publishedManifestPath = result.manifest
+    ? path.join(sess.publishedDir, path.basename(result.manifest))
+    : undefined;
+  try {
+    // Drop copies from a previous run so the ZIP never ships stale files
+    await fsp.rm(sess.publishedDir, { recursive: true, force: true });
+    await fsp.mkdir(sess.publishedDir, { recursive: true });
+    await fsp.writeFile(
+      publishedMetaPath,
+      rewriteAssetUrls(metaHtml, pfOptions.urlPrefix, publishBase),
+      "utf8",
+    );
+    if (result.manifest && publishedManifestPath) {
+      const manifestJson = await fsp.readFile(result.manifest, "utf8");
+      await fsp.writeFile(
+        publishedManifestPath,
+        rewriteAssetUrls(manifestJson, pfOptions.urlPrefix, publishBase),
+        "utf8",
+      );
+    }
+    if (platformFiles.length) {
+      await fsp.writeFile(
+        path.join(sess.publishedDir, BROWSERCONFIG_FILE),
+        buildBrowserConfig(publishBase, brand.themeColor),
+        "utf8",
+      );
+    }
+  } catch (err) {
+    await updatePFMeta(sessionId, { status: "error" });
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to write published meta tags and manifest.",
+      cause: err as Error,
+    });
+  }
+
+  // Record the run so it can be replayed against a new source (runRecipe)
+  const upload = (await readPFMeta(sessionId))?.uploadedFile;
+  const recipe = buildRecipe({
+    sourceFileName:
+      upload && path.resolve(upload.tempPath) === path.resolve(imageAbsPath)
+        ? upload.originalName
+        : path.basename(imageAbsPath),
+    sourceSha256: await hashFile(imageAbsPath),
+    options: {
+      generationTypes: [...types],
+      transparent: input.options?.transparent,
+      format: input.options?.format,
+      quality: input.options?.quality,
+      publishBaseUrl: input.options?.publishBaseUrl,
+      maskable: maskableFiles.length
+        ? {
+            padding: maskableOpts?.padding,
+            scale: maskableOpts?.scale,
+            background: maskableOpts?.background?.trim()
+              ? maskableOpts.background
+              : undefined,
+          }
+        : undefined,
+      splash: startupImages.length
+        ? { scale: input.options?.splash?.scale }
+        : undefined,
+      manifest: hasManifestEdits(editedManifest) ? editedManifest : undefined,
+      darkFavicon: input.options?.darkFavicon,
+      ...brand,
+    },
+  });
+  const recipePath = path.join(outDir, RECIPE_FILE);
+  await fsp.writeFile(recipePath, JSON.stringify(recipe, null, 2), "utf8");
+
+  // Build asset entries with URLs pointing at our file-serving route
+  const assets: Array<{
+    fileName: string;
+    category: string;
+    downloadUrl: string;
+    previewUrl?: string;
+    width?: number;
+    height?: number;
+    bytes?: number;
+    // Deviations from the platform's spec (conformance.ts)
+    warnings?: string[];
+  }> = [];
+
+  const pushFiles = async (category: string, files?: string[]) => {
+    if (!files) return;
+    for (const f of files) {
+      const abs = path.isAbsolute(f) ? f : path.join(outDir, f);
+      const url = toFileUrl(sessionId, sess.root, abs);
+      const st = await fsp.stat(abs).catch(() => null);
+      let width: number | undefined;
+      let height: number | undefined;
+      let alpha: boolean | undefined;
+      try {
+        const buf = await fsp.readFile(abs);
+        alpha = detectAlpha(buf);
+        const dims = imageSize(buf);
+        width = dims.width;
+        height = dims.height;
+      } catch {
+        // ignore dimension extraction errors
+      }
+      const fileName = path.basename(f);
+      const warnings = checkAssetConformance(
+        { fileName, category, width, height, bytes: st?.size, alpha },
+        { transparent: input.options?.transparent },
+      );
+      assets.push({
+        fileName,
+        category,
+        downloadUrl: url,
+        previewUrl: url,
+        width,
+        height,
+        bytes: st?.size,
+        warnings: warnings.length ? warnings : undefined,
+      });
+    }
+  };
+
+  // The platform group carries the traced mask that replaced pixel-forge's copy
+  await pushFiles(
+    "favicon",
+    result.files.favicon?.filter(
+      (f) => !platformFiles.includes(path.basename(f)),
+    ),
+  );
+  await pushFiles("favicon", darkFiles);
+  await pushFiles("pwa", result.files.pwa);
+  await pushFiles("pwa", shortcutIcons);
+  await pushFiles("social", result.files.social);
+  await pushFiles("web", result.files.web);
+  await pushFiles("seo", result.files.seo);
+  await pushFiles(
+    "splash",
+    startupImages.map((i) => i.fileName),
+  );
+  await pushFiles("platform", platformFiles);
+  await pushFiles("transparent", result.files.transparent);
+
+  // Meta tags and manifest URLs
+  const metaTagsFileUrl = toFileUrl(sessionId, sess.root, metaTagsPath);
+  const manifestUrl = result.manifest
+    ? toFileUrl(sessionId, sess.root, result.manifest)
+    : undefined;
+
+  // Ready-to-paste code per framework; site URLs replace the session file route
+  const placementFiles = assets.map(({ fileName, category }) => ({
+    fileName,
+    category,
+  }));
+  if (
+    result.manifest &&
+    !placementFiles.some((f) => f.fileName === path.basename(result.manifest!))
+  ) {
+    placementFiles.push({
+      fileName: path.basename(result.manifest),
+      category: "pwa",
+    });
+  }
+  if (platformFiles.length) {
+    placementFiles.push({ fileName: BROWSERCONFIG_FILE, category: "platform" });
+  }
+  const metaTags = extractMetaTags(metaHtml);
+  const integrations = buildIntegrationSnippets({
+    tags: metaTags,
+    assetBase: pfOptions.urlPrefix,
+    publishBase,
+    files: placementFiles,
+  });
+
+  const cancelled = signal.aborted;
+  await writePFProgress(sessionId, {
+    current: 100,
+    total: 100,
+    currentOperation: cancelled ? "Cancelled" : "Completed",
+  });
+  await updatePFMeta(sessionId, {
+    status: cancelled ? "cancelled" : "completed",
+  });
+
+  return {
+    sessionId,
+    cancelled,
+    engine: engineInfo.engine,
+    engineNote: engineInfo.note,
+    files: result.files,
+    images: result.images,
+    brand,
+    metaTags: {
+      html: metaHtml,
+      fileUrl: metaTagsFileUrl,
+      tags: metaTags,
+    },
+    integrations,
+    recipe,
+    recipeUrl: toFileUrl(sessionId, sess.root, recipePath),
+    manifestUrl,
+    manifestIssues,
+    published: {
+      baseUrl: publishBase,
+      metaTagsUrl: toFileUrl(sessionId, sess.root, publishedMetaPath),
+      manifestUrl: publishedManifestPath
+        ? toFileUrl(sessionId, sess.root, publishedManifestPath)
+        : undefined,
+    },
+    summary: result.summary,
+    assets,
+  };
+}
+
+type GenerationResult = Awaited<ReturnType<typeof runGeneration>>;
+
+const generationJobs = createJobQueue<GenerationResult>("pf:generate");
+
+// Submissions that hold the `pf:gen` lock but have not queued their job yet
+const startingGenerations = new Map<
+  string,
+  ReturnType<typeof queueGeneration>
+>();
+
+// Validate and queue a generation; shared by generateAssets, submitGeneration
+// and runRecipe. Generation is single-flight per session: the `pf:gen` lock is
+// held until the job settles, and a request arriving meanwhile attaches to the
+// job in flight (its own options are ignored) instead of writing into the same
+// generated directory.
+async function enqueueGeneration(headers: Headers, input: GenerateAssetsInput) {
+  const rateKey = limiterKey("pf:generate", headers, input.sessionId);
+  if (!enforceFixedWindowLimit(rateKey, 6, 60_000)) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many generate attempts, please slow down.",
+    });
+  }
+  void (await maybeCleanupExpiredSessions());
+  const { sessionId } = input;
+
+  const lockKey = `pf:gen:${sessionId}`;
+  if (!acquireLock(lockKey)) {
+    const running = generationJobs.find(sessionId);
+    if (running) return { ...running, attached: true };
+    // The lock holder is still validating; share its outcome, errors included
+    const starting = startingGenerations.get(sessionId);
+    if (starting) return { ...(await starting), attached: true };
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A generation is already starting for this session.",
+    });
+  }
+
+  // Checked with the lock taken, as zipAssets does the reverse: an archive
+  // being built must not see files appear or change under it
+  if (isLockHeld(`pf:zip:${sessionId}`)) {
+    releaseLock(lockKey);
+    throw new TRPCError({
+      code: "CONFLICT",
+      message:
+        "A ZIP of this session is being built. Generate again once it is ready.",
+    });
+  }
+
+  // Registered before the first await so no duplicate can miss it
+  const starting = queueGeneration(input);
+  startingGenerations.set(sessionId, starting);
+  let queued = false;
+  try {
+    const submitted = await starting;
+    queued = true;
+    const release = () => releaseLock(lockKey);
+    submitted.done.then(release, release);
+    return { ...submitted, attached: false };
+  } finally {
+    startingGenerations.delete(sessionId);
+    if (!queued) releaseLock(lockKey);
+  }
+}
+
+// Resolve brand and manifest input and submit the job; caller holds the lock
+async function queueGeneration(input: GenerateAssetsInput) {
+  const { sessionId } = input;
+  const sess = await ensurePFSess(sessionId);
+  // Checked again by runGeneration; rejecting here spares a failed job
+  resolveUploadPath(sess, input.imagePath);
+  if (input.darkImagePath) resolveUploadPath(sess, input.darkImagePath);
+
+  // Resolve brand metadata: saved profile first, explicit fields override
+  const profileId = input.options?.brandProfileId;
+  const profile = profileId ? await getBrandProfile(profileId) : null;
+  if (profileId && !profile) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Brand profile not found.",
+    });
+  }
+  const brand = mergeBrand(profile ?? {}, normalizeBrand(input.options));
+
+  // Reject editor members browsers would ignore before spending a job on them
+  const manifestErrors = input.options?.manifest
+    ? validateManifest(applyManifestEdits({}, input.options.manifest), {
+        baseUrl: normalizePublishBase(input.options.publishBaseUrl),
+        checkIcons: false,
+      }).filter((i) => i.kind === "spec" && i.severity === "error")
+    : [];
+  if (manifestErrors.length) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Invalid manifest: ${manifestErrors.map((i) => `${i.path}: ${i.message}`).join(" ")}`,
+    });
+  }
+
+  // A forced engine that is not installed fails here rather than in the job
+  const engineInfo = await ensureImageEngine(input.options?.engine).catch(
+    (err: unknown) => {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message:
+          err instanceof Error ? err.message : "Image engine not available.",
+        cause: err as Error,
+      });
+    },
+  );
+  // pixel-forge would accept it and fail deep in the run
+  const format = input.options?.format;
+  if (
+    engineInfo.engine === "jimp" &&
+    format &&
+    !JIMP_OUTPUT_FORMATS.includes(format)
+  ) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `The Jimp engine cannot write ${format.toUpperCase()}. Choose ${JIMP_OUTPUT_FORMATS.map((f) => f.toUpperCase()).join(" or ")}, or install ImageMagick.`,
+    });
+  }
+
+  await writePFProgress(sessionId, {
+    current: 0,
+    total: 100,
+    currentOperation: "Queued...",
+  });
+  return generationJobs.submit({
+    sessionId,
+    sessionRoot: sess.root,
+    run: (signal) =>
+      withImageEngine(engineInfo.engine, () =>
+        runGeneration(input, brand, engineInfo, signal),
+      ).catch(async (err: unknown) => {
+        // End the progress stream too; subscribers would wait on "processing"
+        await writePFProgress(sessionId, {
+          current: 100,
+          total: 100,
+          currentOperation: "Failed",
+        }).catch(() => {
+          // Session already cleaned up; nobody is listening
+        });
+        await updatePFMeta(sessionId, { status: "error" }).catch(() => {
+          // Same as above
+        });
+        throw err;
+      }),
+  });
+}
+
 export const pixelForgeRouter = createTRPCRouter({
   // Create a new session explicitly. The upload procedure will also create one implicitly if omitted.
   newSession: publicProcedure.mutation(async ({ ctx }) => {
@@ -82,6 +1029,8 @@ export const pixelForgeRouter = createTRPCRouter({
           .min(1)
           .refine((m) => isAllowedMime(m), "Unsupported MIME type"),
         sessionId: z.string().uuid().optional(),
+        // "dark" stores a second source for dark color-scheme favicons
+        variant: z.enum(["light", "dark"]).optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -109,6 +1058,7 @@ export const pixelForgeRouter = createTRPCRouter({
           base64Data: input.fileData,
           mimeType: input.mimeType,
           maxBytes: 10 * 1024 * 1024, // 10MB cap
+          variant: input.variant,
         });
 
         // Build preview URL (served by route handler)
@@ -133,186 +1083,148 @@ export const pixelForgeRouter = createTRPCRouter({
       }
     }),
 
-  // Generate assets with pixel-forge (server-side)
+  // Generate assets with pixel-forge and wait for the result
   generateAssets: publicProcedure
+    .input(generateAssetsInput)
+    .mutation(async ({ ctx, input }) => {
+      const { done } = await enqueueGeneration(ctx.headers, input);
+      return done;
+    }),
+
+  // Queue generation and return immediately; poll getGenerationJob for the result
+  submitGeneration: publicProcedure
+    .input(generateAssetsInput)
+    .mutation(async ({ ctx, input }) => {
+      const { job, attached } = await enqueueGeneration(ctx.headers, input);
+      return { jobId: job.id, status: job.status, attached };
+    }),
+
+  // Read a generation job (status, result or error); works across page reloads
+  getGenerationJob: publicProcedure
+    .input(z.object({ sessionId: z.string().uuid(), jobId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const rateKey = limiterKey("pf:job", ctx.headers, input.sessionId);
+      if (!enforceFixedWindowLimit(rateKey, 60, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Polling too fast, please reduce frequency.",
+        });
+      }
+      const sess = await ensurePFSess(input.sessionId).catch(() => null);
+      const job = sess
+        ? await generationJobs.getJob(sess.root, input.jobId)
+        : null;
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Generation job not found.",
+        });
+      }
+      return job;
+    }),
+
+  // Stop a queued or running generation after its current step; the job then
+  // settles as "cancelled" with the files written so far
+  cancelGeneration: publicProcedure
     .input(
       z.object({
         sessionId: z.string().uuid(),
-        // Path returned from uploadImage.storedPath (relative to session root)
-        imagePath: z.string().min(1),
-        options: z
-          .object({
-            generationTypes: z
-              .array(z.enum(["favicon", "pwa", "social", "seo", "web", "all"]))
-              .min(1),
-            transparent: z.boolean().optional(),
-            appName: z.string().optional(),
-            description: z.string().optional(),
-            themeColor: z.string().optional(),
-            backgroundColor: z.string().optional(),
-            format: z.enum(["png", "jpeg", "webp"]).optional(),
-            quality: z.number().min(1).max(100).optional(),
-            urlPrefix: z.string().optional(),
-          })
-          .optional(),
+        jobId: z.string().uuid().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const rateKey = limiterKey("pf:generate", ctx.headers, input.sessionId);
-      if (!enforceFixedWindowLimit(rateKey, 6, 60_000)) {
+      const rateKey = limiterKey("pf:cancel", ctx.headers, input.sessionId);
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
         throw new TRPCError({
           code: "TOO_MANY_REQUESTS",
-          message: "Too many generate attempts, please slow down.",
+          message: "Too many cancel requests, please slow down.",
         });
       }
-      void (await maybeCleanupExpiredSessions());
-      const { sessionId } = input;
-      const sess = await ensurePFSess(sessionId);
-
-      // Update meta and progress
-      await updatePFMeta(sessionId, { status: "processing" });
-      await writePFProgress(sessionId, {
-        current: 0,
-        total: 100,
-        currentOperation: "Preparing generation...",
-      });
+      const res = await generationJobs.cancel(input.sessionId, input.jobId);
+      // Nothing left to stop (already finished or never queued here)
+      return res
+        ? { cancelled: true, jobId: res.job.id }
+        : { cancelled: false };
+    }),
 
-      // Ensure engine availability (ImageMagick preferred, Jimp fallback)
-      const engineInfo = await ensureImageEngine();
-      await writePFProgress(sessionId, {
-        current: 5,
-        total: 100,
-        currentOperation: `Engine: ${engineInfo.engine}`,
+  // Check manifest editor input without generating; icons are checked with the run
+  validateManifest: publicProcedure
+    .input(
+      z.object({
+        manifest: manifestEdits,
+        publishBaseUrl: generationOptions.shape.publishBaseUrl,
+      }),
+    )
+    .query(({ ctx, input }) => {
+      const rateKey = limiterKey("pf:manifest", ctx.headers);
+      if (!enforceFixedWindowLimit(rateKey, 60, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many requests, please slow down.",
+        });
+      }
+      const issues = validateManifest(applyManifestEdits({}, input.manifest), {
+        baseUrl: normalizePublishBase(input.publishBaseUrl),
+        checkIcons: false,
       });
+      return { issues };
+    }),
 
-      const imageAbsPath = path.join(sess.root, input.imagePath);
-      const outDir = sess.generatedDir;
-
-      // Map UI generationTypes to pixel-forge API options
-      const types = new Set(input.options?.generationTypes ?? []);
-      const pfOptions = {
-        outputDir: outDir,
-        urlPrefix: (() => {
-          const base = `/api/pixel-forge/files/${encodeURIComponent(sessionId)}/generated/`;
-          const req = input.options?.urlPrefix;
-          return typeof req === "string" && req.startsWith(base) ? req : base;
-        })(),
-        format: input.options?.format,
-        quality: input.options?.quality,
-        all: types.has("all") ? true : undefined,
-        favicon: types.has("favicon") ? true : undefined,
-        pwa: types.has("pwa") ? true : undefined,
-        social: types.has("social") ? true : undefined,
-        web: types.has("web") ? true : undefined,
-        seo: types.has("seo") ? true : undefined,
-        transparent: input.options?.transparent,
-        // verbose left undefined
-      } as const;
-
-      await writePFProgress(sessionId, {
-        current: 10,
-        total: 100,
-        currentOperation: "Generating assets...",
+  // List saved brand profiles shared by everyone using this server
+  listBrandProfiles: publicProcedure.query(async ({ ctx }) => {
+    const rateKey = limiterKey("pf:brand:list", ctx.headers);
+    if (!enforceFixedWindowLimit(rateKey, 60, 60_000)) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "Too many requests, please slow down.",
       });
+    }
+    return { profiles: await listBrandProfiles() };
+  }),
 
-      let result: PixelForgeResult;
+  // Create or update a reusable brand profile
+  saveBrandProfile: publicProcedure
+    .input(
+      z.object({
+        id: z.string().uuid().optional(),
+        name: z.string().trim().min(1).max(80),
+        ...brandFields,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const rateKey = limiterKey("pf:brand:save", ctx.headers);
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many profile updates, please slow down.",
+        });
+      }
       try {
-        result = (await pfGenerateAssets(
-          imageAbsPath,
-          pfOptions,
-        )) as PixelForgeResult;
+        const profile = await saveBrandProfile(input);
+        return { profile };
       } catch (err) {
-        await writePFProgress(sessionId, {
-          current: 100,
-          total: 100,
-          currentOperation: "Failed",
-        });
-        await updatePFMeta(sessionId, { status: "error" });
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Pixel Forge generation failed. Engine: ${engineInfo.engine}. ${engineInfo.note ?? "If ImageMagick is not installed, install it (e.g., 'brew install imagemagick') for best quality."}`,
+          code: "NOT_FOUND",
+          message:
+            err instanceof Error ? err.message : "Brand profile not found",
           cause: err as Error,
         });
       }
+    }),
 
-      // Build asset entries with URLs pointing at our file-serving route
-      const assets: Array<{
-        fileName: string;
-        category: string;
-        downloadUrl: string;
-        previewUrl?: string;
-        width?: number;
-        height?: number;
-        bytes?: number;
-      }> = [];
-
-      const pushFiles = async (category: string, files?: string[]) => {
-        if (!files) return;
-        for (const f of files) {
-          const abs = path.isAbsolute(f) ? f : path.join(outDir, f);
-          const url = toFileUrl(sessionId, sess.root, abs);
-          const st = await fsp.stat(abs).catch(() => null);
-          let width: number | undefined;
-          let height: number | undefined;
-          try {
-            const buf = await fsp.readFile(abs);
-            const dims = imageSize(buf);
-            width = dims.width;
-            height = dims.height;
-          } catch {
-            // ignore dimension extraction errors
-          }
-          assets.push({
-            fileName: path.basename(f),
-            category,
-            downloadUrl: url,
-            previewUrl: url,
-            width,
-            height,
-            bytes: st?.size,
-          });
-        }
-      };
-
-      await pushFiles("favicon", result.files.favicon);
-      await pushFiles("pwa", result.files.pwa);
-      await pushFiles("social", result.files.social);
-      await pushFiles("web", result.files.web);
-      await pushFiles("seo", result.files.seo);
-      await pushFiles("transparent", result.files.transparent);
-
-      // Meta tags and manifest URLs
-      const metaTagsFileUrl = toFileUrl(
-        sessionId,
-        sess.root,
-        path.join(outDir, "meta-tags.html"),
-      );
-      const manifestUrl = result.manifest
-        ? toFileUrl(sessionId, sess.root, result.manifest)
-        : undefined;
-
-      await writePFProgress(sessionId, {
-        current: 100,
-        total: 100,
-        currentOperation: "Completed",
-      });
-      await updatePFMeta(sessionId, { status: "completed" });
-
-      return {
-        sessionId,
-        engine: engineInfo.engine,
-        engineNote: engineInfo.note,
-        files: result.files,
-        images: result.images,
-        metaTags: {
-          html: result.metaTags.html,
-          fileUrl: metaTagsFileUrl,
-          tags: result.metaTags.tags,
-        },
-        manifestUrl,
-        summary: result.summary,
-        assets,
-      };
+  // Remove a saved brand profile
+  deleteBrandProfile: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const rateKey = limiterKey("pf:brand:delete", ctx.headers);
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many profile updates, please slow down.",
+        });
+      }
+      const removed = await deleteBrandProfile(input.id);
+      return { ok: removed };
     }),
 
   // Read current progress for the session with defensive rate limiting
@@ -330,6 +1242,27 @@ export const pixelForgeRouter = createTRPCRouter({
       return progress;
     }),
 
+  // Push progress over SSE as it is written; getGenerationProgress remains the polling fallback
+  onGenerationProgress: publicProcedure
+    .input(z.object({ sessionId: z.string().uuid() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      const rateKey = limiterKey(
+        "pf:progress:stream",
+        ctx.headers,
+        input.sessionId,
+      );
+      if (!enforceFixedWindowLimit(rateKey, 20, 60_000)) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many progress streams, please slow down.",
+        });
+      }
+      // Subscribe before reading the snapshot so no update falls in between
+      const events = subscribePFProgress(input.sessionId, signal);
+      yield await readPFProgress(input.sessionId);
+      yield* events;
+    }),
+
   // Create a ZIP of all generated assets (plus meta/manifest) and return a downloadable URL
   zipAssets: publicProcedure
     .input(z.object({ sessionId: z.string().uuid() }))
@@ -350,13 +1283,24 @@ export const pixelForgeRouter = createTRPCRouter({
           message: "ZIP already in progress for this session.",
         });
       }
+      // The generation lock is held from submission until the job settles,
+      // while files are written into generatedDir; generation in turn refuses
+      // to start while this ZIP lock is held
+      if (isLockHeld(`pf:gen:${input.sessionId}`)) {
+        releaseLock(lockKey);
+        throw new TRPCError({
+          code: "CONFLICT",
+          message:
+            "Generation is still running for this session. Download once it has finished.",
+        });
+      }
 
       try {
         const sess = await ensurePFSess(input.sessionId);
         const zipPath = path.join(sess.root, "assets.zip");
 
-        // Build ZIP archive
-        await createDirectoryZip(sess.generatedDir, zipPath);
+        // Build ZIP archive; published copies replace the session-URL originals
+        await createDirectoryZip(sess.generatedDir, zipPath, sess.publishedDir);
 
         const stat = await fsp.stat(zipPath).catch(() => null);
         const zipUrl = toFileUrl(input.sessionId, sess.root, zipPath);
@@ -372,6 +1316,27 @@ export const pixelForgeRouter = createTRPCRouter({
       }
     }),
 
+  // Replay a recipe.json from an earlier run against a newly uploaded source image
+  runRecipe: publicProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid(),
+        imagePath: z.string().min(1),
+        darkImagePath: z.string().min(1).optional(),
+        recipe: recipeSchema,
+        engine: engineChoice.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { job, attached } = await enqueueGeneration(ctx.headers, {
+        sessionId: input.sessionId,
+        imagePath: input.imagePath,
+        darkImagePath: input.darkImagePath,
+        options: { ...input.recipe.options, engine: input.engine },
+      });
+      return { jobId: job.id, status: job.status, attached };
+    }),
+
   // Cleanup expired sessions (TTL-based)
   cleanupExpired: publicProcedure.mutation(async ({ ctx }) => {
     const rateKey = limiterKey("pf:cleanupExpired", ctx.headers);
@@ -400,6 +1365,9 @@ export const pixelForgeRouter = createTRPCRouter({
           message: "Too many cleanup requests, please slow down.",
         });
       }
+      // Let a running generation stop before its directory is removed
+      const running = await generationJobs.cancel(input.sessionId);
+      await running?.settled;
       await cleanupPFSess(input.sessionId);
       return { ok: true };
     }),
@@ -0,0 +1,21 @@
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { getEngineInfo } from "@/server/lib/pixel-forge/deps";
+import { enforceFixedWindowLimit, limiterKey } from "@/server/lib/security";
+
+export const systemRouter = createTRPCRouter({
+  // Image engines on this server: ImageMagick version and formats, Jimp
+  // fallback formats and limits, and what "auto" picks
+  engineInfo: publicProcedure.query(async ({ ctx }) => {
+    const rateKey = limiterKey("system:engineInfo", ctx.headers);
+    if (!enforceFixedWindowLimit(rateKey, 30, 60_000)) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "Too many requests, please slow down.",
+      });
+    }
+    return getEngineInfo();
+  }),
+});
+
+export type SystemRouter = typeof systemRouter;
@@ -1,15 +1,94 @@
 import { promises as fs } from "fs";
+import os from "os";
 import path from "path";
-import { ImageProcessor } from "pixel-forge";
-import { ensureImageEngine } from "../pixel-forge/deps";
+import {
+  ensureImageEngine,
+  type EnginePreference,
+} from "../pixel-forge/deps";
+import {
+  detectFormat,
+  enginesFor,
+  pickEngine,
+  probeImage,
+  sniffFormat,
+  type EncodeOptions,
+  type ImageEngine,
+  type ImageEngineName,
+  type ImageInfo,
+} from "./engines";
+import {
+  MAX_RESIZE_DIMENSION,
+  planResize,
+  type ResizeRequest,
+} from "./resize";
+import {
+  METADATA_FORMATS,
+  SEO_FIELD_LIMITS,
+  metadataToEmbed,
+  oversizedBlocks,
+  readMetadata,
+  replaceMetadata,
+  seoBlocks,
+  seoFields,
+  withSeoMetadata,
+  type ImageMetadata,
+  type MetadataBlock,
+  type MetadataPolicy,
+  type EmbeddedMetadata,
+  type SeoMetadata,
+} from "./metadata";
+import {
+  MAX_RESPONSIVE_FORMATS,
+  MAX_RESPONSIVE_WIDTHS,
+  responsiveFormats,
+  responsiveWidths,
+  variantFilename,
+  type ResponsiveRequest,
+} from "./responsive";
+import {
+  BITMAP_FORMATS,
+  MAX_COMPARE_PIXELS,
+  psnr,
+  readBitmap,
+  ssim,
+  type Bitmap,
+} from "./similarity";
+import {
+  MAX_CONCURRENCY,
+  effectiveConcurrency,
+  runPool,
+  type PoolOutcome,
+} from "./pool";
+import {
+  MAX_TARGET_BYTES,
+  MAX_TARGET_SSIM,
+  MIN_TARGET_BYTES,
+  MIN_TARGET_SSIM,
+  searchQuality,
+  type QualitySearchResult,
+  type QualityTarget,
+} from "./target";
 
 export interface ConversionOptions {
-  outputFormat: "jpeg" | "png" | "webp" | "gif" | "tiff" | "bmp";
+  outputFormat: "jpeg" | "png" | "webp" | "gif" | "tiff" | "bmp" | "avif" | "heif" | "ico";
   quality?: number;
+  // Search each lossy output's quality for a byte budget or SSIM instead
+  target?: QualityTarget;
+  avifSpeed?: number; // 0 (slowest, smallest) to 10 (fastest)
+  icoSizes?: number[]; // square sizes embedded in an ICO, defaults to 16, 32, 48
+  resize?: ResizeRequest; // applied before encoding; omitted keeps the source size
+  // One file per width and format instead of one per image; outputFormat is the fallback
+  responsive?: ResponsiveRequest<ConversionOptions["outputFormat"]>;
+  metadata?: MetadataPolicy; // defaults to "icc"; images are auto-oriented first
+  // Title, alt text, creator and copyright to write, keyed by input file name
+  seo?: Record<string, SeoMetadata>;
   namingConvention: "keep-original" | "custom-pattern";
   customPattern?: string;
   prefix?: string;
   suffix?: string;
+  engine?: EnginePreference; // defaults to "auto"
+  // Files converted at once, capped by the CPU cores; defaults to 1 (sequential)
+  concurrency?: number;
 }
 
 export interface ConversionResult {
@@ -19,12 +98,35 @@ export interface ConversionResult {
   convertedName: string;
   originalSize: number;
   convertedSize: number;
-  width?: number;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  width?: number; // output size
   height?: number;
+  format?: ConversionOptions["outputFormat"];
+  engine?: ImageEngineName; // adapter that did the conversion
+  // Metadata blocks in the source, and those not carried into the output;
+  // dropped ones were to be kept but are too large for the output format
+  metadata?: { found: MetadataBlock[]; removed: MetadataBlock[]; dropped?: MetadataBlock[] };
+  seo?: SeoMetadata; // fields embedded in the output
+  seoBlocks?: MetadataBlock[]; // where they are stored; PNG and WebP get XMP only
+  // Quality picked by a target search, and whether the file meets the target
+  quality?: number;
+  target?: { met: boolean };
+  // Similarity of the output to the source at the output size; a resize
+  // itself does not count as a loss
+  ssim?: number;
+  psnr?: number; // dB
   success: boolean;
   error?: string;
 }
 
+// Formats the quality setting applies to
+const LOSSY_FORMATS = ["jpeg", "webp", "avif", "heif"];
+
+// RGBA copies of an image alive at once while converting it: the decoded
+// source, its resized copy, and the reference and output bitmaps compared
+const WORKING_COPIES = 4;
+
 /**
  * Generate output filename based on naming convention
  */
@@ -62,11 +164,13 @@ function generateOutputFilename(
 }
 
 /**
- * Ensure unique filename by appending numbers if conflicts exist
+ * Ensure unique filename by appending numbers if conflicts exist. Names in
+ * `reserved` are taken by conversions still running; the chosen one is added.
  */
 async function ensureUniqueFilename(
   outputDir: string,
   filename: string,
+  reserved: Set<string>,
 ): Promise<string> {
   const baseName = path.basename(filename, path.extname(filename));
   const ext = path.extname(filename);
@@ -74,18 +178,21 @@ async function ensureUniqueFilename(
   let uniqueName = filename;
 
   while (true) {
-    const fullPath = path.join(outputDir, uniqueName);
-    try {
-      await fs.access(fullPath);
-      // File exists, try next number
-      uniqueName = `${baseName}_${counter}${ext}`;
-      counter++;
-    } catch {
-      // File doesn't exist, we can use this name
-      break;
+    if (!reserved.has(uniqueName)) {
+      const fullPath = path.join(outputDir, uniqueName);
+      try {
+        await fs.access(fullPath);
+      } catch {
+        // File doesn't exist; use it unless a parallel conversion claimed it meanwhile
+        if (!reserved.has(uniqueName)) break;
+      }
     }
+    // Taken, try next number
+    uniqueName = `${baseName}_${counter}${ext}`;
+    counter++;
   }
 
+  reserved.add(uniqueName);
   return uniqueName;
 }
 
@@ -102,68 +209,119 @@ async function getFileSize(filePath: string): Promise<number> {
 }
 
 /**
- * Get image dimensions using ImageMagick
+ * Metadata embedded in a file; none when it cannot be read
  */
-async function getImageDimensions(
-  filePath: string,
-): Promise<{ width?: number; height?: number }> {
+async function readFileMetadata(filePath: string): Promise<ImageMetadata> {
   try {
-    // Use ImageMagick to get dimensions (works with both magick and jimp engines)
-    const { execFile } = await import("child_process");
-    const { promisify } = await import("util");
-    const execFileAsync = promisify(execFile);
+    return readMetadata(await fs.readFile(filePath));
+  } catch {
+    return { blocks: [] };
+  }
+}
 
-    // Try magick command first
+/**
+ * Run `fn` with a temporary directory that is removed afterwards
+ */
+async function withScratchDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-"));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {
+      // A leftover temp directory is harmless
+    });
+  }
+}
+
+/**
+ * Pixels of a loaded image as `engine` would encode them, via a lossless PNG
+ */
+async function renderBitmap(engine: ImageEngine, image: unknown): Promise<Bitmap> {
+  return withScratchDir(async (dir) => {
+    const pngPath = path.join(dir, "reference.png");
+    await engine.encode(image, pngPath, { format: "png" });
+    return readBitmap(pngPath);
+  });
+}
+
+/**
+ * Decoded pixels of an encoded file. Formats Jimp cannot read are converted to
+ * PNG by `engine`, which wrote them and so can read them back.
+ */
+async function decodeBitmap(
+  engine: ImageEngine,
+  encoded: Buffer,
+  format: string,
+): Promise<Bitmap> {
+  if (BITMAP_FORMATS.includes(format)) return readBitmap(encoded);
+  return withScratchDir(async (dir) => {
+    const encodedPath = path.join(dir, `encoded.${format}`);
+    const pngPath = path.join(dir, "decoded.png");
+    await fs.writeFile(encodedPath, encoded);
+    const image = await engine.load(encodedPath);
     try {
-      const { stdout } = await execFileAsync("magick", [
-        "identify",
-        "-format",
-        "%w %h",
-        filePath,
-      ]);
-
-      const [widthStr, heightStr] = stdout.trim().split(" ");
-      return {
-        width: parseInt(widthStr ?? "0", 10) || undefined,
-        height: parseInt(heightStr ?? "0", 10) || undefined,
-      };
-    } catch {
-      // Fallback to convert command
-      const { stdout } = await execFileAsync("convert", [
-        filePath,
-        "-format",
-        "%w %h",
-        "info:",
-      ]);
-
-      const [widthStr, heightStr] = stdout.trim().split(" ");
-      return {
-        width: parseInt(widthStr ?? "0", 10) || undefined,
-        height: parseInt(heightStr ?? "0", 10) || undefined,
-      };
+      await engine.encode(image, pngPath, { format: "png" });
+    } finally {
+      await engine.dispose(image);
     }
-  } catch {
-    // If ImageMagick is not available, return empty dimensions
-    // The ImageProcessor will handle the actual conversion with its fallback
-    return {};
+    return readBitmap(pngPath);
+  });
+}
+
+/**
+ * Encode `image` at the quality a target search picks and leave that file at
+ * `outputPath`. Sizes include the metadata written afterwards; SSIM compares
+ * against `reference`, the same pixels before encoding.
+ */
+async function encodeForTarget(
+  engine: ImageEngine,
+  image: unknown,
+  outputPath: string,
+  encodeOptions: EncodeOptions,
+  target: QualityTarget,
+  embed: EmbeddedMetadata,
+  reference: Bitmap | null,
+): Promise<QualitySearchResult> {
+  let lastQuality = 0;
+  const result = await searchQuality(async (quality) => {
+    await engine.encode(image, outputPath, { ...encodeOptions, quality });
+    lastQuality = quality;
+    // Decode what will be written; it also has any stale EXIF orientation reset
+    const final = replaceMetadata(await fs.readFile(outputPath), embed);
+    if (target.minSsim === undefined || !reference) return { bytes: final.length };
+    const candidate = await decodeBitmap(engine, final, encodeOptions.format);
+    return { bytes: final.length, ssim: ssim(reference, candidate) };
+  }, target);
+
+  if (lastQuality !== result.quality) {
+    await engine.encode(image, outputPath, { ...encodeOptions, quality: result.quality });
   }
+  return result;
 }
 
 /**
- * Convert a single image file
+ * Convert a single image file with the first engine that can read its format,
+ * write the output format and apply the planned resize. Output metadata is
+ * then replaced by what the metadata policy keeps of the source's, plus the
+ * file's SEO fields.
  */
 async function convertSingleImage(
   inputPath: string,
   outputDir: string,
   outputFilename: string,
   options: ConversionOptions,
+  engines: ImageEngine[],
+  source: ImageInfo | null,
+  sourceMetadata: ImageMetadata,
 ): Promise<{
   success: boolean;
   outputPath?: string;
+  engine?: ImageEngineName;
+  tuned?: QualitySearchResult;
+  similarity?: { ssim: number; psnr: number };
+  droppedMetadata?: MetadataBlock[]; // too large for the output format
   error?: string;
 }> {
-  let processor: ImageProcessor | null = null;
-  
   try {
     // Validate input file exists and is readable
     try {
@@ -191,14 +349,41 @@ async function convertSingleImage(
       };
     }
 
+    const inputFormat = await detectFormat(inputPath);
+    if (!inputFormat) {
+      return {
+        success: false,
+        error: "Unsupported image format or corrupted file",
+      };
+    }
+
+    let resize = null;
+    if (options.resize) {
+      if (!source) {
+        return {
+          success: false,
+          error: "Could not read the image dimensions needed to resize it",
+        };
+      }
+      resize = planResize(source, options.resize, options.outputFormat);
+    }
+
+    const engine = await pickEngine(engines, { read: inputFormat, write: options.outputFormat }, resize?.fit);
+    if (!engine) {
+      return {
+        success: false,
+        error: `No available image engine can convert ${inputFormat.toUpperCase()} to ${options.outputFormat.toUpperCase()}`,
+      };
+    }
+
     const outputPath = path.join(outputDir, outputFilename);
 
     // Ensure output directory exists
     await fs.mkdir(outputDir, { recursive: true });
 
-    // Create ImageProcessor instance
+    let image: unknown;
     try {
-      processor = new ImageProcessor(inputPath);
+      image = await engine.load(inputPath);
     } catch (error) {
       return {
         success: false,
@@ -208,22 +393,55 @@ async function convertSingleImage(
       };
     }
 
-    // Validate output format compatibility
-    const saveOptions: {
-      format: "png" | "jpeg" | "webp" | "gif" | "tiff" | "jpg" | "avif" | "tif" | "heif" | "svg" | "ico";
-      quality?: number;
-    } = {
-      format: options.outputFormat as "png" | "jpeg" | "webp" | "gif" | "tiff" | "jpg" | "avif" | "tif" | "heif" | "svg" | "ico",
-    };
+    // Metadata the policy keeps, plus the file's SEO fields
+    const embed = METADATA_FORMATS.includes(options.outputFormat)
+      ? withSeoMetadata(
+          metadataToEmbed(sourceMetadata, options.metadata ?? "icc"),
+          options.seo?.[path.basename(inputPath)] ?? {},
+        )
+      : null;
+
+    // Compared against the output unless ICO (several sizes) or too large
+    const outputPixels = resize
+      ? resize.width * resize.height
+      : source ? source.width * source.height : Infinity;
+    const measurable = options.outputFormat !== "ico" && outputPixels <= MAX_COMPARE_PIXELS;
+
+    let tuned: QualitySearchResult | undefined;
+    let reference: Bitmap | null = null;
+    try {
+      if (resize) {
+        image = await engine.resize(image, resize);
+      }
 
-    // Add quality for lossy formats with validation
-    if (options.quality && ["jpeg", "webp"].includes(options.outputFormat)) {
-      const quality = Math.max(1, Math.min(100, Math.round(options.quality)));
-      saveOptions.quality = quality;
-    }
+      // The pixels about to be encoded, to measure what the encoder loses; an
+      // SSIM target needs them whatever the size
+      if (measurable || options.target?.minSsim !== undefined) {
+        reference = await renderBitmap(engine, image);
+      }
+
+      // Add quality for lossy formats with validation
+      const quality = options.quality && LOSSY_FORMATS.includes(options.outputFormat)
+        ? Math.max(1, Math.min(100, Math.round(options.quality)))
+        : undefined;
+
+      const encodeOptions: EncodeOptions = {
+        format: options.outputFormat,
+        quality,
+        speed: options.outputFormat === "avif" ? options.avifSpeed : undefined,
+        sizes: options.outputFormat === "ico" ? options.icoSizes : undefined,
+      };
 
-    // Perform conversion
-    await processor.save(outputPath, saveOptions);
+      // Perform conversion
+      if (options.target && LOSSY_FORMATS.includes(options.outputFormat)) {
+        tuned = await encodeForTarget(engine, image, outputPath, encodeOptions, options.target, embed ?? {}, reference);
+      } else {
+        await engine.encode(image, outputPath, encodeOptions);
+      }
+    } finally {
+      // Always attempt cleanup
+      await engine.dispose(image);
+    }
 
     // Verify output file was created and has content
     try {
@@ -241,9 +459,27 @@ async function convertSingleImage(
       };
     }
 
+    // Replace whatever the engine wrote with the metadata the policy keeps
+    let final = await fs.readFile(outputPath);
+    if (embed) {
+      const replaced = replaceMetadata(final, embed);
+      if (replaced !== final) await fs.writeFile(outputPath, replaced);
+      final = replaced;
+    }
+
+    let similarity: { ssim: number; psnr: number } | undefined;
+    if (reference) {
+      const output = await decodeBitmap(engine, final, options.outputFormat);
+      similarity = { ssim: ssim(reference, output), psnr: psnr(reference, output) };
+    }
+
     return {
       success: true,
       outputPath,
+      engine: engine.name,
+      tuned,
+      similarity,
+      droppedMetadata: embed ? oversizedBlocks(embed, options.outputFormat) : undefined,
     };
 
   } catch (error) {
@@ -276,21 +512,144 @@ async function convertSingleImage(
       success: false,
       error: errorMessage,
     };
-  } finally {
-    // Always attempt cleanup
-    if (processor) {
-      try {
-        await processor.cleanup();
-      } catch (cleanupError) {
-        // Log cleanup errors but don't fail the operation
-        console.warn("[picture-press] Cleanup warning:", cleanupError);
+  }
+}
+
+/**
+ * Result for a file that failed before any of its outputs was written
+ */
+function failedResult(inputFile: string, originalSize: number, error: unknown): ConversionResult {
+  return {
+    originalFile: inputFile,
+    convertedFile: "",
+    originalName: path.basename(inputFile),
+    convertedName: "",
+    originalSize,
+    convertedSize: 0,
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Convert one input file into each of its outputs. Failures are returned as
+ * unsuccessful results rather than thrown.
+ */
+async function convertFile(
+  inputFile: string,
+  i: number,
+  outputDir: string,
+  options: ConversionOptions,
+  engines: ImageEngine[],
+  probed: ImageInfo | null,
+  reserved: Set<string>,
+): Promise<ConversionResult[]> {
+  const originalName = path.basename(inputFile);
+  const results: ConversionResult[] = [];
+
+  try {
+    // Get original file info
+    const originalSize = await getFileSize(inputFile);
+    const sourceMetadata = await readFileMetadata(inputFile);
+    // Headers give the stored size; sizes and resizes are of the upright image
+    const originalDimensions = probed && (sourceMetadata.orientation ?? 1) > 4
+      ? { ...probed, width: probed.height, height: probed.width }
+      : probed;
+
+    // A responsive set converts every width in every format
+    const variants: Array<{ format: ConversionOptions["outputFormat"]; resize?: ResizeRequest; width?: number }> = [];
+    if (options.responsive) {
+      if (!originalDimensions) {
+        throw new Error("Could not read the image dimensions needed for a responsive set");
+      }
+      const widths = responsiveWidths(originalDimensions.width, options.responsive.widths);
+      for (const format of responsiveFormats(options.outputFormat, options.responsive.formats)) {
+        for (const width of widths) {
+          variants.push({ format, width, resize: { width, fit: "inside" } });
+        }
+      }
+    } else {
+      variants.push({ format: options.outputFormat, resize: options.resize });
+    }
+
+    for (const variant of variants) {
+      const baseName = generateOutputFilename(inputFile, variant.format, options, i);
+      const uniqueOutputName = await ensureUniqueFilename(
+        outputDir,
+        variant.width ? variantFilename(baseName, variant.width) : baseName,
+        reserved,
+      );
+
+      // Convert the image
+      const conversionResult = await convertSingleImage(
+        inputFile,
+        outputDir,
+        uniqueOutputName,
+        { ...options, outputFormat: variant.format, resize: variant.resize },
+        engines,
+        originalDimensions,
+        sourceMetadata,
+      );
+
+      if (conversionResult.success && conversionResult.outputPath) {
+        // Get converted file info
+        const convertedSize = await getFileSize(conversionResult.outputPath);
+        const convertedDimensions = await probeImage(conversionResult.outputPath);
+        const outputMetadata = await readFileMetadata(conversionResult.outputPath);
+
+        results.push({
+          originalFile: inputFile,
+          convertedFile: conversionResult.outputPath,
+          originalName,
+          convertedName: uniqueOutputName,
+          originalSize,
+          convertedSize,
+          sourceWidth: originalDimensions?.width,
+          sourceHeight: originalDimensions?.height,
+          width: convertedDimensions?.width ?? originalDimensions?.width,
+          height: convertedDimensions?.height ?? originalDimensions?.height,
+          format: variant.format,
+          engine: conversionResult.engine,
+          metadata: {
+            found: sourceMetadata.blocks,
+            removed: sourceMetadata.blocks.filter(block => !outputMetadata.blocks.includes(block)),
+            dropped: conversionResult.droppedMetadata?.length ? conversionResult.droppedMetadata : undefined,
+          },
+          seo: METADATA_FORMATS.includes(variant.format) ? seoFields(outputMetadata) : undefined,
+          seoBlocks: METADATA_FORMATS.includes(variant.format) ? seoBlocks(variant.format) : undefined,
+          quality: conversionResult.tuned?.quality,
+          target: conversionResult.tuned ? { met: conversionResult.tuned.met } : undefined,
+          ssim: conversionResult.similarity?.ssim,
+          psnr: conversionResult.similarity?.psnr,
+          success: true,
+        });
+      } else {
+        results.push({
+          originalFile: inputFile,
+          convertedFile: "",
+          originalName,
+          convertedName: "",
+          originalSize,
+          convertedSize: 0,
+          format: variant.format,
+          success: false,
+          error: conversionResult.error ?? "Conversion failed for unknown reason",
+        });
       }
     }
+  } catch (error) {
+    const originalSize = await getFileSize(inputFile).catch(() => 0);
+    results.push(failedResult(inputFile, originalSize, error));
   }
+
+  return results;
 }
 
 /**
- * Convert multiple images sequentially with progress reporting
+ * Convert multiple images with progress reporting, one at a time unless
+ * `options.concurrency` allows more (see runPool).
+ * An aborted `signal` starts no further file and returns the results so far.
+ * A responsive set yields one result per width and format of each file.
  */
 export async function convertImages(
   inputFiles: string[],
@@ -302,6 +661,7 @@ export async function convertImages(
     operation: string,
     currentFile?: string,
   ) => void,
+  signal?: AbortSignal,
 ): Promise<ConversionResult[]> {
   if (!inputFiles || inputFiles.length === 0) {
     throw new Error("No input files provided for conversion");
@@ -325,9 +685,9 @@ export async function convertImages(
     throw new Error(`Input files not found or not accessible: ${missingFiles.join(', ')}`);
   }
 
-  // Ensure ImageMagick engine is available
+  // Ensure the requested engine is available (ImageMagick preferred for "auto")
   try {
-    await ensureImageEngine();
+    await ensureImageEngine(options.engine);
   } catch (error) {
     console.error('[picture-press] Engine setup failed:', error);
     throw new Error(`Image processing engine not available: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -346,95 +706,55 @@ export async function convertImages(
 
   const total = inputFiles.length;
   const results: ConversionResult[] = [];
+  const engines = enginesFor(options.engine);
+  const concurrency = effectiveConcurrency(options.concurrency);
+  const reserved = new Set<string>();
+
+  // Header probes, which also size each file's share of the memory budget
+  const probes: Array<ImageInfo | null> = [];
+  for (const inputFile of inputFiles) {
+    probes.push(await probeImage(inputFile));
+  }
 
   progressCallback?.(0, total, "Initializing conversion...");
   
-  console.log(`[picture-press] Starting conversion: ${total} files`);
-
-  // Process files sequentially
-  for (let i = 0; i < inputFiles.length; i++) {
-    const inputFile = inputFiles[i];
-    if (!inputFile) continue;
-
-    const originalName = path.basename(inputFile);
-    
-    progressCallback?.(i, total, `Converting ${originalName}...`, originalName);
-
-    try {
-      // Generate output filename
-      const baseOutputName = generateOutputFilename(
-        inputFile,
-        options.outputFormat,
-        options,
-        i,
-      );
-      const uniqueOutputName = await ensureUniqueFilename(
-        outputDir,
-        baseOutputName,
-      );
-
-      // Get original file info
-      const originalSize = await getFileSize(inputFile);
-      const originalDimensions = await getImageDimensions(inputFile);
-
-      // Convert the image
-      const conversionResult = await convertSingleImage(
-        inputFile,
-        outputDir,
-        uniqueOutputName,
-        options,
-      );
-
-      if (conversionResult.success && conversionResult.outputPath) {
-        // Get converted file info
-        const convertedSize = await getFileSize(conversionResult.outputPath);
-        const convertedDimensions = await getImageDimensions(conversionResult.outputPath);
-
-        results.push({
-          originalFile: inputFile,
-          convertedFile: conversionResult.outputPath,
-          originalName,
-          convertedName: uniqueOutputName,
-          originalSize,
-          convertedSize,
-          width: convertedDimensions.width ?? originalDimensions.width,
-          height: convertedDimensions.height ?? originalDimensions.height,
-          success: true,
-        });
-      } else {
-        results.push({
-          originalFile: inputFile,
-          convertedFile: "",
-          originalName,
-          convertedName: "",
-          originalSize,
-          convertedSize: 0,
-          success: false,
-          error: conversionResult.error ?? "Conversion failed for unknown reason",
-        });
-      }
-    } catch (error) {
-      const originalSize = await getFileSize(inputFile).catch(() => 0);
-      
-      results.push({
-        originalFile: inputFile,
-        convertedFile: "",
-        originalName,
-        convertedName: "",
-        originalSize,
-        convertedSize: 0,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
-
-    // Report progress
-    progressCallback?.(i + 1, total, `Converted ${i + 1}/${total} images`);
-  }
+  console.log(`[picture-press] Starting conversion: ${total} files${concurrency > 1 ? ` (${concurrency} at a time)` : ""}`);
+
+  // Files start in order, and results and progress are reported in that order
+  let completed = 0;
+  await runPool(
+    inputFiles,
+    (inputFile, i) => convertFile(inputFile, i, outputDir, options, engines, probes[i] ?? null, reserved),
+    {
+      concurrency,
+      cost: (_inputFile, i) => {
+        const probe = probes[i];
+        return probe ? probe.width * probe.height * 4 * WORKING_COPIES : Infinity;
+      },
+      signal,
+      onStart: (inputFile) => {
+        const originalName = path.basename(inputFile);
+        progressCallback?.(completed, total, `Converting ${originalName}...`, originalName);
+      },
+      onSettled: (outcome: PoolOutcome<ConversionResult[]>, i) => {
+        results.push(...(outcome.ok ? outcome.value : [failedResult(inputFiles[i]!, 0, outcome.error)]));
+        completed = i + 1;
+        progressCallback?.(completed, total, `Converted ${completed}/${total} images`);
+      },
+    },
+  );
 
   const successCount = results.filter(r => r.success).length;
   const failureCount = results.filter(r => !r.success).length;
 
+  if (signal?.aborted) {
+    const processed = new Set(results.map(r => r.originalFile)).size;
+    console.log(`[picture-press] Conversion cancelled after ${processed}/${total} files`);
+    const convertedFiles = new Set(results.filter(r => r.success).map(r => r.originalFile)).size;
+    progressCallback?.(processed, total, `Conversion cancelled (${convertedFiles} of ${total} images converted)`);
+    return results;
+  }
+
   console.log(`[picture-press] Conversion completed: ${successCount} successful, ${failureCount} failed`);
 
   // Final progress update
@@ -458,6 +778,33 @@ export async function convertImages(
   return results;
 }
 
+/**
+ * Rewrite the SEO fields of an already converted file in place, keeping its
+ * other metadata. Returns the fields now embedded and the new file size, or
+ * null for formats that carry no metadata. A file whose metadata would
+ * outgrow the format is left as is, with the blocks at fault as `dropped`.
+ */
+export async function updateSeoMetadata(
+  filePath: string,
+  seo: SeoMetadata,
+): Promise<{ seo: SeoMetadata; size: number; dropped?: MetadataBlock[] } | null> {
+  const current = await fs.readFile(filePath);
+  const format = sniffFormat(current) ?? "";
+  if (!METADATA_FORMATS.includes(format)) return null;
+
+  const embed = withSeoMetadata(readMetadata(current), seo);
+  const dropped = oversizedBlocks(embed, format);
+  if (dropped.length) {
+    return { seo: seoFields(readMetadata(current)), size: current.length, dropped };
+  }
+  const updated = replaceMetadata(current, embed);
+  if (updated !== current) await fs.writeFile(filePath, updated);
+  return { seo: seoFields(readMetadata(updated)), size: updated.length };
+}
+
+// Outputs the JavaScript adapters (pixel-forge on Jimp, Jimp directly) can write
+const JS_OUTPUT_FORMATS = ["jpeg", "png", "gif", "tiff", "bmp", "ico"];
+
 /**
  * Validate conversion options
  */
@@ -468,11 +815,16 @@ export function validateConversionOptions(options: ConversionOptions): {
   const errors: string[] = [];
 
   // Validate output format
-  const supportedFormats = ["jpeg", "png", "webp", "gif", "tiff", "bmp"];
+  const supportedFormats = getSupportedFormats().map(f => f.format);
   if (!supportedFormats.includes(options.outputFormat)) {
     errors.push(`Unsupported output format "${options.outputFormat}". Supported formats: ${supportedFormats.join(', ')}`);
   }
 
+  // Every format this run writes; more than one for a responsive set
+  const outputFormats = options.responsive
+    ? responsiveFormats(options.outputFormat, options.responsive.formats)
+    : [options.outputFormat];
+
   // Validate quality
   if (options.quality !== undefined) {
     if (typeof options.quality !== "number" || isNaN(options.quality)) {
@@ -482,8 +834,132 @@ export function validateConversionOptions(options: ConversionOptions): {
     }
 
     // Quality only applies to lossy formats
-    if (!["jpeg", "webp"].includes(options.outputFormat)) {
-      errors.push(`Quality setting is not applicable for ${options.outputFormat} format (only JPEG and WebP support quality settings)`);
+    if (!outputFormats.some(format => LOSSY_FORMATS.includes(format))) {
+      errors.push(`Quality setting is not applicable for ${options.outputFormat} format (only JPEG, WebP, AVIF and HEIF support quality settings)`);
+    }
+  }
+
+  // Validate quality target
+  if (options.target !== undefined) {
+    const { maxBytes, minSsim } = options.target;
+    if (maxBytes === undefined && minSsim === undefined) {
+      errors.push("A quality target needs a maximum file size, a minimum SSIM or both");
+    }
+    if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < MIN_TARGET_BYTES || maxBytes > MAX_TARGET_BYTES)) {
+      errors.push(`Target file size must be a whole number of bytes between ${MIN_TARGET_BYTES} and ${MAX_TARGET_BYTES}`);
+    }
+    if (minSsim !== undefined && (typeof minSsim !== "number" || !(minSsim >= MIN_TARGET_SSIM && minSsim <= MAX_TARGET_SSIM))) {
+      errors.push(`Target SSIM must be between ${MIN_TARGET_SSIM} and ${MAX_TARGET_SSIM}`);
+    }
+    if (options.quality !== undefined) {
+      errors.push("Choose either a fixed quality or a quality target, not both");
+    }
+    if (!outputFormats.some(format => LOSSY_FORMATS.includes(format))) {
+      errors.push(`A quality target is not applicable for ${options.outputFormat} format (only JPEG, WebP, AVIF and HEIF have a quality to tune)`);
+    }
+  }
+
+  // Validate AVIF encoder speed
+  if (options.avifSpeed !== undefined) {
+    if (!Number.isInteger(options.avifSpeed) || options.avifSpeed < 0 || options.avifSpeed > 10) {
+      errors.push("AVIF speed must be a whole number between 0 and 10");
+    } else if (!outputFormats.includes("avif")) {
+      errors.push(`AVIF speed is not applicable for ${options.outputFormat} format`);
+    }
+  }
+
+  // Validate ICO sizes
+  if (options.icoSizes !== undefined) {
+    if (options.outputFormat !== "ico") {
+      errors.push(`Icon sizes are not applicable for ${options.outputFormat} format`);
+    } else if (options.icoSizes.length === 0 || options.icoSizes.length > 10) {
+      errors.push("Choose between 1 and 10 icon sizes");
+    } else if (options.icoSizes.some(size => !Number.isInteger(size) || size < 1 || size > 256)) {
+      errors.push("Icon sizes must be whole numbers between 1 and 256");
+    }
+  }
+
+  // Validate resize
+  if (options.resize !== undefined) {
+    const { width, height, fit = "inside", neverUpscale } = options.resize;
+    if (!["inside", "contain", "cover", "fill"].includes(fit)) {
+      errors.push(`Unsupported fit "${fit}". Supported fits: inside, contain, cover, fill`);
+    }
+    for (const [label, value] of [["width", width], ["height", height]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_RESIZE_DIMENSION)) {
+        errors.push(`Resize ${label} must be a whole number between 1 and ${MAX_RESIZE_DIMENSION}`);
+      }
+    }
+    if (fit === "inside" && width === undefined && height === undefined) {
+      errors.push("Resizing needs a maximum width, height or both");
+    } else if (fit !== "inside" && (width === undefined || height === undefined)) {
+      errors.push(`The ${fit} fit needs both a width and a height`);
+    }
+    if (neverUpscale !== undefined && typeof neverUpscale !== "boolean") {
+      errors.push("Never upscale must be true or false");
+    }
+  }
+
+  // Validate responsive set
+  if (options.responsive !== undefined) {
+    const { widths, formats = [], sizes } = options.responsive;
+    if (widths.length === 0 || widths.length > MAX_RESPONSIVE_WIDTHS) {
+      errors.push(`Choose between 1 and ${MAX_RESPONSIVE_WIDTHS} responsive widths`);
+    } else if (widths.some(width => !Number.isInteger(width) || width < 1 || width > MAX_RESIZE_DIMENSION)) {
+      errors.push(`Responsive widths must be whole numbers between 1 and ${MAX_RESIZE_DIMENSION}`);
+    }
+    if (formats.length > MAX_RESPONSIVE_FORMATS) {
+      errors.push(`Choose at most ${MAX_RESPONSIVE_FORMATS} responsive formats`);
+    }
+    const unsupported = formats.filter(format => !supportedFormats.includes(format));
+    if (unsupported.length > 0) {
+      errors.push(`Unsupported responsive format "${unsupported[0]}". Supported formats: ${supportedFormats.join(', ')}`);
+    }
+    if (outputFormats.includes("ico")) {
+      errors.push("ICO cannot be part of a responsive set");
+    }
+    if (options.resize !== undefined) {
+      errors.push("Resize and responsive sets cannot be combined; the set's widths already resize each image");
+    }
+    if (sizes !== undefined && (sizes.length > 200 || /[<>"]/.test(sizes))) {
+      errors.push("The sizes attribute must be at most 200 characters without <, > or quotes");
+    }
+  }
+
+  // Validate metadata policy
+  if (options.metadata !== undefined && !["strip", "icc", "copyright", "keep"].includes(options.metadata)) {
+    errors.push(`Unsupported metadata option "${options.metadata}". Supported options: strip, icc, copyright, keep`);
+  }
+
+  // Validate SEO fields
+  if (options.seo !== undefined) {
+    for (const [name, fields] of Object.entries(options.seo)) {
+      const tooLong = (Object.keys(SEO_FIELD_LIMITS) as Array<keyof SeoMetadata>)
+        .find(key => (fields[key]?.length ?? 0) > SEO_FIELD_LIMITS[key]);
+      if (tooLong) {
+        errors.push(`The ${tooLong} for ${name} is too long (maximum ${SEO_FIELD_LIMITS[tooLong]} characters)`);
+      }
+    }
+    const unwritable = outputFormats.filter(format => !METADATA_FORMATS.includes(format));
+    if (Object.keys(options.seo).length > 0 && unwritable.length === outputFormats.length) {
+      errors.push(`SEO metadata can only be written into ${METADATA_FORMATS.join(', ')} images`);
+    }
+  }
+
+  // Validate engine choice
+  if (options.engine !== undefined) {
+    const jsUnwritable = outputFormats.filter(format => !JS_OUTPUT_FORMATS.includes(format));
+    if (!["auto", "magick", "jimp"].includes(options.engine)) {
+      errors.push(`Unsupported engine "${options.engine}". Supported engines: auto, magick, jimp`);
+    } else if (options.engine === "jimp" && jsUnwritable.length > 0) {
+      errors.push(`The Jimp engine can only write ${JS_OUTPUT_FORMATS.join(', ')}. Use ImageMagick (or auto) for ${jsUnwritable.join(', ')}`);
+    }
+  }
+
+  // Validate concurrency
+  if (options.concurrency !== undefined) {
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1 || options.concurrency > MAX_CONCURRENCY) {
+      errors.push(`Concurrency must be a whole number between 1 and ${MAX_CONCURRENCY}`);
     }
   }
 
@@ -585,5 +1061,8 @@ export function getSupportedFormats(): Array<{
     { format: "gif", label: "GIF", supportsQuality: false },
     { format: "tiff", label: "TIFF", supportsQuality: false },
     { format: "bmp", label: "BMP", supportsQuality: false },
+    { format: "avif", label: "AVIF", supportsQuality: true },
+    { format: "heif", label: "HEIF", supportsQuality: true },
+    { format: "ico", label: "ICO", supportsQuality: false },
   ];
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import type { EnginePreference } from "../../pixel-forge/deps";
+import { magickEngine } from "./magick";
+import { pixelForgeEngine } from "./pixel-forge";
+import { detectFormat, normalizeFormat, pureJsEngine } from "./pure-js";
+import type {
+  ImageCapability,
+  ImageEngine,
+  ImageFormat,
+  ImageInfo,
+  ResizeFit,
+} from "./types";
+
+export type * from "./types";
+export { DEFAULT_ICO_SIZES } from "./types";
+export {
+  detectFormat,
+  normalizeFormat,
+  readImageHeader,
+  sniffFormat,
+} from "./pure-js";
+
+// Header parsing reads a few bytes, ImageMagick knows the most formats, and a
+// full Jimp decode is the last resort
+const PROBE_ORDER: ImageEngine[] = [
+  pureJsEngine,
+  magickEngine,
+  pixelForgeEngine,
+];
+
+/**
+ * Adapters a conversion may use for an engine preference, best first.
+ * "jimp" keeps to the JavaScript adapters; "magick" to the ImageMagick CLI.
+ */
+export function enginesFor(
+  preference: EnginePreference = "auto",
+): ImageEngine[] {
+  if (preference === "magick") return [magickEngine];
+  if (preference === "jimp") return [pixelForgeEngine, pureJsEngine];
+  return [magickEngine, pixelForgeEngine, pureJsEngine];
+}
+
+/**
+ * First adapter among `candidates` that supports every requested
+ * capability for its format on this host, e.g.
+ * `{ read: "png", write: "webp" }`, and implements `fit` when a resize is
+ * planned. Null when none does.
+ */
+export async function pickEngine(
+  candidates: ImageEngine[],
+  needs: Partial<Record<ImageCapability, ImageFormat>>,
+  fit?: ResizeFit,
+): Promise<ImageEngine | null> {
+  for (const engine of candidates) {
+    if (fit && !engine.fits.includes(fit)) continue;
+    const formats = await engine.formats();
+    const supported = Object.entries(needs).every(([capability, format]) =>
+      formats[capability as ImageCapability].includes(normalizeFormat(format)),
+    );
+    if (supported) return engine;
+  }
+  return null;
+}
+
+/**
+ * Format and pixel size of an image from the first adapter able to probe it.
+ * Works for every format with a header parser even without ImageMagick.
+ */
+export async function probeImage(filePath: string): Promise<ImageInfo | null> {
+  const format = await detectFormat(filePath);
+  for (const engine of PROBE_ORDER) {
+    if (format && !(await engine.formats()).probe.includes(format)) continue;
+    const info = await engine.probe(filePath);
+    if (info) return { ...info, format: normalizeFormat(info.format) };
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { getEngineInfo } from "../../pixel-forge/deps";
+import {
+  DEFAULT_ICO_SIZES,
+  type EngineFormats,
+  type ImageEngine,
+  type ImageInfo,
+} from "./types";
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_TIMEOUT_MS = 120_000;
+
+// Operations are collected and run as one command line on encode
+type MagickImage = { source: string; ops: string[] };
+
+// Formats that keep every frame of an animated or multi-page source
+const MULTI_FRAME_OUTPUTS = ["gif", "webp", "tiff"];
+
+async function magickCommand(): Promise<"magick" | "convert" | null> {
+  const { magick } = await getEngineInfo();
+  return magick.available ? (magick.command ?? "magick") : null;
+}
+
+/**
+ * ImageMagick command line (IM7 `magick` or IM6 `convert`/`identify`). Reads
+ * and writes whatever `magick -list format` reports on this host.
+ */
+export const magickEngine: ImageEngine<MagickImage> = {
+  name: "magick",
+  fits: ["fill", "cover", "contain"],
+
+  async formats(): Promise<EngineFormats> {
+    const { magick } = await getEngineInfo();
+    if (!magick.available) return { probe: [], read: [], write: [] };
+    return {
+      probe: magick.formats.read,
+      read: magick.formats.read,
+      write: magick.formats.write,
+    };
+  },
+
+  async probe(filePath: string): Promise<ImageInfo | null> {
+    const command = await magickCommand();
+    if (!command) return null;
+    const [bin, args] =
+      command === "magick"
+        ? (["magick", ["identify"]] as const)
+        : (["identify", []] as const);
+    try {
+      const { stdout } = await execFileAsync(
+        bin,
+        [...args, "-format", "%m %w %h\n", `${filePath}[0]`],
+        { timeout: EXEC_TIMEOUT_MS },
+      );
+      const [format, w, h] = stdout.trim().split("\n")[0]?.split(" ") ?? [];
+      const width = Number(w);
+      const height = Number(h);
+      if (!format || !(width > 0) || !(height > 0)) return null;
+      return { format: format.toLowerCase(), width, height };
+    } catch {
+      return null;
+    }
+  },
+
+  // Rotate pixels upright before the EXIF orientation is stripped on encode
+  async load(filePath: string): Promise<MagickImage> {
+    return { source: filePath, ops: ["-auto-orient"] };
+  },
+
+  async resize(image, options): Promise<MagickImage> {
+    const box = `${options.width}x${options.height}`;
+    const ops =
+      options.fit === "fill"
+        ? ["-resize", `${box}!`]
+        : options.fit === "cover"
+          ? ["-resize", `${box}^`, "-gravity", "center", "-extent", box]
+          : [
+              "-resize",
+              box,
+              "-background",
+              options.background === "transparent" || !options.background
+                ? "none"
+                : options.background,
+              "-gravity",
+              "center",
+              "-extent",
+              box,
+            ];
+    return { ...image, ops: [...image.ops, ...ops] };
+  },
+
+  async encode(image, outputPath, options): Promise<void> {
+    const command = await magickCommand();
+    if (!command) throw new Error("ImageMagick is not available");
+    const format = options.format.toLowerCase();
+    // Single-frame outputs would otherwise be split into numbered files
+    const input = MULTI_FRAME_OUTPUTS.includes(format)
+      ? image.source
+      : `${image.source}[0]`;
+    // Strip metadata; the converter writes back what its policy keeps
+    const args = [input, ...image.ops, "-strip"];
+    if (options.quality !== undefined) {
+      args.push("-quality", String(options.quality));
+    }
+    if (
+      options.speed !== undefined &&
+      (format === "avif" || format === "heif")
+    ) {
+      args.push("-define", `heic:speed=${options.speed}`);
+    }
+    if (format === "ico") {
+      const sizes = options.sizes?.length ? options.sizes : DEFAULT_ICO_SIZES;
+      args.push("-define", `icon:auto-resize=${sizes.join(",")}`);
+    }
+    // ImageMagick's HEIF coder is called HEIC
+    const coder = format === "heif" ? "heic" : format;
+    args.push(`${coder}:${outputPath}`);
+    await execFileAsync(command, args, {
+      timeout: EXEC_TIMEOUT_MS,
+      maxBuffer: 4 * 1024 * 1024,
+    });
+  },
+
+  async dispose(): Promise<void> {
+    // Nothing is held between calls
+  },
+};
@@ -0,0 +1,92 @@
+import Jimp from "jimp";
+import { ImageProcessor } from "pixel-forge";
+import {
+  getEngineInfo,
+  withImageEngine,
+  JIMP_OUTPUT_FORMATS,
+} from "../../pixel-forge/deps";
+import type {
+  EncodeOptions,
+  EngineFormats,
+  ImageEngine,
+  ImageInfo,
+} from "./types";
+
+// Each resize writes a temp file that the next step reads from
+type PixelForgeImage = { processors: ImageProcessor[] };
+
+type SaveFormat = NonNullable<Parameters<ImageProcessor["save"]>[1]>["format"];
+
+function current(image: PixelForgeImage): ImageProcessor {
+  return image.processors[image.processors.length - 1]!;
+}
+
+/**
+ * pixel-forge's ImageProcessor on its Jimp engine. Every call holds the
+ * process-wide engine lease so a concurrent ImageMagick run cannot switch it.
+ */
+export const pixelForgeEngine: ImageEngine<PixelForgeImage> = {
+  name: "pixel-forge",
+  // Its "fill" keeps the aspect ratio rather than stretching
+  fits: ["cover", "contain"],
+
+  async formats(): Promise<EngineFormats> {
+    const { jimp } = await getEngineInfo();
+    return {
+      probe: jimp.formats.read,
+      read: jimp.formats.read,
+      write: JIMP_OUTPUT_FORMATS,
+    };
+  },
+
+  // Decodes the whole image; only used when no header parser knows the format
+  async probe(filePath: string): Promise<ImageInfo | null> {
+    try {
+      const image = await Jimp.read(filePath);
+      return {
+        format: image.getExtension(),
+        width: image.bitmap.width,
+        height: image.bitmap.height,
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async load(filePath: string): Promise<PixelForgeImage> {
+    return { processors: [new ImageProcessor(filePath)] };
+  },
+
+  async resize(image, options): Promise<PixelForgeImage> {
+    if (options.fit === "fill") {
+      throw new Error("pixel-forge cannot stretch an image to fill a box");
+    }
+    const resized = await withImageEngine("jimp", () =>
+      current(image).resize(options.width, options.height, {
+        fit: options.fit,
+        background: options.background ?? "transparent",
+      }),
+    );
+    return { processors: [...image.processors, new ImageProcessor(resized)] };
+  },
+
+  async encode(image, outputPath, options: EncodeOptions): Promise<void> {
+    await withImageEngine("jimp", () =>
+      current(image).save(outputPath, {
+        format: options.format as SaveFormat,
+        quality: options.quality,
+      }),
+    );
+  },
+
+  async dispose(image): Promise<void> {
+    for (const processor of image.processors) {
+      try {
+        await processor.cleanup();
+      } catch (cleanupError) {
+        // Log cleanup errors but don't fail the operation
+        console.warn("[picture-press] Cleanup warning:", cleanupError);
+      }
+    }
+  },
+};
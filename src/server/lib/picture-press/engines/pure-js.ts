@@ -0,0 +1,356 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Jimp from "jimp";
+import { getEngineInfo } from "../../pixel-forge/deps";
+import {
+  DEFAULT_ICO_SIZES,
+  type EngineFormats,
+  type ImageEngine,
+  type ImageInfo,
+} from "./types";
+
+// Enough for the header of every format below, except JPEGs with large
+// EXIF/ICC blocks and TIFFs with a trailing IFD, which are re-read in full
+const HEAD_BYTES = 256 * 1024;
+
+// Formats whose size can be read from the file header
+const PROBE_FORMATS = [
+  "avif",
+  "bmp",
+  "gif",
+  "heic",
+  "ico",
+  "jpeg",
+  "png",
+  "svg",
+  "tiff",
+  "webp",
+];
+
+const FORMAT_ALIASES: Record<string, string> = {
+  jpg: "jpeg",
+  jpe: "jpeg",
+  tif: "tiff",
+  heif: "heic",
+};
+
+export function normalizeFormat(format: string): string {
+  const f = format.toLowerCase();
+  return FORMAT_ALIASES[f] ?? f;
+}
+
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1"];
+
+/**
+ * Identify an image format from its magic bytes. Null when unrecognized.
+ */
+export function sniffFormat(buf: Buffer): string | null {
+  if (buf.length >= 8 && buf.readUInt32BE(0) === 0x89504e47) return "png";
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff)
+    return "jpeg";
+  if (/^GIF8[79]a$/.test(buf.toString("ascii", 0, 6))) return "gif";
+  if (buf.toString("ascii", 0, 2) === "BM") return "bmp";
+  if (
+    buf.toString("ascii", 0, 4) === "RIFF" &&
+    buf.toString("ascii", 8, 12) === "WEBP"
+  )
+    return "webp";
+  const tiffMagic = buf.toString("binary", 0, 4);
+  if (tiffMagic === "II*\0" || tiffMagic === "MM\0*") return "tiff";
+  if (buf.length >= 6 && buf.readUInt32BE(0) === 0x00000100) return "ico";
+  if (buf.toString("ascii", 4, 8) === "ftyp") {
+    const size = Math.min(buf.readUInt32BE(0), buf.length);
+    const brands: string[] = [buf.toString("ascii", 8, 12)];
+    for (let i = 16; i + 4 <= size; i += 4) {
+      brands.push(buf.toString("ascii", i, i + 4));
+    }
+    if (brands.some((b) => b === "avif" || b === "avis")) return "avif";
+    if (brands.some((b) => HEIF_BRANDS.includes(b))) return "heic";
+    return null;
+  }
+  const text = buf.toString("utf8", 0, Math.min(buf.length, 4096));
+  if (
+    /^\uFEFF?\s*(<\?xml|<!--|<!DOCTYPE|<svg)/i.test(text) &&
+    /<svg[\s>]/i.test(text)
+  )
+    return "svg";
+  return null;
+}
+
+function jpegSize(buf: Buffer): [number, number] | null {
+  let offset = 2;
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return null;
+    const marker = buf[offset + 1]!;
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) do not
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return [buf.readUInt16BE(offset + 7), buf.readUInt16BE(offset + 5)];
+    }
+    offset += 2 + buf.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function tiffSize(buf: Buffer): [number, number] | null {
+  const le = buf.toString("binary", 0, 2) === "II";
+  const u16 = (o: number) => (le ? buf.readUInt16LE(o) : buf.readUInt16BE(o));
+  const u32 = (o: number) => (le ? buf.readUInt32LE(o) : buf.readUInt32BE(o));
+  const ifd = u32(4);
+  if (ifd + 2 > buf.length) return null;
+  let width = 0;
+  let height = 0;
+  for (let i = 0, n = u16(ifd); i < n; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > buf.length) return null;
+    const tag = u16(entry);
+    if (tag !== 256 && tag !== 257) continue;
+    // SHORT (3) or LONG (4)
+    const value = u16(entry + 2) === 3 ? u16(entry + 8) : u32(entry + 8);
+    if (tag === 256) width = value;
+    else height = value;
+  }
+  return width && height ? [width, height] : null;
+}
+
+// AVIF/HEIC: the largest `ispe` (image spatial extents) box is the primary image
+function isobmffSize(buf: Buffer): [number, number] | null {
+  let best: [number, number] | null = null;
+  for (
+    let i = buf.indexOf("ispe");
+    i !== -1 && i + 16 <= buf.length;
+    i = buf.indexOf("ispe", i + 4)
+  ) {
+    const w = buf.readUInt32BE(i + 8);
+    const h = buf.readUInt32BE(i + 12);
+    if (!best || w * h > best[0] * best[1]) best = [w, h];
+  }
+  return best;
+}
+
+function svgSize(buf: Buffer): [number, number] | null {
+  const tag = /<svg\b[^>]*>/i.exec(buf.toString("utf8"))?.[0];
+  if (!tag) return null;
+  const attr = (name: string) =>
+    new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(tag)?.[1];
+  const px = (v?: string) => {
+    const m = v ? /^\s*([\d.]+)\s*(px)?\s*$/.exec(v) : null;
+    return m ? Math.round(Number(m[1])) : undefined;
+  };
+  const viewBox = attr("viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const width = px(attr("width")) ?? Math.round(viewBox?.[2] ?? 0);
+  const height = px(attr("height")) ?? Math.round(viewBox?.[3] ?? 0);
+  return width > 0 && height > 0 ? [width, height] : null;
+}
+
+/**
+ * Read the format and pixel size from an image's header bytes without
+ * decoding it. Null when the format is unknown or the header is cut short.
+ */
+export function readImageHeader(buf: Buffer): ImageInfo | null {
+  const format = sniffFormat(buf);
+  let size: [number, number] | null = null;
+  try {
+    switch (format) {
+      case "png":
+        size =
+          buf.length >= 24
+            ? [buf.readUInt32BE(16), buf.readUInt32BE(20)]
+            : null;
+        break;
+      case "gif":
+        size =
+          buf.length >= 10 ? [buf.readUInt16LE(6), buf.readUInt16LE(8)] : null;
+        break;
+      case "bmp":
+        if (buf.length >= 26) {
+          size =
+            buf.readUInt32LE(14) === 12
+              ? [buf.readUInt16LE(18), buf.readUInt16LE(20)]
+              : [buf.readInt32LE(18), Math.abs(buf.readInt32LE(22))];
+        }
+        break;
+      case "jpeg":
+        size = jpegSize(buf);
+        break;
+      case "webp": {
+        const chunk = buf.toString("ascii", 12, 16);
+        if (chunk === "VP8 " && buf.length >= 30) {
+          size = [buf.readUInt16LE(26) & 0x3fff, buf.readUInt16LE(28) & 0x3fff];
+        } else if (chunk === "VP8L" && buf.length >= 25) {
+          const bits = buf.readUInt32LE(21);
+          size = [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+        } else if (chunk === "VP8X" && buf.length >= 30) {
+          size = [buf.readUIntLE(24, 3) + 1, buf.readUIntLE(27, 3) + 1];
+        }
+        break;
+      }
+      case "tiff":
+        size = tiffSize(buf);
+        break;
+      case "avif":
+      case "heic":
+        size = isobmffSize(buf);
+        break;
+      case "ico": {
+        // Largest entry; a 0 byte means 256
+        for (let i = 0, n = buf.readUInt16LE(4); i < n; i++) {
+          const entry = 6 + i * 16;
+          if (entry + 2 > buf.length) break;
+          const w = buf.readUInt8(entry) === 0 ? 256 : buf.readUInt8(entry);
+          const h =
+            buf.readUInt8(entry + 1) === 0 ? 256 : buf.readUInt8(entry + 1);
+          if (!size || w * h > size[0] * size[1]) size = [w, h];
+        }
+        break;
+      }
+      case "svg":
+        size = svgSize(buf);
+        break;
+    }
+  } catch {
+    // Truncated header
+    size = null;
+  }
+  if (!format || !size || !(size[0] > 0) || !(size[1] > 0)) return null;
+  return { format, width: size[0], height: size[1] };
+}
+
+/**
+ * Pack PNG images into an ICO container. PNG entries are understood by
+ * every browser and by Windows since Vista.
+ */
+export function packIco(entries: Array<{ size: number; png: Buffer }>): Buffer {
+  const header = Buffer.alloc(6 + entries.length * 16);
+  header.writeUInt16LE(1, 2); // type: icon
+  header.writeUInt16LE(entries.length, 4);
+  let offset = header.length;
+  entries.forEach(({ size, png }, i) => {
+    const entry = 6 + i * 16;
+    // Sizes are stored in one byte; 0 means 256
+    header.writeUInt8(size >= 256 ? 0 : size, entry);
+    header.writeUInt8(size >= 256 ? 0 : size, entry + 1);
+    header.writeUInt16LE(1, entry + 4); // color planes
+    header.writeUInt16LE(32, entry + 6); // bits per pixel
+    header.writeUInt32LE(png.length, entry + 8);
+    header.writeUInt32LE(offset, entry + 12);
+    offset += png.length;
+  });
+  return Buffer.concat([header, ...entries.map((e) => e.png)]);
+}
+
+async function readHead(filePath: string, bytes: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buf = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buf, 0, bytes, 0);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Format of an image file from its magic bytes, falling back to the file
+ * extension ("jpg" -> "jpeg").
+ */
+export async function detectFormat(filePath: string): Promise<string | null> {
+  const sniffed = await readHead(filePath, 4096)
+    .then(sniffFormat)
+    .catch(() => null);
+  if (sniffed) return sniffed;
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  return ext ? normalizeFormat(ext) : null;
+}
+
+/**
+ * Header parsers for probing plus Jimp for decoding and encoding; needs no
+ * binaries and no process-wide engine switch.
+ */
+export const pureJsEngine: ImageEngine<Jimp> = {
+  name: "pure-js",
+  fits: ["fill", "cover", "contain"],
+
+  async formats(): Promise<EngineFormats> {
+    const { jimp } = await getEngineInfo();
+    return {
+      probe: PROBE_FORMATS,
+      read: jimp.formats.read,
+      // ICO is packed here from Jimp PNGs
+      write: [...jimp.formats.write, "ico"].sort(),
+    };
+  },
+
+  async probe(filePath: string): Promise<ImageInfo | null> {
+    try {
+      const head = await readHead(filePath, HEAD_BYTES);
+      const info = readImageHeader(head);
+      if (info || head.length < HEAD_BYTES) return info;
+      return readImageHeader(await fs.readFile(filePath));
+    } catch {
+      return null;
+    }
+  },
+
+  async load(filePath: string): Promise<Jimp> {
+    return Jimp.read(filePath);
+  },
+
+  async resize(image, options): Promise<Jimp> {
+    const { width, height } = options;
+    if (options.fit === "cover") {
+      return image.clone().cover(width, height, undefined, Jimp.RESIZE_BICUBIC);
+    }
+    if (options.fit === "contain") {
+      const background =
+        !options.background || options.background === "transparent"
+          ? 0x00000000
+          : Jimp.cssColorToHex(options.background);
+      return image
+        .clone()
+        .background(background)
+        .contain(width, height, undefined, Jimp.RESIZE_BICUBIC);
+    }
+    return image.clone().resize(width, height, Jimp.RESIZE_BICUBIC);
+  },
+
+  async encode(image, outputPath, options): Promise<void> {
+    if (options.format === "ico") {
+      const sizes = [
+        ...new Set(options.sizes?.length ? options.sizes : DEFAULT_ICO_SIZES),
+      ].sort((a, b) => a - b);
+      const entries = [];
+      for (const size of sizes) {
+        // Pad to a square with transparency rather than stretch
+        const icon = image.clone().contain(size, size);
+        entries.push({ size, png: await icon.getBufferAsync(Jimp.MIME_PNG) });
+      }
+      await fs.writeFile(outputPath, packIco(entries));
+      return;
+    }
+    const target =
+      options.quality !== undefined
+        ? image.clone().quality(options.quality)
+        : image;
+    await fs.writeFile(
+      outputPath,
+      await target.getBufferAsync(`image/${options.format}`),
+    );
+  },
+
+  async dispose(): Promise<void> {
+    // Bitmaps are garbage collected
+  },
+};
@@ -0,0 +1,58 @@
+// Lowercase format names as ImageMagick lists them ("jpeg", "png", "webp", ...)
+export type ImageFormat = string;
+
+export type ImageEngineName = "magick" | "pixel-forge" | "pure-js";
+
+// What an adapter can do with a format: read its header, decode it, write it
+export type ImageCapability = "probe" | "read" | "write";
+
+export type EngineFormats = Record<ImageCapability, ImageFormat[]>;
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+export interface EncodeOptions {
+  format: ImageFormat;
+  quality?: number; // 1-100, lossy formats only
+  speed?: number; // AVIF/HEIF encoder effort, 0 (slowest, smallest) to 10
+  sizes?: number[]; // ICO: square icon sizes to embed
+}
+
+// How a resize maps the image onto the target box: stretch to it, crop to
+// cover it, or scale within it and pad the rest with `background`
+export type ResizeFit = "fill" | "cover" | "contain";
+
+export interface ResizeOptions {
+  width: number;
+  height: number;
+  fit: ResizeFit;
+  background?: string; // "transparent" or #rrggbb, contain only
+}
+
+// Icon sizes written when an ICO encode does not name any
+export const DEFAULT_ICO_SIZES = [16, 32, 48];
+
+/**
+ * One way of processing images. `Image` is the adapter's own handle for a
+ * loaded image; callers only pass it back to the adapter that made it and
+ * must `dispose` it when done.
+ */
+export interface ImageEngine<Image = unknown> {
+  readonly name: ImageEngineName;
+  // Resize fits this adapter implements exactly
+  readonly fits: ResizeFit[];
+  // Formats per capability on this host; all empty when the engine is missing
+  formats(): Promise<EngineFormats>;
+  probe(filePath: string): Promise<ImageInfo | null>;
+  load(filePath: string): Promise<Image>;
+  resize(image: Image, options: ResizeOptions): Promise<Image>;
+  encode(
+    image: Image,
+    outputPath: string,
+    options: EncodeOptions,
+  ): Promise<void>;
+  dispose(image: Image): Promise<void>;
+}
@@ -0,0 +1,817 @@
+import { deflateSync, inflateSync } from "zlib";
+import { readImageHeader, sniffFormat } from "./engines";
+
+/**
+ * What a conversion keeps of the source's embedded metadata:
+ * - strip: nothing
+ * - icc: the colour profile only
+ * - copyright: creator and copyright, rewritten as a minimal XMP packet
+ * - keep: everything, with the EXIF orientation reset after auto-orienting
+ */
+export type MetadataPolicy = "strip" | "icc" | "copyright" | "keep";
+
+export type MetadataBlock = "exif" | "gps" | "icc" | "xmp" | "iptc" | "comment";
+
+export interface ImageMetadata {
+  blocks: MetadataBlock[];
+  orientation?: number; // EXIF orientation, 1-8
+  exif?: Buffer; // TIFF-structured EXIF payload
+  icc?: Buffer;
+  xmp?: string;
+  iptc?: Buffer; // Photoshop image resources, as in a JPEG APP13 segment
+  comment?: string;
+  artist?: string;
+  copyright?: string;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Descriptive fields image search reads: written as XMP (Dublin Core plus the
+ * IPTC alt text property) and, in JPEGs, as an IPTC-IIM record
+ */
+export interface SeoMetadata {
+  title?: string;
+  description?: string; // caption, also used as alt text
+  creator?: string;
+  copyright?: string;
+}
+
+export const SEO_FIELD_LIMITS: Record<keyof SeoMetadata, number> = {
+  title: 200,
+  description: 2000,
+  creator: 200,
+  copyright: 200,
+};
+
+// Payloads to write into an output file
+export type EmbeddedMetadata = Pick<
+  ImageMetadata,
+  "exif" | "icc" | "xmp" | "iptc" | "comment"
+>;
+
+// Output formats metadata can be written into; others are always stripped
+export const METADATA_FORMATS = ["jpeg", "png", "webp"];
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "binary");
+const XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "binary");
+const ICC_HEADER = Buffer.from("ICC_PROFILE\0", "binary");
+const IPTC_HEADER = Buffer.from("Photoshop 3.0\0", "binary");
+const XMP_KEYWORD = "XML:com.adobe.xmp";
+const PNG_METADATA_CHUNKS = ["iCCP", "eXIf", "tEXt", "zTXt", "iTXt"];
+
+// Largest JPEG segment payload: 65535 minus the two length bytes
+const MAX_SEGMENT = 65533;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_GPS_IFD = 0x8825;
+
+// Photoshop image resource holding the IPTC-IIM record
+const IPTC_RESOURCE = 0x0404;
+// IIM record 2 datasets for each field
+const IIM_DATASETS: Record<keyof SeoMetadata, number> = {
+  title: 5, // Object Name
+  description: 120, // Caption/Abstract
+  creator: 80, // By-line
+  copyright: 116, // Copyright Notice
+};
+// Record 1 coded character set: ESC % G, UTF-8
+const IIM_UTF8 = Buffer.from([0x1b, 0x25, 0x47]);
+
+function startsWith(buf: Buffer, offset: number, prefix: Buffer): boolean {
+  return (
+    buf.length >= offset + prefix.length &&
+    buf.subarray(offset, offset + prefix.length).equals(prefix)
+  );
+}
+
+function decodeEntities(v: string): string {
+  return v
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function escapeXml(v: string): string {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// IFD0 entries of a TIFF-structured EXIF payload, by tag
+function readIfd0(exif: Buffer) {
+  const entries = new Map<number, { type: number; offset: number }>();
+  if (exif.length < 8) return { entries, le: true };
+  const le = exif.toString("binary", 0, 2) === "II";
+  const u16 = (o: number) => (le ? exif.readUInt16LE(o) : exif.readUInt16BE(o));
+  const u32 = (o: number) => (le ? exif.readUInt32LE(o) : exif.readUInt32BE(o));
+  const ifd = u32(4);
+  if (ifd + 2 > exif.length) return { entries, le };
+  for (let i = 0, n = u16(ifd); i < n; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > exif.length) break;
+    entries.set(u16(entry), { type: u16(entry + 2), offset: entry });
+  }
+  return { entries, le };
+}
+
+function readExif(exif: Buffer): Partial<ImageMetadata> & { gps: boolean } {
+  const { entries, le } = readIfd0(exif);
+  const u16 = (o: number) => (le ? exif.readUInt16LE(o) : exif.readUInt16BE(o));
+  const u32 = (o: number) => (le ? exif.readUInt32LE(o) : exif.readUInt32BE(o));
+  const ascii = (tag: number) => {
+    const entry = entries.get(tag);
+    if (entry?.type !== 2) return undefined;
+    const count = u32(entry.offset + 4);
+    const start = count <= 4 ? entry.offset + 8 : u32(entry.offset + 8);
+    if (start + count > exif.length) return undefined;
+    // Copyright may hold "photographer\0editor"; the first part is enough
+    const text = exif.toString("latin1", start, start + count).split("\0")[0];
+    return text?.trim() ? text.trim() : undefined;
+  };
+  const orientation = entries.get(TAG_ORIENTATION);
+  return {
+    orientation: orientation ? u16(orientation.offset + 8) : undefined,
+    artist: ascii(TAG_ARTIST),
+    copyright: ascii(TAG_COPYRIGHT),
+    gps: entries.has(TAG_GPS_IFD),
+  };
+}
+
+/**
+ * Copy of a TIFF-structured EXIF payload with its orientation set to 1, for
+ * pixels that have already been rotated upright.
+ */
+export function resetOrientation(exif: Buffer): Buffer {
+  const { entries, le } = readIfd0(exif);
+  const entry = entries.get(TAG_ORIENTATION);
+  if (!entry) return exif;
+  const copy = Buffer.from(exif);
+  if (le) copy.writeUInt16LE(1, entry.offset + 8);
+  else copy.writeUInt16BE(1, entry.offset + 8);
+  return copy;
+}
+
+function readXmpField(
+  xmp: string,
+  field: "title" | "description" | "creator" | "rights",
+) {
+  const m = new RegExp(
+    `<dc:${field}>[\\s\\S]*?<rdf:li[^>]*>([^<]*)</rdf:li>`,
+  ).exec(xmp);
+  return m?.[1]?.trim() ? decodeEntities(m[1].trim()) : undefined;
+}
+
+function xmpAlt(name: string, value: string): string {
+  return `   <${name}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${name}>`;
+}
+
+// XMP properties the SEO fields are written as
+const SEO_XMP_PROPERTIES = [
+  "dc:title",
+  "dc:description",
+  "Iptc4xmpCore:AltTextAccessibility",
+  "dc:creator",
+  "dc:rights",
+];
+
+// rdf:Description lines carrying the given fields
+function xmpDescription(fields: SeoMetadata): string[] {
+  const props: string[] = [];
+  if (fields.title) props.push(xmpAlt("dc:title", fields.title));
+  if (fields.description) {
+    props.push(xmpAlt("dc:description", fields.description));
+    props.push(xmpAlt("Iptc4xmpCore:AltTextAccessibility", fields.description));
+  }
+  if (fields.creator) {
+    props.push(
+      `   <dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.creator)}</rdf:li></rdf:Seq></dc:creator>`,
+    );
+  }
+  if (fields.copyright) props.push(xmpAlt("dc:rights", fields.copyright));
+  return [
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/">',
+    ...props,
+    "  </rdf:Description>",
+  ];
+}
+
+/**
+ * Minimal XMP packet carrying only the given fields, as Dublin Core title,
+ * description, creator and rights. The description doubles as IPTC alt text.
+ */
+export function buildXmp(fields: SeoMetadata): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    ...xmpDescription(fields),
+    " </rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+/**
+ * `xmp` with its SEO properties replaced by `fields` and every other property
+ * kept. The fields get an rdf:Description of their own; descriptions left
+ * empty are removed. A packet without rdf:RDF is replaced by buildXmp(fields).
+ * Undefined when nothing is left.
+ */
+export function mergeXmp(xmp: string, fields: SeoMetadata): string | undefined {
+  const hasFields = Object.values(fields).some(Boolean);
+  if (!xmp.includes("</rdf:RDF>"))
+    return hasFields ? buildXmp(fields) : undefined;
+
+  let merged = xmp;
+  for (const name of SEO_XMP_PROPERTIES) {
+    merged = merged.replace(
+      new RegExp(`\\s*<${name}\\b[^>]*?(?:/>|>[\\s\\S]*?</${name}>)`, "g"),
+      "",
+    );
+  }
+  merged = merged.replace(
+    /\s*<rdf:Description\b[^>]*(?<!\/)>\s*<\/rdf:Description>/g,
+    "",
+  );
+  if (hasFields) {
+    merged = merged.replace(
+      /\n?[ \t]*<\/rdf:RDF>/,
+      (end) => `\n${xmpDescription(fields).join("\n")}${end}`,
+    );
+  }
+  return /<rdf:Description\b/.test(merged) ? merged : undefined;
+}
+
+// Photoshop image resources ("8BIM" blocks) as [id, data] pairs
+function readResources(resources: Buffer): Array<[number, Buffer]> {
+  const out: Array<[number, Buffer]> = [];
+  let offset = 0;
+  while (
+    offset + 12 <= resources.length &&
+    resources.toString("latin1", offset, offset + 4) === "8BIM"
+  ) {
+    const id = resources.readUInt16BE(offset + 4);
+    // Pascal string name, padded to an even length
+    const nameLength = resources[offset + 6]! + 1;
+    const sizeAt = offset + 6 + nameLength + (nameLength % 2);
+    if (sizeAt + 4 > resources.length) break;
+    const size = resources.readUInt32BE(sizeAt);
+    out.push([id, resources.subarray(sizeAt + 4, sizeAt + 4 + size)]);
+    offset = sizeAt + 4 + size + (size % 2);
+  }
+  return out;
+}
+
+function readIptc(resources: Buffer): SeoMetadata {
+  const iim = readResources(resources).find(
+    ([id]) => id === IPTC_RESOURCE,
+  )?.[1];
+  const fields: SeoMetadata = {};
+  if (!iim) return fields;
+  let utf8 = false;
+  let offset = 0;
+  while (offset + 5 <= iim.length && iim[offset] === 0x1c) {
+    const record = iim[offset + 1]!;
+    const dataset = iim[offset + 2]!;
+    const length = iim.readUInt16BE(offset + 3);
+    if (length & 0x8000) break; // extended datasets are never text
+    const data = iim.subarray(offset + 5, offset + 5 + length);
+    if (record === 1 && dataset === 90) utf8 = data.equals(IIM_UTF8);
+    for (const field of Object.keys(IIM_DATASETS) as Array<keyof SeoMetadata>) {
+      if (record === 2 && dataset === IIM_DATASETS[field] && !fields[field]) {
+        fields[field] =
+          data.toString(utf8 ? "utf8" : "latin1").trim() || undefined;
+      }
+    }
+    offset += 5 + length;
+  }
+  return fields;
+}
+
+function iimDataset(record: number, dataset: number, data: Buffer): Buffer {
+  const head = Buffer.from([0x1c, record, dataset, 0, 0]);
+  head.writeUInt16BE(data.length, 3);
+  return Buffer.concat([head, data]);
+}
+
+/**
+ * Photoshop image resources with the IPTC record replaced by one holding
+ * `fields`; other resources are kept. Undefined when nothing is left.
+ */
+function replaceIptc(
+  resources: Buffer | undefined,
+  fields: SeoMetadata,
+): Buffer | undefined {
+  const blocks = (resources ? readResources(resources) : []).filter(
+    ([id]) => id !== IPTC_RESOURCE,
+  );
+  const datasets: Buffer[] = [];
+  for (const field of Object.keys(IIM_DATASETS) as Array<keyof SeoMetadata>) {
+    const value = fields[field];
+    if (value) {
+      datasets.push(iimDataset(2, IIM_DATASETS[field], Buffer.from(value)));
+    }
+  }
+  if (datasets.length) {
+    blocks.push([
+      IPTC_RESOURCE,
+      Buffer.concat([
+        iimDataset(1, 90, IIM_UTF8),
+        iimDataset(2, 0, Buffer.from([0, 4])), // record version
+        ...datasets,
+      ]),
+    ]);
+  }
+  if (!blocks.length) return undefined;
+  return Buffer.concat(
+    blocks.flatMap(([id, data]) => {
+      const head = Buffer.alloc(12);
+      head.write("8BIM", 0, "latin1");
+      head.writeUInt16BE(id, 4); // followed by an empty, padded name
+      head.writeUInt32BE(data.length, 8);
+      return [head, data, Buffer.alloc(data.length % 2)];
+    }),
+  );
+}
+
+function readJpeg(buf: Buffer, meta: ImageMetadata) {
+  const icc: Buffer[] = [];
+  let offset = 2;
+  while (offset + 4 <= buf.length) {
+    if (buf[offset] !== 0xff) break;
+    const marker = buf[offset + 1]!;
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    // Metadata segments all come before the scan data
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buf.readUInt16BE(offset + 2);
+    const start = offset + 4;
+    const end = Math.min(buf.length, offset + 2 + length);
+    const data = buf.subarray(start, end);
+    if (marker === 0xe1 && startsWith(data, 0, EXIF_HEADER)) {
+      meta.exif = data.subarray(EXIF_HEADER.length);
+    } else if (marker === 0xe1 && startsWith(data, 0, XMP_HEADER)) {
+      meta.xmp = data.subarray(XMP_HEADER.length).toString("utf8");
+    } else if (marker === 0xe2 && startsWith(data, 0, ICC_HEADER)) {
+      // Profiles larger than one segment are split; byte 12 is the sequence
+      icc[data[ICC_HEADER.length]! - 1] = data.subarray(ICC_HEADER.length + 2);
+    } else if (marker === 0xed && startsWith(data, 0, IPTC_HEADER)) {
+      meta.iptc = data.subarray(IPTC_HEADER.length);
+    } else if (marker === 0xfe) {
+      meta.comment = data.toString("utf8");
+    }
+    offset += 2 + length;
+  }
+  if (icc.length) meta.icc = Buffer.concat(icc.filter(Boolean));
+}
+
+function readPng(buf: Buffer, meta: ImageMetadata) {
+  let offset = 8;
+  while (offset + 12 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString("latin1", offset + 4, offset + 8);
+    const data = buf.subarray(offset + 8, offset + 8 + length);
+    if (type === "iCCP") {
+      const nul = data.indexOf(0);
+      try {
+        meta.icc = inflateSync(data.subarray(nul + 2));
+      } catch {
+        // unreadable profile; leave it out
+      }
+    } else if (type === "eXIf") {
+      meta.exif = data;
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const nul = data.indexOf(0);
+      const keyword = data.toString("latin1", 0, nul);
+      let text: string;
+      try {
+        text = readPngText(type, data.subarray(nul + 1));
+      } catch {
+        text = "";
+      }
+      if (keyword === XMP_KEYWORD) meta.xmp = text;
+      else {
+        if (keyword === "Author") meta.artist = text;
+        if (keyword === "Copyright") meta.copyright = text;
+        meta.comment = meta.comment ? `${meta.comment}\n${text}` : text;
+      }
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+}
+
+function readPngText(type: string, rest: Buffer): string {
+  if (type === "tEXt") return rest.toString("latin1");
+  if (type === "zTXt") return inflateSync(rest.subarray(1)).toString("latin1");
+  // iTXt: compression flag, method, language\0, translated keyword\0, text
+  const compressed = rest[0] === 1;
+  const lang = rest.indexOf(0, 2);
+  const translated = rest.indexOf(0, lang + 1);
+  const text = rest.subarray(translated + 1);
+  return (compressed ? inflateSync(text) : text).toString("utf8");
+}
+
+function readWebp(buf: Buffer, meta: ImageMetadata) {
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const type = buf.toString("latin1", offset, offset + 4);
+    const length = buf.readUInt32LE(offset + 4);
+    const data = buf.subarray(offset + 8, offset + 8 + length);
+    if (type === "ICCP") meta.icc = data;
+    else if (type === "XMP ") meta.xmp = data.toString("utf8");
+    else if (type === "EXIF") {
+      // Some writers keep the JPEG-style "Exif\0\0" prefix
+      meta.exif = startsWith(data, 0, EXIF_HEADER)
+        ? data.subarray(EXIF_HEADER.length)
+        : data;
+    }
+    offset += 8 + length + (length % 2);
+  }
+}
+
+// Fills in the blocks and fields read from the payloads in `meta`
+function describe(meta: ImageMetadata): ImageMetadata {
+  let gps = false;
+  if (meta.exif) {
+    const exif = readExif(meta.exif);
+    gps = exif.gps;
+    meta.orientation = exif.orientation;
+    meta.artist ??= exif.artist;
+    meta.copyright ??= exif.copyright;
+    meta.blocks.push("exif");
+  }
+  if (meta.xmp) {
+    gps ||= meta.xmp.includes("GPSLatitude");
+    meta.artist ??= readXmpField(meta.xmp, "creator");
+    meta.copyright ??= readXmpField(meta.xmp, "rights");
+    meta.title = readXmpField(meta.xmp, "title");
+    meta.description = readXmpField(meta.xmp, "description");
+  }
+  if (meta.iptc) {
+    const iptc = readIptc(meta.iptc);
+    meta.artist ??= iptc.creator;
+    meta.copyright ??= iptc.copyright;
+    meta.title ??= iptc.title;
+    meta.description ??= iptc.description;
+  }
+  if (gps) meta.blocks.push("gps");
+  if (meta.icc) meta.blocks.push("icc");
+  if (meta.xmp) meta.blocks.push("xmp");
+  if (meta.iptc) meta.blocks.push("iptc");
+  if (meta.comment) meta.blocks.push("comment");
+  return meta;
+}
+
+/**
+ * Metadata embedded in a JPEG, PNG or WebP file. Other formats report no
+ * blocks.
+ */
+export function readMetadata(buf: Buffer): ImageMetadata {
+  const meta: ImageMetadata = { blocks: [] };
+  const format = sniffFormat(buf);
+  if (format === "jpeg") readJpeg(buf, meta);
+  else if (format === "png") readPng(buf, meta);
+  else if (format === "webp") readWebp(buf, meta);
+  return describe(meta);
+}
+
+/**
+ * The SEO fields of read metadata; EXIF and PNG text fill in the creator and
+ * copyright when XMP and IPTC do not have them
+ */
+export function seoFields(meta: ImageMetadata): SeoMetadata {
+  const fields: SeoMetadata = {
+    title: meta.title,
+    description: meta.description,
+    creator: meta.artist,
+    copyright: meta.copyright,
+  };
+  for (const key of Object.keys(fields) as Array<keyof SeoMetadata>) {
+    if (!fields[key]) delete fields[key];
+  }
+  return fields;
+}
+
+/**
+ * `meta` with the SEO fields merged into its XMP packet and its IPTC record
+ * rewritten. Fields left undefined keep what `meta` already has; an empty
+ * string removes the field. Other XMP properties and the EXIF payload are
+ * left untouched.
+ */
+export function withSeoMetadata(
+  meta: EmbeddedMetadata,
+  seo: SeoMetadata,
+): EmbeddedMetadata {
+  const edits = (Object.keys(seo) as Array<keyof SeoMetadata>).filter(
+    (key) => seo[key] !== undefined,
+  );
+  if (!edits.length) return meta;
+
+  // EXIF artist and copyright are carried over but not rewritten
+  const fields = seoFields(
+    describe({ blocks: [], exif: meta.exif, xmp: meta.xmp, iptc: meta.iptc }),
+  );
+  for (const key of edits) fields[key] = seo[key]!.trim() || undefined;
+  const hasFields = Object.values(fields).some(Boolean);
+  return {
+    ...meta,
+    xmp: meta.xmp
+      ? mergeXmp(meta.xmp, fields)
+      : hasFields
+        ? buildXmp(fields)
+        : undefined,
+    iptc: replaceIptc(meta.iptc, fields),
+  };
+}
+
+/**
+ * Blocks a format stores the SEO fields in: XMP, plus an IPTC-IIM record in
+ * JPEGs. PNG and WebP have no IPTC container.
+ */
+export function seoBlocks(format: string): MetadataBlock[] {
+  if (format === "jpeg") return ["xmp", "iptc"];
+  return METADATA_FORMATS.includes(format) ? ["xmp"] : [];
+}
+
+/**
+ * What to write back into the output for a policy. Pixels are always
+ * auto-oriented first, so kept EXIF has its orientation reset.
+ */
+export function metadataToEmbed(
+  source: ImageMetadata,
+  policy: MetadataPolicy,
+): EmbeddedMetadata {
+  switch (policy) {
+    case "icc":
+      return { icc: source.icc };
+    case "copyright":
+      return source.artist || source.copyright
+        ? {
+            xmp: buildXmp({
+              creator: source.artist,
+              copyright: source.copyright,
+            }),
+          }
+        : {};
+    case "keep":
+      return {
+        exif: source.exif ? resetOrientation(source.exif) : undefined,
+        icc: source.icc,
+        xmp: source.xmp,
+        iptc: source.iptc,
+        comment: source.comment,
+      };
+    default:
+      return {};
+  }
+}
+
+// Largest ICC profile a JPEG holds: 255 numbered segments
+const ICC_CHUNK = MAX_SEGMENT - ICC_HEADER.length - 2;
+
+/**
+ * Blocks of `meta` too large for `format` to hold; replaceMetadata leaves
+ * them out, so callers report them. A JPEG stores EXIF, XMP, IPTC and the
+ * comment in one 64 KB segment each.
+ */
+export function oversizedBlocks(
+  meta: EmbeddedMetadata,
+  format: string,
+): MetadataBlock[] {
+  if (format !== "jpeg") return [];
+  const blocks: MetadataBlock[] = [];
+  if (meta.exif && EXIF_HEADER.length + meta.exif.length > MAX_SEGMENT) {
+    blocks.push("exif");
+  }
+  if (
+    meta.xmp &&
+    XMP_HEADER.length + Buffer.byteLength(meta.xmp) > MAX_SEGMENT
+  ) {
+    blocks.push("xmp");
+  }
+  if (meta.icc && Math.ceil(meta.icc.length / ICC_CHUNK) > 255) {
+    blocks.push("icc");
+  }
+  if (meta.iptc && IPTC_HEADER.length + meta.iptc.length > MAX_SEGMENT) {
+    blocks.push("iptc");
+  }
+  if (meta.comment && Buffer.byteLength(meta.comment) > MAX_SEGMENT) {
+    blocks.push("comment");
+  }
+  return blocks;
+}
+
+// Empty for a payload over MAX_SEGMENT; see oversizedBlocks
+function jpegSegment(marker: number, ...parts: Buffer[]): Buffer[] {
+  const data = Buffer.concat(parts);
+  if (data.length > MAX_SEGMENT) return [];
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(data.length + 2, 2);
+  return [head, data];
+}
+
+function replaceJpeg(buf: Buffer, meta: EmbeddedMetadata): Buffer {
+  const segments: Buffer[] = [];
+  if (meta.exif) segments.push(...jpegSegment(0xe1, EXIF_HEADER, meta.exif));
+  if (meta.xmp) {
+    segments.push(...jpegSegment(0xe1, XMP_HEADER, Buffer.from(meta.xmp)));
+  }
+  if (meta.icc) {
+    const count = Math.ceil(meta.icc.length / ICC_CHUNK);
+    for (let i = 0; i < count && count < 256; i++) {
+      segments.push(
+        ...jpegSegment(
+          0xe2,
+          ICC_HEADER,
+          Buffer.from([i + 1, count]),
+          meta.icc.subarray(i * ICC_CHUNK, (i + 1) * ICC_CHUNK),
+        ),
+      );
+    }
+  }
+  if (meta.iptc) segments.push(...jpegSegment(0xed, IPTC_HEADER, meta.iptc));
+  if (meta.comment) {
+    segments.push(...jpegSegment(0xfe, Buffer.from(meta.comment)));
+  }
+
+  // Drop the existing metadata segments, keeping everything else in order
+  const kept: Buffer[] = [];
+  let offset = 2;
+  while (offset + 4 <= buf.length && buf[offset] === 0xff) {
+    const marker = buf[offset + 1]!;
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + buf.readUInt16BE(offset + 2);
+    const isMetadata =
+      marker === 0xe1 ||
+      marker === 0xed ||
+      marker === 0xfe ||
+      (marker === 0xe2 && startsWith(buf, offset + 4, ICC_HEADER));
+    if (!isMetadata) kept.push(buf.subarray(offset, end));
+    offset = end;
+  }
+  // New segments go after any JFIF APP0, which must come first
+  const app0 = kept[0]?.[1] === 0xe0 ? kept.splice(0, 1) : [];
+  return Buffer.concat([
+    buf.subarray(0, 2),
+    ...app0,
+    ...segments,
+    ...kept,
+    buf.subarray(offset),
+  ]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+function replacePng(buf: Buffer, meta: EmbeddedMetadata): Buffer {
+  const chunks: Buffer[] = [];
+  if (meta.icc) {
+    chunks.push(
+      pngChunk(
+        "iCCP",
+        Buffer.concat([
+          Buffer.from("icc\0\0", "latin1"),
+          deflateSync(meta.icc),
+        ]),
+      ),
+    );
+  }
+  if (meta.exif) chunks.push(pngChunk("eXIf", meta.exif));
+  if (meta.xmp) {
+    chunks.push(
+      pngChunk(
+        "iTXt",
+        Buffer.concat([
+          Buffer.from(`${XMP_KEYWORD}\0\0\0\0\0`, "latin1"),
+          Buffer.from(meta.xmp),
+        ]),
+      ),
+    );
+  }
+  if (meta.comment) {
+    chunks.push(
+      pngChunk(
+        "iTXt",
+        Buffer.concat([
+          Buffer.from("Comment\0\0\0\0\0", "latin1"),
+          Buffer.from(meta.comment),
+        ]),
+      ),
+    );
+  }
+  // Drop the existing metadata chunks
+  const kept: Buffer[] = [];
+  let offset = 8 + 12 + buf.readUInt32BE(8);
+  while (offset + 12 <= buf.length) {
+    const end = offset + 12 + buf.readUInt32BE(offset);
+    const type = buf.toString("latin1", offset + 4, offset + 8);
+    if (!PNG_METADATA_CHUNKS.includes(type))
+      kept.push(buf.subarray(offset, end));
+    offset = end;
+  }
+  // Right after the signature and IHDR; iCCP must precede PLTE and IDAT
+  return Buffer.concat([
+    buf.subarray(0, 8 + 12 + buf.readUInt32BE(8)),
+    ...chunks,
+    ...kept,
+  ]);
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.write(type, 0, "latin1");
+  head.writeUInt32LE(data.length, 4);
+  return Buffer.concat([head, data, Buffer.alloc(data.length % 2)]);
+}
+
+function replaceWebp(buf: Buffer, meta: EmbeddedMetadata): Buffer {
+  const image: Buffer[] = [];
+  let flags = 0;
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const type = buf.toString("latin1", offset, offset + 4);
+    const length = buf.readUInt32LE(offset + 4);
+    const end = offset + 8 + length + (length % 2);
+    if (type === "VP8X")
+      flags = buf[offset + 8]! & 0x12; // alpha, animation
+    else if (type === "VP8L") {
+      if (buf.readUInt32LE(offset + 9) & (1 << 28)) flags |= 0x10;
+      image.push(buf.subarray(offset, end));
+    } else if (type === "ALPH") {
+      flags |= 0x10;
+      image.push(buf.subarray(offset, end));
+    } else if (!["ICCP", "EXIF", "XMP "].includes(type)) {
+      image.push(buf.subarray(offset, end));
+    }
+    offset = end;
+  }
+  const size = readImageHeader(buf);
+  if (!size) return buf;
+
+  if (meta.icc) flags |= 0x20;
+  if (meta.exif) flags |= 0x08;
+  if (meta.xmp) flags |= 0x04;
+  const vp8x = Buffer.alloc(10);
+  vp8x[0] = flags;
+  vp8x.writeUIntLE(size.width - 1, 4, 3);
+  vp8x.writeUIntLE(size.height - 1, 7, 3);
+
+  const body = Buffer.concat([
+    Buffer.from("WEBP", "latin1"),
+    riffChunk("VP8X", vp8x),
+    ...(meta.icc ? [riffChunk("ICCP", meta.icc)] : []),
+    ...image,
+    ...(meta.exif ? [riffChunk("EXIF", meta.exif)] : []),
+    ...(meta.xmp ? [riffChunk("XMP ", Buffer.from(meta.xmp))] : []),
+  ]);
+  const head = Buffer.alloc(8);
+  head.write("RIFF", 0, "latin1");
+  head.writeUInt32LE(body.length, 4);
+  return Buffer.concat([head, body]);
+}
+
+/**
+ * `buf` with its metadata replaced by `meta`; an empty `meta` strips it.
+ * Formats outside METADATA_FORMATS are returned unchanged.
+ */
+export function replaceMetadata(buf: Buffer, meta: EmbeddedMetadata): Buffer {
+  if (!Object.values(meta).some(Boolean) && !readMetadata(buf).blocks.length) {
+    return buf;
+  }
+  const format = sniffFormat(buf);
+  if (format === "jpeg") return replaceJpeg(buf, meta);
+  if (format === "png") return replacePng(buf, meta);
+  if (format === "webp") return replaceWebp(buf, meta);
+  return buf;
+}
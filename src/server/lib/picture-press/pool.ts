@@ -0,0 +1,94 @@
+import os from "os";
+
+// Outcome of one pooled job; a throwing job does not affect the others
+export type PoolOutcome<R> =
+  | { ok: true; value: R }
+  | { ok: false; error: unknown };
+
+export interface PoolOptions<T, R> {
+  concurrency: number; // jobs running at once, at least 1
+  // Estimated bytes a job holds while it runs. A job only starts while the
+  // running ones leave room for it in memoryBudget; one over budget runs alone.
+  cost?: (item: T, index: number) => number;
+  memoryBudget?: number; // bytes, defaults to defaultMemoryBudget()
+  signal?: AbortSignal; // once aborted, no further job starts
+  onStart?: (item: T, index: number) => void;
+  // Called in input order, as soon as a job and all jobs before it settled
+  onSettled?: (outcome: PoolOutcome<R>, index: number) => void;
+}
+
+// Highest concurrency accepted from clients
+export const MAX_CONCURRENCY = 8;
+
+// Share of the currently free memory a pool plans its jobs against
+const MEMORY_SHARE = 0.5;
+
+export function defaultMemoryBudget(): number {
+  return os.freemem() * MEMORY_SHARE;
+}
+
+/**
+ * Concurrency a run actually gets: the request, capped by the cores the
+ * process may use, since conversions are CPU-bound.
+ */
+export function effectiveConcurrency(requested = 1): number {
+  return Math.max(1, Math.min(requested, os.availableParallelism()));
+}
+
+/**
+ * Run `worker` over `items`, at most `concurrency` (and the memory budget) at
+ * a time, starting jobs in input order. Resolves once every started job has
+ * settled, with their outcomes in input order; after an abort, jobs that never
+ * started are left out.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: PoolOptions<T, R>,
+): Promise<Array<PoolOutcome<R>>> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const budget = options.memoryBudget ?? defaultMemoryBudget();
+  const outcomes: Array<PoolOutcome<R> | undefined> = [];
+  const running = new Set<Promise<void>>();
+  let started = 0;
+  let reported = 0;
+  let load = 0;
+
+  const run = async (index: number, cost: number) => {
+    const item = items[index]!;
+    try {
+      options.onStart?.(item, index);
+      outcomes[index] = { ok: true, value: await worker(item, index) };
+    } catch (error) {
+      outcomes[index] = { ok: false, error };
+    }
+    load -= cost;
+    // Report this job and any later ones that were waiting on it
+    for (let next = outcomes[reported]; next; next = outcomes[reported]) {
+      options.onSettled?.(next, reported);
+      reported++;
+    }
+  };
+
+  while (started < items.length) {
+    // Unknown or huge costs count as the whole budget, so such a job runs alone
+    const cost = Math.min(
+      options.cost?.(items[started]!, started) ?? 0,
+      budget,
+    );
+    while (
+      running.size >= concurrency ||
+      (running.size > 0 && load + cost > budget)
+    ) {
+      await Promise.race(running);
+    }
+    if (options.signal?.aborted) break;
+
+    load += cost;
+    const job = run(started++, cost).finally(() => running.delete(job));
+    running.add(job);
+  }
+
+  await Promise.all(running);
+  return outcomes.slice(0, started) as Array<PoolOutcome<R>>;
+}
@@ -0,0 +1,69 @@
+import type { ResizeOptions } from "./engines";
+
+/**
+ * - inside: scale to fit within width and/or height, keeping the aspect ratio
+ * - contain: scale to fit within width x height and pad to exactly that size
+ * - cover: scale to cover width x height and crop the overflow from the centre
+ * - fill: stretch to exactly width x height
+ */
+export type FitMode = "inside" | "contain" | "cover" | "fill";
+
+export interface ResizeRequest {
+  width?: number;
+  height?: number;
+  fit?: FitMode; // defaults to "inside"
+  neverUpscale?: boolean; // defaults to true
+}
+
+// Largest width or height a resize may ask for
+export const MAX_RESIZE_DIMENSION = 10_000;
+
+// Outputs without an alpha channel pad contained images with white
+const OPAQUE_FORMATS = ["jpeg", "bmp"];
+
+/**
+ * Adapter resize for a source of `source` pixels, or null when the image is
+ * already the requested size. With `neverUpscale`, "inside" stops at the
+ * source size and the exact fits shrink their box, keeping its aspect ratio,
+ * until it fits within the source.
+ */
+export function planResize(
+  source: { width: number; height: number },
+  request: ResizeRequest,
+  outputFormat: string,
+): ResizeOptions | null {
+  const fit = request.fit ?? "inside";
+  const neverUpscale = request.neverUpscale ?? true;
+
+  if (fit === "inside") {
+    const scales = [
+      request.width ? request.width / source.width : Infinity,
+      request.height ? request.height / source.height : Infinity,
+    ];
+    let scale = Math.min(...scales);
+    if (!Number.isFinite(scale)) return null;
+    if (neverUpscale) scale = Math.min(scale, 1);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    if (width === source.width && height === source.height) return null;
+    // Aspect is already preserved, so any adapter's stretch gives the same result
+    return { width, height, fit: "fill" };
+  }
+
+  if (!request.width || !request.height) return null;
+  let { width, height } = request;
+  if (neverUpscale) {
+    const shrink = Math.min(1, source.width / width, source.height / height);
+    width = Math.max(1, Math.round(width * shrink));
+    height = Math.max(1, Math.round(height * shrink));
+  }
+  if (width === source.width && height === source.height) return null;
+
+  const resize: ResizeOptions = { width, height, fit };
+  if (fit === "contain") {
+    resize.background = OPAQUE_FORMATS.includes(outputFormat)
+      ? "#ffffff"
+      : "transparent";
+  }
+  return resize;
+}
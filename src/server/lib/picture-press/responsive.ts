@@ -0,0 +1,104 @@
+import path from "path";
+
+export interface ResponsiveRequest<Format extends string = string> {
+  widths: number[]; // target widths in pixels, e.g. 320, 640, 960
+  formats?: Format[]; // served as <source>s before the fallback, best first
+  sizes?: string; // `sizes` attribute, defaults to DEFAULT_SIZES
+}
+
+export const MAX_RESPONSIVE_WIDTHS = 8;
+export const MAX_RESPONSIVE_FORMATS = 4;
+export const DEFAULT_SIZES = "100vw";
+
+export interface PictureVariant {
+  fileName: string;
+  format: string;
+  width: number;
+  height: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  bmp: "image/bmp",
+  gif: "image/gif",
+  heif: "image/heif",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  tiff: "image/tiff",
+  webp: "image/webp",
+};
+
+function escapeAttr(v: string): string {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Widths to render for a source `sourceWidth` pixels wide: sorted and without
+ * duplicates. Widths beyond the source are replaced by the source width
+ * itself, so the set tops out at full resolution without upscaling.
+ */
+export function responsiveWidths(
+  sourceWidth: number,
+  widths: number[],
+): number[] {
+  const capped = widths.map((w) => Math.min(w, sourceWidth));
+  return [...new Set(capped)].sort((a, b) => a - b);
+}
+
+// Formats of a set in <picture> order, ending with the fallback
+export function responsiveFormats<Format extends string>(
+  fallback: Format,
+  formats: Format[] = [],
+): Format[] {
+  return [...new Set([...formats.filter((f) => f !== fallback), fallback])];
+}
+
+// "hero.webp" at 640 -> "hero-640w.webp"
+export function variantFilename(fileName: string, width: number): string {
+  const ext = path.extname(fileName);
+  return `${path.basename(fileName, ext)}-${width}w${ext}`;
+}
+
+/**
+ * `<picture>` element for the variants of one source: a `<source>` per
+ * modern format and an `<img>` in the fallback format, sized by its widest
+ * variant and lazy-loaded. URLs are the bare file names, as in the ZIP.
+ */
+export function buildPictureMarkup(
+  variants: PictureVariant[],
+  options: { fallbackFormat: string; sizes?: string; alt?: string },
+): string {
+  const byFormat = new Map<string, PictureVariant[]>();
+  for (const v of [...variants].sort((a, b) => a.width - b.width)) {
+    byFormat.set(v.format, [...(byFormat.get(v.format) ?? []), v]);
+  }
+  // Fall back to the last format that produced anything if the fallback failed
+  const fallbackFormat = byFormat.has(options.fallbackFormat)
+    ? options.fallbackFormat
+    : [...byFormat.keys()].pop();
+  if (!fallbackFormat) return "";
+
+  const sizes = escapeAttr(options.sizes ?? DEFAULT_SIZES);
+  const srcset = (set: PictureVariant[]) =>
+    escapeAttr(set.map((v) => `${v.fileName} ${v.width}w`).join(", "));
+
+  const lines = ["<picture>"];
+  for (const [format, set] of byFormat) {
+    if (format === fallbackFormat) continue;
+    const type = MIME_TYPES[format] ?? `image/${format}`;
+    lines.push(
+      `  <source type="${type}" srcset="${srcset(set)}" sizes="${sizes}">`,
+    );
+  }
+  const fallback = byFormat.get(fallbackFormat)!;
+  const largest = fallback[fallback.length - 1]!;
+  lines.push(
+    `  <img src="${escapeAttr(largest.fileName)}" srcset="${srcset(fallback)}" sizes="${sizes}" width="${largest.width}" height="${largest.height}" alt="${escapeAttr(options.alt ?? "")}" loading="lazy" decoding="async">`,
+  );
+  lines.push("</picture>");
+  return lines.join("\n");
+}
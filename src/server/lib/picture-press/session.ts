@@ -5,7 +5,6 @@ import {
   type GenerationProgress,
   type GenerationSessionMeta,
   getTempRoot,
-  readJsonSafe,
   isAllowedMime,
   cleanupSession,
   cleanupExpiredSessions,
@@ -13,6 +12,8 @@ import {
   writeProgress,
   readProgress,
 } from "../pixel-forge/session";
+import { emitProgress, subscribeProgress } from "../shared/progress-events";
+import { readJsonSafe, writeJsonAtomic } from "../shared/json-files";
 
 // Picture Press specific types extending Pixel Forge types
 export type ConversionProgress = GenerationProgress & {
@@ -89,6 +90,12 @@ function extForMime(mime: string): string {
       return ".tiff";
     case "image/bmp":
       return ".bmp";
+    case "image/heic":
+      return ".heic";
+    case "image/heif":
+      return ".heif";
+    case "image/avif":
+      return ".avif";
     default:
       return "";
   }
@@ -115,13 +122,10 @@ async function pathExists(p: string): Promise<boolean> {
   }
 }
 
-async function writeJsonAtomic(p: string, data: unknown): Promise<void> {
+async function writeJson(p: string, data: unknown): Promise<void> {
   // Ensure the directory exists before writing
   await fs.mkdir(path.dirname(p), { recursive: true });
-  
-  const tmp = p + ".tmp";
-  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
-  await fs.rename(tmp, p);
+  await writeJsonAtomic(p, data);
 }
 
 function getPicturePressRoot(): string {
@@ -150,7 +154,7 @@ export async function createPicturePressSession(
     status: "idle",
     uploadedFiles: [],
   };
-  await writeJsonAtomic(metaPath, meta);
+  await writeJson(metaPath, meta);
 
   // Initialize progress
   const progress: ConversionProgress = {
@@ -160,7 +164,7 @@ export async function createPicturePressSession(
     filesProcessed: 0,
     totalFiles: 0,
   };
-  await writeJsonAtomic(progressPath, progress);
+  await writeJson(progressPath, progress);
 
   return { id, root, uploadsDir, convertedDir, progressPath, metaPath };
 }
@@ -189,7 +193,7 @@ export async function ensurePicturePressSession(
   };
 }
 
-function isPicturePressAllowedMime(mime: string): boolean {
+export function isPicturePressAllowedMime(mime: string): boolean {
   return [
     "image/png",
     "image/jpeg",
@@ -199,6 +203,9 @@ function isPicturePressAllowedMime(mime: string): boolean {
     "image/gif",
     "image/tiff",
     "image/bmp",
+    "image/heic",
+    "image/heif",
+    "image/avif",
   ].includes(mime.toLowerCase());
 }
 
@@ -422,7 +429,7 @@ export async function saveMultipleUploads(params: {
       size: result.size,
     }));
 
-    await writeJsonAtomic(sess.metaPath, meta);
+    await writeJson(sess.metaPath, meta);
   } catch (err) {
     // Clean up uploaded files if meta update fails
     for (const result of results) {
@@ -439,12 +446,37 @@ export async function saveMultipleUploads(params: {
   return results;
 }
 
-export async function writeConversionProgress(
+// Pending progress writes per session; parallel conversions report progress
+// without awaiting it, and a late write must not replace a newer state
+const progressWrites = new Map<string, Promise<void>>();
+
+export function writeConversionProgress(
   sessionId: string,
   progress: ConversionProgress,
 ): Promise<void> {
-  const sess = await ensurePicturePressSession(sessionId);
-  await writeJsonAtomic(sess.progressPath, progress);
+  // Runs after every earlier write of the session, whether it failed or not
+  const previous = progressWrites.get(sessionId) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    const sess = await ensurePicturePressSession(sessionId);
+    await writeJson(sess.progressPath, progress);
+    emitProgress(`pp:progress:${sessionId}`, progress);
+  });
+  const settled = write.catch(() => undefined);
+  progressWrites.set(sessionId, settled);
+  void settled.then(() => {
+    if (progressWrites.get(sessionId) === settled) progressWrites.delete(sessionId);
+  });
+  return write;
+}
+
+/**
+ * Stream every conversion progress update for a session until `signal` aborts.
+ */
+export function subscribeToConversionProgress(
+  sessionId: string,
+  signal?: AbortSignal,
+): AsyncGenerator<ConversionProgress> {
+  return subscribeProgress<ConversionProgress>(`pp:progress:${sessionId}`, signal);
 }
 
 export async function readConversionProgress(
@@ -482,7 +514,7 @@ export async function updateConversionMeta(
     uploadedFiles: [],
   };
   const next = { ...cur, ...patch, id: sessionId };
-  await writeJsonAtomic(sess.metaPath, next);
+  await writeJson(sess.metaPath, next);
   return next;
 }
 
@@ -0,0 +1,123 @@
+import Jimp from "jimp";
+
+// Decoded RGBA pixels, 4 bytes per pixel, row by row
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+// Formats Jimp decodes itself; others go through an engine first
+export const BITMAP_FORMATS = ["jpeg", "png", "bmp", "tiff", "gif"];
+
+// SSIM window size and step: overlapping 8x8 box windows, a cheap stand-in
+// for the Gaussian-weighted 11x11 windows of the original paper
+const WINDOW = 8;
+const STEP = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+// Reported for identical images, whose PSNR is infinite
+export const MAX_PSNR = 100;
+
+// Largest image compared; bigger ones would need hundreds of MB of pixels
+export const MAX_COMPARE_PIXELS = 16_000_000;
+
+export async function readBitmap(input: string | Buffer): Promise<Bitmap> {
+  // Jimp's overloads take a path or a buffer, but not the union
+  const image =
+    typeof input === "string" ? await Jimp.read(input) : await Jimp.read(input);
+  return image.bitmap;
+}
+
+function assertSameSize(a: Bitmap, b: Bitmap) {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(
+      `Cannot compare a ${a.width}x${a.height} image with a ${b.width}x${b.height} one`,
+    );
+  }
+}
+
+// Channel value composited over white, so transparent areas compare as seen
+function overWhite(data: Buffer, offset: number, channel: number): number {
+  const a = data[offset + 3]! / 255;
+  return data[offset + channel]! * a + 255 * (1 - a);
+}
+
+// BT.601 luma, composited over white
+function luma(bitmap: Bitmap): Float32Array {
+  const { data } = bitmap;
+  const out = new Float32Array(bitmap.width * bitmap.height);
+  for (let i = 0; i < out.length; i++) {
+    const o = i * 4;
+    const a = data[o + 3]! / 255;
+    const y = 0.299 * data[o]! + 0.587 * data[o + 1]! + 0.114 * data[o + 2]!;
+    out[i] = y * a + 255 * (1 - a);
+  }
+  return out;
+}
+
+/**
+ * Mean structural similarity of two same-sized images, from 1 (identical)
+ * down to about 0. Computed on luma over overlapping 8x8 windows; images
+ * smaller than a window are compared as a whole.
+ */
+export function ssim(a: Bitmap, b: Bitmap): number {
+  assertSameSize(a, b);
+  const x = luma(a);
+  const y = luma(b);
+  const w = Math.min(WINDOW, a.width);
+  const h = Math.min(WINDOW, a.height);
+  const n = w * h;
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + h <= a.height; top += STEP) {
+    for (let left = 0; left + w <= a.width; left += STEP) {
+      let sx = 0;
+      let sy = 0;
+      let sxx = 0;
+      let syy = 0;
+      let sxy = 0;
+      for (let row = top; row < top + h; row++) {
+        for (let i = row * a.width + left, end = i + w; i < end; i++) {
+          const vx = x[i]!;
+          const vy = y[i]!;
+          sx += vx;
+          sy += vy;
+          sxx += vx * vx;
+          syy += vy * vy;
+          sxy += vx * vy;
+        }
+      }
+      const mx = sx / n;
+      const my = sy / n;
+      const vx = sxx / n - mx * mx;
+      const vy = syy / n - my * my;
+      const cov = sxy / n - mx * my;
+      total +=
+        ((2 * mx * my + C1) * (2 * cov + C2)) /
+        ((mx * mx + my * my + C1) * (vx + vy + C2));
+      windows++;
+    }
+  }
+  return windows ? total / windows : 1;
+}
+
+/**
+ * Peak signal-to-noise ratio of two same-sized images in dB over their RGB
+ * channels; higher is closer, MAX_PSNR for identical pixels.
+ */
+export function psnr(a: Bitmap, b: Bitmap): number {
+  assertSameSize(a, b);
+  let sum = 0;
+  for (let o = 0; o < a.data.length; o += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = overWhite(a.data, o, c) - overWhite(b.data, o, c);
+      sum += d * d;
+    }
+  }
+  const mse = sum / ((a.data.length / 4) * 3);
+  if (mse === 0) return MAX_PSNR;
+  return Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+}
@@ -0,0 +1,92 @@
+/**
+ * What an automatically tuned conversion aims for, instead of a fixed quality:
+ * - maxBytes: the highest quality whose file fits the budget
+ * - minSsim: the lowest quality that still looks this close to the source
+ * With both, the SSIM decides the quality and the budget is then checked.
+ */
+export interface QualityTarget {
+  maxBytes?: number;
+  minSsim?: number; // 0-1, e.g. 0.98
+}
+
+// Size and, for an SSIM target, similarity of one trial encode
+export interface QualityMeasure {
+  bytes: number;
+  ssim?: number;
+}
+
+export interface QualitySearchResult {
+  quality: number;
+  bytes: number;
+  ssim?: number;
+  met: boolean; // false when even the best candidate misses the target
+  attempts: number; // encodes tried
+}
+
+export const MIN_TARGET_BYTES = 1024;
+export const MAX_TARGET_BYTES = 50 * 1024 * 1024;
+export const MIN_TARGET_SSIM = 0.5;
+export const MAX_TARGET_SSIM = 0.9999;
+
+const MIN_QUALITY = 1;
+const MAX_QUALITY = 100;
+
+/**
+ * Binary search over encoder quality for `target`, calling `measure` once per
+ * quality tried (at most 8 times). Assumes size and SSIM both grow with
+ * quality, which holds closely enough for JPEG, WebP, AVIF and HEIF.
+ */
+export async function searchQuality(
+  measure: (quality: number) => Promise<QualityMeasure>,
+  target: QualityTarget,
+): Promise<QualitySearchResult> {
+  const tried = new Map<number, QualityMeasure>();
+  const at = async (quality: number) => {
+    let result = tried.get(quality);
+    if (!result) {
+      result = await measure(quality);
+      tried.set(quality, result);
+    }
+    return result;
+  };
+  const fits = (m: QualityMeasure) =>
+    target.maxBytes === undefined || m.bytes <= target.maxBytes;
+  const similar = (m: QualityMeasure) =>
+    target.minSsim === undefined || (m.ssim ?? 0) >= target.minSsim;
+
+  let quality: number;
+  if (target.minSsim !== undefined) {
+    // Lowest quality that is similar enough; the best there is otherwise
+    let lo = MIN_QUALITY;
+    let hi = MAX_QUALITY;
+    if (similar(await at(hi))) {
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (similar(await at(mid))) hi = mid;
+        else lo = mid + 1;
+      }
+    }
+    quality = hi;
+  } else {
+    // Highest quality within the budget; the smallest there is otherwise
+    let lo = MIN_QUALITY;
+    let hi = MAX_QUALITY;
+    if (fits(await at(lo))) {
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (fits(await at(mid))) lo = mid;
+        else hi = mid - 1;
+      }
+    }
+    quality = lo;
+  }
+
+  const chosen = await at(quality);
+  return {
+    quality,
+    bytes: chosen.bytes,
+    ssim: chosen.ssim,
+    met: fits(chosen) && similar(chosen),
+    attempts: tried.size,
+  };
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { readJsonSafe, writeJsonAtomic } from "../shared/json-files";
+import { normalizeBrand, type BrandMetadata } from "./branding";
+
+export type BrandProfile = BrandMetadata & {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+};
+
+// Under the project root, so the OS never clears it like a temp dir
+const DEFAULT_DIR = path.join(".data", "pixel-forge");
+const PROFILES = "brand-profiles";
+
+/**
+ * Durable storage root for data that must outlive a session (brand profiles).
+ * Unlike PF_TMP_DIR this is never swept by TTL cleanup.
+ */
+export function getDataRoot(): string {
+  const custom = process.env.PF_DATA_DIR;
+  if (custom && path.isAbsolute(custom)) return custom;
+  return path.join(process.cwd(), DEFAULT_DIR);
+}
+
+function profilesDir(): string {
+  return path.join(getDataRoot(), PROFILES);
+}
+
+function profilePath(id: string): string {
+  return path.join(profilesDir(), `${id}.json`);
+}
+
+export async function listBrandProfiles(): Promise<BrandProfile[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(profilesDir());
+  } catch {
+    return [];
+  }
+  const profiles: BrandProfile[] = [];
+  for (const name of entries) {
+    if (!name.endsWith(".json")) continue;
+    const p = await readJsonSafe<BrandProfile>(path.join(profilesDir(), name));
+    if (p?.id) profiles.push(p);
+  }
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getBrandProfile(
+  id: string,
+): Promise<BrandProfile | null> {
+  return readJsonSafe<BrandProfile>(profilePath(id));
+}
+
+/**
+ * Create a profile, or replace the brand fields of an existing one when `id` is given.
+ */
+export async function saveBrandProfile(
+  input: BrandMetadata & { id?: string; name: string },
+): Promise<BrandProfile> {
+  const existing = input.id ? await getBrandProfile(input.id) : null;
+  if (input.id && !existing) {
+    throw new Error(`Brand profile not found: ${input.id}`);
+  }
+  const now = new Date().toISOString();
+  const profile: BrandProfile = {
+    ...normalizeBrand(input),
+    id: existing?.id ?? crypto.randomUUID(),
+    name: input.name.trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await fs.mkdir(profilesDir(), { recursive: true });
+  await writeJsonAtomic(profilePath(profile.id), profile);
+  return profile;
+}
+
+export async function deleteBrandProfile(id: string): Promise<boolean> {
+  try {
+    await fs.unlink(profilePath(id));
+    return true;
+  } catch {
+    return false;
+  }
+}
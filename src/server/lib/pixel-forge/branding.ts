@@ -0,0 +1,186 @@
+import { promises as fs } from "fs";
+
+export type BrandMetadata = {
+  appName?: string;
+  description?: string;
+  themeColor?: string;
+  backgroundColor?: string;
+};
+
+// Hex colors only (#rgb, #rgba, #rrggbb, #rrggbbaa); these end up in manifest.json and meta tags verbatim
+export const HEX_COLOR_RE =
+  /^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Trim brand fields and drop empty values so blank UI inputs do not
+ * overwrite pixel-forge defaults with empty strings.
+ */
+export function normalizeBrand(
+  input?: Partial<Record<keyof BrandMetadata, string | null>>,
+): BrandMetadata {
+  const out: BrandMetadata = {};
+  if (!input) return out;
+  for (const key of [
+    "appName",
+    "description",
+    "themeColor",
+    "backgroundColor",
+  ] as const) {
+    const v = input[key]?.trim();
+    if (v) out[key] = v;
+  }
+  return out;
+}
+
+/**
+ * Merge brand layers left to right; later non-empty fields win.
+ */
+export function mergeBrand(...layers: BrandMetadata[]): BrandMetadata {
+  return layers.reduce<BrandMetadata>(
+    (acc, layer) => ({ ...acc, ...normalizeBrand(layer) }),
+    {},
+  );
+}
+
+function escapeAttr(v: string): string {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replace the value of `valueAttr` on every <meta>/<link> tag whose `keyAttr` equals `key`.
+ */
+function setTagAttr(
+  html: string,
+  tag: "meta" | "link",
+  keyAttr: string,
+  key: string,
+  valueAttr: string,
+  value: string,
+): string {
+  const tagRe = new RegExp(
+    `<${tag}\\b[^>]*\\b${keyAttr}="${escapeRegex(key)}"[^>]*>`,
+    "g",
+  );
+  const valueRe = new RegExp(`\\b${valueAttr}="[^"]*"`);
+  return html.replace(tagRe, (m) =>
+    m.replace(valueRe, `${valueAttr}="${escapeAttr(value)}"`),
+  );
+}
+
+/**
+ * Rewrite the meta tag HTML produced by pixel-forge (which always uses its
+ * built-in placeholder brand) so it reflects the requested brand metadata.
+ */
+export function applyBrandToMetaHtml(
+  html: string,
+  brand: BrandMetadata,
+): string {
+  let out = html;
+  if (brand.appName) {
+    for (const name of [
+      "application-name",
+      "apple-mobile-web-app-title",
+      "twitter:title",
+      "twitter:image:alt",
+    ]) {
+      out = setTagAttr(out, "meta", "name", name, "content", brand.appName);
+    }
+    out = setTagAttr(
+      out,
+      "meta",
+      "property",
+      "og:title",
+      "content",
+      brand.appName,
+    );
+  }
+  if (brand.description) {
+    for (const name of ["description", "twitter:description"]) {
+      out = setTagAttr(out, "meta", "name", name, "content", brand.description);
+    }
+    out = setTagAttr(
+      out,
+      "meta",
+      "property",
+      "og:description",
+      "content",
+      brand.description,
+    );
+  }
+  if (brand.themeColor) {
+    out = setTagAttr(
+      out,
+      "meta",
+      "name",
+      "theme-color",
+      "content",
+      brand.themeColor,
+    );
+    out = setTagAttr(
+      out,
+      "link",
+      "rel",
+      "mask-icon",
+      "color",
+      brand.themeColor,
+    );
+  }
+  return out;
+}
+
+/**
+ * Add a commented section of tags at the end of <head> in meta tag HTML.
+ * An empty `html` (no pixel-forge run) gets a document of its own.
+ */
+export function appendHeadSection(
+  html: string,
+  title: string,
+  tags: string[],
+): string {
+  if (!tags.length) return html;
+  const section = `<!-- ${title} -->\n${tags.map((t) => `  ${t}`).join("\n")}\n`;
+  const headEnd = html.indexOf("</head>");
+  if (headEnd !== -1) {
+    return `${html.slice(0, headEnd)}\n${section}${html.slice(headEnd)}`;
+  }
+  if (!html.trim()) {
+    return `<!DOCTYPE html>\n<html lang="en">\n<head>\n${section}</head>\n</html>\n`;
+  }
+  return `${html}\n${section}`;
+}
+
+/**
+ * Extract individual <meta>/<link> tags from meta tag HTML (mirrors pixel-forge's own parser).
+ */
+export function extractMetaTags(html: string): string[] {
+  return (html.match(/<(?:meta|link)[^>]*>/g) ?? []).filter(
+    (tag) => tag.trim().length > 0,
+  );
+}
+
+/**
+ * Patch brand fields into a generated manifest in place.
+ */
+export async function applyBrandToManifest(
+  manifestPath: string,
+  brand: BrandMetadata,
+): Promise<void> {
+  const raw = await fs.readFile(manifestPath, "utf8");
+  const manifest = JSON.parse(raw) as Record<string, unknown>;
+  if (brand.appName) {
+    manifest.name = brand.appName;
+    manifest.short_name = brand.appName;
+  }
+  if (brand.description) manifest.description = brand.description;
+  if (brand.themeColor) manifest.theme_color = brand.themeColor;
+  if (brand.backgroundColor) manifest.background_color = brand.backgroundColor;
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf8");
+}
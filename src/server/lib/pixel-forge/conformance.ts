@@ -0,0 +1,174 @@
+// Per-platform requirements for generated files. Sizes come from the file
+// name where it carries one (favicon-32x32.png, mstile-310x150.png, ...);
+// the rules below add what the name does not say.
+type AssetSpec = {
+  platform: string; // prefix of the warning message
+  match: RegExp;
+  size?: [number, number]; // exact pixel size
+  minSize?: [number, number];
+  ratio?: number; // width / height
+  square?: boolean;
+  maxBytes?: number;
+};
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+// Allowed deviation from `ratio`, as a fraction of it
+const RATIO_TOLERANCE = 0.02;
+
+export const ASSET_SPECS: AssetSpec[] = [
+  {
+    platform: "Favicon",
+    match: /^favicon-\d+x\d+(-dark)?\.png$/,
+    maxBytes: 100 * KB,
+  },
+  { platform: "Favicon", match: /^favicon\.ico$/, maxBytes: 100 * KB },
+  {
+    platform: "Apple touch icon",
+    match: /^apple-touch-icon\.png$/,
+    size: [180, 180],
+    maxBytes: 500 * KB,
+  },
+  {
+    platform: "PWA icon",
+    match: /^pwa-(maskable-)?\d+x\d+\.png$/,
+    square: true,
+  },
+  { platform: "PWA shortcut icon", match: /^shortcut-icon-/, square: true },
+  // Windows rejects tile images over 200 KB
+  { platform: "Windows tile", match: /^mstile-/, maxBytes: 200 * KB },
+  // Facebook's recommended minimum; smaller images get the small link preview
+  {
+    platform: "Open Graph",
+    match: /^(og-image|opengraph)\./,
+    minSize: [1200, 630],
+    maxBytes: 8 * MB,
+  },
+  // summary_large_image: 2:1, at least 300x157, under 5 MB
+  {
+    platform: "Twitter card",
+    match: /^twitter-image\./,
+    ratio: 2,
+    minSize: [300, 157],
+    maxBytes: 5 * MB,
+  },
+];
+
+const NAMED_SIZE_RE = /-(\d+)x(\d+)(?:-dark)?\.[a-z]+$/i;
+
+export type AssetFacts = {
+  fileName: string;
+  category: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  alpha?: boolean; // undefined when the format could not be inspected
+};
+
+// Options of the generation run that produced the asset
+export type ConformanceRun = {
+  transparent?: boolean;
+};
+
+function formatBytes(n: number): string {
+  return n >= MB ? `${(n / MB).toFixed(1)} MB` : `${Math.round(n / KB)} KB`;
+}
+
+/**
+ * Check a generated file against ASSET_SPECS, its named size and, in a
+ * transparent run (or the transparent category), alpha presence. Returns
+ * human-readable warnings; an empty array means the file conforms.
+ */
+export function checkAssetConformance(
+  asset: AssetFacts,
+  run: ConformanceRun = {},
+): string[] {
+  const warnings: string[] = [];
+  const { width, height, bytes } = asset;
+  const hasSize = width !== undefined && height !== undefined;
+
+  const named = NAMED_SIZE_RE.exec(asset.fileName);
+  if (named && hasSize) {
+    const [w, h] = [Number(named[1]), Number(named[2])];
+    if (w !== width || h !== height) {
+      warnings.push(
+        `Expected ${w}x${h} from the file name, got ${width}x${height}`,
+      );
+    }
+  }
+
+  for (const spec of ASSET_SPECS) {
+    if (!spec.match.test(asset.fileName)) continue;
+    const p = spec.platform;
+    if (hasSize) {
+      if (spec.size && (spec.size[0] !== width || spec.size[1] !== height)) {
+        warnings.push(
+          `${p}: expected ${spec.size[0]}x${spec.size[1]}, got ${width}x${height}`,
+        );
+      }
+      if (
+        spec.minSize &&
+        (width < spec.minSize[0] || height < spec.minSize[1])
+      ) {
+        warnings.push(
+          `${p}: at least ${spec.minSize[0]}x${spec.minSize[1]} recommended, got ${width}x${height}`,
+        );
+      }
+      if (spec.square && width !== height) {
+        warnings.push(`${p}: must be square, got ${width}x${height}`);
+      }
+      if (
+        spec.ratio &&
+        height > 0 &&
+        Math.abs(width / height - spec.ratio) > spec.ratio * RATIO_TOLERANCE
+      ) {
+        warnings.push(
+          `${p}: expected a ${spec.ratio}:1 aspect ratio, got ${width}x${height}`,
+        );
+      }
+    }
+    if (spec.maxBytes && bytes !== undefined && bytes > spec.maxBytes) {
+      warnings.push(
+        `${p}: ${formatBytes(bytes)} exceeds the ${formatBytes(spec.maxBytes)} limit`,
+      );
+    }
+  }
+
+  // A transparent run rewrites favicons and PWA icons too, not just its own
+  // category; each of them should have come out with alpha
+  if (run.transparent || asset.category === "transparent") {
+    if (/\.jpe?g$/i.test(asset.fileName)) {
+      warnings.push("Transparent output is a JPEG, which cannot carry alpha");
+    } else if (asset.alpha === false) {
+      warnings.push("Transparent output has no alpha channel");
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Whether an encoded PNG/WebP/JPEG declares an alpha channel (PNG color type
+ * or tRNS chunk, WebP VP8X/VP8L alpha flag). Undefined for other formats.
+ */
+export function detectAlpha(buf: Buffer): boolean | undefined {
+  if (buf.length >= 26 && buf.readUInt32BE(0) === 0x89504e47) {
+    const colorType = buf[25];
+    if (colorType === 4 || colorType === 6) return true;
+    const idat = buf.indexOf("IDAT");
+    const trns = buf.indexOf("tRNS");
+    return trns !== -1 && (idat === -1 || trns < idat);
+  }
+  if (
+    buf.length >= 30 &&
+    buf.toString("ascii", 0, 4) === "RIFF" &&
+    buf.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buf.toString("ascii", 12, 16);
+    if (chunk === "VP8X") return (buf[20]! & 0x10) !== 0;
+    if (chunk === "VP8L") return ((buf.readUInt32LE(21) >> 28) & 1) === 1;
+    return false;
+  }
+  if (buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xd8) return false;
+  return undefined;
+}
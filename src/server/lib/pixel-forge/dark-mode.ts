@@ -0,0 +1,181 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { generateAssets as pfGenerateAssets } from "pixel-forge";
+
+// How a single light SVG stays visible on dark browser tabs
+export type DarkFaviconStyle = "plate" | "invert";
+
+export const DEFAULT_DARK_FAVICON_STYLE: DarkFaviconStyle = "plate";
+
+// PNG favicons that browsers pick with <link media>; favicon.ico stays the
+// media-less fallback and apple-touch/PWA icons have no color-scheme support
+const PAIRED_FAVICONS = [
+  "favicon-16x16.png",
+  "favicon-32x32.png",
+  "favicon-48x48.png",
+];
+
+const LIGHT_MEDIA = "(prefers-color-scheme: light)";
+const DARK_MEDIA = "(prefers-color-scheme: dark)";
+
+export function darkFileName(fileName: string): string {
+  const ext = path.extname(fileName);
+  return `${fileName.slice(0, -ext.length)}-dark${ext}`;
+}
+
+/**
+ * Run pixel-forge's favicon generator on the dark source in a scratch
+ * directory and copy the PNG favicons into `outDir` as `*-dark.png`. Only
+ * sizes present in `lightFiles` (this run's light set) are paired.
+ */
+export async function renderDarkFavicons(params: {
+  darkSourcePath: string;
+  outDir: string;
+  lightFiles: string[];
+  transparent?: boolean;
+}): Promise<string[]> {
+  const targets = PAIRED_FAVICONS.filter((f) => params.lightFiles.includes(f));
+  if (!targets.length) return [];
+
+  const scratch = await fs.mkdtemp(path.join(os.tmpdir(), "pf-dark-"));
+  try {
+    await pfGenerateAssets(params.darkSourcePath, {
+      outputDir: scratch,
+      favicon: true,
+      transparent: params.transparent,
+    });
+    const written: string[] = [];
+    for (const fileName of targets) {
+      const src = path.join(scratch, fileName);
+      const ok = await fs
+        .access(src)
+        .then(() => true)
+        .catch(() => false);
+      if (!ok) continue;
+      const dest = darkFileName(fileName);
+      await fs.copyFile(src, path.join(params.outDir, dest));
+      written.push(dest);
+    }
+    return written;
+  } finally {
+    await fs.rm(scratch, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Give each light PNG favicon link that has a dark counterpart a light
+ * `media` query, and add the dark link on the line after it.
+ */
+export function pairFaviconTags(
+  html: string,
+  darkFiles: string[],
+  urlPrefix: string,
+): string {
+  const pairs = new Map(
+    darkFiles.map((dark) => [
+      `href="${urlPrefix}${dark.replace(/-dark(\.[a-z]+)$/i, "$1")}"`,
+      `href="${urlPrefix}${dark}"`,
+    ]),
+  );
+  return html
+    .split("\n")
+    .flatMap((line) => {
+      const href = [...pairs.keys()].find((h) => line.includes(h));
+      if (!href || !/<link\b/.test(line) || line.includes("media=")) {
+        return [line];
+      }
+      return [
+        line.replace(/<link\b/, `<link media="${LIGHT_MEDIA}"`),
+        line
+          .replace(/<link\b/, `<link media="${DARK_MEDIA}"`)
+          .replace(href, pairs.get(href)!),
+      ];
+    })
+    .join("\n");
+}
+
+function stripProlog(svg: string): string {
+  return svg
+    .replace(/<\?xml[\s\S]*?\?>/g, "")
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .trim();
+}
+
+// Prefix ids (and their references) so two embedded documents cannot clash
+function prefixIds(svg: string, prefix: string): string {
+  return svg
+    .replace(/\bid="([^"]+)"/g, `id="${prefix}$1"`)
+    .replace(/url\(#([^)]+)\)/g, `url(#${prefix}$1)`)
+    .replace(/\b(xlink:href|href)="#([^"]+)"/g, `$1="#${prefix}$2"`);
+}
+
+/**
+ * Rewrite a source SVG's root element so it fills the wrapper: the original
+ * size becomes the viewBox, width/height become 100%.
+ */
+function nestSvg(svg: string, className: string, prefix: string): string {
+  const body = prefixIds(stripProlog(svg), prefix);
+  const open = /^<svg\b([^>]*)>/i.exec(body);
+  if (!open) throw new Error("Not an SVG document");
+  let attrs = open[1]!;
+  const num = (name: string) =>
+    new RegExp(`\\b${name}="([\\d.]+)(?:px)?"`).exec(attrs)?.[1];
+  if (!/\bviewBox=/.test(attrs)) {
+    const w = num("width");
+    const h = num("height");
+    if (w && h) attrs += ` viewBox="0 0 ${w} ${h}"`;
+  }
+  attrs = attrs.replace(/\s(?:width|height|x|y|class)="[^"]*"/g, "");
+  return `<svg${attrs} class="${className}" width="100%" height="100%">${body.slice(open[0].length)}`;
+}
+
+/**
+ * favicon.svg that follows the browser's color scheme. With a dark SVG the
+ * two artworks are swapped by a `prefers-color-scheme` media query; with a
+ * raster `darkImage` (data URI) that image is shown instead. With neither,
+ * `style` keeps the light artwork visible: "plate" puts it on a rounded
+ * `plateColor` tile, "invert" inverts its lightness (keeping hues).
+ */
+export function buildDarkAwareSvg(params: {
+  lightSvg: string;
+  darkSvg?: string;
+  darkImage?: string;
+  style?: DarkFaviconStyle;
+  plateColor?: string;
+}): string {
+  const light = nestSvg(params.lightSvg, "pf-light", "pf-l-");
+  let dark = "";
+  let defs = "";
+  let darkRules: string;
+
+  if (params.darkSvg) {
+    dark = nestSvg(params.darkSvg, "pf-dark", "pf-d-");
+    darkRules = ".pf-light{display:none}.pf-dark{display:inline}";
+  } else if (params.darkImage) {
+    dark = `<image class="pf-dark" href="${params.darkImage}" width="100%" height="100%" preserveAspectRatio="xMidYMid meet"/>`;
+    darkRules = ".pf-light{display:none}.pf-dark{display:inline}";
+  } else if ((params.style ?? DEFAULT_DARK_FAVICON_STYLE) === "invert") {
+    defs =
+      '<defs><filter id="pf-invert" color-interpolation-filters="sRGB">' +
+      '<feColorMatrix type="matrix" values="-1 0 0 0 1 0 -1 0 0 1 0 0 -1 0 1 0 0 0 1 0"/>' +
+      '<feColorMatrix type="hueRotate" values="180"/></filter></defs>';
+    darkRules = ".pf-light{filter:url(#pf-invert)}";
+  } else {
+    dark = `<rect class="pf-dark" width="100%" height="100%" rx="20%" fill="${params.plateColor ?? "#ffffff"}"/>`;
+    // The artwork shrinks onto the plate in dark mode only
+    darkRules =
+      ".pf-dark{display:inline}.pf-plate{transform:translate(10px,10px) scale(0.8)}";
+  }
+
+  // The plate sits behind the artwork; swapped artwork follows it
+  const content = dark.startsWith("<rect")
+    ? `${dark}<g class="pf-plate">${light}</g>`
+    : `${light}${dark}`;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100">` +
+    `<style>.pf-dark{display:none}@media ${DARK_MEDIA}{${darkRules}}</style>` +
+    `${defs}${content}</svg>\n`
+  );
+}
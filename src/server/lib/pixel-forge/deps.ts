@@ -1,42 +1,238 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import Jimp from "jimp";
 import { ImageProcessor } from "pixel-forge";
 
+const execFileAsync = promisify(execFile);
+
+export type ImageEngine = "magick" | "jimp";
+// "auto" prefers ImageMagick and falls back to Jimp
+export type EnginePreference = "auto" | ImageEngine;
+
+export type EngineInfo = {
+  defaultEngine: ImageEngine; // what "auto" resolves to on this server
+  magick: {
+    available: boolean;
+    command?: "magick" | "convert"; // IM7 vs IM6 binary
+    version?: string; // e.g. "ImageMagick 7.1.1-15 Q16-HDRI"
+    formats: { read: string[]; write: string[] };
+  };
+  jimp: {
+    formats: { read: string[]; write: string[] };
+    limits: {
+      maxResolutionInMP: number; // JPEG decoder refuses larger images
+      maxMemoryUsageInMB: number; // JPEG decoder memory cap
+      bytesPerPixel: number; // decoded bitmaps are RGBA in memory
+    };
+  };
+};
+
+// jpeg-js defaults used by Jimp's JPEG decoder
+const JIMP_LIMITS: EngineInfo["jimp"]["limits"] = {
+  maxResolutionInMP: 100,
+  maxMemoryUsageInMB: 512,
+  bytesPerPixel: 4,
+};
+
+// pixel-forge's Jimp path only saves these. It also accepts webp, but Jimp
+// has no WebP encoder, so WebP needs ImageMagick
+const PIXEL_FORGE_JIMP_OUTPUTS = ["png", "jpeg"];
+
+// Engine facts only change when the host changes; probing spawns processes
+const ENGINE_INFO_TTL_MS = 10 * 60_000;
+let engineInfoCache: { at: number; info: Promise<EngineInfo> } | null = null;
+
+/**
+ * Parse `magick -list format` output into lowercase format names by mode.
+ * Rows look like `      PNG* PNG       rw-   Portable Network Graphics`.
+ */
+export function parseMagickFormats(stdout: string): {
+  read: string[];
+  write: string[];
+} {
+  const read = new Set<string>();
+  const write = new Set<string>();
+  for (const line of stdout.split("\n")) {
+    const m = /^\s*([A-Z0-9][A-Z0-9-]*)\*?\s+\S+\s+([r-])([w-])[+-]\s/.exec(
+      line,
+    );
+    if (!m) continue;
+    const name = m[1]!.toLowerCase();
+    if (m[2] === "r") read.add(name);
+    if (m[3] === "w") write.add(name);
+  }
+  return { read: [...read].sort(), write: [...write].sort() };
+}
+
+// Format names from Jimp's registered MIME codecs (image/x-ms-bmp -> bmp)
+function jimpFormats(codecs: Record<string, unknown> | undefined): string[] {
+  const names = Object.keys(codecs ?? {}).map((mime) =>
+    mime.replace(/^image\/(x-ms-)?/, ""),
+  );
+  return [...new Set(names)].sort();
+}
+
+// Output formats pixel-forge's ImageProcessor can save on its Jimp engine
+export const JIMP_OUTPUT_FORMATS = jimpFormats(Jimp.encoders).filter((f) =>
+  PIXEL_FORGE_JIMP_OUTPUTS.includes(f),
+);
+
+async function probeMagick(): Promise<EngineInfo["magick"]> {
+  for (const command of ["magick", "convert"] as const) {
+    try {
+      const { stdout } = await execFileAsync(command, ["-version"], {
+        timeout: 10_000,
+      });
+      const version = /Version:\s*(ImageMagick\s+\S+(?:\s+Q\S+)?)/.exec(
+        stdout,
+      )?.[1];
+      if (!version) continue;
+      const list = await execFileAsync(command, ["-list", "format"], {
+        timeout: 10_000,
+        maxBuffer: 4 * 1024 * 1024,
+      }).catch(() => ({ stdout: "" }));
+      return {
+        available: true,
+        command,
+        version,
+        formats: parseMagickFormats(list.stdout),
+      };
+    } catch {
+      // Not installed under this name; try the next one
+    }
+  }
+  return { available: false, formats: { read: [], write: [] } };
+}
+
+/**
+ * Report ImageMagick's version and formats and Jimp's fallback formats and
+ * limits. Cached for a few minutes since probing spawns ImageMagick.
+ */
+export function getEngineInfo(): Promise<EngineInfo> {
+  if (
+    !engineInfoCache ||
+    Date.now() - engineInfoCache.at > ENGINE_INFO_TTL_MS
+  ) {
+    const info = probeMagick().then((magick) => ({
+      defaultEngine: magick.available ? ("magick" as const) : ("jimp" as const),
+      magick,
+      jimp: {
+        formats: {
+          read: jimpFormats(Jimp.decoders),
+          write: jimpFormats(Jimp.encoders),
+        },
+        limits: JIMP_LIMITS,
+      },
+    }));
+    engineInfoCache = { at: Date.now(), info };
+    // Do not keep a failed probe around
+    info.catch(() => {
+      engineInfoCache = null;
+    });
+  }
+  return engineInfoCache.info;
+}
+
 /**
- * Ensure an image processing engine is selected and available.
- * - Prefers ImageMagick if present
- * - Falls back to Jimp when ImageMagick is unavailable
+ * Decide which image processing engine a run uses.
+ * - "auto" prefers ImageMagick if present and falls back to Jimp
+ * - "jimp" is always available
+ * - "magick" throws when ImageMagick is not installed
  *
- * Returns details about the engine decision to surface in UX/logs.
+ * Only decides; the process-wide engine is switched by withImageEngine so
+ * concurrent runs cannot change it under each other. Returns details about
+ * the decision to surface in UX/logs.
  */
-export async function ensureImageEngine(): Promise<{
-  engine: "magick" | "jimp";
+export async function ensureImageEngine(
+  preference: EnginePreference = "auto",
+): Promise<{
+  engine: ImageEngine;
   available: boolean; // whether ImageMagick is available
   note?: string;
 }> {
+  let available: boolean;
+  let detectionError: string | undefined;
   try {
-    const available = await ImageProcessor.checkImageMagick();
-    if (available) {
-      ImageProcessor.setEngine("magick");
-      return {
-        engine: "magick",
-        available: true,
-        note: "Using ImageMagick engine.",
-      };
+    available = await ImageProcessor.checkImageMagick();
+  } catch (err) {
+    available = false;
+    detectionError = err instanceof Error ? err.message : String(err);
+  }
+
+  if (preference === "magick") {
+    if (!available) {
+      throw new Error(
+        "ImageMagick was requested but is not available on this server.",
+      );
     }
-    ImageProcessor.setEngine("jimp");
+    return { engine: "magick", available, note: "Using ImageMagick engine." };
+  }
+  if (preference === "jimp") {
     return {
       engine: "jimp",
-      available: false,
-      note: "ImageMagick not detected. Using Jimp fallback (reduced quality/features).",
+      available,
+      note: "Using Jimp engine (requested).",
     };
-  } catch (err) {
+  }
+  if (available) {
+    return {
+      engine: "magick",
+      available: true,
+      note: "Using ImageMagick engine.",
+    };
+  }
+  if (detectionError !== undefined) {
     // On unexpected error during detection, default to Jimp for safety
-    ImageProcessor.setEngine("jimp");
     return {
       engine: "jimp",
       available: false,
       note:
         "ImageMagick detection error. Defaulting to Jimp fallback. " +
-        (err instanceof Error ? err.message : String(err)),
+        detectionError,
     };
   }
+  return {
+    engine: "jimp",
+    available: false,
+    note: "ImageMagick not detected. Using Jimp fallback (reduced quality/features).",
+  };
+}
+
+// pixel-forge only has a process-wide engine switch. Runs lease it: any
+// number of runs may share the current engine, a run wanting the other one
+// waits (in arrival order) until they have all finished.
+let leasedEngine: ImageEngine | null = null;
+let leaseHolders = 0;
+const leaseQueue: Array<{ engine: ImageEngine; grant: () => void }> = [];
+
+function pumpLeases(): void {
+  while (leaseQueue.length > 0) {
+    const next = leaseQueue[0]!;
+    if (leaseHolders > 0 && leasedEngine !== next.engine) return;
+    leaseQueue.shift();
+    if (leaseHolders === 0) ImageProcessor.setEngine(next.engine);
+    leasedEngine = next.engine;
+    leaseHolders += 1;
+    next.grant();
+  }
+}
+
+/**
+ * Run `fn` with pixel-forge's ImageProcessor set to `engine`, without letting
+ * a concurrent run switch it to the other engine midway.
+ */
+export async function withImageEngine<T>(
+  engine: ImageEngine,
+  fn: () => Promise<T>,
+): Promise<T> {
+  await new Promise<void>((grant) => {
+    leaseQueue.push({ engine, grant });
+    pumpLeases();
+  });
+  try {
+    return await fn();
+  } finally {
+    leaseHolders -= 1;
+    pumpLeases();
+  }
 }
@@ -0,0 +1,279 @@
+import path from "path";
+import { DEFAULT_PUBLISH_BASE, rewriteAssetUrls } from "./publish";
+
+export type IntegrationTarget = "html" | "nextjs" | "astro" | "vue";
+
+// Where one generated file should live in each target project
+export type FilePlacement = {
+  fileName: string;
+  category: string;
+} & Record<IntegrationTarget, string>;
+
+export type IntegrationSnippets = Record<IntegrationTarget, string> & {
+  placement: FilePlacement[];
+};
+
+type TagAttrs = Record<string, string>;
+type ParsedTag = { tag: "meta" | "link"; attrs: TagAttrs };
+
+function decodeEntities(v: string): string {
+  return v
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseTag(html: string): ParsedTag | null {
+  const m = /^<(meta|link)\b([^>]*)>$/i.exec(html.trim());
+  if (!m) return null;
+  const attrs: TagAttrs = {};
+  // Bare attributes (e.g. `crossorigin`) are recorded as empty strings
+  for (const a of m[2]!.matchAll(/([a-zA-Z:-]+)(?:="([^"]*)")?/g)) {
+    attrs[a[1]!.toLowerCase()] = decodeEntities(a[2] ?? "");
+  }
+  return { tag: m[1]!.toLowerCase() as ParsedTag["tag"], attrs };
+}
+
+const IDENT_RE = /^[A-Za-z_$][\w$]*$/;
+
+// Serialize plain data as a TypeScript/JavaScript literal, two-space indented
+function toLiteral(value: unknown, indent = 0): string {
+  const pad = "  ".repeat(indent + 1);
+  const end = "  ".repeat(indent);
+  if (Array.isArray(value)) {
+    if (!value.length) return "[]";
+    const items = value.map((v) => `${pad}${toLiteral(v, indent + 1)},`);
+    return `[\n${items.join("\n")}\n${end}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (!entries.length) return "{}";
+    const items = entries.map(([k, v]) => {
+      const key = IDENT_RE.test(k) ? k : JSON.stringify(k);
+      return `${pad}${key}: ${toLiteral(v, indent + 1)},`;
+    });
+    return `{\n${items.join("\n")}\n${end}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Tags every framework already renders itself, and response headers posing as meta tags
+function isFrameworkManaged({ tag, attrs }: ParsedTag): boolean {
+  if (tag === "meta") {
+    return (
+      "charset" in attrs ||
+      "http-equiv" in attrs ||
+      attrs.name === "viewport" ||
+      attrs.name === "generator"
+    );
+  }
+  return attrs.rel === "dns-prefetch" || attrs.rel === "preconnect";
+}
+
+function iconEntry(attrs: TagAttrs) {
+  return {
+    url: attrs.href,
+    type: attrs.type,
+    sizes: attrs.sizes,
+    media: attrs.media,
+  };
+}
+
+/**
+ * Next.js App Router `metadata`/`viewport` exports (app/layout.tsx).
+ * Tags without a typed Metadata field go to `other`.
+ */
+function buildNextjs(tags: ParsedTag[]): string {
+  const icon: unknown[] = [];
+  const apple: unknown[] = [];
+  const otherIcons: unknown[] = [];
+  const openGraph: Record<string, unknown> = {};
+  const twitter: Record<string, unknown> = {};
+  const appleWebApp: Record<string, unknown> = {};
+  const other: Record<string, string> = {};
+  const metadata: Record<string, unknown> = {};
+  let themeColor: string | undefined;
+
+  for (const t of tags) {
+    const { attrs } = t;
+    if (t.tag === "link") {
+      if (attrs.rel === "icon" || attrs.rel === "shortcut icon")
+        icon.push(iconEntry(attrs));
+      else if (attrs.rel === "apple-touch-icon") apple.push(iconEntry(attrs));
+      else if (attrs.rel === "manifest") metadata.manifest = attrs.href;
+      else if (attrs.rel === "apple-touch-startup-image")
+        ((appleWebApp.startupImage ??= []) as unknown[]).push({
+          url: attrs.href,
+          media: attrs.media,
+        });
+      else if (attrs.rel)
+        otherIcons.push({
+          rel: attrs.rel,
+          url: attrs.href,
+          color: attrs.color,
+        });
+      continue;
+    }
+    const content = attrs.content ?? "";
+    const property = attrs.property;
+    if (property?.startsWith("og:")) {
+      const key = property.slice(3);
+      if (key === "image")
+        ((openGraph.images ??= []) as unknown[]).push({ url: content });
+      else openGraph[key] = content;
+      continue;
+    }
+    const name = attrs.name ?? "";
+    if (name.startsWith("twitter:")) {
+      const key = name.slice("twitter:".length);
+      const images = (twitter.images ??= []) as Array<Record<string, string>>;
+      if (key === "image") images.push({ url: content });
+      else if (key === "image:alt" && images.length)
+        images[images.length - 1]!.alt = content;
+      else twitter[key] = content;
+      continue;
+    }
+    switch (name) {
+      case "description":
+        metadata.description = content;
+        break;
+      case "application-name":
+        metadata.applicationName = content;
+        break;
+      case "referrer":
+        metadata.referrer = content;
+        break;
+      case "theme-color":
+        themeColor = content;
+        break;
+      case "apple-mobile-web-app-title":
+        appleWebApp.title = content;
+        break;
+      case "apple-mobile-web-app-capable":
+        appleWebApp.capable = content === "yes";
+        break;
+      case "apple-mobile-web-app-status-bar-style":
+        appleWebApp.statusBarStyle = content;
+        break;
+      case "format-detection":
+        metadata.formatDetection = Object.fromEntries(
+          content.split(",").map((pair) => {
+            const [k, v] = pair.split("=").map((s) => s.trim());
+            return [k, v !== "no"];
+          }),
+        );
+        break;
+      default:
+        if (name) other[name] = content;
+    }
+  }
+
+  if (icon.length || apple.length || otherIcons.length) {
+    metadata.icons = {
+      icon: icon.length ? icon : undefined,
+      apple: apple.length ? apple : undefined,
+      other: otherIcons.length ? otherIcons : undefined,
+    };
+  }
+  if (Object.keys(appleWebApp).length) metadata.appleWebApp = appleWebApp;
+  if (Object.keys(openGraph).length) metadata.openGraph = openGraph;
+  if (Object.keys(twitter).length) {
+    if (!(twitter.images as unknown[]).length) delete twitter.images;
+    metadata.twitter = twitter;
+  }
+  if (Object.keys(other).length) metadata.other = other;
+
+  const lines = [
+    'import type { Metadata, Viewport } from "next";',
+    "",
+    `export const metadata: Metadata = ${toLiteral(metadata)};`,
+  ];
+  if (themeColor) {
+    lines.push(
+      "",
+      `export const viewport: Viewport = ${toLiteral({ themeColor })};`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Astro component for the layout <head> (src/components/SiteHead.astro).
+ * Charset/viewport are left to the layout, as in Astro's starter templates.
+ */
+function buildAstro(html: string[]): string {
+  return [
+    "---",
+    "// src/components/SiteHead.astro: render inside <head> in your layout",
+    "---",
+    ...html,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Vue 3 `useHead` call (@unhead/vue; auto-imported in Nuxt).
+ */
+function buildVue(tags: ParsedTag[]): string {
+  const meta = tags.filter((t) => t.tag === "meta").map((t) => t.attrs);
+  const link = tags.filter((t) => t.tag === "link").map((t) => t.attrs);
+  return [
+    '<script setup lang="ts">',
+    'import { useHead } from "@unhead/vue";',
+    "",
+    `useHead(${toLiteral({ meta: meta.length ? meta : undefined, link: link.length ? link : undefined })});`,
+    "</script>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Where a file must end up so it is served at `publishBase + fileName`.
+ * Absolute bases (CDNs) are uploaded as-is; path bases live under the
+ * project's static directory.
+ */
+function placeFile(publishBase: string, fileName: string, staticDir: string) {
+  if (!publishBase.startsWith("/")) return `${publishBase}${fileName}`;
+  return path.posix.join(staticDir, publishBase, fileName);
+}
+
+/**
+ * Build ready-to-paste integration code for each supported target from the
+ * generated meta tags.
+ *
+ * `assetBase` is the URL prefix pixel-forge wrote into the tags (the session
+ * file route); it is replaced by `publishBase`, where the files will be served
+ * from on the user's site.
+ */
+export function buildIntegrationSnippets(params: {
+  tags: string[];
+  assetBase: string;
+  publishBase?: string;
+  files: Array<{ fileName: string; category: string }>;
+}): IntegrationSnippets {
+  const publishBase = params.publishBase ?? DEFAULT_PUBLISH_BASE;
+  const html = params.tags.map((t) =>
+    rewriteAssetUrls(t, params.assetBase, publishBase),
+  );
+  // extractMetaTags only yields <meta>/<link> tags, so every entry parses
+  const parsed = html.map((t) => parseTag(t)!);
+  const framework = parsed.filter((t) => !isFrameworkManaged(t));
+
+  const placement = params.files.map(({ fileName, category }) => ({
+    fileName,
+    category,
+    html: placeFile(publishBase, fileName, "/"),
+    nextjs: placeFile(publishBase, fileName, "public"),
+    astro: placeFile(publishBase, fileName, "public"),
+    vue: placeFile(publishBase, fileName, "public"),
+  }));
+
+  return {
+    html: html.join("\n") + "\n",
+    nextjs: buildNextjs(framework),
+    astro: buildAstro(html.filter((_, i) => !isFrameworkManaged(parsed[i]!))),
+    vue: buildVue(framework),
+    placement,
+  };
+}
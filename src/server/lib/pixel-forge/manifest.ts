@@ -0,0 +1,513 @@
+import path from "path";
+import Jimp from "jimp";
+import { readLogo } from "./raster";
+
+export const DISPLAY_MODES = [
+  "fullscreen",
+  "standalone",
+  "minimal-ui",
+  "browser",
+] as const;
+
+export const DISPLAY_OVERRIDE_MODES = [
+  ...DISPLAY_MODES,
+  "window-controls-overlay",
+  "tabbed",
+] as const;
+
+export const ORIENTATIONS = [
+  "any",
+  "natural",
+  "landscape",
+  "landscape-primary",
+  "landscape-secondary",
+  "portrait",
+  "portrait-primary",
+  "portrait-secondary",
+] as const;
+
+// W3C "known categories" list (Manifest App Information)
+export const KNOWN_CATEGORIES = [
+  "books",
+  "business",
+  "education",
+  "entertainment",
+  "finance",
+  "fitness",
+  "food",
+  "games",
+  "government",
+  "health",
+  "kids",
+  "lifestyle",
+  "magazines",
+  "medical",
+  "music",
+  "navigation",
+  "news",
+  "personalization",
+  "photo",
+  "politics",
+  "productivity",
+  "security",
+  "shopping",
+  "social",
+  "sports",
+  "travel",
+  "utilities",
+  "weather",
+];
+
+export type ManifestShortcut = {
+  name: string;
+  short_name?: string;
+  description?: string;
+  url: string;
+};
+
+export type ManifestScreenshot = {
+  src: string;
+  sizes?: string;
+  type?: string;
+  form_factor?: "narrow" | "wide";
+  label?: string;
+};
+
+/**
+ * Members set from the manifest editor; they replace pixel-forge's defaults.
+ */
+export type ManifestEdits = {
+  name?: string;
+  short_name?: string;
+  start_url?: string;
+  scope?: string;
+  display?: (typeof DISPLAY_MODES)[number];
+  display_override?: Array<(typeof DISPLAY_OVERRIDE_MODES)[number]>;
+  orientation?: (typeof ORIENTATIONS)[number];
+  categories?: string[];
+  shortcuts?: ManifestShortcut[];
+  screenshots?: ManifestScreenshot[];
+};
+
+export type ManifestIssue = {
+  severity: "error" | "warning";
+  // "spec": the member is invalid and browsers ignore it
+  // "installability": valid, but keeps the app from being installable or from the rich install UI
+  kind: "spec" | "installability";
+  path: string; // e.g. "shortcuts[1].url"
+  message: string;
+};
+
+type ManifestIcon = { src: string; sizes: string; type: string };
+
+const SHORTCUT_ICON_SIZES = [96, 192];
+const INSTALLABLE_DISPLAYS = ["fullscreen", "standalone", "minimal-ui"];
+
+/**
+ * True when the editor set anything; blank inputs do not count.
+ */
+export function hasManifestEdits(edits?: ManifestEdits): boolean {
+  if (!edits) return false;
+  return Object.values(edits).some((v) =>
+    Array.isArray(v) ? v.length > 0 : typeof v === "string" && v.trim() !== "",
+  );
+}
+
+/**
+ * Render the icon shared by every shortcut: the logo contained in a
+ * transparent square, at 96x96 (the size browsers ask for) and 192x192.
+ */
+export async function renderShortcutIcons(params: {
+  sourcePath: string;
+  fallbackSources?: string[];
+  outDir: string;
+}): Promise<string[]> {
+  const source = await readLogo(params.sourcePath, params.fallbackSources);
+  const files: string[] = [];
+  for (const size of SHORTCUT_ICON_SIZES) {
+    const fileName = `shortcut-icon-${size}x${size}.png`;
+    await source
+      .clone()
+      .contain(
+        size,
+        size,
+        Jimp.HORIZONTAL_ALIGN_CENTER | Jimp.VERTICAL_ALIGN_MIDDLE,
+      )
+      .writeAsync(path.join(params.outDir, fileName));
+    files.push(fileName);
+  }
+  return files;
+}
+
+/**
+ * Apply editor members onto a manifest in place. Blank strings and empty
+ * lists leave the existing member alone. Shortcuts get `shortcutIcons` (the
+ * files from renderShortcutIcons, under `urlPrefix`).
+ */
+export function applyManifestEdits(
+  manifest: Record<string, unknown>,
+  edits: ManifestEdits,
+  shortcutIcons: string[] = [],
+  urlPrefix = "",
+): Record<string, unknown> {
+  for (const key of [
+    "name",
+    "short_name",
+    "start_url",
+    "scope",
+    "display",
+    "orientation",
+  ] as const) {
+    const v = edits[key]?.trim();
+    if (v) manifest[key] = v;
+  }
+  if (edits.display_override?.length) {
+    manifest.display_override = [...new Set(edits.display_override)];
+  }
+  if (edits.categories?.length) {
+    manifest.categories = [
+      ...new Set(edits.categories.map((c) => c.trim().toLowerCase())),
+    ].filter(Boolean);
+  }
+  if (edits.shortcuts?.length) {
+    const icons: ManifestIcon[] = shortcutIcons.map((f) => {
+      const size = /(\d+)x\1\.png$/.exec(f)?.[1];
+      return {
+        src: `${urlPrefix}${f}`,
+        sizes: size ? `${size}x${size}` : "any",
+        type: "image/png",
+      };
+    });
+    manifest.shortcuts = edits.shortcuts.map((s) =>
+      dropBlank({
+        name: s.name,
+        short_name: s.short_name,
+        description: s.description,
+        url: s.url,
+        icons: icons.length ? icons : undefined,
+      }),
+    );
+  }
+  if (edits.screenshots?.length) {
+    manifest.screenshots = edits.screenshots.map((s) =>
+      dropBlank({
+        src: s.src,
+        sizes: s.sizes,
+        type: s.type ?? guessImageType(s.src),
+        form_factor: s.form_factor,
+        label: s.label,
+      }),
+    );
+  }
+  return manifest;
+}
+
+function dropBlank(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(obj)
+      .map(([k, v]): [string, unknown] => [
+        k,
+        typeof v === "string" ? v.trim() : v,
+      ])
+      .filter(([, v]) => v !== undefined && v !== ""),
+  );
+}
+
+function guessImageType(src: string): string | undefined {
+  const ext = path.posix.extname(src.split(/[?#]/)[0] ?? "").toLowerCase();
+  return {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".webp": "image/webp",
+  }[ext];
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+function parseUrl(v: string, base: URL): URL | null {
+  try {
+    return new URL(v, base);
+  } catch {
+    return null;
+  }
+}
+
+// Manifest spec "within scope": same origin and the path starts with scope's path
+function withinScope(url: URL, scope: URL): boolean {
+  return url.origin === scope.origin && url.pathname.startsWith(scope.pathname);
+}
+
+function parseSizes(sizes: string): Array<[number, number]> | null {
+  const out: Array<[number, number]> = [];
+  for (const token of sizes.trim().split(/\s+/)) {
+    if (token.toLowerCase() === "any") continue;
+    const m = /^(\d+)[xX](\d+)$/.exec(token);
+    if (!m) return null;
+    out.push([Number(m[1]), Number(m[2])]);
+  }
+  return out;
+}
+
+/**
+ * Check a manifest against the Web App Manifest spec and browser
+ * installability criteria. URLs resolve against `baseUrl` (where the manifest
+ * will be published); `checkIcons: false` skips icon checks for manifests
+ * whose icons are not generated yet.
+ */
+export function validateManifest(
+  manifest: Record<string, unknown>,
+  options: { baseUrl?: string; checkIcons?: boolean } = {},
+): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const error = (kind: ManifestIssue["kind"], p: string, message: string) =>
+    issues.push({ severity: "error", kind, path: p, message });
+  const warn = (kind: ManifestIssue["kind"], p: string, message: string) =>
+    issues.push({ severity: "warning", kind, path: p, message });
+
+  const manifestUrl = new URL(
+    "manifest.json",
+    new URL(options.baseUrl ?? "/", "https://site.invalid/"),
+  );
+
+  // Names
+  const name = str(manifest.name);
+  const shortName = str(manifest.short_name);
+  if (!name && !shortName) {
+    error(
+      "installability",
+      "name",
+      "Set name or short_name; browsers do not offer to install an app without one.",
+    );
+  }
+  if (shortName && shortName.length > 12) {
+    warn(
+      "installability",
+      "short_name",
+      "Longer than 12 characters; home screens may truncate it.",
+    );
+  }
+
+  // start_url and scope
+  const startRaw = str(manifest.start_url);
+  const start = startRaw ? parseUrl(startRaw, manifestUrl) : null;
+  if (startRaw && !start) {
+    error("spec", "start_url", "Not a valid URL; browsers ignore it.");
+  } else if (!startRaw) {
+    warn(
+      "installability",
+      "start_url",
+      "Not set; the installed app opens on whatever page it was installed from.",
+    );
+  }
+  const scopeRaw = str(manifest.scope);
+  let scope = scopeRaw ? parseUrl(scopeRaw, manifestUrl) : null;
+  if (scopeRaw && !scope) {
+    error("spec", "scope", "Not a valid URL; browsers ignore it.");
+  } else if (scopeRaw && scope?.search) {
+    warn("spec", "scope", "Query strings are ignored in scope.");
+  }
+  if (start && scope && !withinScope(start, scope)) {
+    error(
+      "spec",
+      "scope",
+      `start_url (${start.pathname}) is outside scope (${scope.pathname}); browsers ignore scope.`,
+    );
+    scope = null;
+  }
+  // Without a usable scope, browsers use the start_url's directory
+  scope ??= parseUrl(".", start ?? manifestUrl);
+
+  // Display
+  const display = str(manifest.display);
+  if (display && !(DISPLAY_MODES as readonly string[]).includes(display)) {
+    error(
+      "spec",
+      "display",
+      `"${display}" is not a display mode; browsers use "browser".`,
+    );
+  }
+  const overrides = Array.isArray(manifest.display_override)
+    ? (manifest.display_override as unknown[])
+    : [];
+  overrides.forEach((mode, i) => {
+    if (!(DISPLAY_OVERRIDE_MODES as readonly unknown[]).includes(mode)) {
+      warn(
+        "spec",
+        `display_override[${i}]`,
+        `"${String(mode)}" is not a known display mode; browsers skip it.`,
+      );
+    }
+  });
+  if (
+    ![display ?? "browser", ...overrides].some(
+      (m) => typeof m === "string" && INSTALLABLE_DISPLAYS.includes(m),
+    )
+  ) {
+    error(
+      "installability",
+      "display",
+      "Use standalone, fullscreen or minimal-ui (directly or in display_override) to make the app installable.",
+    );
+  }
+
+  const orientation = str(manifest.orientation);
+  if (
+    orientation &&
+    !(ORIENTATIONS as readonly string[]).includes(orientation)
+  ) {
+    error(
+      "spec",
+      "orientation",
+      `"${orientation}" is not an orientation; browsers ignore it.`,
+    );
+  }
+
+  if (manifest.categories !== undefined) {
+    if (!Array.isArray(manifest.categories)) {
+      error("spec", "categories", "Must be a list of strings.");
+    } else {
+      (manifest.categories as unknown[]).forEach((c, i) => {
+        if (typeof c !== "string") {
+          error("spec", `categories[${i}]`, "Must be a string.");
+        } else if (!KNOWN_CATEGORIES.includes(c)) {
+          warn(
+            "spec",
+            `categories[${i}]`,
+            `"${c}" is not a W3C known category; stores may ignore it.`,
+          );
+        }
+      });
+    }
+  }
+
+  // Icons: Chromium wants a 192px and a 512px icon usable as "any"
+  if (options.checkIcons !== false) {
+    const sizes: number[] = [];
+    const icons = Array.isArray(manifest.icons)
+      ? (manifest.icons as Array<Record<string, unknown>>)
+      : [];
+    for (const icon of icons) {
+      const purpose = str(icon.purpose) ?? "any";
+      if (!purpose.split(/\s+/).includes("any")) continue;
+      for (const [w, h] of parseSizes(str(icon.sizes) ?? "") ?? []) {
+        if (w === h) sizes.push(w);
+      }
+    }
+    for (const min of [192, 512]) {
+      if (!sizes.some((s) => s >= min)) {
+        error(
+          "installability",
+          "icons",
+          `Add a square ${min}x${min} (or larger) icon with purpose "any".`,
+        );
+      }
+    }
+  }
+
+  // Shortcuts
+  const shortcuts = Array.isArray(manifest.shortcuts)
+    ? (manifest.shortcuts as Array<Record<string, unknown>>)
+    : [];
+  shortcuts.forEach((s, i) => {
+    const p = `shortcuts[${i}]`;
+    if (!str(s.name)) {
+      error("spec", `${p}.name`, "Required; browsers drop the shortcut.");
+    }
+    const urlRaw = str(s.url);
+    const url = urlRaw ? parseUrl(urlRaw, manifestUrl) : null;
+    if (!url) {
+      error(
+        "spec",
+        `${p}.url`,
+        urlRaw
+          ? "Not a valid URL; browsers drop the shortcut."
+          : "Required; browsers drop the shortcut.",
+      );
+    } else if (scope && !withinScope(url, scope)) {
+      error(
+        "spec",
+        `${p}.url`,
+        `${url.pathname} is outside the app scope (${scope.pathname}); browsers drop the shortcut.`,
+      );
+    }
+    const icons = Array.isArray(s.icons)
+      ? (s.icons as Array<Record<string, unknown>>)
+      : [];
+    if (
+      !icons.some((icon) => str(icon.sizes)?.split(/\s+/).includes("96x96"))
+    ) {
+      warn("installability", `${p}.icons`, "Add a 96x96 icon.");
+    }
+  });
+
+  // Screenshots (Chromium's richer install dialog)
+  const screenshots = Array.isArray(manifest.screenshots)
+    ? (manifest.screenshots as Array<Record<string, unknown>>)
+    : [];
+  screenshots.forEach((s, i) => {
+    const p = `screenshots[${i}]`;
+    const src = str(s.src);
+    if (!src || !parseUrl(src, manifestUrl)) {
+      error(
+        "spec",
+        `${p}.src`,
+        src ? "Not a valid URL; browsers drop the screenshot." : "Required.",
+      );
+    }
+    const formFactor = str(s.form_factor);
+    if (formFactor && formFactor !== "wide" && formFactor !== "narrow") {
+      error("spec", `${p}.form_factor`, 'Must be "wide" or "narrow".');
+    }
+    const rawSizes = str(s.sizes);
+    const sizes = rawSizes ? parseSizes(rawSizes) : null;
+    if (rawSizes && !sizes) {
+      error("spec", `${p}.sizes`, 'Expected sizes like "1280x720".');
+    } else if (!sizes?.length) {
+      warn(
+        "installability",
+        `${p}.sizes`,
+        "Set sizes; the install dialog skips screenshots without them.",
+      );
+    } else {
+      for (const [w, h] of sizes) {
+        if (
+          Math.min(w, h) < 320 ||
+          Math.max(w, h) > 3840 ||
+          Math.max(w, h) / Math.min(w, h) > 2.3
+        ) {
+          warn(
+            "installability",
+            `${p}.sizes`,
+            `${w}x${h} is outside 320-3840px or wider than 2.3:1; the install dialog skips it.`,
+          );
+        }
+      }
+    }
+  });
+  if (!screenshots.length) {
+    warn(
+      "installability",
+      "screenshots",
+      "Add screenshots to get the richer install dialog.",
+    );
+  } else if (!screenshots.some((s) => s.form_factor === "wide")) {
+    warn(
+      "installability",
+      "screenshots",
+      'Add a screenshot with form_factor "wide" for the desktop install dialog.',
+    );
+  }
+
+  if (manifest.prefer_related_applications === true) {
+    error(
+      "installability",
+      "prefer_related_applications",
+      "Browsers point users at the native app instead of installing this one.",
+    );
+  }
+
+  return issues;
+}
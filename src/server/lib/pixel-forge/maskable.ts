@@ -0,0 +1,123 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Jimp from "jimp";
+import { opaqueColor, readLogo } from "./raster";
+
+export type MaskableOptions = {
+  padding?: number; // % of the icon size on each side, 0-40
+  scale?: number; // zoom applied to the logo inside the padded area, 0.5-1.5
+  background?: string; // hex; maskable icons must be full-bleed, so no transparency
+};
+
+// 20% padding keeps a contained logo inside the 80% safe-zone circle for most shapes
+export const DEFAULT_MASKABLE_PADDING = 20;
+const DEFAULT_BACKGROUND = "#ffffff";
+
+const MASKABLE_RE = /^pwa-maskable-(\d+)x(\d+)\.png$/i;
+
+export function isMaskableIcon(fileName: string): boolean {
+  return MASKABLE_RE.test(fileName);
+}
+
+/**
+ * Size of the logo box inside a maskable icon of `size` pixels.
+ */
+export function maskableContentSize(
+  size: number,
+  options: MaskableOptions = {},
+): number {
+  const padding = options.padding ?? DEFAULT_MASKABLE_PADDING;
+  const scale = options.scale ?? 1;
+  const safe = size * (1 - (2 * padding) / 100);
+  return Math.max(1, Math.min(size, Math.round(safe * scale)));
+}
+
+/**
+ * Re-render pixel-forge's maskable icons (which it fits edge to edge, so
+ * launchers clip them) with a safe-zone padding, logo scale and opaque
+ * background fill. `files` are the output file names of this run; returns
+ * the maskable ones, which were rewritten.
+ *
+ * `fallbackSource` is used when the upload cannot be decoded here (e.g. SVG);
+ * pass the largest regular PWA icon pixel-forge produced.
+ */
+export async function renderMaskableIcons(params: {
+  sourcePath: string;
+  fallbackSource?: string;
+  outDir: string;
+  files: string[];
+  options?: MaskableOptions;
+}): Promise<string[]> {
+  const targets = [...new Set(params.files.filter(isMaskableIcon))].sort();
+  if (!targets.length) return [];
+
+  const source = await readLogo(
+    params.sourcePath,
+    params.fallbackSource ? [params.fallbackSource] : [],
+  );
+  // Maskable icons are shown on arbitrary launchers; the fill is forced opaque
+  const background = opaqueColor(
+    params.options?.background ?? DEFAULT_BACKGROUND,
+  );
+
+  for (const fileName of targets) {
+    const size = Number(MASKABLE_RE.exec(fileName)![1]);
+    const content = maskableContentSize(size, params.options);
+    const logo = source
+      .clone()
+      .contain(
+        content,
+        content,
+        Jimp.HORIZONTAL_ALIGN_CENTER | Jimp.VERTICAL_ALIGN_MIDDLE,
+      );
+    const offset = Math.floor((size - content) / 2);
+    const canvas = new Jimp(size, size, background).composite(
+      logo,
+      offset,
+      offset,
+    );
+    await canvas.writeAsync(path.join(params.outDir, fileName));
+  }
+  return targets;
+}
+
+/**
+ * Make sure every maskable icon is listed in the manifest with
+ * `purpose: "maskable"`, and regular icons are not advertised as maskable.
+ */
+export async function applyMaskableToManifest(
+  manifestPath: string,
+  maskableFiles: string[],
+  urlPrefix: string,
+): Promise<void> {
+  const raw = await fs.readFile(manifestPath, "utf8");
+  const manifest = JSON.parse(raw) as {
+    icons?: Array<Record<string, unknown>>;
+  };
+  const icons = manifest.icons ?? [];
+  for (const icon of icons) {
+    const src =
+      typeof icon.src === "string" ? path.posix.basename(icon.src) : "";
+    if (!isMaskableIcon(src) && icon.purpose === "maskable")
+      icon.purpose = "any";
+  }
+  for (const fileName of maskableFiles) {
+    const existing = icons.find(
+      (i) =>
+        typeof i.src === "string" && path.posix.basename(i.src) === fileName,
+    );
+    if (existing) {
+      existing.purpose = "maskable";
+      continue;
+    }
+    const [, w, h] = MASKABLE_RE.exec(fileName)!;
+    icons.push({
+      src: `${urlPrefix}${fileName}`,
+      sizes: `${w}x${h}`,
+      type: "image/png",
+      purpose: "maskable",
+    });
+  }
+  manifest.icons = icons;
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf8");
+}
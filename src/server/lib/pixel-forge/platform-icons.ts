@@ -0,0 +1,215 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Jimp from "jimp";
+import { appendHeadSection } from "./branding";
+import { readLogo } from "./raster";
+
+export const SAFARI_PINNED_TAB = "safari-pinned-tab.svg";
+export const BROWSERCONFIG_FILE = "browserconfig.xml";
+
+type Tile = {
+  fileName: string;
+  width: number;
+  height: number;
+  // browserconfig.xml element; the 144px tile is the Windows 8 TileImage meta
+  element?: string;
+};
+
+export const MS_TILES: Tile[] = [
+  {
+    fileName: "mstile-70x70.png",
+    width: 70,
+    height: 70,
+    element: "square70x70logo",
+  },
+  { fileName: "mstile-144x144.png", width: 144, height: 144 },
+  {
+    fileName: "mstile-150x150.png",
+    width: 150,
+    height: 150,
+    element: "square150x150logo",
+  },
+  {
+    fileName: "mstile-310x150.png",
+    width: 310,
+    height: 150,
+    element: "wide310x150logo",
+  },
+  {
+    fileName: "mstile-310x310.png",
+    width: 310,
+    height: 310,
+    element: "square310x310logo",
+  },
+];
+
+// Windows paints the tile color behind a transparent logo; keep it inside
+// the area the Start menu leaves clear of the tile label
+const TILE_LOGO_SCALE = 0.5;
+
+// Pinned-tab mask resolution; Safari draws it at most a few dozen px wide
+const MASK_GRID = 64;
+
+const DEFAULT_MASK_COLOR = "#000000";
+const DEFAULT_TILE_COLOR = "#ffffff";
+
+export type PlatformIconColors = {
+  maskColor?: string; // mask-icon color, from themeColor
+  tileColor?: string; // msapplication-TileColor, from themeColor
+};
+
+type Rgba = { r: number; g: number; b: number; a: number };
+
+function colorDistance(a: Rgba, b: Rgba): number {
+  return Math.max(
+    Math.abs(a.r - b.r),
+    Math.abs(a.g - b.g),
+    Math.abs(a.b - b.b),
+  );
+}
+
+// A flat, opaque backdrop (e.g. a logo on white in a JPEG) is not part of the
+// silhouette; returns null when the corners disagree or are transparent
+function detectBackground(image: Jimp): Rgba | null {
+  const { width, height } = image.bitmap;
+  const corners = [
+    [0, 0],
+    [width - 1, 0],
+    [0, height - 1],
+    [width - 1, height - 1],
+  ].map(([x, y]) => Jimp.intToRGBA(image.getPixelColor(x!, y!)));
+  const first = corners[0]!;
+  if (corners.some((c) => c.a < 250 || colorDistance(c, first) > 16)) {
+    return null;
+  }
+  return first;
+}
+
+/**
+ * Trace a logo into the single-color vector Safari requires for pinned tabs:
+ * one black path of the logo's visible pixels on a square grid. Safari fills
+ * it with the `mask-icon` color.
+ */
+export function traceMaskSvg(logo: Jimp, grid = MASK_GRID): string {
+  const background = detectBackground(logo);
+  const canvas = new Jimp(grid, grid, 0x00000000).composite(
+    logo
+      .clone()
+      .contain(
+        grid,
+        grid,
+        Jimp.HORIZONTAL_ALIGN_CENTER | Jimp.VERTICAL_ALIGN_MIDDLE,
+      ),
+    0,
+    0,
+  );
+
+  const trace = (bg: Rgba | null) => {
+    let d = "";
+    for (let y = 0; y < grid; y++) {
+      let start = -1;
+      for (let x = 0; x <= grid; x++) {
+        const c =
+          x < grid ? Jimp.intToRGBA(canvas.getPixelColor(x, y)) : undefined;
+        const on = !!c && c.a >= 128 && (!bg || colorDistance(c, bg) > 48);
+        if (on && start < 0) start = x;
+        if (!on && start >= 0) {
+          d += `M${start} ${y}h${x - start}v1h-${x - start}z`;
+          start = -1;
+        }
+      }
+    }
+    return d;
+  };
+
+  // A logo that is all backdrop (a solid square) keeps its outline instead
+  const d = trace(background) || trace(null);
+  if (!d) throw new Error("Logo has no visible pixels to trace");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${grid} ${grid}"><path d="${d}"/></svg>\n`;
+}
+
+/**
+ * Render the monochrome Safari pinned-tab mask and the Microsoft tile PNGs
+ * into `outDir`. Returns the written file names (without browserconfig.xml).
+ *
+ * `fallbackSources` are tried when the upload cannot be decoded here; pass
+ * raster icons pixel-forge produced in this run.
+ */
+export async function renderPlatformIcons(params: {
+  sourcePath: string;
+  fallbackSources?: string[];
+  outDir: string;
+}): Promise<string[]> {
+  const logo = await readLogo(params.sourcePath, params.fallbackSources);
+
+  await fs.writeFile(
+    path.join(params.outDir, SAFARI_PINNED_TAB),
+    traceMaskSvg(logo),
+    "utf8",
+  );
+
+  for (const tile of MS_TILES) {
+    const box = Math.round(Math.min(tile.width, tile.height) * TILE_LOGO_SCALE);
+    const mark = logo
+      .clone()
+      .contain(
+        box,
+        box,
+        Jimp.HORIZONTAL_ALIGN_CENTER | Jimp.VERTICAL_ALIGN_MIDDLE,
+      );
+    const canvas = new Jimp(tile.width, tile.height, 0x00000000).composite(
+      mark,
+      Math.floor((tile.width - box) / 2),
+      Math.floor((tile.height - box) / 2),
+    );
+    await canvas.writeAsync(path.join(params.outDir, tile.fileName));
+  }
+  return [SAFARI_PINNED_TAB, ...MS_TILES.map((t) => t.fileName)];
+}
+
+/**
+ * browserconfig.xml for Windows Start menu tiles, pointing at `urlPrefix`.
+ */
+export function buildBrowserConfig(
+  urlPrefix: string,
+  tileColor?: string,
+): string {
+  const logos = MS_TILES.filter((t) => t.element).map(
+    (t) => `      <${t.element} src="${urlPrefix}${t.fileName}"/>`,
+  );
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<browserconfig>",
+    "  <msapplication>",
+    "    <tile>",
+    ...logos,
+    `      <TileColor>${tileColor ?? DEFAULT_TILE_COLOR}</TileColor>`,
+    "    </tile>",
+    "  </msapplication>",
+    "</browserconfig>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Add the mask-icon link (unless pixel-forge's favicon run already has one)
+ * and the msapplication tile metas to meta-tags.html.
+ */
+export function appendPlatformIconTags(
+  html: string,
+  urlPrefix: string,
+  colors: PlatformIconColors = {},
+): string {
+  const tags: string[] = [];
+  if (!html.includes('rel="mask-icon"')) {
+    tags.push(
+      `<link rel="mask-icon" href="${urlPrefix}${SAFARI_PINNED_TAB}" color="${colors.maskColor ?? DEFAULT_MASK_COLOR}">`,
+    );
+  }
+  tags.push(
+    `<meta name="msapplication-TileColor" content="${colors.tileColor ?? DEFAULT_TILE_COLOR}">`,
+    `<meta name="msapplication-TileImage" content="${urlPrefix}mstile-144x144.png">`,
+    `<meta name="msapplication-config" content="${urlPrefix}${BROWSERCONFIG_FILE}">`,
+  );
+  return appendHeadSection(html, "Safari & Windows", tags);
+}
@@ -0,0 +1,148 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export type GenerationType =
+  | "favicon"
+  | "pwa"
+  | "social"
+  | "seo"
+  | "web"
+  | "splash"
+  | "platform"
+  | "all";
+
+// Files written per generator (excluding meta-tags.html and pixel-forge's *-temp scratch files)
+const FILES_PER_GENERATOR = {
+  favicon: 7, // favicon.ico/.svg, 16/32/48 PNGs, apple-touch-icon, safari-pinned-tab.svg
+  pwa: 7, // 4 icons (2 maskable), 2 Android splash screens, manifest.json
+  social: 3, // social-media-general, instagram-square, social-vertical
+  seo: 3, // og-image, opengraph, twitter-image
+  splash: 40, // iOS startup images, rendered by startup-images.ts rather than pixel-forge
+  platform: 7, // safari-pinned-tab.svg, 5 mstile PNGs, browserconfig.xml (platform-icons.ts)
+} as const;
+
+type Generator = keyof typeof FILES_PER_GENERATOR;
+
+// Types rendered here after pixel-forge runs; a run of only these skips pixel-forge
+export const LOCAL_GENERATION_TYPES: GenerationType[] = ["splash", "platform"];
+
+// "web" and "all" are bundles of pixel-forge's generators; "all" leaves out
+// the iOS splash screens and legacy Safari/Windows icons, which are opt-in
+const EXPANSIONS: Record<GenerationType, Generator[]> = {
+  favicon: ["favicon"],
+  pwa: ["pwa"],
+  social: ["social"],
+  seo: ["seo"],
+  splash: ["splash"],
+  platform: ["platform"],
+  web: ["favicon", "pwa", "seo"],
+  all: ["favicon", "pwa", "social", "seo"],
+};
+
+const ASSET_RE = /\.(png|jpe?g|webp|avif|svg|ico|json|xml|html)$/i;
+// pixel-forge scratch files: favicon-temp.png, transparent pass *.png.tmp
+const SCRATCH_RE = /(-temp\.[a-z]+|\.tmp)$/i;
+
+/**
+ * Expected number of output files for a run, used as the progress denominator.
+ * Only an estimate: callers should grow it if more files show up.
+ */
+export function estimateAssetCount(
+  types: Iterable<GenerationType>,
+  transparent?: boolean,
+): number {
+  const generators = new Set<Generator>();
+  for (const t of types) EXPANSIONS[t].forEach((g) => generators.add(g));
+  let total = 0;
+  for (const g of generators) total += FILES_PER_GENERATOR[g];
+  // Transparent alone writes one image; otherwise it rewrites pixel-forge's files in place
+  if (
+    transparent &&
+    [...generators].every((g) => LOCAL_GENERATION_TYPES.includes(g))
+  )
+    total += 1;
+  return total + 1; // meta-tags.html
+}
+
+/**
+ * Result category for an output file, mirroring how pixel-forge groups its
+ * `files` result. Returns null for files that are not previewable assets.
+ */
+export function categorizeAsset(fileName: string): string | null {
+  const f = fileName.toLowerCase();
+  if (f.startsWith("apple-startup-")) return "splash";
+  if (f.startsWith("mstile-")) return "platform";
+  if (
+    f.includes("favicon") ||
+    f.includes("apple-touch") ||
+    f.includes("safari")
+  )
+    return "favicon";
+  if (f.includes("pwa-") || f.includes("splash-") || f === "manifest.json")
+    return "pwa";
+  if (
+    f.includes("social-") ||
+    f.includes("og-") ||
+    f.includes("twitter-") ||
+    f.includes("instagram-") ||
+    f.includes("opengraph")
+  )
+    return "social";
+  if (f.includes("transparent")) return "transparent";
+  return null;
+}
+
+/**
+ * Report output files as pixel-forge writes them into `dir`.
+ *
+ * pixel-forge's own progress hook is internal (and claimed by its CLI progress
+ * bar), so this polls the directory instead. A file is reported once it is
+ * modified after the watch started and its size is stable across two polls;
+ * `stop()` runs a final scan and reports whatever is left.
+ */
+export function watchGeneratedFiles(
+  dir: string,
+  onFile: (fileName: string) => Promise<void> | void,
+  intervalMs = 150,
+): { stop: () => Promise<void> } {
+  const startedAt = Date.now();
+  const sizes = new Map<string, number>();
+  const reported = new Set<string>();
+  let scanning: Promise<void> | null = null;
+
+  const scan = async (final: boolean) => {
+    const entries = await fs.readdir(dir).catch(() => [] as string[]);
+    for (const name of entries.sort()) {
+      if (reported.has(name) || !ASSET_RE.test(name) || SCRATCH_RE.test(name))
+        continue;
+      const st = await fs.stat(path.join(dir, name)).catch(() => null);
+      // Skip leftovers from a previous run in the same session
+      if (!st || st.size === 0 || st.mtimeMs < startedAt - 1000) continue;
+      if (final || sizes.get(name) === st.size) {
+        reported.add(name);
+        try {
+          await onFile(name);
+        } catch {
+          // Progress reporting must never break generation
+        }
+      } else {
+        sizes.set(name, st.size);
+      }
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (scanning) return;
+    scanning = scan(false).finally(() => {
+      scanning = null;
+    });
+  }, intervalMs);
+
+  return {
+    stop: async () => {
+      clearInterval(timer);
+      if (scanning) await scanning;
+      await scan(true);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// Where generated files are served from on the user's site when no base is given
+export const DEFAULT_PUBLISH_BASE = "/";
+
+// Published bases are written verbatim into HTML attributes and JSON strings
+const UNSAFE_CHARS_RE = /[\s"'<>`\\]/;
+
+/**
+ * A publish base is either a site-root path (`/`, `/icons/`) or an absolute
+ * http(s) URL (`https://cdn.example.com/icons/`). Empty means "use the default".
+ */
+export function isValidPublishBase(value: string): boolean {
+  const v = value.trim();
+  if (v === "") return true;
+  if (UNSAFE_CHARS_RE.test(v)) return false;
+  // Protocol-relative `//host` would be read as a path here; require a scheme
+  if (v.startsWith("/")) return !v.startsWith("//");
+  try {
+    const url = new URL(v);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a (valid) publish base so file names can be appended directly.
+ */
+export function normalizePublishBase(value?: string): string {
+  const v = value?.trim();
+  if (!v) return DEFAULT_PUBLISH_BASE;
+  return v.endsWith("/") ? v : `${v}/`;
+}
+
+/**
+ * Point URLs pixel-forge wrote with `assetBase` (the session file route) at
+ * `publishBase` instead.
+ */
+export function rewriteAssetUrls(
+  text: string,
+  assetBase: string,
+  publishBase: string,
+): string {
+  return text.split(assetBase).join(publishBase);
+}
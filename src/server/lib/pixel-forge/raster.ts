@@ -0,0 +1,56 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import Jimp from "jimp";
+import { ImageProcessor } from "pixel-forge";
+
+/**
+ * Jimp color for a #rgb/#rrggbb(aa) hex. Alpha is dropped: the assets
+ * rendered here are shown full-bleed by the OS, so the fill must be opaque.
+ */
+export function opaqueColor(hex: string): number {
+  let h = hex.replace("#", "");
+  if (h.length === 3 || h.length === 4) {
+    h = [...h].map((c) => c + c).join("");
+  }
+  return Jimp.rgbaToInt(
+    parseInt(h.slice(0, 2), 16),
+    parseInt(h.slice(2, 4), 16),
+    parseInt(h.slice(4, 6), 16),
+    255,
+  );
+}
+
+/**
+ * Decode the source logo for compositing. Jimp cannot read every upload
+ * format (e.g. SVG), so try pixel-forge's engine (ImageMagick when available)
+ * next, then any `fallbacks` (raster outputs pixel-forge produced this run).
+ */
+export async function readLogo(
+  sourcePath: string,
+  fallbacks: string[] = [],
+): Promise<Jimp> {
+  try {
+    return await Jimp.read(sourcePath);
+  } catch (err) {
+    const tmp = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), "pf-logo-")),
+      "logo.png",
+    );
+    let processor: ImageProcessor | null = null;
+    try {
+      processor = new ImageProcessor(sourcePath);
+      await processor.save(tmp, { format: "png" });
+      return await Jimp.read(tmp);
+    } catch {
+      for (const candidate of fallbacks) {
+        const img = await Jimp.read(candidate).catch(() => null);
+        if (img) return img;
+      }
+      throw err;
+    } finally {
+      await processor?.cleanup().catch(() => undefined);
+      await fs.rm(path.dirname(tmp), { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs";
+import crypto from "crypto";
+import type { BrandMetadata } from "./branding";
+import type { DarkFaviconStyle } from "./dark-mode";
+import type { ManifestEdits } from "./manifest";
+import type { MaskableOptions } from "./maskable";
+import type { GenerationType } from "./progress";
+import type { StartupImageOptions } from "./startup-images";
+
+// Bump when the recipe shape changes incompatibly; runRecipe rejects other versions
+export const RECIPE_VERSION = 1;
+
+export const RECIPE_FILE = "recipe.json";
+
+export type RecipeOptions = BrandMetadata & {
+  generationTypes: GenerationType[];
+  transparent?: boolean;
+  format?: "png" | "jpeg" | "webp";
+  quality?: number;
+  publishBaseUrl?: string;
+  maskable?: MaskableOptions;
+  splash?: Pick<StartupImageOptions, "scale">;
+  manifest?: ManifestEdits;
+  darkFavicon?: DarkFaviconStyle;
+};
+
+/**
+ * Everything needed to regenerate an identical asset set from a source image.
+ * Brand fields are stored resolved (profile + overrides) so a replay does not
+ * depend on brand profiles that may have changed or been deleted since.
+ */
+export type GenerationRecipe = {
+  version: typeof RECIPE_VERSION;
+  createdAt: string; // ISO
+  source: {
+    fileName: string;
+    sha256: string;
+  };
+  options: RecipeOptions;
+};
+
+export async function hashFile(filePath: string): Promise<string> {
+  const buf = await fs.readFile(filePath);
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+export function buildRecipe(params: {
+  sourceFileName: string;
+  sourceSha256: string;
+  options: RecipeOptions;
+}): GenerationRecipe {
+  // Drop unset fields (and blank UI inputs) so recipes diff cleanly in a repo
+  const options = Object.fromEntries(
+    Object.entries(params.options).filter(
+      ([, v]) => v !== undefined && v !== "",
+    ),
+  ) as RecipeOptions;
+  return {
+    version: RECIPE_VERSION,
+    createdAt: new Date().toISOString(),
+    source: {
+      fileName: params.sourceFileName,
+      sha256: params.sourceSha256,
+    },
+    options,
+  };
+}
@@ -2,11 +2,18 @@ import { promises as fs } from "fs";
 import path from "path";
 import os from "os";
 import crypto from "crypto";
+import { emitProgress, subscribeProgress } from "../shared/progress-events";
+import { readJsonSafe, writeJsonAtomic } from "../shared/json-files";
 
 export type GenerationProgress = {
   current: number;
   total: number;
   currentOperation: string;
+  // Per-file detail while pixel-forge writes outputs
+  filesWritten?: number;
+  expectedFiles?: number;
+  currentFile?: string;
+  assets?: Array<{ fileName: string; category: string; previewUrl: string }>;
 };
 
 export type GenerationSessionMeta = {
@@ -19,7 +26,14 @@ export type GenerationSessionMeta = {
     mimeType: string;
     size: number;
   };
-  status?: "idle" | "processing" | "completed" | "error";
+  // Optional second source used for the dark color-scheme favicons
+  darkUploadedFile?: {
+    originalName: string;
+    tempPath: string;
+    mimeType: string;
+    size: number;
+  };
+  status?: "idle" | "processing" | "completed" | "cancelled" | "error";
 };
 
 type EnsureSessionPaths = {
@@ -27,6 +41,8 @@ type EnsureSessionPaths = {
   root: string;
   uploadsDir: string;
   generatedDir: string;
+  // Copies of meta-tags.html/manifest.json pointing at the publish base URL
+  publishedDir: string;
   progressPath: string;
   metaPath: string;
 };
@@ -34,6 +50,7 @@ type EnsureSessionPaths = {
 const DIR_NAME = "pixel-forge-sessions";
 const UPLOADS = "uploads";
 const GENERATED = "generated";
+const PUBLISHED = "published";
 const PROGRESS = "progress.json";
 const META = "session.json";
 
@@ -100,21 +117,6 @@ export function isAllowedMime(mime: string): boolean {
   ].includes(mime.toLowerCase());
 }
 
-async function writeJsonAtomic(p: string, data: unknown): Promise<void> {
-  const tmp = p + ".tmp";
-  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
-  await fs.rename(tmp, p);
-}
-
-export async function readJsonSafe<T = unknown>(p: string): Promise<T | null> {
-  try {
-    const raw = await fs.readFile(p, "utf8");
-    return JSON.parse(raw) as T;
-  } catch {
-    return null;
-  }
-}
-
 export async function createSession(
   ttlMs: number = DEFAULT_TTL_MS,
 ): Promise<EnsureSessionPaths> {
@@ -122,11 +124,13 @@ export async function createSession(
   const root = path.join(getTempRoot(), id);
   const uploadsDir = path.join(root, UPLOADS);
   const generatedDir = path.join(root, GENERATED);
+  const publishedDir = path.join(root, PUBLISHED);
   const progressPath = path.join(root, PROGRESS);
   const metaPath = path.join(root, META);
 
   await ensureDir(uploadsDir);
   await ensureDir(generatedDir);
+  await ensureDir(publishedDir);
 
   const meta: GenerationSessionMeta = {
     id,
@@ -144,7 +148,15 @@ export async function createSession(
   };
   await writeJsonAtomic(progressPath, progress);
 
-  return { id, root, uploadsDir, generatedDir, progressPath, metaPath };
+  return {
+    id,
+    root,
+    uploadsDir,
+    generatedDir,
+    publishedDir,
+    progressPath,
+    metaPath,
+  };
 }
 
 export async function ensureSession(
@@ -153,6 +165,7 @@ export async function ensureSession(
   const root = path.join(getTempRoot(), sessionId);
   const uploadsDir = path.join(root, UPLOADS);
   const generatedDir = path.join(root, GENERATED);
+  const publishedDir = path.join(root, PUBLISHED);
   const progressPath = path.join(root, PROGRESS);
   const metaPath = path.join(root, META);
 
@@ -161,11 +174,13 @@ export async function ensureSession(
   }
   await ensureDir(uploadsDir);
   await ensureDir(generatedDir);
+  await ensureDir(publishedDir);
   return {
     id: sessionId,
     root,
     uploadsDir,
     generatedDir,
+    publishedDir,
     progressPath,
     metaPath,
   };
@@ -177,6 +192,7 @@ export async function saveBase64Upload(params: {
   base64Data: string; // raw base64 (no data URL)
   mimeType: string;
   maxBytes?: number;
+  variant?: "light" | "dark"; // dark sources sit next to the light one
 }): Promise<{
   savedPath: string;
   size: number;
@@ -188,6 +204,7 @@ export async function saveBase64Upload(params: {
     base64Data,
     mimeType,
     maxBytes = 20 * 1024 * 1024,
+    variant = "light",
   } = params;
 
   if (!isAllowedMime(mimeType)) {
@@ -210,7 +227,8 @@ export async function saveBase64Upload(params: {
   const sess = await ensureSession(sessionId);
   const safeNameBase = sanitizeFileName(fileName.replace(/\.[^/.]+$/, ""));
   const ext = extForMime(mimeType) || path.extname(fileName) || "";
-  const outPath = path.join(sess.uploadsDir, `original-${safeNameBase}${ext}`);
+  const prefix = variant === "dark" ? "dark" : "original";
+  const outPath = path.join(sess.uploadsDir, `${prefix}-${safeNameBase}${ext}`);
 
   await fs.writeFile(outPath, buf);
 
@@ -220,12 +238,14 @@ export async function saveBase64Upload(params: {
     createdAt: nowIso(),
     expiresAt: addMsIso(DEFAULT_TTL_MS),
   };
-  meta.uploadedFile = {
+  const uploaded = {
     originalName: fileName,
     tempPath: outPath,
     mimeType,
     size: buf.byteLength,
   };
+  if (variant === "dark") meta.darkUploadedFile = uploaded;
+  else meta.uploadedFile = uploaded;
   await writeJsonAtomic(sess.metaPath, meta);
 
   return { savedPath: outPath, size: buf.byteLength, originalName: fileName };
@@ -237,6 +257,20 @@ export async function writeProgress(
 ): Promise<void> {
   const sess = await ensureSession(sessionId);
   await writeJsonAtomic(sess.progressPath, progress);
+  emitProgress(`pf:progress:${sessionId}`, progress);
+}
+
+/**
+ * Stream every progress update written for a session until `signal` aborts.
+ */
+export function subscribeToProgress(
+  sessionId: string,
+  signal?: AbortSignal,
+): AsyncGenerator<GenerationProgress> {
+  return subscribeProgress<GenerationProgress>(
+    `pf:progress:${sessionId}`,
+    signal,
+  );
 }
 
 export async function readProgress(
@@ -0,0 +1,165 @@
+import path from "path";
+import Jimp from "jimp";
+import { appendHeadSection } from "./branding";
+import { opaqueColor, readLogo } from "./raster";
+
+export type StartupImageOptions = {
+  scale?: number; // logo box as a fraction of the screen's shorter side, 0.1-0.8
+  background?: string; // hex; iOS shows the image full-screen, so no transparency
+};
+
+export const DEFAULT_STARTUP_LOGO_SCALE = 0.3;
+const DEFAULT_BACKGROUND = "#ffffff";
+
+type Device = {
+  name: string;
+  width: number; // CSS px, portrait
+  height: number;
+  ratio: number; // device pixel ratio
+};
+
+// iOS only shows a startup image whose media query matches the device exactly,
+// so every distinct viewport + pixel ratio needs its own pair of images
+export const APPLE_DEVICES: Device[] = [
+  { name: "iPhone 16 Pro Max", width: 440, height: 956, ratio: 3 },
+  { name: "iPhone 16 Pro", width: 402, height: 874, ratio: 3 },
+  {
+    name: "iPhone 16 Plus, 15 Pro Max, 15 Plus, 14 Pro Max",
+    width: 430,
+    height: 932,
+    ratio: 3,
+  },
+  { name: "iPhone 16, 15 Pro, 15, 14 Pro", width: 393, height: 852, ratio: 3 },
+  {
+    name: "iPhone 14 Plus, 13 Pro Max, 12 Pro Max",
+    width: 428,
+    height: 926,
+    ratio: 3,
+  },
+  {
+    name: "iPhone 16e, 14, 13 Pro, 13, 12 Pro, 12",
+    width: 390,
+    height: 844,
+    ratio: 3,
+  },
+  {
+    name: "iPhone 13 mini, 12 mini, 11 Pro, XS, X",
+    width: 375,
+    height: 812,
+    ratio: 3,
+  },
+  { name: "iPhone 11 Pro Max, XS Max", width: 414, height: 896, ratio: 3 },
+  { name: "iPhone 11, XR", width: 414, height: 896, ratio: 2 },
+  { name: "iPhone 8 Plus", width: 414, height: 736, ratio: 3 },
+  { name: "iPhone SE, 8", width: 375, height: 667, ratio: 2 },
+  { name: 'iPad Pro 13" (M4)', width: 1032, height: 1376, ratio: 2 },
+  { name: 'iPad Pro 12.9"', width: 1024, height: 1366, ratio: 2 },
+  { name: 'iPad Pro 11" (M4)', width: 834, height: 1210, ratio: 2 },
+  { name: 'iPad Pro 11"', width: 834, height: 1194, ratio: 2 },
+  { name: 'iPad Air 10.9", iPad 10.9"', width: 820, height: 1180, ratio: 2 },
+  { name: 'iPad Air 10.5"', width: 834, height: 1112, ratio: 2 },
+  { name: 'iPad 10.2"', width: 810, height: 1080, ratio: 2 },
+  { name: 'iPad mini 8.3"', width: 744, height: 1133, ratio: 2 },
+  { name: 'iPad mini 7.9", iPad 9.7"', width: 768, height: 1024, ratio: 2 },
+];
+
+export type StartupImage = {
+  fileName: string;
+  width: number; // image px
+  height: number;
+  media: string;
+};
+
+/**
+ * Every startup image for APPLE_DEVICES, portrait and landscape.
+ */
+export function listStartupImages(): StartupImage[] {
+  const images: StartupImage[] = [];
+  for (const d of APPLE_DEVICES) {
+    for (const orientation of ["portrait", "landscape"] as const) {
+      const portrait = orientation === "portrait";
+      const width = (portrait ? d.width : d.height) * d.ratio;
+      const height = (portrait ? d.height : d.width) * d.ratio;
+      images.push({
+        fileName: `apple-startup-${width}x${height}.png`,
+        width,
+        height,
+        media: `(device-width: ${d.width}px) and (device-height: ${d.height}px) and (-webkit-device-pixel-ratio: ${d.ratio}) and (orientation: ${orientation})`,
+      });
+    }
+  }
+  return images;
+}
+
+/**
+ * Render iOS PWA startup images into `outDir`: the background color with the
+ * logo contained in a centered box of `scale` x the shorter side. Returns the
+ * images in device order.
+ *
+ * `fallbackSources` are tried when the upload cannot be decoded here; pass
+ * raster icons pixel-forge produced in this run. An aborted `signal` stops
+ * after the current image; only the images written so far are returned.
+ */
+export async function renderStartupImages(params: {
+  sourcePath: string;
+  fallbackSources?: string[];
+  outDir: string;
+  options?: StartupImageOptions;
+  images?: StartupImage[]; // defaults to listStartupImages()
+  signal?: AbortSignal;
+}): Promise<StartupImage[]> {
+  const source = await readLogo(params.sourcePath, params.fallbackSources);
+  const background = opaqueColor(
+    params.options?.background ?? DEFAULT_BACKGROUND,
+  );
+  const scale = params.options?.scale ?? DEFAULT_STARTUP_LOGO_SCALE;
+
+  const images = params.images ?? listStartupImages();
+  const written: StartupImage[] = [];
+  for (const image of images) {
+    if (params.signal?.aborted) break;
+    const box = Math.max(
+      1,
+      Math.round(Math.min(image.width, image.height) * scale),
+    );
+    const logo = source
+      .clone()
+      .contain(
+        box,
+        box,
+        Jimp.HORIZONTAL_ALIGN_CENTER | Jimp.VERTICAL_ALIGN_MIDDLE,
+      );
+    const canvas = new Jimp(image.width, image.height, background).composite(
+      logo,
+      Math.floor((image.width - box) / 2),
+      Math.floor((image.height - box) / 2),
+    );
+    await canvas.writeAsync(path.join(params.outDir, image.fileName));
+    written.push(image);
+  }
+  return written;
+}
+
+/**
+ * Add `apple-touch-startup-image` links for `images` to pixel-forge's
+ * meta-tags.html. iOS ignores startup images unless the page is web-app
+ * capable, so that meta is added when missing (e.g. a run without the PWA
+ * generator).
+ */
+export function appendStartupImageTags(
+  html: string,
+  images: StartupImage[],
+  urlPrefix: string,
+): string {
+  if (!images.length) return html;
+  const tags: string[] = [];
+  if (!html.includes(`name="apple-mobile-web-app-capable"`)) {
+    tags.push('<meta name="apple-mobile-web-app-capable" content="yes">');
+  }
+  for (const image of images) {
+    tags.push(
+      `<link rel="apple-touch-startup-image" media="${image.media}" href="${urlPrefix}${image.fileName}">`,
+    );
+  }
+  return appendHeadSection(html, "iOS Startup Images", tags);
+}
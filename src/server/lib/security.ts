@@ -84,3 +84,6 @@ export function acquireLock(key: string): boolean {
 export function releaseLock(key: string): void {
   inFlight.delete(key);
 }
+export function isLockHeld(key: string): boolean {
+  return inFlight.has(key);
+}
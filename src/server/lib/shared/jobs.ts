@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { readJsonSafe, writeJsonAtomic } from "./json-files";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export type JobError = {
+  code: string;
+  message: string;
+};
+
+export type JobRecord<TResult = unknown> = {
+  id: string;
+  kind: string;
+  sessionId: string;
+  status: JobStatus;
+  createdAt: string; // ISO
+  startedAt?: string; // ISO
+  finishedAt?: string; // ISO
+  result?: TResult; // for cancelled jobs: whatever the run finished before stopping
+  error?: JobError;
+};
+
+type PendingJob<TResult> = {
+  record: JobRecord<TResult>;
+  recordPath: string;
+  run: (signal: AbortSignal) => Promise<TResult>;
+  controller: AbortController;
+  done: Promise<TResult>;
+  settled: Promise<void>;
+  resolve: (value: TResult) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Rejection of `done` for a job cancelled before it started.
+ */
+export class JobCancelledError extends Error {
+  readonly code = "CANCELLED";
+  constructor(message = "The job was cancelled.") {
+    super(message);
+    this.name = "JobCancelledError";
+  }
+}
+
+const JOBS = "jobs";
+
+function jobPath(sessionRoot: string, jobId: string): string {
+  return path.join(sessionRoot, JOBS, `${jobId}.json`);
+}
+
+// TRPCError (and Node system errors) carry a string `code`; keep it so clients can branch on it
+function toJobError(err: unknown): JobError {
+  const code =
+    typeof (err as { code?: unknown })?.code === "string"
+      ? (err as { code: string }).code
+      : "INTERNAL_SERVER_ERROR";
+  const message =
+    err instanceof Error && err.message ? err.message : "Job failed";
+  return { code, message };
+}
+
+/**
+ * In-process job queue. Work is executed by a worker loop in submission order
+ * (at most `concurrency` jobs at once); every state change is persisted to
+ * `<sessionRoot>/jobs/<jobId>.json` so results can be fetched after the
+ * submitting request (or the page that made it) is gone.
+ */
+export function createJobQueue<TResult>(kind: string, concurrency = 1) {
+  const pending: PendingJob<TResult>[] = [];
+  // Jobs owned by this server instance that have not settled yet
+  const live = new Map<string, PendingJob<TResult>>();
+  let active = 0;
+
+  async function persist(job: PendingJob<TResult>): Promise<void> {
+    await writeJsonAtomic(job.recordPath, job.record).catch((err: unknown) => {
+      // Session may have been cleaned up mid-job; the in-memory waiter still settles
+      console.warn(
+        `[jobs] failed to persist ${kind} job ${job.record.id}:`,
+        err,
+      );
+    });
+  }
+
+  async function execute(job: PendingJob<TResult>): Promise<void> {
+    job.record = {
+      ...job.record,
+      status: "running",
+      startedAt: new Date().toISOString(),
+    };
+    await persist(job);
+    try {
+      const result = await job.run(job.controller.signal);
+      // A cancelled run returns early with its partial result
+      job.record = {
+        ...job.record,
+        status: job.controller.signal.aborted ? "cancelled" : "succeeded",
+        finishedAt: new Date().toISOString(),
+        result,
+      };
+      await persist(job);
+      live.delete(job.record.id);
+      job.resolve(result);
+    } catch (err) {
+      job.record = {
+        ...job.record,
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error: toJobError(err),
+      };
+      await persist(job);
+      live.delete(job.record.id);
+      job.reject(err);
+    }
+  }
+
+  function pump(): void {
+    while (active < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      active += 1;
+      void execute(job).finally(() => {
+        active -= 1;
+        pump();
+      });
+    }
+  }
+
+  /**
+   * Persist a queued job record and schedule `run` on the worker loop.
+   * Resolves once the job is recorded; `done` settles with the job's result
+   * or rethrows its original error.
+   */
+  async function submit(params: {
+    sessionId: string;
+    sessionRoot: string;
+    run: (signal: AbortSignal) => Promise<TResult>;
+  }): Promise<{ job: JobRecord<TResult>; done: Promise<TResult> }> {
+    const record: JobRecord<TResult> = {
+      id: crypto.randomUUID(),
+      kind,
+      sessionId: params.sessionId,
+      status: "queued",
+      createdAt: new Date().toISOString(),
+    };
+    const recordPath = jobPath(params.sessionRoot, record.id);
+
+    let resolve!: (value: TResult) => void;
+    let reject!: (reason: unknown) => void;
+    const done = new Promise<TResult>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Nobody may be waiting (fire-and-forget submit); avoid unhandled rejections
+    done.catch(() => undefined);
+    const job: PendingJob<TResult> = {
+      record,
+      recordPath,
+      run: params.run,
+      controller: new AbortController(),
+      done,
+      settled: done.then(
+        () => undefined,
+        () => undefined,
+      ),
+      resolve,
+      reject,
+    };
+    // Register before the record hits disk so getJob never sees an orphan
+    live.set(record.id, job);
+    try {
+      await fs.mkdir(path.dirname(recordPath), { recursive: true });
+      await writeJsonAtomic(recordPath, record);
+    } catch (err) {
+      live.delete(record.id);
+      throw err;
+    }
+
+    pending.push(job);
+    pump();
+    return { job: record, done };
+  }
+
+  /**
+   * The session's unsettled job, if this server instance owns one. Lets a
+   * duplicate request wait on the job already in flight instead of queueing
+   * another.
+   */
+  function find(
+    sessionId: string,
+  ): { job: JobRecord<TResult>; done: Promise<TResult> } | null {
+    const job = [...live.values()].find(
+      (j) => j.record.sessionId === sessionId,
+    );
+    return job ? { job: job.record, done: job.done } : null;
+  }
+
+  /**
+   * Cancel a session's unsettled job (or the given one). A queued job is
+   * dropped; a running job's signal is aborted and the run is expected to
+   * stop after its current step and return what it has. `settled` resolves
+   * once the job record is final. Returns null when nothing was running.
+   */
+  async function cancel(
+    sessionId: string,
+    jobId?: string,
+  ): Promise<{ job: JobRecord<TResult>; settled: Promise<void> } | null> {
+    const job = [...live.values()].find(
+      (j) =>
+        j.record.sessionId === sessionId && (!jobId || j.record.id === jobId),
+    );
+    if (!job) return null;
+
+    const index = pending.indexOf(job);
+    if (index !== -1) {
+      pending.splice(index, 1);
+      job.controller.abort();
+      job.record = {
+        ...job.record,
+        status: "cancelled",
+        finishedAt: new Date().toISOString(),
+      };
+      await persist(job);
+      live.delete(job.record.id);
+      job.reject(new JobCancelledError());
+    } else {
+      job.controller.abort();
+    }
+    return { job: job.record, settled: job.settled };
+  }
+
+  /**
+   * Read a job record from disk. Jobs left queued/running by a previous server
+   * process can never finish, so they are reported (and persisted) as failed.
+   */
+  async function getJob(
+    sessionRoot: string,
+    jobId: string,
+  ): Promise<JobRecord<TResult> | null> {
+    const p = jobPath(sessionRoot, jobId);
+    const record = await readJsonSafe<JobRecord<TResult>>(p);
+    if (!record || record.kind !== kind) return null;
+    if (
+      (record.status === "queued" || record.status === "running") &&
+      !live.has(record.id)
+    ) {
+      const interrupted: JobRecord<TResult> = {
+        ...record,
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error: {
+          code: "INTERRUPTED",
+          message: "The server restarted before this job finished.",
+        },
+      };
+      await writeJsonAtomic(p, interrupted).catch(() => undefined);
+      return interrupted;
+    }
+    return record;
+  }
+
+  return { submit, getJob, find, cancel };
+}
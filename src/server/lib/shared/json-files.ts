@@ -0,0 +1,33 @@
+import { promises as fs } from "fs";
+
+// Distinguishes the temp files of overlapping writes to the same path
+let tmpCounter = 0;
+
+/**
+ * Write JSON via a temp file and rename, so readers never see a partial file.
+ * Overlapping writes each get their own temp file; the last rename wins, so
+ * callers that need ordering must serialize their writes. The directory must
+ * exist.
+ */
+export async function writeJsonAtomic(p: string, data: unknown): Promise<void> {
+  const tmp = `${p}.${process.pid}-${++tmpCounter}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tmp, p);
+  } catch (err) {
+    await fs.rm(tmp, { force: true }).catch(() => undefined);
+    throw err;
+  }
+}
+
+/**
+ * Parsed JSON file, or null when it is missing or unreadable
+ */
+export async function readJsonSafe<T = unknown>(p: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(p, "utf8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,33 @@
+import { EventEmitter, on } from "events";
+
+// In-process bus: progress writers and SSE subscribers must share a server instance.
+// For multi-instance deployments, swap for a shared pub/sub (e.g., Redis) behind the same API.
+const emitter = new EventEmitter();
+// Every open subscription holds a listener; lift Node's leak warning cap
+emitter.setMaxListeners(0);
+
+export function emitProgress(channel: string, progress: unknown): void {
+  emitter.emit(channel, progress);
+}
+
+/**
+ * Listen for progress events on a channel until `signal` aborts.
+ * The listener is attached immediately (not on first iteration), so events
+ * emitted while the caller reads a snapshot are buffered, not lost.
+ */
+export function subscribeProgress<T>(
+  channel: string,
+  signal?: AbortSignal,
+): AsyncGenerator<T> {
+  const events = on(emitter, channel, { signal });
+  return (async function* () {
+    try {
+      for await (const args of events) {
+        yield (args as [T])[0];
+      }
+    } catch (err) {
+      // Aborting the subscription ends the stream; anything else is a real error
+      if (!signal?.aborted) throw err;
+    }
+  })();
+}
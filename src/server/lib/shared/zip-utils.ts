@@ -1,17 +1,27 @@
 import archiver from "archiver";
 import type { Archiver } from "archiver";
-import { createWriteStream } from "fs";
+import path from "path";
+import { createWriteStream, promises as fs } from "fs";
 
 /**
  * Creates a ZIP archive from a directory
  * @param sourceDir - Directory to archive
  * @param outputZipPath - Path where the ZIP file will be created
+ * @param overlayDir - Optional directory whose top-level files replace same-named files from sourceDir
  * @returns Promise that resolves when ZIP creation is complete
  */
 export async function createDirectoryZip(
   sourceDir: string,
   outputZipPath: string,
+  overlayDir?: string,
 ): Promise<void> {
+  const overlay = overlayDir
+    ? await fs
+        .readdir(overlayDir, { withFileTypes: true })
+        .then((entries) => entries.filter((e) => e.isFile()).map((e) => e.name))
+        .catch(() => [] as string[])
+    : [];
+
   return new Promise<void>((resolve, reject) => {
     const output = createWriteStream(outputZipPath);
     const archive: Archiver = archiver("zip", { zlib: { level: 9 } });
@@ -21,7 +31,12 @@ export async function createDirectoryZip(
 
     archive.pipe(output);
     // Add directory contents at root of archive
-    archive.directory(sourceDir, false);
+    archive.directory(sourceDir, false, (entry) =>
+      overlay.includes(entry.name) ? false : entry,
+    );
+    for (const name of overlay) {
+      archive.file(path.join(overlayDir!, name), { name });
+    }
     void archive.finalize();
   });
-}
\ No newline at end of file
+}
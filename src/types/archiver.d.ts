@@ -6,10 +6,19 @@ declare module "archiver" {
     on(event: "error", listener: (err: Error) => void): this;
     on(event: string, listener: (...args: unknown[]) => void): this;
     pipe(stream: Writable): Writable;
-    directory(src: string, dest?: string | false): this;
+    directory(
+      src: string,
+      dest?: string | false,
+      data?: (entry: EntryData) => false | EntryData,
+    ): this;
+    file(filename: string, data: EntryData): this;
     finalize(): Promise<void> | void;
   }
 
+  export interface EntryData {
+    name: string;
+  }
+
   export interface Options {
     zlib?: { level?: number };
     // keep minimal for our use
@@ -22,14 +22,12 @@ vi.mock("@/server/lib/pixel-forge/deps", () => ({
   ensureImageEngine: vi.fn().mockResolvedValue(undefined),
 }));
 
-// Mock ImageMagick commands
-vi.mock("child_process", () => ({
-  execFile: vi.fn(),
-}));
-
-// Mock the dynamic import of child_process
-vi.mock("util", () => ({
-  promisify: vi.fn((fn) => fn),
+// Mock the engine adapters (they shell out to ImageMagick)
+vi.mock("@/server/lib/picture-press/engines", () => ({
+  detectFormat: vi.fn(),
+  enginesFor: vi.fn(() => []),
+  pickEngine: vi.fn(),
+  probeImage: vi.fn(),
 }));
 
 describe("Picture Press Simplified Converter", () => {
@@ -58,7 +56,7 @@ describe("Picture Press Simplified Converter", () => {
     it("should handle conversion function signature correctly", () => {
       // Test that the convertImages function has the correct signature
       expect(typeof convertImages).toBe("function");
-      expect(convertImages.length).toBe(4); // inputFiles, outputDir, options, progressCallback
+      expect(convertImages.length).toBe(5); // inputFiles, outputDir, options, progressCallback, signal
     });
   });
 
@@ -104,6 +102,93 @@ describe("Picture Press Simplified Converter", () => {
         namingConvention: "keep-original",
       };
       expect(validateConversionOptions(pngOptions).valid).toBe(false);
+
+      // AVIF takes quality and an encoder speed; the speed is AVIF only
+      expect(validateConversionOptions({
+        outputFormat: "avif",
+        quality: 60,
+        avifSpeed: 4,
+        namingConvention: "keep-original",
+      }).valid).toBe(true);
+      expect(validateConversionOptions({
+        outputFormat: "webp",
+        avifSpeed: 4,
+        namingConvention: "keep-original",
+      }).valid).toBe(false);
+    });
+
+    it("should validate quality targets", () => {
+      const base: ConversionOptions = { outputFormat: "webp", namingConvention: "keep-original" };
+      expect(validateConversionOptions({ ...base, target: { maxBytes: 150 * 1024 } }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, target: { minSsim: 0.98, maxBytes: 150 * 1024 } }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, target: {} }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, target: { maxBytes: 100 } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, target: { minSsim: 1.5 } }).valid).toBe(false);
+      // A fixed quality and a target exclude each other; lossless formats have nothing to tune
+      expect(validateConversionOptions({ ...base, quality: 80, target: { minSsim: 0.98 } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, outputFormat: "png", target: { minSsim: 0.98 } }).valid).toBe(false);
+    });
+
+    it("should validate concurrency", () => {
+      const base: ConversionOptions = { outputFormat: "png", namingConvention: "keep-original" };
+      expect(validateConversionOptions({ ...base, concurrency: 4 }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, concurrency: 0 }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, concurrency: 2.5 }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, concurrency: 64 }).valid).toBe(false);
+    });
+
+    it("should validate ICO sizes", () => {
+      const icoOptions: ConversionOptions = {
+        outputFormat: "ico",
+        icoSizes: [16, 32, 256],
+        namingConvention: "keep-original",
+      };
+      expect(validateConversionOptions(icoOptions).valid).toBe(true);
+      expect(validateConversionOptions({ ...icoOptions, icoSizes: [] }).valid).toBe(false);
+      expect(validateConversionOptions({ ...icoOptions, icoSizes: [512] }).valid).toBe(false);
+      // Jimp cannot write HEIF, but the JS adapters can pack an ICO
+      expect(validateConversionOptions({ ...icoOptions, engine: "jimp" }).valid).toBe(true);
+      expect(validateConversionOptions({ outputFormat: "heif", namingConvention: "keep-original", engine: "jimp" }).valid).toBe(false);
+    });
+
+    it("should validate resize options", () => {
+      const base: ConversionOptions = { outputFormat: "png", namingConvention: "keep-original" };
+      expect(validateConversionOptions({ ...base, resize: { width: 800 } }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, resize: { width: 800, height: 600, fit: "cover" } }).valid).toBe(true);
+      // Max size needs at least one dimension, exact fits need both
+      expect(validateConversionOptions({ ...base, resize: {} }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, resize: { width: 800, fit: "contain" } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, resize: { width: 0 } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, resize: { height: 12.5 } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, resize: { width: 20000 } }).valid).toBe(false);
+    });
+
+    it("should validate responsive sets", () => {
+      const base: ConversionOptions = {
+        outputFormat: "jpeg",
+        quality: 80,
+        namingConvention: "keep-original",
+        responsive: { widths: [320, 640], formats: ["avif", "webp"] },
+      };
+      expect(validateConversionOptions(base).valid).toBe(true);
+      // Quality and AVIF speed apply when any format of the set takes them
+      expect(validateConversionOptions({ ...base, outputFormat: "png", avifSpeed: 4 }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, responsive: { widths: [] } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, responsive: { widths: [320], formats: ["ico"] } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, resize: { width: 100 } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, engine: "jimp" }).valid).toBe(false);
+    });
+
+    it("should validate metadata policies and SEO fields", () => {
+      const base: ConversionOptions = { outputFormat: "jpeg", namingConvention: "keep-original" };
+      for (const metadata of ["strip", "icc", "copyright", "keep"] as const) {
+        expect(validateConversionOptions({ ...base, metadata }).valid).toBe(true);
+      }
+      expect(validateConversionOptions({ ...base, metadata: "gps" as unknown as "keep" }).valid).toBe(false);
+      // SEO fields need a format that can carry them
+      expect(validateConversionOptions({ ...base, seo: { "a.png": { title: "Sunset" } } }).valid).toBe(true);
+      expect(validateConversionOptions({ ...base, seo: { "a.png": { title: "x".repeat(201) } } }).valid).toBe(false);
+      expect(validateConversionOptions({ ...base, outputFormat: "gif", seo: { "a.png": { title: "Sunset" } } }).valid).toBe(false);
     });
   });
 
@@ -111,9 +196,9 @@ describe("Picture Press Simplified Converter", () => {
     it("should return correct supported formats", () => {
       const formats = getSupportedFormats();
       
-      expect(formats).toHaveLength(6);
+      expect(formats).toHaveLength(9);
       expect(formats.map(f => f.format)).toEqual([
-        "jpeg", "png", "webp", "gif", "tiff", "bmp"
+        "jpeg", "png", "webp", "gif", "tiff", "bmp", "avif", "heif", "ico"
       ]);
       
       // Check quality support
@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import {
+  enginesFor,
+  pickEngine,
+  probeImage,
+  readImageHeader,
+} from "@/server/lib/picture-press/engines";
+import { convertImages } from "@/server/lib/picture-press/converter";
+import type { ImageEngine } from "@/server/lib/picture-press/engines";
+
+// These tests cover the JavaScript adapters, so report ImageMagick as missing
+vi.mock("@/server/lib/pixel-forge/deps", async (importOriginal) => {
+  const deps =
+    await importOriginal<typeof import("@/server/lib/pixel-forge/deps")>();
+  return {
+    ...deps,
+    getEngineInfo: async () => ({
+      ...(await deps.getEngineInfo()),
+      magick: { available: false, formats: { read: [], write: [] } },
+    }),
+  };
+});
+
+async function encode(mime: string, width: number, height: number) {
+  const image = new Jimp(width, height, 0x3366ccff);
+  return image.getBufferAsync(mime);
+}
+
+describe("Picture Press image engines", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("reads dimensions from headers of every probed format", async () => {
+    for (const [mime, format] of [
+      ["image/png", "png"],
+      ["image/jpeg", "jpeg"],
+      ["image/gif", "gif"],
+      ["image/bmp", "bmp"],
+      ["image/tiff", "tiff"],
+    ] as const) {
+      expect(readImageHeader(await encode(mime, 37, 21))).toEqual({
+        format,
+        width: 37,
+        height: 21,
+      });
+    }
+
+    // WebP lossless: 14-bit width-1 and height-1 after the 0x2f signature
+    const vp8l = Buffer.alloc(30);
+    vp8l.write("RIFF", 0, "ascii");
+    vp8l.write("WEBPVP8L", 8, "ascii");
+    vp8l[20] = 0x2f;
+    vp8l.writeUInt32LE((640 - 1) | ((480 - 1) << 14), 21);
+    expect(readImageHeader(vp8l)).toEqual({
+      format: "webp",
+      width: 640,
+      height: 480,
+    });
+
+    // AVIF: ftyp brand plus an ispe box
+    const avif = Buffer.alloc(64);
+    avif.writeUInt32BE(20, 0);
+    avif.write("ftypavif", 4, "ascii");
+    avif.write("ispe", 36, "ascii");
+    avif.writeUInt32BE(1920, 44);
+    avif.writeUInt32BE(1080, 48);
+    expect(readImageHeader(avif)).toEqual({
+      format: "avif",
+      width: 1920,
+      height: 1080,
+    });
+
+    // ICO: largest entry wins, 0 means 256
+    const ico = Buffer.alloc(6 + 32);
+    ico.writeUInt16LE(1, 2);
+    ico.writeUInt16LE(2, 4);
+    ico[6] = 32;
+    ico[7] = 32;
+    expect(readImageHeader(ico)).toEqual({
+      format: "ico",
+      width: 256,
+      height: 256,
+    });
+
+    const svg = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 80"></svg>',
+    );
+    expect(readImageHeader(svg)).toEqual({
+      format: "svg",
+      width: 120,
+      height: 80,
+    });
+
+    expect(readImageHeader(Buffer.from("not an image"))).toBeNull();
+  });
+
+  it("picks adapters by capability", async () => {
+    const js = enginesFor("jimp");
+    expect((await pickEngine(js, { read: "png", write: "jpeg" }))?.name).toBe(
+      "pixel-forge",
+    );
+    // pixel-forge's Jimp path cannot save GIF; Jimp itself can
+    expect((await pickEngine(js, { read: "jpg", write: "gif" }))?.name).toBe(
+      "pure-js",
+    );
+    expect(await pickEngine(js, { write: "webp" })).toBeNull();
+  });
+
+  it("passes WebP output over pixel-forge when ImageMagick is missing", async () => {
+    // Stands in for any other adapter that can encode WebP
+    const webpWriter = {
+      name: "pure-js",
+      fits: [],
+      formats: async () => ({ probe: [], read: ["png"], write: ["webp"] }),
+    } as unknown as ImageEngine;
+
+    const [pixelForge] = enginesFor("jimp");
+    expect((await pixelForge!.formats()).write).not.toContain("webp");
+    const picked = await pickEngine([...enginesFor("auto"), webpWriter], {
+      read: "png",
+      write: "webp",
+    });
+    expect(picked).toBe(webpWriter);
+  });
+
+  it("reports dimensions of converted images without ImageMagick", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-engines-"),
+    );
+    const pngPath = path.join(tempDir, "wide.png");
+    const bmpPath = path.join(tempDir, "tall.bmp");
+    await fs.writeFile(pngPath, await encode("image/png", 48, 16));
+    await fs.writeFile(bmpPath, await encode("image/bmp", 12, 30));
+
+    const results = await convertImages(
+      [pngPath, bmpPath],
+      path.join(tempDir, "out"),
+      {
+        outputFormat: "gif",
+        namingConvention: "keep-original",
+        engine: "jimp",
+      },
+    );
+
+    expect(
+      results.map((r) => [r.success, r.width, r.height, r.engine]),
+    ).toEqual([
+      [true, 48, 16, "pure-js"],
+      [true, 12, 30, "pure-js"],
+    ]);
+    expect(await probeImage(results[0]!.convertedFile)).toEqual({
+      format: "gif",
+      width: 48,
+      height: 16,
+    });
+  });
+
+  it("packs a multi-size ICO without ImageMagick", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-engines-"),
+    );
+    const pngPath = path.join(tempDir, "logo.png");
+    await fs.writeFile(pngPath, await encode("image/png", 40, 20));
+
+    const [result] = await convertImages([pngPath], path.join(tempDir, "out"), {
+      outputFormat: "ico",
+      icoSizes: [32, 16],
+      namingConvention: "keep-original",
+      engine: "jimp",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      convertedName: "logo.ico",
+      width: 32,
+      height: 32,
+      engine: "pure-js",
+    });
+    const ico = await fs.readFile(result!.convertedFile);
+    expect(ico.readUInt16LE(4)).toBe(2);
+    // Entries are sorted by size and each embeds a PNG of that size
+    const second = ico.subarray(ico.readUInt32LE(6 + 16 + 12));
+    expect(readImageHeader(second)).toEqual({
+      format: "png",
+      width: 32,
+      height: 32,
+    });
+  });
+});
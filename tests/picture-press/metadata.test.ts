@@ -0,0 +1,327 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import {
+  replaceMetadata,
+  oversizedBlocks,
+  readMetadata,
+  seoBlocks,
+  SEO_FIELD_LIMITS,
+  seoFields,
+  withSeoMetadata,
+} from "@/server/lib/picture-press/metadata";
+import {
+  convertImages,
+  updateSeoMetadata,
+} from "@/server/lib/picture-press/converter";
+
+// Little-endian EXIF: orientation 6 (rotate 90° clockwise), artist,
+// copyright and an empty GPS IFD
+function buildExif(): Buffer {
+  const artist = "Ada Lovelace\0";
+  const copyright = "(c) 2026 Example\0";
+  const exif = Buffer.alloc(98);
+  exif.write("II", 0, "latin1");
+  exif.writeUInt16LE(42, 2);
+  exif.writeUInt32LE(8, 4);
+  exif.writeUInt16LE(4, 8);
+  const entry = (
+    i: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: number,
+  ) => {
+    const o = 10 + i * 12;
+    exif.writeUInt16LE(tag, o);
+    exif.writeUInt16LE(type, o + 2);
+    exif.writeUInt32LE(count, o + 4);
+    exif.writeUInt32LE(value, o + 8);
+  };
+  entry(0, 0x0112, 3, 1, 6);
+  entry(1, 0x013b, 2, artist.length, 62);
+  entry(2, 0x8298, 2, copyright.length, 75);
+  entry(3, 0x8825, 4, 1, 92);
+  exif.write(artist, 62, "latin1");
+  exif.write(copyright, 75, "latin1");
+  return exif;
+}
+
+const ICC = Buffer.from("fake icc profile payload");
+const XMP =
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><exif:GPSLatitude>51,30N</exif:GPSLatitude></x:xmpmeta>';
+
+// 1x1 PNG without metadata
+const TINY_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAF0gJ/kXn7tQAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+// Metadata read back from a PNG carrying only `xmp`
+function describeXmp(xmp: string) {
+  return readMetadata(replaceMetadata(TINY_PNG, { xmp }));
+}
+
+describe("Picture Press metadata", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("reads and writes metadata blocks in JPEG, PNG and WebP", async () => {
+    const image = new Jimp(8, 4, 0x3366ccff);
+    const jpeg = replaceMetadata(await image.getBufferAsync(Jimp.MIME_JPEG), {
+      exif: buildExif(),
+      icc: ICC,
+      xmp: XMP,
+      comment: "hello",
+    });
+    expect(readMetadata(jpeg)).toMatchObject({
+      blocks: ["exif", "gps", "icc", "xmp", "comment"],
+      orientation: 6,
+      artist: "Ada Lovelace",
+      copyright: "(c) 2026 Example",
+      icc: ICC,
+    });
+
+    const png = replaceMetadata(await image.getBufferAsync(Jimp.MIME_PNG), {
+      icc: ICC,
+      xmp: XMP,
+    });
+    expect(readMetadata(png)).toMatchObject({
+      blocks: ["gps", "icc", "xmp"],
+      icc: ICC,
+      xmp: XMP,
+    });
+    // Still a valid PNG
+    expect((await Jimp.read(png)).bitmap.width).toBe(8);
+
+    // WebP lossless header for an 8x4 image
+    const vp8l = Buffer.alloc(30);
+    vp8l.write("RIFF", 0, "latin1");
+    vp8l.writeUInt32LE(22, 4);
+    vp8l.write("WEBPVP8L", 8, "latin1");
+    vp8l.writeUInt32LE(10, 16);
+    vp8l[20] = 0x2f;
+    vp8l.writeUInt32LE((8 - 1) | ((4 - 1) << 14), 21);
+    const webp = replaceMetadata(vp8l, { icc: ICC });
+    expect(webp.toString("latin1", 12, 16)).toBe("VP8X");
+    expect(webp[20]).toBe(0x20); // ICC flag
+    expect(readMetadata(webp)).toMatchObject({ blocks: ["icc"], icc: ICC });
+  });
+
+  it("auto-orients, then keeps only what the policy allows", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-metadata-"),
+    );
+    const input = path.join(tempDir, "photo.jpg");
+    const stored = await new Jimp(40, 20, 0x3366ccff).getBufferAsync(
+      Jimp.MIME_JPEG,
+    );
+    await fs.writeFile(
+      input,
+      replaceMetadata(stored, { exif: buildExif(), icc: ICC }),
+    );
+
+    const kept: Record<string, string[]> = {};
+    for (const metadata of ["strip", "icc", "copyright", "keep"] as const) {
+      const [result] = await convertImages(
+        [input],
+        path.join(tempDir, metadata),
+        {
+          outputFormat: "jpeg",
+          namingConvention: "keep-original",
+          engine: "jimp",
+          metadata,
+        },
+      );
+      // Stored 40x20 with orientation 6 is 20x40 upright
+      expect(result).toMatchObject({
+        sourceWidth: 20,
+        sourceHeight: 40,
+        width: 20,
+        height: 40,
+      });
+      expect(result?.metadata?.found).toEqual(["exif", "gps", "icc"]);
+      const output = readMetadata(await fs.readFile(result!.convertedFile));
+      kept[metadata] = output.blocks;
+      if (metadata === "keep") expect(output.orientation).toBe(1);
+      if (metadata === "copyright") {
+        expect(output).toMatchObject({
+          artist: "Ada Lovelace",
+          copyright: "(c) 2026 Example",
+        });
+        expect(result?.metadata?.removed).toEqual(["exif", "gps", "icc"]);
+      }
+    }
+
+    expect(kept).toEqual({
+      strip: [],
+      icc: ["icc"],
+      copyright: ["xmp"],
+      keep: ["exif", "gps", "icc"],
+    });
+  });
+
+  it("reports blocks too large for a JPEG segment instead of dropping them silently", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-metadata-"),
+    );
+    // PNG text chunks have no 64 KB limit; a JPEG segment does
+    const bigXmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/">${"x".repeat(70_000)}</x:xmpmeta>`;
+    const input = path.join(tempDir, "photo.png");
+    await fs.writeFile(
+      input,
+      replaceMetadata(
+        await new Jimp(8, 4, 0x3366ccff).getBufferAsync(Jimp.MIME_PNG),
+        { xmp: bigXmp, icc: ICC },
+      ),
+    );
+    expect(oversizedBlocks({ xmp: bigXmp, icc: ICC }, "jpeg")).toEqual(["xmp"]);
+    expect(oversizedBlocks({ xmp: bigXmp }, "png")).toEqual([]);
+
+    const [jpeg, png] = await Promise.all(
+      (["jpeg", "png"] as const).map(async (outputFormat) => {
+        const [result] = await convertImages(
+          [input],
+          path.join(tempDir!, outputFormat),
+          {
+            outputFormat,
+            namingConvention: "keep-original",
+            engine: "jimp",
+            metadata: "keep",
+          },
+        );
+        return result;
+      }),
+    );
+    expect(jpeg?.metadata).toMatchObject({
+      removed: ["xmp"],
+      dropped: ["xmp"],
+    });
+    expect(png?.metadata?.dropped).toBeUndefined();
+    expect(readMetadata(await fs.readFile(png!.convertedFile)).xmp).toBe(
+      bigXmp,
+    );
+
+    // An SEO edit that would push a near-full XMP over the limit is refused
+    const fullXmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description rdf:about="">${"x".repeat(64_000)}</rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const full = path.join(tempDir, "full.jpg");
+    await fs.writeFile(
+      full,
+      replaceMetadata(
+        await new Jimp(8, 4, 0x3366ccff).getBufferAsync(Jimp.MIME_JPEG),
+        { xmp: fullXmp },
+      ),
+    );
+    const refused = await updateSeoMetadata(full, {
+      description: "x".repeat(SEO_FIELD_LIMITS.description),
+    });
+    expect(refused?.dropped).toEqual(["xmp"]);
+    expect(readMetadata(await fs.readFile(full)).xmp).toBe(fullXmp);
+  });
+
+  it("writes SEO fields as XMP and IPTC", async () => {
+    const image = new Jimp(8, 4, 0x3366ccff);
+    const seo = {
+      title: "Sunset over Mönchsberg",
+      description: 'A "golden" sky & river',
+      creator: "Ada Lovelace",
+      copyright: "(c) 2026 Example",
+    };
+
+    const jpeg = replaceMetadata(
+      await image.getBufferAsync(Jimp.MIME_JPEG),
+      withSeoMetadata({ icc: ICC }, seo),
+    );
+    const read = readMetadata(jpeg);
+    expect(read.blocks).toEqual(["icc", "xmp", "iptc"]);
+    expect(seoFields(read)).toEqual(seo);
+    expect(read.xmp).toContain("Iptc4xmpCore:AltTextAccessibility");
+    // The IPTC record alone carries the same fields
+    expect(
+      seoFields(readMetadata(replaceMetadata(jpeg, { iptc: read.iptc }))),
+    ).toEqual(seo);
+
+    // Undefined keeps a field, an empty string clears it
+    const edited = withSeoMetadata(read, { title: "Dusk", creator: "" });
+    expect(seoFields(readMetadata(replaceMetadata(jpeg, edited)))).toEqual({
+      title: "Dusk",
+      description: seo.description,
+      copyright: seo.copyright,
+    });
+
+    // PNG and WebP carry the XMP packet
+    const png = replaceMetadata(
+      await image.getBufferAsync(Jimp.MIME_PNG),
+      withSeoMetadata({}, seo),
+    );
+    expect(seoFields(readMetadata(png))).toEqual(seo);
+    expect(seoBlocks("jpeg")).toEqual(["xmp", "iptc"]);
+    expect(seoBlocks("png")).toEqual(["xmp"]);
+    expect(seoBlocks("webp")).toEqual(["xmp"]);
+  });
+
+  it("merges SEO fields into an existing XMP packet", () => {
+    // As kept under the keep policy: other properties and an old title
+    const xmp = [
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      '  <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+      '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+      '    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+      '    xmp:CreatorTool="Camera 1.0">',
+      "   <photoshop:City>Salzburg</photoshop:City>",
+      '   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Old</rdf:li></rdf:Alt></dc:title>',
+      "  </rdf:Description>",
+      " </rdf:RDF>",
+      "</x:xmpmeta>",
+    ].join("\n");
+
+    const merged = withSeoMetadata({ xmp }, { title: "Sunset" }).xmp!;
+    expect(merged).toContain('xmp:CreatorTool="Camera 1.0"');
+    expect(merged).toContain("<photoshop:City>Salzburg</photoshop:City>");
+    expect(merged).not.toContain(">Old<");
+    expect(seoFields(describeXmp(merged))).toEqual({ title: "Sunset" });
+
+    // Repeated edits replace the fields rather than piling them up
+    const again = withSeoMetadata({ xmp: merged }, { title: "Dusk" }).xmp!;
+    expect(again.match(/<dc:title>/g)).toHaveLength(1);
+    expect(seoFields(describeXmp(again))).toEqual({ title: "Dusk" });
+    // Clearing the fields keeps the rest of the packet
+    const cleared = withSeoMetadata({ xmp: again }, { title: "" }).xmp!;
+    expect(cleared).toContain("<photoshop:City>Salzburg</photoshop:City>");
+    expect(cleared).not.toContain("dc:title");
+  });
+
+  it("embeds SEO fields during conversion and updates them afterwards", async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-seo-"));
+    const input = path.join(tempDir, "photo.png");
+    await fs.writeFile(
+      input,
+      await new Jimp(8, 4, 0x3366ccff).getBufferAsync(Jimp.MIME_PNG),
+    );
+
+    const [result] = await convertImages([input], path.join(tempDir, "out"), {
+      outputFormat: "jpeg",
+      namingConvention: "keep-original",
+      engine: "jimp",
+      seo: { "photo.png": { title: "Blue", description: "A blue square" } },
+    });
+    expect(result?.seo).toEqual({
+      title: "Blue",
+      description: "A blue square",
+    });
+
+    const updated = await updateSeoMetadata(result!.convertedFile, {
+      description: "",
+      creator: "Ada Lovelace",
+    });
+    expect(updated?.seo).toEqual({ title: "Blue", creator: "Ada Lovelace" });
+    expect(updated?.size).toBe((await fs.stat(result!.convertedFile)).size);
+  });
+});
@@ -0,0 +1,66 @@
+import { bench, describe, beforeAll, afterAll } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import { convertImages } from "@/server/lib/picture-press/converter";
+import { effectiveConcurrency } from "@/server/lib/picture-press/pool";
+
+// Sequential vs pooled throughput over one batch, for choosing a default
+// concurrency. Run with `pnpm bench`; PICTURE_PRESS_BENCH_ENGINE=magick
+// measures ImageMagick, whose conversions run in their own processes.
+const FILES = 12;
+const SIZE = 512;
+const ENGINE =
+  process.env.PICTURE_PRESS_BENCH_ENGINE === "magick" ? "magick" : "jimp";
+const CORES = os.availableParallelism();
+
+let tempDir = "";
+const inputs: string[] = [];
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-bench-"));
+  for (let i = 0; i < FILES; i++) {
+    const image = new Jimp(SIZE, SIZE, 0xffffffff);
+    let seed = i + 1;
+    image.scan(0, 0, SIZE, SIZE, (x, y, idx) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      image.bitmap.data[idx] = (x + (seed % 32)) & 0xff;
+      image.bitmap.data[idx + 1] = (y + (seed % 16)) & 0xff;
+      image.bitmap.data[idx + 2] = seed & 0xff;
+    });
+    const file = path.join(tempDir, `photo-${i}.png`);
+    await image.writeAsync(file);
+    inputs.push(file);
+  }
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe(`${FILES} ${SIZE}px PNG -> JPEG, ${ENGINE}, ${CORES} cores`, () => {
+  let run = 0;
+  for (const concurrency of [1, 2, 4, 8]) {
+    // Requests above the core count run like the core count
+    const label =
+      concurrency === 1
+        ? "sequential"
+        : `concurrency ${concurrency} (${effectiveConcurrency(concurrency)} effective)`;
+    bench(
+      label,
+      async () => {
+        const outputDir = path.join(tempDir, `out-${run++}`);
+        await convertImages(inputs, outputDir, {
+          outputFormat: "jpeg",
+          quality: 80,
+          namingConvention: "keep-original",
+          engine: ENGINE,
+          concurrency,
+        });
+        await fs.rm(outputDir, { recursive: true, force: true });
+      },
+      { iterations: 3, time: 0, warmupIterations: 1, warmupTime: 0 },
+    );
+  }
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import { runPool } from "@/server/lib/picture-press/pool";
+import { convertImages } from "@/server/lib/picture-press/converter";
+
+// Resolves after `ms`, recording how many jobs were running at its peak
+function tracker() {
+  let running = 0;
+  const state = { peak: 0 };
+  const job = async (ms: number) => {
+    running++;
+    state.peak = Math.max(state.peak, running);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    running--;
+    return ms;
+  };
+  return { job, state };
+}
+
+describe("Picture Press conversion pool", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("bounds concurrency and reports outcomes in input order", async () => {
+    const { job, state } = tracker();
+    const settled: number[] = [];
+
+    const outcomes = await runPool([30, 5, 20, 5, 10], job, {
+      concurrency: 2,
+      onSettled: (_outcome, index) => settled.push(index),
+    });
+
+    expect(state.peak).toBe(2);
+    expect(settled).toEqual([0, 1, 2, 3, 4]);
+    expect(outcomes.map((o) => o.ok && o.value)).toEqual([30, 5, 20, 5, 10]);
+  });
+
+  it("holds back jobs that do not fit the memory budget", async () => {
+    const { job, state } = tracker();
+
+    // Two of these fit at once; the unsized one runs alone
+    await runPool([10, 10, 10, 10], job, {
+      concurrency: 4,
+      memoryBudget: 100,
+      cost: () => 50,
+    });
+    expect(state.peak).toBe(2);
+
+    state.peak = 0;
+    await runPool([10, 10, 10], job, {
+      concurrency: 4,
+      memoryBudget: 100,
+      cost: (_ms, index) => (index === 1 ? Infinity : 10),
+    });
+    expect(state.peak).toBe(1);
+  });
+
+  it("isolates failures and starts nothing after an abort", async () => {
+    const controller = new AbortController();
+    const outcomes = await runPool(
+      [1, 2, 3, 4, 5],
+      async (n) => {
+        if (n === 2) throw new Error("broken file");
+        if (n === 3) controller.abort();
+        return n;
+      },
+      { concurrency: 1, signal: controller.signal },
+    );
+
+    expect(outcomes).toHaveLength(3);
+    expect(outcomes[0]).toEqual({ ok: true, value: 1 });
+    expect(outcomes[1]).toMatchObject({
+      ok: false,
+      error: new Error("broken file"),
+    });
+    expect(outcomes[2]).toEqual({ ok: true, value: 3 });
+  });
+
+  it("converts files in parallel without clashing output names", async () => {
+    // Allow parallel conversions even on a single-core runner
+    vi.spyOn(os, "availableParallelism").mockReturnValue(4);
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-pool-"));
+    const image = new Jimp(24, 16, 0x3366ccff);
+    const inputs: string[] = [];
+    for (const name of ["a.png", "a.bmp", "a.gif", "b.png"]) {
+      const file = path.join(tempDir, name);
+      await image.writeAsync(file);
+      inputs.push(file);
+    }
+    await fs.writeFile(path.join(tempDir, "broken.png"), "not an image");
+    inputs.splice(2, 0, path.join(tempDir, "broken.png"));
+
+    const progress: number[] = [];
+    const results = await convertImages(
+      inputs,
+      path.join(tempDir, "out"),
+      {
+        outputFormat: "jpeg",
+        namingConvention: "keep-original",
+        engine: "jimp",
+        concurrency: 3,
+      },
+      (current) => progress.push(current),
+    );
+
+    expect(results.map((r) => r.originalName)).toEqual([
+      "a.png",
+      "a.bmp",
+      "broken.png",
+      "a.gif",
+      "b.png",
+    ]);
+    expect(results[2]?.success).toBe(false);
+    const names = results.filter((r) => r.success).map((r) => r.convertedName);
+    expect(new Set(names).size).toBe(4);
+    expect(names).toContain("a.jpeg");
+    // Progress never goes backwards
+    expect(progress).toEqual([...progress].sort((x, y) => x - y));
+    expect(progress.at(-1)).toBe(5);
+  });
+});
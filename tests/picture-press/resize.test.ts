@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import { planResize } from "@/server/lib/picture-press/resize";
+import { convertImages } from "@/server/lib/picture-press/converter";
+
+const source = { width: 800, height: 600 };
+
+describe("Picture Press resize planning", () => {
+  it("fits within a max size, keeping the aspect ratio", () => {
+    expect(planResize(source, { width: 400 }, "png")).toEqual({
+      width: 400,
+      height: 300,
+      fit: "fill",
+    });
+    expect(planResize(source, { width: 400, height: 100 }, "png")).toEqual({
+      width: 133,
+      height: 100,
+      fit: "fill",
+    });
+  });
+
+  it("never upscales unless asked to", () => {
+    expect(planResize(source, { width: 1600 }, "png")).toBeNull();
+    expect(
+      planResize(source, { width: 1600, neverUpscale: false }, "png"),
+    ).toEqual({ width: 1600, height: 1200, fit: "fill" });
+    // Exact boxes shrink to fit within the source, keeping their shape
+    expect(
+      planResize(source, { width: 1000, height: 1000, fit: "cover" }, "png"),
+    ).toEqual({ width: 600, height: 600, fit: "cover" });
+  });
+
+  it("pads contained images with white only for opaque outputs", () => {
+    const request = { width: 200, height: 200, fit: "contain" } as const;
+    expect(planResize(source, request, "jpeg")?.background).toBe("#ffffff");
+    expect(planResize(source, request, "png")?.background).toBe("transparent");
+  });
+
+  it("skips images that are already the requested size", () => {
+    expect(
+      planResize(source, { width: 800, height: 600, fit: "fill" }, "png"),
+    ).toBeNull();
+  });
+});
+
+describe("Picture Press resized conversions", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("reports source and output dimensions for every fit", async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-resize-"));
+    const input = path.join(tempDir, "wide.png");
+    await fs.writeFile(
+      input,
+      await new Jimp(120, 60, 0x3366ccff).getBufferAsync(Jimp.MIME_PNG),
+    );
+
+    const dimensions = [];
+    for (const fit of ["inside", "contain", "cover", "fill"] as const) {
+      const [result] = await convertImages([input], path.join(tempDir, fit), {
+        outputFormat: "png",
+        namingConvention: "keep-original",
+        engine: "jimp",
+        resize: { width: 40, height: 40, fit },
+      });
+      dimensions.push([
+        fit,
+        result?.sourceWidth,
+        result?.sourceHeight,
+        result?.width,
+        result?.height,
+      ]);
+    }
+
+    expect(dimensions).toEqual([
+      ["inside", 120, 60, 40, 20],
+      ["contain", 120, 60, 40, 40],
+      ["cover", 120, 60, 40, 40],
+      ["fill", 120, 60, 40, 40],
+    ]);
+  });
+});
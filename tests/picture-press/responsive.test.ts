@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import {
+  buildPictureMarkup,
+  responsiveFormats,
+  responsiveWidths,
+  variantFilename,
+} from "@/server/lib/picture-press/responsive";
+import { convertImages } from "@/server/lib/picture-press/converter";
+
+describe("Picture Press responsive sets", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("plans widths and formats without upscaling", () => {
+    // Widths beyond the source collapse into the source width
+    expect(responsiveWidths(1000, [1280, 320, 640, 320])).toEqual([
+      320, 640, 1000,
+    ]);
+    expect(responsiveWidths(200, [320, 640])).toEqual([200]);
+    expect(responsiveFormats("jpeg", ["avif", "jpeg", "webp"])).toEqual([
+      "avif",
+      "webp",
+      "jpeg",
+    ]);
+    expect(variantFilename("hero.webp", 640)).toBe("hero-640w.webp");
+  });
+
+  it("builds a <picture> with a source per modern format", () => {
+    const variants = ["avif", "jpeg"].flatMap((format) =>
+      [640, 320].map((width) => ({
+        fileName: `hero-${width}w.${format}`,
+        format,
+        width,
+        height: width / 2,
+      })),
+    );
+
+    expect(
+      buildPictureMarkup(variants, {
+        fallbackFormat: "jpeg",
+        sizes: "(min-width: 800px) 50vw, 100vw",
+        alt: 'A "hero"',
+      }),
+    ).toBe(
+      [
+        "<picture>",
+        '  <source type="image/avif" srcset="hero-320w.avif 320w, hero-640w.avif 640w" sizes="(min-width: 800px) 50vw, 100vw">',
+        '  <img src="hero-640w.jpeg" srcset="hero-320w.jpeg 320w, hero-640w.jpeg 640w" sizes="(min-width: 800px) 50vw, 100vw" width="640" height="320" alt="A &quot;hero&quot;" loading="lazy" decoding="async">',
+        "</picture>",
+      ].join("\n"),
+    );
+  });
+
+  it("converts every width in every format", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-responsive-"),
+    );
+    const input = path.join(tempDir, "hero.png");
+    await fs.writeFile(
+      input,
+      await new Jimp(200, 100, 0x3366ccff).getBufferAsync(Jimp.MIME_PNG),
+    );
+
+    const results = await convertImages([input], path.join(tempDir, "out"), {
+      outputFormat: "jpeg",
+      namingConvention: "keep-original",
+      engine: "jimp",
+      responsive: { widths: [50, 100, 400], formats: ["png"] },
+    });
+
+    expect(
+      results.map((r) => [r.convertedName, r.format, r.width, r.height]),
+    ).toEqual([
+      ["hero-50w.png", "png", 50, 25],
+      ["hero-100w.png", "png", 100, 50],
+      ["hero-200w.png", "png", 200, 100],
+      ["hero-50w.jpeg", "jpeg", 50, 25],
+      ["hero-100w.jpeg", "jpeg", 100, 50],
+      ["hero-200w.jpeg", "jpeg", 200, 100],
+    ]);
+  });
+});
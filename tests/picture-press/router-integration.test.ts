@@ -36,6 +36,7 @@ describe("Picture Press router integration", () => {
       "getConversionProgress",
       "cleanupExpired",
       "convertImages",
+      "updateImageMetadata",
       "zipConvertedImages",
       "cleanupSession",
     ];
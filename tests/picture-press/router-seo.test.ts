@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import path from "path";
+import { promises as fs } from "fs";
+import Jimp from "jimp";
+import { appRouter } from "@/server/api/root";
+import { createTRPCContext } from "@/server/api/trpc";
+import { readMetadata, seoFields } from "@/server/lib/picture-press/metadata";
+import { ensurePicturePressSession } from "@/server/lib/picture-press/session";
+
+// Mock Prisma db to avoid real database usage in tests
+vi.mock("@/server/db", () => ({ db: {} }));
+
+function headersWithIP(ip: string) {
+  return new Headers([["x-forwarded-for", ip]]);
+}
+
+// SEO fields are keyed by the name a file was uploaded under, while the
+// session stores it as original-<index>-<name>; runs the real converter
+describe("picture-press router SEO fields", () => {
+  async function uploadPhoto(ip: string) {
+    const ctx = await createTRPCContext({ headers: headersWithIP(ip) });
+    const caller = appRouter.createCaller(ctx);
+    const { sessionId } = await caller.picturePress.newSession();
+    // A gradient, so the PNG clears the upload's minimum file size
+    const image = new Jimp(16, 8, 0x3366ccff);
+    image.scan(0, 0, 16, 8, (x, y, idx) => {
+      image.bitmap.data[idx] = x * 16;
+      image.bitmap.data[idx + 1] = y * 32;
+    });
+    const png = await image.getBufferAsync(Jimp.MIME_PNG);
+    await caller.picturePress.uploadImages({
+      files: [
+        {
+          fileName: "Blue Photo.png",
+          fileData: png.toString("base64"),
+          mimeType: "image/png",
+        },
+      ],
+      sessionId,
+    });
+    return { caller, sessionId };
+  }
+
+  it("writes fields keyed by the uploaded file name into the output", async () => {
+    const { caller, sessionId } = await uploadPhoto("203.0.113.40");
+
+    const { jobId } = await caller.picturePress.submitConversion({
+      sessionId,
+      options: {
+        outputFormat: "jpeg",
+        namingConvention: "keep-original",
+        engine: "jimp",
+        seo: {
+          "Blue Photo.png": { title: "Blue", description: "A blue square" },
+        },
+      },
+    });
+    let job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    for (
+      let i = 0;
+      i < 40 && (job.status === "queued" || job.status === "running");
+      i++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    }
+    expect(job.status).toBe("succeeded");
+
+    const [image] = job.result!.convertedImages;
+    const { convertedDir } = await ensurePicturePressSession(sessionId);
+    const written = await fs.readFile(
+      path.join(convertedDir, image!.convertedName),
+    );
+    expect(seoFields(readMetadata(written))).toEqual({
+      title: "Blue",
+      description: "A blue square",
+    });
+  });
+
+  it("uses the description as the alt text of a responsive set", async () => {
+    const { caller, sessionId } = await uploadPhoto("203.0.113.41");
+
+    const result = await caller.picturePress.convertImages({
+      sessionId,
+      options: {
+        outputFormat: "jpeg",
+        namingConvention: "keep-original",
+        engine: "jimp",
+        responsive: { widths: [4] },
+        seo: { "Blue Photo.png": { description: "A blue square" } },
+      },
+    });
+    expect(result.responsiveSets?.[0]?.markup).toContain('alt="A blue square"');
+  });
+
+  it("rejects fields for files that were not uploaded", async () => {
+    const { caller, sessionId } = await uploadPhoto("203.0.113.42");
+
+    await expect(
+      caller.picturePress.submitConversion({
+        sessionId,
+        options: {
+          outputFormat: "jpeg",
+          namingConvention: "keep-original",
+          seo: { "original-0-Blue Photo.png": { title: "Blue" } },
+        },
+      }),
+    ).rejects.toThrow(/not uploaded to this session: original-0-Blue Photo/);
+  });
+});
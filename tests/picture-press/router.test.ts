@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import path from "path";
+import { promises as fs } from "fs";
 import { appRouter } from "@/server/api/root";
 import { createTRPCContext } from "@/server/api/trpc";
 
 // Mock the converter module to avoid actual ImageMagick dependency in tests
 vi.mock("@/server/lib/picture-press/converter", () => ({
   convertImages: vi.fn(),
+  updateSeoMetadata: vi.fn(),
   validateConversionOptions: vi.fn(),
 }));
 
@@ -27,6 +30,7 @@ vi.mock("@/server/lib/shared/zip-utils", () => ({
 
 import {
   convertImages,
+  updateSeoMetadata,
   validateConversionOptions,
 } from "@/server/lib/picture-press/converter";
 import {
@@ -38,6 +42,7 @@ import {
 import { createDirectoryZip } from "@/server/lib/shared/zip-utils";
 
 const mockConvertImages = vi.mocked(convertImages);
+const mockUpdateSeoMetadata = vi.mocked(updateSeoMetadata);
 const mockValidateConversionOptions = vi.mocked(validateConversionOptions);
 const mockAcquireLock = vi.mocked(acquireLock);
 const mockReleaseLock = vi.mocked(releaseLock);
@@ -150,6 +155,145 @@ describe("picture-press router", () => {
     expect(mockConvertImages).toHaveBeenCalled();
   });
 
+  it("reports only a missing file as not found when updating metadata", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.25"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { sessionId } = await caller.picturePress.newSession();
+    await caller.picturePress.uploadImages({
+      files: [
+        {
+          fileName: "test.png",
+          fileData: VALID_PNG_BASE64,
+          mimeType: "image/png",
+        },
+      ],
+      sessionId,
+    });
+    await caller.picturePress.convertImages({
+      sessionId,
+      options: { outputFormat: "jpeg", namingConvention: "keep-original" },
+    });
+    const update = () =>
+      caller.picturePress.updateImageMetadata({
+        sessionId,
+        images: [{ convertedName: "image1.jpeg", title: "Sunset" }],
+      });
+
+    mockUpdateSeoMetadata.mockRejectedValueOnce(
+      Object.assign(new Error("no such file"), { code: "ENOENT" }),
+    );
+    await expect(update()).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    mockUpdateSeoMetadata.mockRejectedValueOnce(
+      Object.assign(new Error("permission denied"), { code: "EACCES" }),
+    );
+    await expect(update()).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+      message: expect.stringContaining("Failed to update the metadata of image1.jpeg"),
+    });
+  });
+
+  it("queues conversions as background jobs", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.23"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { sessionId } = await caller.picturePress.newSession();
+    await caller.picturePress.uploadImages({
+      files: [
+        {
+          fileName: "test.png",
+          fileData: VALID_PNG_BASE64,
+          mimeType: "image/png",
+        },
+      ],
+      sessionId,
+    });
+
+    const { jobId } = await caller.picturePress.submitConversion({
+      sessionId,
+      options: {
+        outputFormat: "webp",
+        namingConvention: "keep-original",
+      },
+    });
+
+    let job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    for (let i = 0; i < 20 && (job.status === "queued" || job.status === "running"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    }
+
+    expect(job.status).toBe("succeeded");
+    expect(job.result?.successCount).toBe(1);
+    // Lock is held by the job, not the submitting request
+    expect(mockReleaseLock).toHaveBeenCalledWith(`pp:convert:${sessionId}`);
+  });
+
+  it("cancels a running conversion and keeps the converted files", async () => {
+    // Stand-in for the convert loop: one file done, then wait for the cancel
+    mockConvertImages.mockImplementation(async (_files, outputDir, _options, _progress, signal) => {
+      await fs.writeFile(path.join(outputDir, "image1.jpeg"), "converted");
+      if (!signal?.aborted) {
+        await new Promise((resolve) => signal?.addEventListener("abort", resolve));
+      }
+      return [
+        {
+          originalFile: "/tmp/test/uploads/original-0-image1.png",
+          convertedFile: path.join(outputDir, "image1.jpeg"),
+          originalName: "image1.png",
+          convertedName: "image1.jpeg",
+          originalSize: 1000,
+          convertedSize: 9,
+          success: true,
+        },
+      ];
+    });
+
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.24"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { sessionId } = await caller.picturePress.newSession();
+    await caller.picturePress.uploadImages({
+      files: [
+        { fileName: "a.png", fileData: VALID_PNG_BASE64, mimeType: "image/png" },
+        { fileName: "b.png", fileData: VALID_PNG_BASE64, mimeType: "image/png" },
+      ],
+      sessionId,
+    });
+
+    const { jobId } = await caller.picturePress.submitConversion({
+      sessionId,
+      options: { outputFormat: "jpeg", namingConvention: "keep-original" },
+    });
+    expect(await caller.picturePress.cancelConversion({ sessionId, jobId })).toEqual({
+      cancelled: true,
+      jobId,
+    });
+
+    let job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    for (let i = 0; i < 20 && job.status === "running"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      job = await caller.picturePress.getConversionJob({ sessionId, jobId });
+    }
+
+    expect(job.status).toBe("cancelled");
+    expect(job.result?.cancelled).toBe(true);
+    expect(job.result?.successCount).toBe(1);
+    expect(job.result?.skippedCount).toBe(1);
+    expect(mockReleaseLock).toHaveBeenCalledWith(`pp:convert:${sessionId}`);
+
+    // Partial results stay downloadable
+    const zip = await caller.picturePress.zipConvertedImages({ sessionId });
+    expect(zip.fileCount).toBe(1);
+  });
+
   it("handles validation errors", async () => {
     const ctx = await createTRPCContext({
       headers: headersWithIP("203.0.113.22"),
@@ -305,6 +449,28 @@ describe("picture-press router", () => {
       );
     });
 
+    it("enforces rate limits on updateImageMetadata", async () => {
+      mockEnforceFixedWindowLimit.mockReturnValue(false);
+
+      const ctx = await createTRPCContext({
+        headers: headersWithIP("203.0.113.104"),
+      });
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.picturePress.updateImageMetadata({
+          sessionId: "550e8400-e29b-41d4-a716-446655440000",
+          images: [{ convertedName: "image1.jpeg", title: "Sunset" }],
+        }),
+      ).rejects.toThrow("Too many metadata updates");
+
+      expect(mockLimiterKey).toHaveBeenCalledWith(
+        "pp:metadata",
+        expect.any(Headers),
+        "550e8400-e29b-41d4-a716-446655440000",
+      );
+    });
+
     it("enforces rate limits on cleanupSession", async () => {
       mockEnforceFixedWindowLimit.mockReturnValue(false);
 
@@ -625,5 +791,28 @@ describe("picture-press router", () => {
         }),
       ).rejects.toThrow("Upload validation failed");
     });
+
+    it("accepts HEIC and AVIF uploads", async () => {
+      const ctx = await createTRPCContext({
+        headers: headersWithIP("203.0.113.116"),
+      });
+      const caller = appRouter.createCaller(ctx);
+
+      const res = await caller.picturePress.uploadImages({
+        files: [
+          { fileName: "photo.heic", fileData: VALID_PNG_BASE64, mimeType: "image/heic" },
+          { fileName: "photo.avif", fileData: VALID_PNG_BASE64, mimeType: "image/avif" },
+        ],
+      });
+      expect(res.uploadedFiles).toHaveLength(2);
+
+      await expect(
+        caller.picturePress.uploadImages({
+          files: [
+            { fileName: "photo.jpg", fileData: VALID_PNG_BASE64, mimeType: "image/avif" },
+          ],
+        }),
+      ).rejects.toThrow("Upload validation failed");
+    });
   });
 });
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { promises as fs } from "fs";
+import {
+  cleanupPicturePressSession,
+  createPicturePressSession,
+  readConversionProgress,
+  subscribeToConversionProgress,
+  writeConversionProgress,
+  type ConversionProgress,
+} from "@/server/lib/picture-press/session";
+
+describe("Picture Press session progress", () => {
+  it("keeps overlapping progress writes in call order", async () => {
+    const sess = await createPicturePressSession();
+    const controller = new AbortController();
+    const events = subscribeToConversionProgress(sess.id, controller.signal);
+    const step = (current: number): ConversionProgress => ({
+      current,
+      total: 20,
+      currentOperation: `Converted ${current} of 20`,
+      filesProcessed: current,
+      totalFiles: 20,
+    });
+
+    // Fired without awaiting, as parallel conversions report progress
+    const writes = Array.from({ length: 20 }, (_, i) =>
+      writeConversionProgress(sess.id, step(i + 1)),
+    );
+    await Promise.all(writes);
+
+    const seen: number[] = [];
+    for await (const progress of events) {
+      seen.push(progress.current);
+      if (seen.length === 20) break;
+    }
+    controller.abort();
+    expect(seen).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(await readConversionProgress(sess.id)).toEqual(step(20));
+    // No temp file is left behind
+    expect(await fs.readdir(sess.root)).not.toContainEqual(
+      expect.stringMatching(/\.tmp$/),
+    );
+
+    await cleanupPicturePressSession(sess.id);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import { MAX_PSNR, psnr } from "@/server/lib/picture-press/similarity";
+import { convertImages } from "@/server/lib/picture-press/converter";
+
+// A smooth gradient with some detail for JPEG to lose
+function gradient(width: number, height: number): Jimp {
+  const image = new Jimp(width, height, 0xffffffff);
+  image.scan(0, 0, width, height, (x, y, idx) => {
+    image.bitmap.data[idx] = (x * 4) & 0xff;
+    image.bitmap.data[idx + 1] = (y * 4) & 0xff;
+    image.bitmap.data[idx + 2] = (x * y) & 0xff;
+  });
+  return image;
+}
+
+describe("Picture Press quality metrics", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("measures PSNR in dB, capped for identical pixels", () => {
+    const image = gradient(16, 16);
+    const shifted = image.clone();
+    // Off by 5 in every channel: MSE 25, 10 * log10(255² / 25) ≈ 34.15 dB
+    shifted.scan(0, 0, 16, 16, (_x, _y, idx) => {
+      for (let c = 0; c < 3; c++) {
+        const v = shifted.bitmap.data[idx + c]!;
+        shifted.bitmap.data[idx + c] = v < 128 ? v + 5 : v - 5;
+      }
+    });
+
+    expect(psnr(image.bitmap, image.clone().bitmap)).toBe(MAX_PSNR);
+    expect(psnr(image.bitmap, shifted.bitmap)).toBeCloseTo(34.15, 1);
+    expect(() => psnr(image.bitmap, new Jimp(8, 8).bitmap)).toThrow(
+      "Cannot compare",
+    );
+  });
+
+  it("reports SSIM and PSNR of each output at its own size", async () => {
+    tempDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "picture-press-metrics-"),
+    );
+    const input = path.join(tempDir, "gradient.png");
+    await fs.writeFile(
+      input,
+      await gradient(64, 48).getBufferAsync(Jimp.MIME_PNG),
+    );
+    const convert = (
+      outputFormat: "jpeg" | "png",
+      extra: { quality?: number; resize?: { width: number } } = {},
+    ) =>
+      convertImages([input], path.join(tempDir!, outputFormat), {
+        outputFormat,
+        namingConvention: "keep-original",
+        engine: "jimp",
+        ...extra,
+      });
+
+    const [lossless] = await convert("png");
+    expect(lossless).toMatchObject({ ssim: 1, psnr: MAX_PSNR });
+
+    const [good] = await convert("jpeg", { quality: 95 });
+    const [poor] = await convert("jpeg", { quality: 5 });
+    expect(good?.ssim).toBeGreaterThan(poor!.ssim!);
+    expect(good?.psnr).toBeGreaterThan(poor!.psnr!);
+    expect(poor?.psnr).toBeLessThan(MAX_PSNR);
+
+    // Downscaling alone costs nothing; only the encoder's loss is measured
+    const [resized] = await convert("png", { resize: { width: 32 } });
+    expect(resized).toMatchObject({ width: 32, ssim: 1, psnr: MAX_PSNR });
+  });
+});
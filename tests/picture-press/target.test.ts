@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Jimp from "jimp";
+import { searchQuality } from "@/server/lib/picture-press/target";
+import { ssim } from "@/server/lib/picture-press/similarity";
+import { convertImages } from "@/server/lib/picture-press/converter";
+
+// Deterministic noise, so JPEG sizes depend on quality
+function noisyImage(width: number, height: number): Jimp {
+  const image = new Jimp(width, height, 0xffffffff);
+  let seed = 42;
+  image.scan(0, 0, width, height, (x, y, idx) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    image.bitmap.data[idx] = (x * 4 + (seed % 64)) & 0xff;
+    image.bitmap.data[idx + 1] = (y * 4 + (seed % 32)) & 0xff;
+    image.bitmap.data[idx + 2] = seed & 0xff;
+  });
+  return image;
+}
+
+describe("Picture Press quality targets", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("searches the highest quality within a budget", async () => {
+    const tried: number[] = [];
+    const measure = async (quality: number) => {
+      tried.push(quality);
+      return { bytes: quality * 1000 };
+    };
+
+    expect(await searchQuality(measure, { maxBytes: 72_500 })).toMatchObject({
+      quality: 72,
+      bytes: 72_000,
+      met: true,
+    });
+    expect(tried.length).toBeLessThanOrEqual(8);
+
+    // Too small a budget falls back to the smallest file and is flagged
+    expect(await searchQuality(measure, { maxBytes: 500 })).toMatchObject({
+      quality: 1,
+      met: false,
+      attempts: 1,
+    });
+  });
+
+  it("searches the lowest quality above an SSIM floor", async () => {
+    const measure = async (quality: number) => ({
+      bytes: quality * 1000,
+      ssim: 0.9 + quality / 1100,
+    });
+
+    expect(await searchQuality(measure, { minSsim: 0.955 })).toMatchObject({
+      quality: 61,
+      met: true,
+    });
+    // The SSIM decides; the budget is only checked
+    expect(
+      await searchQuality(measure, { minSsim: 0.955, maxBytes: 40_000 }),
+    ).toMatchObject({ quality: 61, met: false });
+    expect(await searchQuality(measure, { minSsim: 0.995 })).toMatchObject({
+      quality: 100,
+      met: false,
+    });
+  });
+
+  it("scores identical images 1 and degraded ones lower", async () => {
+    const image = noisyImage(32, 32);
+    const degraded = await Jimp.read(
+      await image.clone().quality(10).getBufferAsync(Jimp.MIME_JPEG),
+    );
+
+    expect(ssim(image.bitmap, image.clone().bitmap)).toBeCloseTo(1, 6);
+    expect(ssim(image.bitmap, degraded.bitmap)).toBeLessThan(0.95);
+    expect(() => ssim(image.bitmap, new Jimp(8, 8).bitmap)).toThrow(
+      "Cannot compare",
+    );
+  });
+
+  it("tunes each JPEG and flags those that miss the target", async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picture-press-target-"));
+    const input = path.join(tempDir, "noise.png");
+    await fs.writeFile(
+      input,
+      await noisyImage(128, 128).getBufferAsync(Jimp.MIME_PNG),
+    );
+    const convert = (target: { maxBytes?: number; minSsim?: number }) =>
+      convertImages([input], path.join(tempDir!, "out"), {
+        outputFormat: "jpeg",
+        namingConvention: "keep-original",
+        engine: "jimp",
+        target,
+      });
+
+    const [budget] = await convert({ maxBytes: 8192 });
+    expect(budget?.quality).toBeGreaterThan(1);
+    expect(budget?.quality).toBeLessThan(100);
+    expect(budget?.target).toEqual({ met: true });
+    expect(budget?.convertedSize).toBeLessThanOrEqual(8192);
+
+    const [similar] = await convert({ minSsim: 0.95 });
+    expect(similar?.target?.met).toBe(true);
+    expect(similar?.ssim).toBeGreaterThanOrEqual(0.95);
+
+    // Even quality 1 is larger than this
+    const [missed] = await convert({ maxBytes: 1024 });
+    expect(missed).toMatchObject({ success: true, quality: 1 });
+    expect(missed?.target?.met).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import Jimp from "jimp";
+import {
+  checkAssetConformance,
+  detectAlpha,
+} from "@/server/lib/pixel-forge/conformance";
+
+describe("pixel-forge asset conformance", () => {
+  it("accepts files that match their platform spec", () => {
+    for (const asset of [
+      {
+        fileName: "favicon-32x32.png",
+        category: "favicon",
+        width: 32,
+        height: 32,
+        bytes: 900,
+      },
+      {
+        fileName: "apple-touch-icon.png",
+        category: "favicon",
+        width: 180,
+        height: 180,
+      },
+      { fileName: "og-image.png", category: "seo", width: 1200, height: 630 },
+      {
+        fileName: "twitter-image.png",
+        category: "seo",
+        width: 1200,
+        height: 600,
+      },
+      {
+        fileName: "mstile-310x150.png",
+        category: "platform",
+        width: 310,
+        height: 150,
+      },
+    ]) {
+      expect(checkAssetConformance(asset)).toEqual([]);
+    }
+  });
+
+  it("reports size, ratio, byte and alpha deviations", () => {
+    expect(
+      checkAssetConformance({
+        fileName: "favicon-32x32.png",
+        category: "favicon",
+        width: 30,
+        height: 32,
+        bytes: 200 * 1024,
+      }),
+    ).toEqual([
+      "Expected 32x32 from the file name, got 30x32",
+      "Favicon: 200 KB exceeds the 100 KB limit",
+    ]);
+    expect(
+      checkAssetConformance({
+        fileName: "apple-touch-icon.png",
+        category: "favicon",
+        width: 152,
+        height: 152,
+      }),
+    ).toEqual(["Apple touch icon: expected 180x180, got 152x152"]);
+    expect(
+      checkAssetConformance({
+        fileName: "og-image.jpg",
+        category: "seo",
+        width: 600,
+        height: 315,
+      }),
+    ).toEqual(["Open Graph: at least 1200x630 recommended, got 600x315"]);
+    expect(
+      checkAssetConformance({
+        fileName: "twitter-image.png",
+        category: "seo",
+        width: 1200,
+        height: 630,
+      }),
+    ).toEqual(["Twitter card: expected a 2:1 aspect ratio, got 1200x630"]);
+    expect(
+      checkAssetConformance({
+        fileName: "logo-transparent.png",
+        category: "transparent",
+        alpha: false,
+      }),
+    ).toEqual(["Transparent output has no alpha channel"]);
+  });
+
+  it("checks alpha on every output of a transparent run", () => {
+    const transparent = { transparent: true };
+    // Favicons and PWA icons are rewritten by the run, not only its category
+    expect(
+      checkAssetConformance(
+        {
+          fileName: "pwa-192x192.png",
+          category: "pwa",
+          width: 192,
+          height: 192,
+          alpha: false,
+        },
+        transparent,
+      ),
+    ).toEqual(["Transparent output has no alpha channel"]);
+    expect(
+      checkAssetConformance(
+        { fileName: "favicon-32x32.webp", category: "favicon", alpha: true },
+        transparent,
+      ),
+    ).toEqual([]);
+    // Opaque output is expected outside a transparent run
+    expect(
+      checkAssetConformance({
+        fileName: "pwa-192x192.png",
+        category: "pwa",
+        alpha: false,
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags JPEG output of a transparent run", () => {
+    expect(
+      checkAssetConformance(
+        { fileName: "og-image.jpg", category: "seo", alpha: false },
+        { transparent: true },
+      ),
+    ).toEqual(["Transparent output is a JPEG, which cannot carry alpha"]);
+  });
+
+  it("detects alpha channels from encoded headers", async () => {
+    const image = new Jimp(4, 4, 0xff000080);
+    expect(detectAlpha(await image.getBufferAsync(Jimp.MIME_PNG))).toBe(true);
+    expect(detectAlpha(await image.getBufferAsync(Jimp.MIME_JPEG))).toBe(false);
+    expect(detectAlpha(Buffer.from("<svg/>"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDarkAwareSvg,
+  darkFileName,
+  pairFaviconTags,
+} from "@/server/lib/pixel-forge/dark-mode";
+
+const LIGHT_SVG =
+  '<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32"><defs><linearGradient id="g"/></defs><rect fill="url(#g)" width="32" height="32"/></svg>';
+const DARK_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><circle id="g" r="10"/></svg>';
+
+describe("pixel-forge dark mode favicons", () => {
+  it("swaps in the dark SVG under prefers-color-scheme: dark", () => {
+    const svg = buildDarkAwareSvg({ lightSvg: LIGHT_SVG, darkSvg: DARK_SVG });
+    expect(svg).not.toContain("<?xml");
+    expect(svg).toContain(
+      "@media (prefers-color-scheme: dark){.pf-light{display:none}.pf-dark{display:inline}}",
+    );
+    // Sizes move into the viewBox so both artworks fill the wrapper
+    expect(svg).toContain('viewBox="0 0 32 32" class="pf-light"');
+    expect(svg).toContain('viewBox="0 0 64 64" class="pf-dark"');
+    // Ids are namespaced per document so the two "g"s do not clash
+    expect(svg).toContain('id="pf-l-g"');
+    expect(svg).toContain('fill="url(#pf-l-g)"');
+    expect(svg).toContain('id="pf-d-g"');
+  });
+
+  it("keeps a single light SVG visible with a plate or inverted colors", () => {
+    const plate = buildDarkAwareSvg({
+      lightSvg: LIGHT_SVG,
+      plateColor: "#f0f0f0",
+    });
+    expect(plate).toContain('<rect class="pf-dark"');
+    expect(plate).toContain('fill="#f0f0f0"');
+    expect(plate.indexOf("pf-dark")).toBeLessThan(
+      plate.indexOf('class="pf-light"'),
+    );
+    // Full size in light mode; shrunk onto the plate only in dark mode
+    expect(plate).not.toContain("transform=");
+    expect(plate).toMatch(
+      /@media \(prefers-color-scheme: dark\)\{[^}]*\}\.pf-plate\{transform:translate\(10px,10px\) scale\(0\.8\)\}\}/,
+    );
+
+    const inverted = buildDarkAwareSvg({
+      lightSvg: LIGHT_SVG,
+      style: "invert",
+    });
+    expect(inverted).toContain('<filter id="pf-invert"');
+    expect(inverted).toContain(".pf-light{filter:url(#pf-invert)}");
+    expect(inverted).not.toContain('<rect class="pf-dark"');
+  });
+
+  it("adds media queries to paired favicon links", () => {
+    const html = [
+      "<head>",
+      '  <link rel="icon" type="image/png" sizes="16x16" href="/i/favicon-16x16.png">',
+      '  <link rel="icon" type="image/png" sizes="32x32" href="/i/favicon-32x32.png">',
+      '  <link rel="icon" href="/i/favicon.ico">',
+      "</head>",
+    ].join("\n");
+    const out = pairFaviconTags(
+      html,
+      [darkFileName("favicon-16x16.png")],
+      "/i/",
+    );
+    expect(out.split("\n")).toEqual([
+      "<head>",
+      '  <link media="(prefers-color-scheme: light)" rel="icon" type="image/png" sizes="16x16" href="/i/favicon-16x16.png">',
+      '  <link media="(prefers-color-scheme: dark)" rel="icon" type="image/png" sizes="16x16" href="/i/favicon-16x16-dark.png">',
+      '  <link rel="icon" type="image/png" sizes="32x32" href="/i/favicon-32x32.png">',
+      '  <link rel="icon" href="/i/favicon.ico">',
+      "</head>",
+    ]);
+    expect(pairFaviconTags(html, [], "/i/")).toBe(html);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+
+const engineLog = vi.hoisted(() => [] as string[]);
+
+vi.mock("pixel-forge", () => ({
+  ImageProcessor: {
+    async checkImageMagick() {
+      return false;
+    },
+    setEngine(engine: string) {
+      engineLog.push(`set:${engine}`);
+    },
+  },
+}));
+
+import {
+  ensureImageEngine,
+  parseMagickFormats,
+  withImageEngine,
+} from "@/server/lib/pixel-forge/deps";
+
+describe("pixel-forge image engine", () => {
+  it("parses ImageMagick's format list by mode", () => {
+    const stdout = [
+      "   Format  Module    Mode  Description",
+      "-------------------------------------------------------------------------------",
+      "      AVIF  HEIC      rw+   AV1 Image File Format (1.17.6)",
+      "       PNG* PNG       rw-   Portable Network Graphics (libpng 1.6.43)",
+      "       PDF  PDF       r--   Portable Document Format",
+      "   YCbCrA* YCbCr     -w+   Raw Y, Cb, Cr, and alpha samples",
+    ].join("\n");
+    expect(parseMagickFormats(stdout)).toEqual({
+      read: ["avif", "pdf", "png"],
+      write: ["avif", "png"],
+    });
+  });
+
+  it("refuses a forced ImageMagick run when it is not installed", async () => {
+    await expect(ensureImageEngine("magick")).rejects.toThrow(
+      /ImageMagick was requested/,
+    );
+    await expect(ensureImageEngine("auto")).resolves.toMatchObject({
+      engine: "jimp",
+      available: false,
+    });
+    // Deciding never touches the process-wide engine
+    expect(engineLog).toEqual([]);
+  });
+
+  it("shares a leased engine and queues runs that want the other one", async () => {
+    const order: string[] = [];
+    let releaseFirst!: () => void;
+    const held = new Promise<void>((r) => (releaseFirst = r));
+
+    const a = withImageEngine("jimp", async () => {
+      order.push("a:start");
+      await held;
+      order.push("a:end");
+    });
+    const b = withImageEngine("magick", async () => {
+      order.push("b");
+    });
+    const c = withImageEngine("jimp", async () => {
+      order.push("c");
+    });
+    await new Promise((r) => setTimeout(r, 10));
+    // c waits behind b even though it wants the engine a holds
+    expect(order).toEqual(["a:start"]);
+
+    releaseFirst();
+    await Promise.all([a, b, c]);
+    expect(order).toEqual(["a:start", "a:end", "b", "c"]);
+    expect(engineLog).toEqual(["set:jimp", "set:magick", "set:jimp"]);
+  });
+});
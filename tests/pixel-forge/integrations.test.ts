@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { buildIntegrationSnippets } from "@/server/lib/pixel-forge/integrations";
+
+const BASE = "/api/pixel-forge/files/abc/generated/";
+
+const TAGS = [
+  '<meta charset="utf-8">',
+  '<meta name="description" content="Icons &amp; more">',
+  '<meta name="theme-color" content="#112233">',
+  `<link rel="icon" type="image/png" sizes="32x32" href="${BASE}favicon-32x32.png">`,
+  `<link rel="apple-touch-icon" sizes="180x180" href="${BASE}apple-touch-icon.png">`,
+  `<link rel="mask-icon" href="${BASE}safari-pinned-tab.svg" color="#112233">`,
+  `<link rel="manifest" href="${BASE}manifest.json">`,
+  '<meta name="apple-mobile-web-app-capable" content="yes">',
+  `<meta property="og:image" content="${BASE}og-image.png">`,
+  '<meta name="twitter:card" content="summary_large_image">',
+  '<meta http-equiv="X-Frame-Options" content="DENY">',
+];
+
+describe("pixel-forge integration snippets", () => {
+  const snippets = buildIntegrationSnippets({
+    tags: TAGS,
+    assetBase: BASE,
+    files: [
+      { fileName: "favicon-32x32.png", category: "favicon" },
+      { fileName: "manifest.json", category: "pwa" },
+    ],
+  });
+
+  it("rewrites session URLs to site-root paths", () => {
+    for (const code of Object.values(snippets)) {
+      expect(JSON.stringify(code)).not.toContain("/api/pixel-forge/files/");
+    }
+    expect(snippets.html).toContain('href="/favicon-32x32.png"');
+  });
+
+  it("builds a Next.js metadata export", () => {
+    const code = snippets.nextjs;
+    expect(code).toContain('import type { Metadata, Viewport } from "next";');
+    expect(code).toContain('description: "Icons & more"');
+    expect(code).toContain('manifest: "/manifest.json"');
+    expect(code).toMatch(/icon: \[\s+\{\s+url: "\/favicon-32x32\.png",/);
+    expect(code).toContain('rel: "mask-icon"');
+    expect(code).toContain("capable: true");
+    expect(code).toContain('themeColor: "#112233"');
+    // Handled by the framework or belongs in response headers
+    expect(code).not.toContain("charset");
+    expect(code).not.toContain("X-Frame-Options");
+  });
+
+  it("builds Astro and Vue head snippets", () => {
+    expect(snippets.astro).toContain(
+      '<link rel="manifest" href="/manifest.json">',
+    );
+    expect(snippets.astro).not.toContain("charset");
+    expect(snippets.vue).toContain("useHead({");
+    expect(snippets.vue).toContain('"og:image"');
+  });
+
+  it("maps files to their place in each project", () => {
+    expect(snippets.placement[0]).toEqual({
+      fileName: "favicon-32x32.png",
+      category: "favicon",
+      html: "/favicon-32x32.png",
+      nextjs: "public/favicon-32x32.png",
+      astro: "public/favicon-32x32.png",
+      vue: "public/favicon-32x32.png",
+    });
+  });
+});
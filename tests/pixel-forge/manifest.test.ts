@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyManifestEdits,
+  hasManifestEdits,
+  validateManifest,
+} from "@/server/lib/pixel-forge/manifest";
+
+const icons = [
+  { src: "/icons/pwa-192x192.png", sizes: "192x192", type: "image/png" },
+  { src: "/icons/pwa-512x512.png", sizes: "512x512", type: "image/png" },
+];
+
+describe("pixel-forge web app manifest", () => {
+  it("applies editor members over generated defaults", () => {
+    const manifest = applyManifestEdits(
+      { name: "Generated", display: "standalone", icons },
+      {
+        name: " ",
+        short_name: "Acme",
+        categories: ["Productivity", "productivity"],
+        shortcuts: [{ name: "New", url: "/new", description: "" }],
+        screenshots: [{ src: "/shots/wide.png", sizes: "1280x720" }],
+      },
+      ["shortcut-icon-96x96.png"],
+      "/icons/",
+    );
+    expect(manifest).toEqual({
+      name: "Generated",
+      short_name: "Acme",
+      display: "standalone",
+      icons,
+      categories: ["productivity"],
+      shortcuts: [
+        {
+          name: "New",
+          url: "/new",
+          icons: [
+            {
+              src: "/icons/shortcut-icon-96x96.png",
+              sizes: "96x96",
+              type: "image/png",
+            },
+          ],
+        },
+      ],
+      screenshots: [
+        { src: "/shots/wide.png", sizes: "1280x720", type: "image/png" },
+      ],
+    });
+    expect(hasManifestEdits({ name: "", categories: [] })).toBe(false);
+  });
+
+  it("accepts an installable manifest with only recommendations left", () => {
+    const issues = validateManifest({
+      name: "Acme Notes",
+      short_name: "Acme",
+      start_url: "/",
+      display: "standalone",
+      icons,
+      screenshots: [
+        { src: "/shots/wide.png", sizes: "1280x720", form_factor: "wide" },
+        { src: "/shots/phone.png", sizes: "720x1280" },
+      ],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports spec violations and installability problems", () => {
+    const issues = validateManifest(
+      {
+        short_name: "Acme Notes Pro Max",
+        start_url: "/",
+        scope: "/app/",
+        display: "browser",
+        orientation: "sideways",
+        categories: ["productivity", "notes"],
+        icons: [{ src: "/icons/pwa-192x192.png", sizes: "192x192" }],
+        shortcuts: [{ name: "", url: "https://other.example/new" }],
+        screenshots: [{ src: "/shots/a.png", sizes: "wide" }],
+      },
+      { baseUrl: "/icons/" },
+    );
+    const paths = (severity: string, kind: string) =>
+      issues
+        .filter((i) => i.severity === severity && i.kind === kind)
+        .map((i) => i.path);
+
+    expect(paths("error", "spec")).toEqual([
+      "scope",
+      "orientation",
+      "shortcuts[0].name",
+      "shortcuts[0].url",
+      "screenshots[0].sizes",
+    ]);
+    expect(paths("error", "installability")).toEqual(["display", "icons"]);
+    expect(paths("warning", "spec")).toEqual(["categories[1]"]);
+    expect(paths("warning", "installability")).toEqual([
+      "short_name",
+      "shortcuts[0].icons",
+      "screenshots",
+    ]);
+  });
+});
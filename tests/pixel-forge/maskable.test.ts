@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import Jimp from "jimp";
+import {
+  applyMaskableToManifest,
+  maskableContentSize,
+  renderMaskableIcons,
+} from "@/server/lib/pixel-forge/maskable";
+
+describe("pixel-forge maskable icons", () => {
+  it("sizes the logo box from padding and scale", () => {
+    expect(maskableContentSize(512)).toBe(307); // 20% default padding
+    expect(maskableContentSize(512, { padding: 10 })).toBe(410);
+    expect(maskableContentSize(512, { padding: 10, scale: 1.5 })).toBe(512);
+  });
+
+  it("re-renders maskable icons inside a padded, filled safe zone", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pf-maskable-"));
+    const source = path.join(dir, "logo.png");
+    await new Jimp(64, 64, 0xff0000ff).writeAsync(source);
+    await new Jimp(100, 100, 0x00000000).writeAsync(
+      path.join(dir, "pwa-maskable-100x100.png"),
+    );
+
+    const rendered = await renderMaskableIcons({
+      sourcePath: source,
+      outDir: dir,
+      files: ["pwa-192x192.png", "pwa-maskable-100x100.png"],
+      options: { padding: 25, background: "#00ff00" },
+    });
+    expect(rendered).toEqual(["pwa-maskable-100x100.png"]);
+
+    const icon = await Jimp.read(path.join(dir, "pwa-maskable-100x100.png"));
+    const rgba = (x: number, y: number) =>
+      Jimp.intToRGBA(icon.getPixelColor(x, y));
+    expect(rgba(10, 10)).toEqual({ r: 0, g: 255, b: 0, a: 255 });
+    expect(rgba(24, 50)).toEqual({ r: 0, g: 255, b: 0, a: 255 });
+    expect(rgba(50, 50)).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists maskable icons with purpose maskable in the manifest", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pf-maskable-"));
+    const manifestPath = path.join(dir, "manifest.json");
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify({
+        icons: [
+          { src: "/p/pwa-192x192.png", purpose: "maskable" },
+          { src: "/p/pwa-maskable-192x192.png" },
+        ],
+      }),
+    );
+
+    await applyMaskableToManifest(
+      manifestPath,
+      ["pwa-maskable-192x192.png", "pwa-maskable-512x512.png"],
+      "/p/",
+    );
+
+    const manifest = JSON.parse(await fs.readFile(manifestPath, "utf8")) as {
+      icons: Array<Record<string, string>>;
+    };
+    expect(manifest.icons).toEqual([
+      { src: "/p/pwa-192x192.png", purpose: "any" },
+      { src: "/p/pwa-maskable-192x192.png", purpose: "maskable" },
+      {
+        src: "/p/pwa-maskable-512x512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import Jimp from "jimp";
+import {
+  appendPlatformIconTags,
+  buildBrowserConfig,
+  renderPlatformIcons,
+  traceMaskSvg,
+} from "@/server/lib/pixel-forge/platform-icons";
+
+describe("pixel-forge Safari and Windows icons", () => {
+  it("traces the logo into a single black path, ignoring a flat backdrop", () => {
+    // Red 4x4 mark centered on an opaque white 8x8 backdrop
+    const logo = new Jimp(8, 8, 0xffffffff);
+    logo.scan(2, 2, 4, 4, (x, y) => logo.setPixelColor(0xff0000ff, x, y));
+
+    const svg = traceMaskSvg(logo, 8);
+    expect(svg).toMatch(
+      /^<svg [^>]*viewBox="0 0 8 8"><path d="[^"]+"\/><\/svg>/,
+    );
+    expect(svg).not.toMatch(/fill=|<image|<style/);
+    expect(svg.match(/M\d+ \d+h(\d+)/g)).toEqual([
+      "M2 2h4",
+      "M2 3h4",
+      "M2 4h4",
+      "M2 5h4",
+    ]);
+
+    // All backdrop: the square itself is the silhouette
+    expect(traceMaskSvg(new Jimp(4, 4, 0x336699ff), 4)).toContain("M0 0h4");
+  });
+
+  it("renders transparent tiles and a browserconfig for them", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pf-platform-"));
+    const source = path.join(dir, "logo.png");
+    await new Jimp(32, 32, 0x00ff00ff).writeAsync(source);
+
+    const files = await renderPlatformIcons({
+      sourcePath: source,
+      outDir: dir,
+    });
+    expect(files).toContain("safari-pinned-tab.svg");
+    const wide = await Jimp.read(path.join(dir, "mstile-310x150.png"));
+    expect([wide.bitmap.width, wide.bitmap.height]).toEqual([310, 150]);
+    expect(Jimp.intToRGBA(wide.getPixelColor(155, 75))).toMatchObject({
+      g: 255,
+      a: 255,
+    });
+    expect(Jimp.intToRGBA(wide.getPixelColor(10, 75)).a).toBe(0);
+
+    const xml = buildBrowserConfig("/icons/", "#0ea5e9");
+    expect(xml).toContain(
+      '<square150x150logo src="/icons/mstile-150x150.png"/>',
+    );
+    expect(xml).toContain("<TileColor>#0ea5e9</TileColor>");
+    expect(xml).not.toContain("mstile-144x144");
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("adds tile metas and a mask-icon link only when missing", () => {
+    const html =
+      '<head>\n  <link rel="mask-icon" href="/i/safari-pinned-tab.svg" color="#5bbad5">\n</head>';
+    const out = appendPlatformIconTags(html, "/i/", { tileColor: "#111111" });
+    expect(out.match(/rel="mask-icon"/g)).toHaveLength(1);
+    expect(out).toContain(
+      '<meta name="msapplication-config" content="/i/browserconfig.xml">',
+    );
+    expect(out).toContain(
+      '<meta name="msapplication-TileColor" content="#111111">',
+    );
+
+    const standalone = appendPlatformIconTags("", "/i/", {
+      maskColor: "#ff0000",
+    });
+    expect(standalone).toContain(
+      '<link rel="mask-icon" href="/i/safari-pinned-tab.svg" color="#ff0000">',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import {
+  categorizeAsset,
+  estimateAssetCount,
+  watchGeneratedFiles,
+} from "@/server/lib/pixel-forge/progress";
+
+describe("pixel-forge progress", () => {
+  it("estimates output counts per generation type", () => {
+    expect(estimateAssetCount(["favicon"])).toBe(8);
+    // web = favicon + pwa + seo; overlapping selections are not double counted
+    expect(estimateAssetCount(["web", "favicon"])).toBe(18);
+    expect(estimateAssetCount(["all"])).toBe(21);
+    expect(estimateAssetCount([], true)).toBe(2);
+    expect(estimateAssetCount(["all", "splash"])).toBe(61);
+    expect(estimateAssetCount(["splash"], true)).toBe(42);
+    expect(estimateAssetCount(["favicon", "platform"])).toBe(15);
+    expect(estimateAssetCount(["platform"], true)).toBe(9);
+  });
+
+  it("categorizes files like pixel-forge's result groups", () => {
+    expect(categorizeAsset("apple-touch-icon.png")).toBe("favicon");
+    expect(categorizeAsset("pwa-maskable-192x192.png")).toBe("pwa");
+    expect(categorizeAsset("og-image.png")).toBe("social");
+    expect(categorizeAsset("apple-startup-1290x2796.png")).toBe("splash");
+    expect(categorizeAsset("mstile-310x150.png")).toBe("platform");
+    expect(categorizeAsset("meta-tags.html")).toBeNull();
+  });
+
+  it("reports each new output file once and ignores scratch files", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pf-progress-"));
+    const seen: string[] = [];
+    const watcher = watchGeneratedFiles(dir, (f) => void seen.push(f), 20);
+
+    await fs.writeFile(path.join(dir, "favicon-16x16.png"), "a");
+    await fs.writeFile(path.join(dir, "favicon-temp.png"), "b");
+    await new Promise((r) => setTimeout(r, 100));
+    await fs.writeFile(path.join(dir, "manifest.json"), "{}");
+    await watcher.stop();
+
+    expect(seen.sort()).toEqual(["favicon-16x16.png", "manifest.json"]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
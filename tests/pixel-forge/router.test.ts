@@ -1,16 +1,43 @@
 import { describe, it, expect, vi } from "vitest";
 import path from "path";
+import crypto from "crypto";
 import { promises as fs } from "fs";
+import Jimp from "jimp";
 import { appRouter } from "@/server/api/root";
 import { createTRPCContext } from "@/server/api/trpc";
 import {
   createSession,
   ensureSession,
   saveBase64Upload,
+  writeProgress,
 } from "@/server/lib/pixel-forge/session";
 // Mock Prisma db to avoid real database usage in tests
 vi.mock("@/server/db", () => ({ db: {} }));
 
+// Lets a test hold the mocked pixel-forge run open (e.g. to cancel mid-run),
+// hold the engine probe a submission makes before queueing its job, hold a
+// ZIP while it is being built, or report a manifest that was never written
+const pfGate = vi.hoisted(() => ({
+  hold: null as Promise<void> | null,
+  probe: null as Promise<void> | null,
+  zip: null as Promise<void> | null,
+  lostManifest: false,
+}));
+
+vi.mock("@/server/lib/shared/zip-utils", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/server/lib/shared/zip-utils")>();
+  return {
+    ...actual,
+    createDirectoryZip: async (
+      ...args: Parameters<typeof actual.createDirectoryZip>
+    ) => {
+      if (pfGate.zip) await pfGate.zip;
+      return actual.createDirectoryZip(...args);
+    },
+  };
+});
+
 // Mock pixel-forge to avoid heavy work and external deps.
 // Provide both generateAssets and ImageProcessor used by ensureImageEngine().
 vi.mock("pixel-forge", () => {
@@ -21,6 +48,7 @@ vi.mock("pixel-forge", () => {
   const ImageProcessor = {
     _engine: "jimp" as "magick" | "jimp",
     async checkImageMagick() {
+      if (pfGate.probe) await pfGate.probe;
       // Do not depend on system ImageMagick in tests
       return false;
     },
@@ -30,7 +58,11 @@ vi.mock("pixel-forge", () => {
   };
   return {
     ImageProcessor,
-    generateAssets: async (src: string, opts: { outputDir: string }) => {
+    generateAssets: async (
+      src: string,
+      opts: { outputDir: string; urlPrefix: string },
+    ) => {
+      if (pfGate.hold) await pfGate.hold;
       // ensure outputDir
       await fs.mkdir(opts.outputDir, { recursive: true });
       // write a couple of image files (1x1 PNG)
@@ -42,7 +74,10 @@ vi.mock("pixel-forge", () => {
       const manifestPath = path.join(opts.outputDir, "site.webmanifest");
       await fs.writeFile(
         manifestPath,
-        JSON.stringify({ name: "Test" }),
+        JSON.stringify({
+          name: "Test",
+          icons: [{ src: `${opts.urlPrefix}favicon-16x16.png` }],
+        }),
         "utf8",
       );
       return {
@@ -51,9 +86,11 @@ vi.mock("pixel-forge", () => {
           social: ["social-card.png"],
         },
         images: [],
-        manifest: manifestPath,
+        manifest: pfGate.lostManifest
+          ? path.join(opts.outputDir, "missing.webmanifest")
+          : manifestPath,
         metaTags: {
-          html: '<meta name="theme-color" content="#000" />',
+          html: `<meta name="theme-color" content="#000" />\n<link rel="icon" href="${opts.urlPrefix}favicon-16x16.png" />`,
           tags: [],
         },
         summary: { ok: true },
@@ -133,6 +170,417 @@ describe("pixel-forge router", () => {
     expect(anyAsset.downloadUrl).toMatch(
       new RegExp(`/api/pixel-forge/files/${sessionId}/`),
     );
+    // The mock writes 1x1 images, so the favicon fails its named size
+    const favicon = result.assets.find(
+      (a) => a.fileName === "favicon-16x16.png",
+    );
+    expect(favicon?.warnings).toEqual([
+      "Expected 16x16 from the file name, got 1x1",
+    ]);
+  });
+
+  it("writes brand metadata into the manifest and meta tags", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.17"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["pwa"],
+        appName: "Acme",
+        description: "",
+        themeColor: "#0ea5e9",
+        backgroundColor: "#0b0b13",
+      },
+    });
+
+    expect(result.brand).toEqual({
+      appName: "Acme",
+      themeColor: "#0ea5e9",
+      backgroundColor: "#0b0b13",
+    });
+    expect(result.metaTags.html).toContain(
+      '<meta name="theme-color" content="#0ea5e9" />',
+    );
+    const manifest = JSON.parse(
+      await fs.readFile(
+        path.join(root, "generated", "site.webmanifest"),
+        "utf8",
+      ),
+    ) as Record<string, unknown>;
+    expect(manifest).toMatchObject({
+      name: "Acme",
+      short_name: "Acme",
+      theme_color: "#0ea5e9",
+      background_color: "#0b0b13",
+    });
+    const metaFile = await fs.readFile(
+      path.join(root, "generated", "meta-tags.html"),
+      "utf8",
+    );
+    expect(metaFile).toBe(result.metaTags.html);
+    expect(result.integrations.nextjs).toContain('themeColor: "#0ea5e9"');
+    expect(result.integrations.placement).toContainEqual(
+      expect.objectContaining({
+        fileName: "site.webmanifest",
+        nextjs: "public/site.webmanifest",
+      }),
+    );
+  });
+
+  it("rejects non-hex brand colors", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.18"),
+    });
+    const caller = appRouter.createCaller(ctx);
+    const { sessionId } = await caller.pixelForge.newSession();
+
+    await expect(
+      caller.pixelForge.generateAssets({
+        sessionId,
+        imagePath: "uploads/original-logo.png",
+        options: {
+          generationTypes: ["favicon"],
+          themeColor: "javascript:alert(1)",
+        },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("points downloadable meta tags and manifest at the publish base URL", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.24"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["favicon"],
+        publishBaseUrl: "https://cdn.example.com/icons",
+      },
+    });
+
+    expect(result.published.baseUrl).toBe("https://cdn.example.com/icons/");
+    // Previews keep session URLs
+    expect(result.metaTags.html).toContain(
+      `/api/pixel-forge/files/${sessionId}/generated/favicon-16x16.png`,
+    );
+    const publishedMeta = await fs.readFile(
+      path.join(root, "published", "meta-tags.html"),
+      "utf8",
+    );
+    expect(publishedMeta).toContain(
+      'href="https://cdn.example.com/icons/favicon-16x16.png"',
+    );
+    const publishedManifest = JSON.parse(
+      await fs.readFile(
+        path.join(root, "published", "site.webmanifest"),
+        "utf8",
+      ),
+    ) as { icons: Array<{ src: string }> };
+    expect(publishedManifest.icons[0]!.src).toBe(
+      "https://cdn.example.com/icons/favicon-16x16.png",
+    );
+    expect(result.published.metaTagsUrl).toBe(
+      `/api/pixel-forge/files/${sessionId}/published/meta-tags.html`,
+    );
+
+    await expect(
+      caller.pixelForge.generateAssets({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: {
+          generationTypes: ["favicon"],
+          publishBaseUrl: "javascript:alert(1)",
+        },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("applies manifest editor fields and reports manifest issues", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.26"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    // Shortcut icons are rendered from the upload, so it must decode
+    const logo = await new Jimp(8, 8, 0xff0000ff).getBufferAsync(Jimp.MIME_PNG);
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: logo.toString("base64"),
+      mimeType: "image/png",
+    });
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["favicon"],
+        manifest: {
+          short_name: "Acme",
+          start_url: "/app/?source=pwa",
+          scope: "/app/",
+          display: "standalone",
+          categories: ["Productivity"],
+          shortcuts: [{ name: "New note", url: "/app/new" }],
+        },
+      },
+    });
+
+    const manifest = JSON.parse(
+      await fs.readFile(
+        path.join(root, "generated", "site.webmanifest"),
+        "utf8",
+      ),
+    ) as Record<string, unknown> & {
+      shortcuts: Array<{ icons: Array<{ src: string; sizes: string }> }>;
+    };
+    expect(manifest).toMatchObject({
+      name: "Test",
+      short_name: "Acme",
+      start_url: "/app/?source=pwa",
+      scope: "/app/",
+      display: "standalone",
+      categories: ["productivity"],
+    });
+    expect(manifest.shortcuts[0]!.icons.map((i) => i.sizes)).toEqual([
+      "96x96",
+      "192x192",
+    ]);
+    expect(result.assets.map((a) => a.fileName)).toContain(
+      "shortcut-icon-96x96.png",
+    );
+    // The mock's only icon has no sizes, so the manifest is not installable
+    expect(result.manifestIssues).toContainEqual(
+      expect.objectContaining({ kind: "installability", path: "icons" }),
+    );
+
+    // Members browsers would ignore are rejected before a job is queued
+    await expect(
+      caller.pixelForge.generateAssets({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: {
+          generationTypes: ["favicon"],
+          manifest: { start_url: "/", scope: "/app/" },
+        },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    const { issues } = await caller.pixelForge.validateManifest({
+      manifest: {
+        shortcuts: [{ name: "Admin", url: "/admin" }],
+        scope: "/app/",
+      },
+    });
+    expect(issues).toContainEqual(
+      expect.objectContaining({ severity: "error", path: "shortcuts[0].url" }),
+    );
+  });
+
+  it("pairs light and dark favicons from a dark source upload", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.27"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const light = await caller.pixelForge.uploadImage({
+      fileName: "logo.png",
+      fileData: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const dark = await caller.pixelForge.uploadImage({
+      fileName: "logo.png",
+      fileData: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+      sessionId: light.sessionId,
+      variant: "dark",
+    });
+    expect(dark.storedPath).toBe(path.join("uploads", "dark-logo.png"));
+
+    const result = await caller.pixelForge.generateAssets({
+      sessionId: light.sessionId,
+      imagePath: light.storedPath,
+      darkImagePath: dark.storedPath,
+      options: { generationTypes: ["favicon"] },
+    });
+    expect(
+      result.assets
+        .filter((a) => a.category === "favicon")
+        .map((a) => a.fileName),
+    ).toEqual(["favicon-16x16.png", "favicon-16x16-dark.png"]);
+    const prefix = `/api/pixel-forge/files/${light.sessionId}/generated/`;
+    expect(result.metaTags.html).toContain(
+      `<link media="(prefers-color-scheme: light)" rel="icon" href="${prefix}favicon-16x16.png" />`,
+    );
+    expect(result.metaTags.html).toContain(
+      `<link media="(prefers-color-scheme: dark)" rel="icon" href="${prefix}favicon-16x16-dark.png" />`,
+    );
+  });
+
+  it("rejects source paths outside the session's uploads", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.32"),
+    });
+    const caller = appRouter.createCaller(ctx);
+    const light = await caller.pixelForge.uploadImage({
+      fileName: "logo.png",
+      fileData: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+
+    for (const darkImagePath of ["../../../etc/passwd", "session.json"]) {
+      await expect(
+        caller.pixelForge.generateAssets({
+          sessionId: light.sessionId,
+          imagePath: light.storedPath,
+          darkImagePath,
+          options: { generationTypes: ["favicon"] },
+        }),
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    }
+  });
+
+  it("leaves a failed progress state when generation fails", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.33"),
+    });
+    const caller = appRouter.createCaller(ctx);
+    const light = await caller.pixelForge.uploadImage({
+      fileName: "logo.png",
+      fileData: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    // Fails after pixel-forge ran, while branding its outputs
+    pfGate.lostManifest = true;
+    try {
+      await expect(
+        caller.pixelForge.generateAssets({
+          sessionId: light.sessionId,
+          imagePath: light.storedPath,
+          options: { generationTypes: ["favicon"] },
+        }),
+      ).rejects.toMatchObject({ code: "INTERNAL_SERVER_ERROR" });
+    } finally {
+      pfGate.lostManifest = false;
+    }
+    expect(
+      await caller.pixelForge.getGenerationProgress({
+        sessionId: light.sessionId,
+      }),
+    ).toMatchObject({ current: 100, total: 100, currentOperation: "Failed" });
+  });
+
+  it("renders Safari and Windows icons as their own opt-in group", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.28"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const logo = await new Jimp(8, 8, 0xff0000ff).getBufferAsync(Jimp.MIME_PNG);
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: logo.toString("base64"),
+      mimeType: "image/png",
+    });
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["platform"],
+        themeColor: "#0ea5e9",
+        publishBaseUrl: "/static/",
+      },
+    });
+
+    // pixel-forge is skipped for a platform-only run
+    expect(new Set(result.assets.map((a) => a.category))).toEqual(
+      new Set(["platform"]),
+    );
+    expect(result.assets.map((a) => a.fileName)).toContain(
+      "safari-pinned-tab.svg",
+    );
+    expect(result.metaTags.html).toContain(
+      'rel="mask-icon" href="/api/pixel-forge/files/',
+    );
+    expect(result.metaTags.html).toContain('color="#0ea5e9"');
+    const published = await fs.readFile(
+      path.join(root, "published", "browserconfig.xml"),
+      "utf8",
+    );
+    expect(published).toContain('src="/static/mstile-150x150.png"');
+  });
+
+  it("saves brand profiles and applies them during generation", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.19"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { profile } = await caller.pixelForge.saveBrandProfile({
+      name: "Test Brand",
+      appName: "Profiled",
+      themeColor: "#112233",
+    });
+    const listed = await caller.pixelForge.listBrandProfiles();
+    expect(listed.profiles.map((p) => p.id)).toContain(profile.id);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["favicon"],
+        brandProfileId: profile.id,
+        // explicit fields win over the profile
+        appName: "Override",
+      },
+    });
+    expect(result.brand).toEqual({
+      appName: "Override",
+      themeColor: "#112233",
+    });
+
+    const removed = await caller.pixelForge.deleteBrandProfile({
+      id: profile.id,
+    });
+    expect(removed.ok).toBe(true);
+    await expect(
+      caller.pixelForge.generateAssets({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: { generationTypes: ["favicon"], brandProfileId: profile.id },
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
   });
 
   it("rate limits generateAssets after 6 requests/min per ip/session", async () => {
@@ -172,6 +620,411 @@ describe("pixel-forge router", () => {
     });
   });
 
+  it("runs submitted generations as background jobs with persisted results", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.20"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+
+    const { jobId, status } = await caller.pixelForge.submitGeneration({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: { generationTypes: ["favicon"] },
+    });
+    expect(status).toBe("queued");
+
+    let job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    for (
+      let i = 0;
+      i < 20 && !["succeeded", "failed"].includes(job.status);
+      i++
+    ) {
+      await new Promise((r) => setTimeout(r, 50));
+      job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    }
+    expect(job.status).toBe("succeeded");
+    expect(job.result?.assets.length).toBeGreaterThan(0);
+
+    // State lives next to session.json so it survives the submitting request
+    const persisted = JSON.parse(
+      await fs.readFile(path.join(root, "jobs", `${jobId}.json`), "utf8"),
+    ) as { status: string };
+    expect(persisted.status).toBe("succeeded");
+  });
+
+  it("cancels a running generation and keeps its partial results", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.29"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+
+    let release!: () => void;
+    pfGate.hold = new Promise((r) => (release = r));
+    let jobId: string;
+    try {
+      ({ jobId } = await caller.pixelForge.submitGeneration({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: { generationTypes: ["favicon", "splash", "platform"] },
+      }));
+      const res = await caller.pixelForge.cancelGeneration({ sessionId });
+      expect(res).toEqual({ cancelled: true, jobId });
+    } finally {
+      pfGate.hold = null;
+      release();
+    }
+
+    let job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    for (let i = 0; i < 20 && job.status === "running"; i++) {
+      await new Promise((r) => setTimeout(r, 50));
+      job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    }
+    expect(job.status).toBe("cancelled");
+    expect(job.result?.cancelled).toBe(true);
+    // pixel-forge's files are kept; the steps after it were skipped
+    const names = job.result?.assets.map((a) => a.fileName) ?? [];
+    expect(names).toContain("favicon-16x16.png");
+    expect(names.some((n) => n.startsWith("apple-startup-"))).toBe(false);
+    expect(names.some((n) => n.startsWith("mstile-"))).toBe(false);
+
+    const zip = await caller.pixelForge.zipAssets({ sessionId });
+    expect(zip.size).toBeGreaterThan(0);
+
+    // Nothing left to stop
+    expect(await caller.pixelForge.cancelGeneration({ sessionId })).toEqual({
+      cancelled: false,
+    });
+  });
+
+  it("runs one generation per session and attaches duplicates to it", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.30"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const input = {
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: { generationTypes: ["favicon" as const] },
+    };
+
+    let release!: () => void;
+    pfGate.hold = new Promise((r) => (release = r));
+    let jobId: string;
+    try {
+      // Sent together; the lock holder is held before queueing its job until
+      // the other has arrived (past tRPC's up to 500 ms dev delay), so no job
+      // exists yet when it does. Either may win the lock.
+      let probed!: () => void;
+      pfGate.probe = new Promise((r) => (probed = r));
+      const submits = Promise.all([
+        caller.pixelForge.submitGeneration(input),
+        caller.pixelForge.submitGeneration(input),
+      ]);
+      await new Promise((r) => setTimeout(r, 800));
+      pfGate.probe = null;
+      probed();
+      const both = await submits;
+      jobId = both[0].jobId;
+      expect(both[1].jobId).toBe(jobId);
+      expect(both.map((r) => r.attached).sort()).toEqual([false, true]);
+      // Files are still being written
+      await expect(caller.pixelForge.zipAssets({ sessionId })).rejects.toThrow(
+        /still running/,
+      );
+    } finally {
+      pfGate.hold = null;
+      pfGate.probe = null;
+      release();
+    }
+
+    let job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    for (
+      let i = 0;
+      i < 20 && !["succeeded", "failed"].includes(job.status);
+      i++
+    ) {
+      await new Promise((r) => setTimeout(r, 50));
+      job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    }
+    expect(job.status).toBe("succeeded");
+
+    // The lock is released with the job; the next request starts a new one
+    const next = await caller.pixelForge.submitGeneration(input);
+    expect(next.attached).toBe(false);
+    expect(next.jobId).not.toBe(jobId);
+    await caller.pixelForge.cancelGeneration({ sessionId });
+  });
+
+  it("never builds a ZIP while a generation writes files", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.34"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const input = {
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: { generationTypes: ["favicon" as const] },
+    };
+    // Past tRPC's up to 500 ms dev delay, so the held call has started
+    const settle = () => new Promise((r) => setTimeout(r, 800));
+
+    let finishZip!: () => void;
+    let probed!: () => void;
+    try {
+      // A ZIP being built keeps generation out
+      pfGate.zip = new Promise((r) => (finishZip = r));
+      const zipping = caller.pixelForge.zipAssets({ sessionId });
+      await settle();
+      await expect(caller.pixelForge.submitGeneration(input)).rejects.toThrow(
+        /ZIP of this session is being built/,
+      );
+      pfGate.zip = null;
+      finishZip();
+      await zipping;
+
+      // So does a generation that holds its lock but has no job yet
+      pfGate.probe = new Promise((r) => (probed = r));
+      const submitting = caller.pixelForge.submitGeneration(input);
+      await settle();
+      await expect(caller.pixelForge.zipAssets({ sessionId })).rejects.toThrow(
+        /still running/,
+      );
+      pfGate.probe = null;
+      probed();
+      const { jobId } = await submitting;
+
+      let job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+      for (
+        let i = 0;
+        i < 20 && !["succeeded", "failed"].includes(job.status);
+        i++
+      ) {
+        await new Promise((r) => setTimeout(r, 50));
+        job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+      }
+      expect(job.status).toBe("succeeded");
+      const zip = await caller.pixelForge.zipAssets({ sessionId });
+      expect(zip.size).toBeGreaterThan(0);
+    } finally {
+      pfGate.zip = null;
+      pfGate.probe = null;
+      finishZip?.();
+      probed?.();
+    }
+  });
+
+  it("reports engines and refuses a forced engine that is not installed", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.31"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const info = await caller.system.engineInfo();
+    expect(info.jimp.formats.write).toEqual(["bmp", "gif", "jpeg", "png", "tiff"]);
+    expect(info.jimp.limits.maxResolutionInMP).toBeGreaterThan(0);
+    if (!info.magick.available) expect(info.defaultEngine).toBe("jimp");
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    await expect(
+      caller.pixelForge.submitGeneration({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: { generationTypes: ["favicon"], engine: "magick" },
+      }),
+    ).rejects.toThrow(/ImageMagick was requested/);
+    // Without ImageMagick the run falls back to Jimp, which has no WebP encoder
+    await expect(
+      caller.pixelForge.submitGeneration({
+        sessionId,
+        imagePath: path.relative(root, savedPath),
+        options: { generationTypes: ["favicon"], format: "webp" },
+      }),
+    ).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+      message: expect.stringMatching(/Jimp engine cannot write WEBP/),
+    });
+  });
+
+  it("writes a versioned recipe and replays it with runRecipe", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.25"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const { savedPath } = await saveBase64Upload({
+      sessionId,
+      fileName: "logo.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const result = await caller.pixelForge.generateAssets({
+      sessionId,
+      imagePath: path.relative(root, savedPath),
+      options: {
+        generationTypes: ["social"],
+        quality: 80,
+        appName: "Acme",
+        themeColor: "",
+      },
+    });
+
+    const recipe = JSON.parse(
+      await fs.readFile(path.join(root, "generated", "recipe.json"), "utf8"),
+    ) as typeof result.recipe;
+    expect(recipe).toEqual(result.recipe);
+    expect(recipe).toMatchObject({
+      version: 1,
+      source: {
+        fileName: "logo.png",
+        sha256: crypto
+          .createHash("sha256")
+          .update(Buffer.from(SMALL_PNG_BASE64, "base64"))
+          .digest("hex"),
+      },
+      // Blank brand fields are left out
+      options: { generationTypes: ["social"], quality: 80, appName: "Acme" },
+    });
+    expect(recipe.options).not.toHaveProperty("themeColor");
+
+    // Replay against a new source image in a fresh session
+    const next = await createSession();
+    const upload = await saveBase64Upload({
+      sessionId: next.id,
+      fileName: "logo-v2.png",
+      base64Data: SMALL_PNG_BASE64,
+      mimeType: "image/png",
+    });
+    const { jobId } = await caller.pixelForge.runRecipe({
+      sessionId: next.id,
+      imagePath: path.relative(next.root, upload.savedPath),
+      recipe,
+    });
+    let job = await caller.pixelForge.getGenerationJob({
+      sessionId: next.id,
+      jobId,
+    });
+    for (
+      let i = 0;
+      i < 20 && !["succeeded", "failed"].includes(job.status);
+      i++
+    ) {
+      await new Promise((r) => setTimeout(r, 50));
+      job = await caller.pixelForge.getGenerationJob({
+        sessionId: next.id,
+        jobId,
+      });
+    }
+    expect(job.status).toBe("succeeded");
+    expect(job.result?.brand).toEqual({ appName: "Acme" });
+    expect(job.result?.recipe.options).toEqual(recipe.options);
+    expect(job.result?.recipe.source.fileName).toBe("logo-v2.png");
+
+    await expect(
+      caller.pixelForge.runRecipe({
+        sessionId: next.id,
+        imagePath: path.relative(next.root, upload.savedPath),
+        recipe: { ...recipe, version: 2 as 1 },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("reports jobs orphaned by a server restart as failed", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.21"),
+    });
+    const caller = appRouter.createCaller(ctx);
+
+    const { id: sessionId, root } = await createSession();
+    const jobId = "11111111-1111-4111-8111-111111111111";
+    await fs.mkdir(path.join(root, "jobs"), { recursive: true });
+    await fs.writeFile(
+      path.join(root, "jobs", `${jobId}.json`),
+      JSON.stringify({
+        id: jobId,
+        kind: "pf:generate",
+        sessionId,
+        status: "running",
+        createdAt: new Date().toISOString(),
+      }),
+      "utf8",
+    );
+
+    const job = await caller.pixelForge.getGenerationJob({ sessionId, jobId });
+    expect(job.status).toBe("failed");
+    expect(job.error?.code).toBe("INTERRUPTED");
+
+    await expect(
+      caller.pixelForge.getGenerationJob({
+        sessionId,
+        jobId: "22222222-2222-4222-8222-222222222222",
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("streams progress updates to subscribers as they are written", async () => {
+    const ctx = await createTRPCContext({
+      headers: headersWithIP("203.0.113.22"),
+    });
+    const caller = appRouter.createCaller(ctx);
+    const { id: sessionId } = await createSession();
+
+    const stream = await caller.pixelForge.onGenerationProgress({ sessionId });
+    const it = stream[Symbol.asyncIterator]();
+
+    // First event is the current snapshot
+    const first = await it.next();
+    expect(first.value).toMatchObject({ currentOperation: "Idle" });
+
+    await writeProgress(sessionId, {
+      current: 42,
+      total: 100,
+      currentOperation: "Generating assets...",
+    });
+    const next = await it.next();
+    expect(next.value).toMatchObject({ current: 42, total: 100 });
+
+    await it.return?.(undefined);
+  });
+
   it("creates a ZIP bundle and returns a url", async () => {
     const ctx = await createTRPCContext({
       headers: headersWithIP("203.0.113.14"),
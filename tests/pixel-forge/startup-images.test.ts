@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import Jimp from "jimp";
+import {
+  appendStartupImageTags,
+  listStartupImages,
+  renderStartupImages,
+} from "@/server/lib/pixel-forge/startup-images";
+
+describe("pixel-forge iOS startup images", () => {
+  it("lists a portrait and landscape image per device", () => {
+    const images = listStartupImages();
+    expect(new Set(images.map((i) => i.fileName)).size).toBe(images.length);
+    expect(images).toContainEqual({
+      fileName: "apple-startup-1290x2796.png",
+      width: 1290,
+      height: 2796,
+      media:
+        "(device-width: 430px) and (device-height: 932px) and (-webkit-device-pixel-ratio: 3) and (orientation: portrait)",
+    });
+    expect(images).toContainEqual(
+      expect.objectContaining({
+        fileName: "apple-startup-2796x1290.png",
+        media: expect.stringContaining("(orientation: landscape)") as string,
+      }),
+    );
+  });
+
+  it("centers the logo on the background color at the chosen scale", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pf-startup-"));
+    const source = path.join(dir, "logo.png");
+    await new Jimp(64, 64, 0xff0000ff).writeAsync(source);
+
+    const [image] = await renderStartupImages({
+      sourcePath: source,
+      outDir: dir,
+      options: { scale: 0.5, background: "#0000ff" },
+      images: [
+        {
+          fileName: "apple-startup-100x200.png",
+          width: 100,
+          height: 200,
+          media: "",
+        },
+      ],
+    });
+    expect(image?.fileName).toBe("apple-startup-100x200.png");
+
+    const out = await Jimp.read(path.join(dir, "apple-startup-100x200.png"));
+    const rgba = (x: number, y: number) =>
+      Jimp.intToRGBA(out.getPixelColor(x, y));
+    expect([out.bitmap.width, out.bitmap.height]).toEqual([100, 200]);
+    // 50x50 logo box centered at (25..74, 75..124)
+    expect(rgba(50, 100)).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+    expect(rgba(50, 70)).toEqual({ r: 0, g: 0, b: 255, a: 255 });
+    expect(rgba(20, 100)).toEqual({ r: 0, g: 0, b: 255, a: 255 });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("adds startup image links to the meta tags", () => {
+    const images = listStartupImages().slice(0, 2);
+    const html =
+      '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta name="apple-mobile-web-app-capable" content="yes">\n</head>\n</html>\n';
+
+    const out = appendStartupImageTags(html, images, "/icons/");
+    expect(out.match(/rel="apple-touch-startup-image"/g)).toHaveLength(2);
+    expect(out).toContain(
+      `<link rel="apple-touch-startup-image" media="${images[0]!.media}" href="/icons/${images[0]!.fileName}">`,
+    );
+    expect(out.indexOf("apple-touch-startup-image")).toBeLessThan(
+      out.indexOf("</head>"),
+    );
+    expect(out.match(/apple-mobile-web-app-capable/g)).toHaveLength(1);
+
+    // Splash-only runs have no pixel-forge meta tags to extend
+    const standalone = appendStartupImageTags("", images, "/icons/");
+    expect(standalone).toContain("<head>");
+    expect(standalone).toContain(
+      '<meta name="apple-mobile-web-app-capable" content="yes">',
+    );
+    expect(appendStartupImageTags(html, [], "/icons/")).toBe(html);
+  });
+});